@@ -0,0 +1,46 @@
+// ============================================================================
+// Eval Runner Tests
+// Replays the bundled golden set through the mock provider, as CI does
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as registry from '../../services/providerRegistry.service';
+import { createMockProvider, loadMockFixtures } from '../../services/mockProvider.service';
+import { DEFAULT_GOLDEN_DIR, runEval } from '../../eval/run';
+import { compareToBaseline, renderMarkdown, EvalBaseline } from '../../eval/report';
+
+describe('Eval Runner', () => {
+  beforeEach(() => {
+    const provider = createMockProvider({
+      name: 'mock-eval',
+      fixtures: loadMockFixtures(path.join(DEFAULT_GOLDEN_DIR, 'mock-fixtures.json')),
+    });
+    jest.spyOn(registry, 'getProviderChain').mockReturnValue([provider]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should score every golden case', async () => {
+    const report = await runEval();
+
+    expect(report.case_count).toBeGreaterThan(0);
+    expect(report.failure_count).toBe(0);
+    expect(report.providers).toEqual(['mock-eval']);
+    expect(renderMarkdown(report)).toContain('## Cases with differences');
+  });
+
+  it('should not regress against the stored baseline', async () => {
+    const baseline = JSON.parse(
+      fs.readFileSync(path.join(DEFAULT_GOLDEN_DIR, 'baseline.json'), 'utf8')
+    ) as EvalBaseline;
+
+    const report = await runEval();
+    const regressions = compareToBaseline(report.metrics, baseline).filter((row) => row.regressed);
+
+    expect(report.metrics).toEqual(baseline.metrics);
+    expect(regressions).toEqual([]);
+  });
+});
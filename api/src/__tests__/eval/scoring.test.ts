@@ -0,0 +1,167 @@
+// ============================================================================
+// Eval Scoring Unit Tests
+// Tests for golden case scoring and baseline comparison
+// ============================================================================
+
+import { computeMetrics, scoreCase } from '../../eval/scoring';
+import { compareToBaseline } from '../../eval/report';
+import type { GoldenCase } from '../../eval/golden';
+import type { Identification, ScanResult } from '../../types';
+
+describe('Eval Scoring', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const goldenCase: GoldenCase = {
+    id: 'case-1',
+    mode: 'comprehensive',
+    images: ['case-1.png'],
+    expected: {
+      tank_health: 'Good',
+      identifications: [
+        { name: 'Ocellaris Clownfish', aliases: ['Clownfish'], is_problem: false, severity: null },
+        { name: 'Aiptasia', is_problem: true, severity: 'medium' },
+        { name: 'Cyanobacteria', is_problem: true, severity: 'low' },
+      ],
+    },
+  };
+
+  const identification = (
+    name: string,
+    isProblem = false,
+    severity: Identification['severity'] = null
+  ): Identification => ({
+    name,
+    category: 'other',
+    confidence: 0.9,
+    is_problem: isProblem,
+    severity,
+    description: name,
+  });
+
+  const result = (identifications: Identification[], tankHealth: ScanResult['tank_health'] = 'Good'): ScanResult => ({
+    request_id: 'eval-case-1',
+    tank_health: tankHealth,
+    summary: '',
+    identifications,
+    recommendations: [],
+    usage: { requests_today: 0, daily_limit: 0, reset_at: '' },
+  });
+
+  // -------------------------------------------------------------------------
+  // scoreCase
+  // -------------------------------------------------------------------------
+
+  describe('scoreCase', () => {
+    it('should match names by alias, ignoring case and punctuation', () => {
+      const score = scoreCase(
+        goldenCase,
+        result([
+          identification('clown-fish'),
+          identification('AIPTASIA', true, 'medium'),
+          identification('Cyanobacteria', true, 'low'),
+        ])
+      );
+
+      expect(score.counts.matched).toBe(3);
+      expect(score.missed).toEqual([]);
+      expect(score.unexpected).toEqual([]);
+    });
+
+    it('should report missed, unexpected and severity mismatches', () => {
+      const score = scoreCase(
+        goldenCase,
+        result([identification('Clownfish'), identification('Aiptasia', true, 'high'), identification('Royal Gramma')], 'Fair')
+      );
+
+      expect(score.missed).toEqual(['Cyanobacteria']);
+      expect(score.unexpected).toEqual(['Royal Gramma']);
+      expect(score.severityMismatches).toEqual([{ name: 'Aiptasia', expected: 'medium', actual: 'high' }]);
+      expect(score.counts.tankHealthAgreed).toBe(false);
+    });
+
+    it('should score a failed analysis as an empty result', () => {
+      const score = scoreCase(goldenCase, undefined);
+
+      expect(score.counts).toMatchObject({ matched: 0, predicted: 0, expected: 3, tankHealthAgreed: false });
+      expect(score.missed).toHaveLength(3);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // computeMetrics
+  // -------------------------------------------------------------------------
+
+  describe('computeMetrics', () => {
+    it('should compute precision, recall and agreement from summed counts', () => {
+      const perfect = scoreCase(
+        goldenCase,
+        result([
+          identification('Clownfish'),
+          identification('Aiptasia', true, 'medium'),
+          identification('Cyanobacteria', true, 'low'),
+        ])
+      );
+      const partial = scoreCase(
+        goldenCase,
+        result([identification('Clownfish'), identification('Aiptasia', false, null), identification('Royal Gramma')], 'Fair')
+      );
+
+      const metrics = computeMetrics([perfect.counts, partial.counts]);
+
+      expect(metrics.species_precision).toBeCloseTo(5 / 6, 4);
+      expect(metrics.species_recall).toBeCloseTo(5 / 6, 4);
+      expect(metrics.problem_precision).toBe(1);
+      expect(metrics.problem_recall).toBe(0.5);
+      expect(metrics.severity_agreement).toBeCloseTo(2 / 3, 4);
+      expect(metrics.tank_health_agreement).toBe(0.5);
+    });
+
+    it('should return null for metrics with nothing to measure', () => {
+      const metrics = computeMetrics([]);
+
+      expect(metrics.species_precision).toBeNull();
+      expect(metrics.tank_health_agreement).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // compareToBaseline
+  // -------------------------------------------------------------------------
+
+  describe('compareToBaseline', () => {
+    const baseline = {
+      golden_set: 'test',
+      generated_at: '2026-01-01T00:00:00.000Z',
+      providers: ['mock'],
+      metrics: {
+        species_precision: 0.9,
+        species_recall: 0.8,
+        species_f1: 0.85,
+        problem_precision: 1,
+        problem_recall: 0.5,
+        severity_agreement: null,
+        tank_health_agreement: 0.75,
+      },
+    };
+
+    it('should flag drops beyond the tolerance only', () => {
+      const comparison = compareToBaseline(
+        { ...baseline.metrics, species_precision: 0.89, species_recall: 0.7, severity_agreement: 0.5 },
+        baseline,
+        0.02
+      );
+      const regressed = comparison.filter((row) => row.regressed).map((row) => row.metric);
+
+      expect(regressed).toEqual(['species_recall']);
+      expect(comparison.find((row) => row.metric === 'species_recall')?.delta).toBe(-0.1);
+    });
+
+    it('should flag metrics that can no longer be measured', () => {
+      const comparison = compareToBaseline({ ...baseline.metrics, tank_health_agreement: null }, baseline);
+
+      expect(comparison.find((row) => row.metric === 'tank_health_agreement')?.regressed).toBe(true);
+    });
+  });
+});
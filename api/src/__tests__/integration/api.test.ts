@@ -5,6 +5,11 @@
 
 import request from 'supertest';
 import app from '../../index';
+import config from '../../config';
+import * as registry from '../../services/providerRegistry.service';
+import { getCircuitState } from '../../services/circuitBreaker.service';
+import { getKeyPoolMetrics } from '../../services/keyPool.service';
+import { createMockProvider, MockProvider } from '../../services/mockProvider.service';
 
 describe('API Integration Tests', () => {
   // -------------------------------------------------------------------------
@@ -285,6 +290,898 @@ describe('API Integration Tests', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Analyze Endpoint Tests (mock providers)
+  // -------------------------------------------------------------------------
+
+  describe('POST /v1/analyze', () => {
+    let primary: MockProvider;
+    let fallback: MockProvider;
+    let order: jest.ReplaceProperty<string[]>;
+    let deviceCounter = 0;
+
+    const registerDevice = async (): Promise<string> => {
+      deviceCounter++;
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: `550e8400-e29b-41d4-a716-${String(446655440200 + deviceCounter).padStart(12, '0')}`,
+          platform: 'android',
+          app_version: '1.0.0',
+          app_secret: 'test-android-secret',
+        });
+      return response.body.access_token as string;
+    };
+
+    // Distinct image data per call so the image cache never short-circuits providers
+    const analyze = async (token: string, seed: string) =>
+      request(app)
+        .post('/v1/analyze')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          image: { data: Buffer.from(`tank-${seed}`).toString('base64'), mime_type: 'image/jpeg' },
+          mode: 'comprehensive',
+        });
+
+    beforeEach(() => {
+      primary = createMockProvider({ name: 'mock-primary', useKeyPool: true });
+      fallback = createMockProvider({ name: 'mock-fallback' });
+      registry.registerProvider(primary);
+      registry.registerProvider(fallback);
+      order = jest.replaceProperty(config.providers, 'order', ['mock-primary', 'mock-fallback']);
+    });
+
+    afterEach(() => {
+      order.restore();
+      registry.unregisterProvider('mock-primary');
+      registry.unregisterProvider('mock-fallback');
+    });
+
+    it('should return the canned result from the primary provider', async () => {
+      const token = await registerDevice();
+
+      const response = await analyze(token, 'success');
+
+      expect(response.status).toBe(200);
+      expect(response.body.tank_health).toBe('Good');
+      expect(response.body.identifications).toHaveLength(2);
+      expect(response.body.identifications[0]).toMatchObject({
+        species_id: 'ocellaris-clownfish',
+        species: { scientific_name: 'Amphiprion ocellaris', reef_safe: 'yes' },
+      });
+      // Pests are not in the catalog
+      expect(response.body.identifications[1].species_id).toBeNull();
+      expect(primary.getCallCount()).toBe(1);
+      expect(fallback.getCallCount()).toBe(0);
+    });
+
+    it('should fall back and cool down the key when the primary is rate limited', async () => {
+      primary.configure({ behavior: 'rate_limited' });
+      const token = await registerDevice();
+
+      const response = await analyze(token, 'rate-limited');
+      const metrics = await getKeyPoolMetrics();
+
+      expect(response.status).toBe(200);
+      expect(fallback.getCallCount()).toBe(1);
+      expect(metrics.keys_in_cooldown).toBe(1);
+    });
+
+    it('should open the primary circuit after repeated failures', async () => {
+      primary.configure({ behavior: 'error' });
+      const threshold = config.circuitBreaker.default.failureThreshold;
+
+      for (let i = 0; i < threshold; i++) {
+        const response = await analyze(await registerDevice(), `failure-${i}`);
+        expect(response.status).toBe(200);
+      }
+
+      expect((await getCircuitState('mock-primary')).state).toBe('OPEN');
+
+      await analyze(await registerDevice(), 'after-open');
+
+      expect(primary.getCallCount()).toBe(threshold);
+      expect(fallback.getCallCount()).toBe(threshold + 1);
+    });
+
+    it('should return 503 when every provider fails', async () => {
+      primary.configure({ behavior: 'malformed' });
+      fallback.configure({ behavior: 'timeout', timeoutMs: 10 });
+      const token = await registerDevice();
+
+      const response = await analyze(token, 'all-fail');
+
+      expect(response.status).toBe(503);
+      expect(response.body.error.code).toBe('AI_UNAVAILABLE');
+    });
+
+    it('should reject unsupported languages', async () => {
+      const token = await registerDevice();
+
+      const response = await request(app)
+        .post('/v1/analyze')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          image: { data: Buffer.from('tank-language').toString('base64'), mime_type: 'image/jpeg' },
+          mode: 'comprehensive',
+          options: { language: 'xx' },
+        });
+
+      expect(response.status).toBe(400);
+      expect(primary.getCallCount()).toBe(0);
+    });
+
+    it('should return readings for test kit photos', async () => {
+      const token = await registerDevice();
+
+      const response = await request(app)
+        .post('/v1/analyze')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          image: { data: Buffer.from('tank-test-kit').toString('base64'), mime_type: 'image/jpeg' },
+          mode: 'test_kit_read',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.readings).toEqual([
+        expect.objectContaining({ parameter: 'alkalinity', value: 8.2, unit: 'dKH' }),
+        expect.objectContaining({ parameter: 'calcium', value: 430, unit: 'ppm' }),
+      ]);
+      expect(response.body.saved_parameters).toEqual([]);
+      expect(response.body.identifications).toBeUndefined();
+    });
+
+    it('should return a differential diagnosis with reef-unsafe steps flagged', async () => {
+      const token = await registerDevice();
+
+      const response = await request(app)
+        .post('/v1/analyze')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          image: { data: Buffer.from('tank-disease').toString('base64'), mime_type: 'image/jpeg' },
+          mode: 'disease_dx',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.urgency).toBe('high');
+      expect(response.body.differential[0].condition).toBe('Marine ich (Cryptocaryon irritans)');
+      expect(response.body.treatment_plan[1]).toMatchObject({ medication_class: 'copper', reef_safe: false });
+      expect(response.body.treatment_plan[1].warning).toContain('quarantine tank');
+      expect(response.body.disclaimer).toContain('NOT reef safe');
+    });
+
+    it('should require a tank and test kit mode to save readings', async () => {
+      const token = await registerDevice();
+      const send = (body: Record<string, unknown>) =>
+        request(app)
+          .post('/v1/analyze')
+          .set('Authorization', `Bearer ${token}`)
+          .send({
+            image: { data: Buffer.from('tank-save').toString('base64'), mime_type: 'image/jpeg' },
+            options: { save_readings: true },
+            ...body,
+          });
+
+      const withoutTank = await send({ mode: 'test_kit_read' });
+      const wrongMode = await send({ mode: 'comprehensive', tank_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7' });
+
+      expect(withoutTank.status).toBe(400);
+      expect(withoutTank.body.error.details.errors).toEqual([
+        { field: 'tank_id', message: 'save_readings requires a tank_id' },
+      ]);
+      expect(wrongMode.status).toBe(400);
+      expect(wrongMode.body.error.details.errors[0].field).toBe('options.save_readings');
+      expect(primary.getCallCount()).toBe(0);
+    });
+
+    it('should answer 404 for an unknown tank before streaming or queueing', async () => {
+      const token = await registerDevice();
+      const send = (path: string) =>
+        request(app)
+          .post(path)
+          .set('Authorization', `Bearer ${token}`)
+          .send({
+            image: { data: Buffer.from(`tank-${path}`).toString('base64'), mime_type: 'image/jpeg' },
+            mode: 'comprehensive',
+            tank_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+          });
+
+      const streamed = await send('/v1/analyze/stream');
+      const queued = await send('/v1/analyze/jobs');
+
+      expect(streamed.status).toBe(404);
+      expect(streamed.headers['content-type']).toContain('application/json');
+      expect(streamed.body.error).toEqual({ code: 'INVALID_REQUEST', message: 'Tank not found' });
+      expect(queued.status).toBe(404);
+      expect(primary.getCallCount()).toBe(0);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Feedback Endpoint Tests
+  // -------------------------------------------------------------------------
+
+  describe('POST /v1/analyze/:request_id/feedback', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: '550e8400-e29b-41d4-a716-446655440300',
+          platform: 'ios',
+          app_version: '1.0.0',
+          app_secret: 'test-ios-secret',
+        });
+      accessToken = response.body.access_token;
+    });
+
+    it('should reject unauthenticated feedback', async () => {
+      const response = await request(app).post('/v1/analyze/req-1/feedback').send({ rating: 4 });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should require a corrected name for renamed identifications', async () => {
+      const response = await request(app)
+        .post('/v1/analyze/req-1/feedback')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ identifications: [{ index: 0, name: 'Damselfish', verdict: 'renamed' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors[0].field).toBe('identifications.0.corrected_name');
+    });
+
+    it('should return 404 for unknown requests', async () => {
+      const response = await request(app)
+        .post('/v1/analyze/req-unknown/feedback')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ rating: 2 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Scan History Tests
+  // -------------------------------------------------------------------------
+
+  describe('Scan History', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: '550e8400-e29b-41d4-a716-446655440400',
+          platform: 'ios',
+          app_version: '1.0.0',
+          app_secret: 'test-ios-secret',
+        });
+      accessToken = response.body.access_token;
+    });
+
+    it('should reject unauthenticated requests', async () => {
+      const response = await request(app).get('/v1/scans');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list an empty history', async () => {
+      const response = await request(app)
+        .get('/v1/scans?mode=fish_id&from=2026-01-01&to=2026-01-31')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ scans: [], next_cursor: null });
+    });
+
+    it('should validate filters', async () => {
+      const response = await request(app)
+        .get('/v1/scans?tank_health=Great&limit=500')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { field: string }) => e.field)).toEqual([
+        'limit',
+        'tank_health',
+      ]);
+    });
+
+    it('should return 404 for unknown scans', async () => {
+      const get = await request(app).get('/v1/scans/req-unknown').set('Authorization', `Bearer ${accessToken}`);
+      const remove = await request(app).delete('/v1/scans/req-unknown').set('Authorization', `Bearer ${accessToken}`);
+
+      expect(get.status).toBe(404);
+      expect(remove.status).toBe(404);
+    });
+
+    it('should validate scan comparisons', async () => {
+      const response = await request(app)
+        .post('/v1/scans/compare')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ request_ids: ['req-a', 'req-a'], visual_diff: true });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { field: string }) => e.field)).toEqual([
+        'request_ids',
+        'images',
+      ]);
+    });
+
+    it('should return 404 when comparing unknown scans', async () => {
+      const response = await request(app)
+        .post('/v1/scans/compare')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ request_ids: ['req-unknown-1', 'req-unknown-2'] });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toBe('Scan not found: req-unknown-1, req-unknown-2');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Tank Tests
+  // -------------------------------------------------------------------------
+
+  describe('Tanks', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: '550e8400-e29b-41d4-a716-446655440500',
+          platform: 'ios',
+          app_version: '1.0.0',
+          app_secret: 'test-ios-secret',
+        });
+      accessToken = response.body.access_token;
+    });
+
+    it('should reject unauthenticated requests', async () => {
+      const response = await request(app).get('/v1/tanks');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list no tanks for a new device', async () => {
+      const response = await request(app).get('/v1/tanks').set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tanks: [] });
+    });
+
+    it('should validate new tanks', async () => {
+      const response = await request(app)
+        .post('/v1/tanks')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Display', tank_type: 'pond', setup_date: '2999-01-01', photo_url: 'http://example.com/a.jpg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { field: string }) => e.field)).toEqual([
+        'tank_type',
+        'setup_date',
+        'photo_url',
+      ]);
+    });
+
+    it('should reject empty updates', async () => {
+      const response = await request(app)
+        .patch('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for unknown tanks', async () => {
+      const get = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7')
+        .set('Authorization', `Bearer ${accessToken}`);
+      const remove = await request(app).delete('/v1/tanks/not-a-uuid').set('Authorization', `Bearer ${accessToken}`);
+
+      expect(get.status).toBe(404);
+      expect(remove.status).toBe(404);
+    });
+
+    it('should return 404 for the livestock of unknown tanks', async () => {
+      const response = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/livestock')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should validate livestock entries', async () => {
+      const response = await request(app)
+        .post('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/livestock')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Aiptasia', category: 'pest', count: 0 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { field: string }) => e.field)).toEqual([
+        'category',
+        'count',
+      ]);
+    });
+
+    it('should validate water readings', async () => {
+      const response = await request(app)
+        .post('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/parameters')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ readings: { salinity: 35, nitrite: 0.1 } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { message: string }) => e.message)).toEqual(
+        expect.arrayContaining(['salinity must be between 1 and 1.04 SG'])
+      );
+    });
+
+    it('should validate water reading queries', async () => {
+      const response = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/parameters?parameter=ammonia')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for the water parameters of unknown tanks', async () => {
+      const response = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/parameters/summary')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should validate health score queries', async () => {
+      const response = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/health?limit=5000')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for the health of unknown tanks', async () => {
+      const scores = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/health')
+        .set('Authorization', `Bearer ${accessToken}`);
+      const digest = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/health/digest')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(scores.status).toBe(404);
+      expect(digest.status).toBe(404);
+    });
+
+    it('should validate maintenance tasks', async () => {
+      const response = await request(app)
+        .post('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/tasks')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ title: ' ', kind: 'vacuum', interval_days: 0 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { field: string }) => e.field)).toEqual([
+        'title',
+        'kind',
+        'interval_days',
+      ]);
+    });
+
+    it('should return 404 for the tasks of unknown tanks', async () => {
+      const list = await request(app)
+        .get('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/tasks?status=overdue')
+        .set('Authorization', `Bearer ${accessToken}`);
+      const complete = await request(app)
+        .post('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/tasks/12/complete')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({});
+      const fromRecommendation = await request(app)
+        .post('/v1/tanks/7c9e6679-7425-40de-944b-e07fc1f90ae7/tasks/from-recommendation')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ request_id: 'req-1', index: 0 });
+
+      expect(list.status).toBe(404);
+      expect(complete.status).toBe(404);
+      expect(fromRecommendation.status).toBe(404);
+    });
+
+    it('should reject analyze requests with a malformed tank_id', async () => {
+      const response = await request(app)
+        .post('/v1/analyze')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          image: { data: 'aW1hZ2UtZGF0YQ==', mime_type: 'image/jpeg' },
+          mode: 'comprehensive',
+          tank_id: 'display',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors[0].field).toBe('tank_id');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Notification Tests
+  // -------------------------------------------------------------------------
+
+  describe('Notifications', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: '550e8400-e29b-41d4-a716-446655440800',
+          platform: 'android',
+          app_version: '1.0.0',
+          app_secret: 'test-android-secret',
+        });
+      accessToken = response.body.access_token;
+    });
+
+    it('should reject unauthenticated requests', async () => {
+      const response = await request(app).put('/v1/notifications/token').send({ token: 'fcm-token-1' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should register and remove push tokens', async () => {
+      const empty = await request(app)
+        .put('/v1/notifications/token')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ token: ' ' });
+      const registered = await request(app)
+        .put('/v1/notifications/token')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ token: 'fcm-token-1' });
+      const removed = await request(app)
+        .delete('/v1/notifications/token')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(empty.status).toBe(400);
+      expect(registered.status).toBe(204);
+      expect(removed.status).toBe(204);
+    });
+
+    it('should return the default preferences', async () => {
+      const response = await request(app)
+        .get('/v1/notifications/preferences')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.preferences).toEqual({
+        job_complete: true,
+        weekly_digest: true,
+        maintenance_due: true,
+        quota_reset: false,
+        parameter_alert: true,
+      });
+    });
+
+    it('should reject unknown or missing categories', async () => {
+      const unknown = await request(app)
+        .patch('/v1/notifications/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ weekly_digest: false, promotions: true });
+      const missing = await request(app)
+        .patch('/v1/notifications/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({});
+
+      expect(unknown.status).toBe(400);
+      expect(missing.status).toBe(400);
+    });
+
+    it('should list no notifications for a new device', async () => {
+      const response = await request(app)
+        .get('/v1/notifications?limit=20')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ notifications: [] });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Species Catalog Tests
+  // -------------------------------------------------------------------------
+
+  describe('Species Catalog', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: '550e8400-e29b-41d4-a716-446655440600',
+          platform: 'ios',
+          app_version: '1.0.0',
+          app_secret: 'test-ios-secret',
+        });
+      accessToken = response.body.access_token;
+    });
+
+    it('should reject unauthenticated requests', async () => {
+      const response = await request(app).get('/v1/species');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should search the catalog', async () => {
+      const response = await request(app)
+        .get('/v1/species?category=fish&q=clown')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.species.map((entry: { id: string }) => entry.id)).toEqual([
+        'maroon-clownfish',
+        'ocellaris-clownfish',
+        'percula-clownfish',
+      ]);
+    });
+
+    it('should validate the category', async () => {
+      const response = await request(app)
+        .get('/v1/species?category=algae')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors[0].field).toBe('category');
+    });
+
+    it('should return a care sheet by id', async () => {
+      const found = await request(app)
+        .get('/v1/species/yellow-tang')
+        .set('Authorization', `Bearer ${accessToken}`);
+      const missing = await request(app)
+        .get('/v1/species/purple-unicorn')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(found.status).toBe(200);
+      expect(found.body).toMatchObject({ common_name: 'Yellow Tang', min_tank_liters: 380 });
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Compatibility Tests
+  // -------------------------------------------------------------------------
+
+  describe('POST /v1/compatibility', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/v1/auth/register')
+        .send({
+          device_uuid: '550e8400-e29b-41d4-a716-446655440700',
+          platform: 'ios',
+          app_version: '1.0.0',
+          app_secret: 'test-ios-secret',
+        });
+      accessToken = response.body.access_token;
+    });
+
+    it('should reject unauthenticated requests', async () => {
+      const response = await request(app).post('/v1/compatibility').send({});
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should require a candidate and a tank or livestock list', async () => {
+      const response = await request(app)
+        .post('/v1/compatibility')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ candidate: {} });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors.map((e: { field: string }) => e.field)).toEqual([
+        'candidate',
+        'tank_id',
+      ]);
+    });
+
+    it('should report conflicts with a livestock list', async () => {
+      const response = await request(app)
+        .post('/v1/compatibility')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          candidate: { name: 'Coral Beauty' },
+          livestock: [{ name: 'Duncan Coral' }, { name: 'Royal Gramma' }],
+          volume_liters: 300,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        candidate: { id: 'coral-beauty-angelfish' },
+        verdict: 'caution',
+        conflicts: [{ type: 'reef_safety', severity: 'caution', species_id: 'duncan-coral' }],
+        volume_liters: 300,
+      });
+    });
+
+    it('should return 404 for candidates outside the catalog', async () => {
+      const response = await request(app)
+        .post('/v1/compatibility')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ candidate: { species_id: 'purple-unicorn' }, livestock: [] });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toBe('purple-unicorn is not in the species catalog');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Admin Prompt Tests
+  // -------------------------------------------------------------------------
+
+  describe('Admin Prompts', () => {
+    const adminKey = 'test-admin-key-at-least-32-characters';
+    let apiKeys: jest.ReplaceProperty<typeof config.admin.apiKeys>;
+
+    beforeEach(() => {
+      apiKeys = jest.replaceProperty(config.admin, 'apiKeys', [{ name: 'alice', key: adminKey }]);
+    });
+
+    afterEach(() => {
+      apiKeys.restore();
+    });
+
+    it('should reject requests without a valid admin key', async () => {
+      const missing = await request(app).get('/v1/admin/prompts');
+      const invalid = await request(app).get('/v1/admin/prompts').set('X-Admin-Key', 'wrong');
+
+      expect(missing.status).toBe(401);
+      expect(invalid.status).toBe(401);
+    });
+
+    it('should list the default prompt for every mode', async () => {
+      const response = await request(app).get('/v1/admin/prompts').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.prompts).toContainEqual({
+        mode: 'comprehensive',
+        active_version: 0,
+        created_by: null,
+      });
+    });
+
+    it('should reject unknown modes', async () => {
+      const response = await request(app).get('/v1/admin/prompts/plankton_id').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when activating a missing version', async () => {
+      const response = await request(app)
+        .post('/v1/admin/prompts/fish_id/versions/7/activate')
+        .set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should refuse to roll back past the default prompt', async () => {
+      const response = await request(app)
+        .post('/v1/admin/prompts/fish_id/rollback')
+        .set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should validate new prompt versions', async () => {
+      const response = await request(app)
+        .post('/v1/admin/prompts/fish_id')
+        .set('X-Admin-Key', adminKey)
+        .send({ system_prompt: 'Be precise.' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.errors[0].field).toBe('mode_prompt');
+    });
+
+    it('should require at least two experiment variants', async () => {
+      const response = await request(app)
+        .post('/v1/admin/experiments')
+        .set('X-Admin-Key', adminKey)
+        .send({ mode: 'fish_id', variants: [{ version: 0 }] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when starting an experiment on a missing version', async () => {
+      const response = await request(app)
+        .post('/v1/admin/experiments')
+        .set('X-Admin-Key', adminKey)
+        .send({ mode: 'fish_id', variants: [{ version: 0 }, { version: 3 }] });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for unknown experiments', async () => {
+      const response = await request(app).get('/v1/admin/experiments/12').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should list unmatched species names', async () => {
+      const response = await request(app)
+        .get('/v1/admin/species/unmatched?limit=20')
+        .set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ names: [] });
+    });
+
+    it('should run the weekly digest job', async () => {
+      const response = await request(app).post('/v1/admin/jobs/weekly-digest').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tanks: 0, sent: 0, skipped: 0, failed: 0 });
+    });
+
+    it('should run the maintenance reminders job', async () => {
+      const response = await request(app)
+        .post('/v1/admin/jobs/maintenance-reminders')
+        .set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tasks: 0, sent: 0, skipped: 0, failed: 0 });
+    });
+
+    it('should run the quota reset job', async () => {
+      const response = await request(app).post('/v1/admin/jobs/quota-resets').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ devices: 0, sent: 0, skipped: 0, failed: 0 });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Cron Tests
+  // -------------------------------------------------------------------------
+
+  describe('Cron Jobs', () => {
+    const cronSecret = 'test-cron-secret-at-least-32-characters';
+    let secret: jest.ReplaceProperty<string>;
+
+    beforeEach(() => {
+      secret = jest.replaceProperty(config.cron, 'secret', cronSecret);
+    });
+
+    afterEach(() => {
+      secret.restore();
+    });
+
+    it('should reject calls without the cron secret', async () => {
+      const missing = await request(app).get('/v1/cron/weekly-digest');
+      const wrong = await request(app).get('/v1/cron/weekly-digest').set('Authorization', 'Bearer wrong-secret');
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+    });
+
+    it('should refuse every call when no secret is configured', async () => {
+      secret.replaceValue('');
+
+      const response = await request(app).get('/v1/cron/quota-resets').set('Authorization', 'Bearer ');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should run the scheduled jobs', async () => {
+      const run = (path: string) =>
+        request(app).get(`/v1/cron/${path}`).set('Authorization', `Bearer ${cronSecret}`);
+
+      const digest = await run('weekly-digest');
+      const reminders = await run('maintenance-reminders');
+      const quotaResets = await run('quota-resets');
+
+      expect(digest.body).toEqual({ tanks: 0, sent: 0, skipped: 0, failed: 0 });
+      expect(reminders.body).toEqual({ tasks: 0, sent: 0, skipped: 0, failed: 0 });
+      expect(quotaResets.body).toEqual({ devices: 0, sent: 0, skipped: 0, failed: 0 });
+    });
+  });
+
   // -------------------------------------------------------------------------
   // 404 Handler Tests
   // -------------------------------------------------------------------------
@@ -0,0 +1,188 @@
+// ============================================================================
+// AI Provider Orchestration Unit Tests
+// Tests for the provider registry and fallback chain
+// ============================================================================
+
+import { analyzeImage, getProviderStatus } from '../../services/aiProvider.service';
+import * as registry from '../../services/providerRegistry.service';
+import { getCircuitState } from '../../services/circuitBreaker.service';
+import * as redis from '../../services/redis.service';
+import type { AIProvider, ProviderAnalysisResult, ScanResult } from '../../types';
+
+// Access mock store for direct manipulation
+const mockStore = (redis as unknown as { __mockStore: Map<string, { value: unknown; expiry?: number }> }).__mockStore;
+
+describe('AI Provider Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const scanResult: ScanResult = {
+    request_id: '',
+    tank_health: 'Good',
+    summary: 'Healthy tank.',
+    identifications: [],
+    recommendations: [],
+    usage: { requests_today: 0, daily_limit: 0, reset_at: '' },
+  };
+
+  const images = [{ data: 'aW1hZ2U=', mime_type: 'image/jpeg' as const }];
+
+  const fakeProvider = (
+    name: string,
+    outcome: ProviderAnalysisResult,
+    available = true
+  ): AIProvider & { analyze: jest.Mock } => ({
+    name,
+    pricing: { input: 1, output: 2 },
+    isConfigured: () => true,
+    isAvailable: jest.fn(async () => available),
+    analyze: jest.fn(async () => outcome),
+  });
+
+  const success: ProviderAnalysisResult = {
+    success: true,
+    result: scanResult,
+    tokensUsed: { input: 10, output: 5 },
+  };
+
+  const failure = (code: string): ProviderAnalysisResult => ({
+    success: false,
+    error: { code, message: 'failed' },
+  });
+
+  beforeEach(() => {
+    registry.unregisterProvider('alpha');
+    registry.unregisterProvider('beta');
+  });
+
+  // -------------------------------------------------------------------------
+  // getProviderChain Tests
+  // -------------------------------------------------------------------------
+
+  describe('getProviderChain', () => {
+    it('should follow the configured order and skip unknown names', () => {
+      registry.registerProvider(fakeProvider('alpha', success));
+      registry.registerProvider(fakeProvider('beta', success));
+
+      const chain = registry.getProviderChain(['beta', 'missing', 'alpha']);
+
+      expect(chain.map((provider) => provider.name)).toEqual(['beta', 'alpha']);
+    });
+
+    it('should register gemini and openai by default', () => {
+      expect(registry.getProvider('gemini')).toBeDefined();
+      expect(registry.getProvider('openai')).toBeDefined();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // analyzeImage Tests
+  // -------------------------------------------------------------------------
+
+  describe('analyzeImage', () => {
+    let chainSpy: jest.SpyInstance;
+
+    afterEach(() => {
+      chainSpy.mockRestore();
+    });
+
+    const useChain = (...providers: AIProvider[]) => {
+      providers.forEach((provider) => registry.registerProvider(provider));
+      chainSpy = jest
+        .spyOn(registry, 'getProviderChain')
+        .mockReturnValue(providers);
+    };
+
+    it('should return the first successful provider', async () => {
+      const alpha = fakeProvider('alpha', success);
+      const beta = fakeProvider('beta', success);
+      useChain(alpha, beta);
+
+      const result = await analyzeImage(images, 'comprehensive', 'req-1');
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('alpha');
+      expect(beta.analyze).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the next provider on failure', async () => {
+      const alpha = fakeProvider('alpha', failure('API_ERROR'));
+      const beta = fakeProvider('beta', success);
+      const selected: string[] = [];
+      useChain(alpha, beta);
+
+      const result = await analyzeImage(images, 'comprehensive', 'req-2', (name) => selected.push(name));
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('beta');
+      expect(selected).toEqual(['alpha', 'beta']);
+      expect((await getCircuitState('alpha')).failures).toBe(1);
+    });
+
+    it('should skip providers whose circuit is open', async () => {
+      const alpha = fakeProvider('alpha', success);
+      const beta = fakeProvider('beta', success);
+      useChain(alpha, beta);
+      mockStore.set('circuit:alpha:state', {
+        value: {
+          state: 'OPEN',
+          failures: 5,
+          successes: 0,
+          lastFailure: new Date().toISOString(),
+          lastSuccess: null,
+          nextAttempt: new Date(Date.now() + 60000).toISOString(),
+        },
+      });
+
+      const result = await analyzeImage(images, 'comprehensive', 'req-3');
+
+      expect(result.provider).toBe('beta');
+      expect(alpha.analyze).not.toHaveBeenCalled();
+    });
+
+    it('should not count capacity errors against the circuit', async () => {
+      useChain(fakeProvider('alpha', failure('NO_KEYS_AVAILABLE')));
+
+      const result = await analyzeImage(images, 'comprehensive', 'req-4');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NO_KEYS_AVAILABLE');
+      expect((await getCircuitState('alpha')).failures).toBe(0);
+    });
+
+    it('should report the last failure when every provider fails', async () => {
+      useChain(
+        fakeProvider('alpha', failure('API_ERROR')),
+        fakeProvider('beta', success, false)
+      );
+
+      const result = await analyzeImage(images, 'comprehensive', 'req-5');
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('beta');
+      expect(result.error?.code).toBe('PROVIDER_UNAVAILABLE');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // getProviderStatus Tests
+  // -------------------------------------------------------------------------
+
+  describe('getProviderStatus', () => {
+    it('should report every provider in the chain', async () => {
+      const chainSpy = jest
+        .spyOn(registry, 'getProviderChain')
+        .mockReturnValue([fakeProvider('alpha', success), fakeProvider('beta', success, false)]);
+
+      const status = await getProviderStatus();
+
+      expect(Object.keys(status)).toEqual(['alpha', 'beta']);
+      expect(status.alpha.available).toBe(true);
+      expect(status.beta.available).toBe(false);
+      expect(status.alpha.circuit_state).toBe('CLOSED');
+
+      chainSpy.mockRestore();
+    });
+  });
+});
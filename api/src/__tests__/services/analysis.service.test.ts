@@ -0,0 +1,347 @@
+// ============================================================================
+// Analysis Service Unit Tests
+// Tests for the shared analyze pipeline and its progress events
+// ============================================================================
+
+import { runAnalysis, AnalysisError } from '../../services/analysis.service';
+import * as aiProvider from '../../services/aiProvider.service';
+import * as health from '../../services/health.service';
+import * as livestock from '../../services/livestock.service';
+import * as redis from '../../services/redis.service';
+import * as tanks from '../../services/tank.service';
+import * as usage from '../../services/usage.service';
+import * as water from '../../services/waterParameter.service';
+import type { AnalysisEvent, Device, ScanResult, Tank, TestKitResult } from '../../types';
+
+jest.mock('../../services/aiProvider.service', () => ({
+  analyzeImage: jest.fn(),
+  isAnyProviderAvailable: jest.fn(async () => true),
+}));
+
+// Access mock store for direct manipulation
+const mockStore = (redis as unknown as { __mockStore: Map<string, { value: unknown; expiry?: number }> }).__mockStore;
+
+const mockedAnalyzeImage = aiProvider.analyzeImage as jest.MockedFunction<typeof aiProvider.analyzeImage>;
+const mockedIsAvailable = aiProvider.isAnyProviderAvailable as jest.MockedFunction<typeof aiProvider.isAnyProviderAvailable>;
+
+describe('Analysis Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const device: Device = {
+    id: 'device-row-1',
+    device_uuid: '550e8400-e29b-41d4-a716-446655440000',
+    platform: 'ios',
+    app_version: '1.0.0',
+    created_at: new Date(),
+    last_seen_at: new Date(),
+    refresh_token: null,
+    token_version: 1,
+    tier: 'free',
+    subscription_id: null,
+    is_blocked: false,
+    block_reason: null,
+    metadata: {},
+  };
+
+  const providerResult: ScanResult = {
+    request_id: '',
+    tank_health: 'Good',
+    summary: 'Healthy mixed reef.',
+    identifications: [
+      {
+        name: 'Clownfish',
+        category: 'fish',
+        confidence: 0.95,
+        is_problem: false,
+        severity: null,
+        description: 'Healthy specimen',
+      },
+      {
+        name: 'Aiptasia',
+        category: 'pest',
+        confidence: 0.8,
+        is_problem: true,
+        severity: 'medium',
+        description: 'Small colony on the rockwork',
+      },
+    ],
+    recommendations: ['Remove aiptasia'],
+    usage: { requests_today: 0, daily_limit: 0, reset_at: '' },
+  };
+
+  const testKitResult: TestKitResult = {
+    request_id: '',
+    summary: 'Alkalinity and nitrate tests read.',
+    readings: [
+      { parameter: 'alkalinity', value: 8.2, unit: 'dKH', confidence: 0.9, kit: 'Salifert KH/Alk' },
+      { parameter: 'nitrate', value: 10, unit: 'ppm', confidence: 0.5, kit: null },
+    ],
+    saved_parameters: [],
+    usage: { requests_today: 0, daily_limit: 0, reset_at: '' },
+  };
+
+  const tank: Tank = {
+    id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    device_id: device.id,
+    name: 'Display',
+    volume_liters: 300,
+    tank_type: 'sps',
+    setup_date: '2025-01-15',
+    photo_url: null,
+    scan_count: 0,
+    last_scan_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const request = {
+    images: [{ data: 'aW1hZ2UtZGF0YQ==', mime_type: 'image/jpeg' as const }],
+    mode: 'comprehensive' as const,
+  };
+
+  beforeEach(() => {
+    mockedIsAvailable.mockResolvedValue(true);
+    mockedAnalyzeImage.mockImplementation(
+      async (_images, _mode, _requestId, onProviderSelected) => {
+        onProviderSelected?.('gemini');
+        return {
+          success: true,
+          result: providerResult,
+          provider: 'gemini',
+          apiKeyId: 'gemini_1',
+          tokensUsed: { input: 100, output: 50 },
+          latencyMs: 10,
+        };
+      }
+    );
+  });
+
+  // -------------------------------------------------------------------------
+  // runAnalysis Tests
+  // -------------------------------------------------------------------------
+
+  describe('runAnalysis', () => {
+    it('should return the provider result with request id and usage', async () => {
+      const result = (await runAnalysis(request, { requestId: 'req-1', device })) as ScanResult;
+
+      expect(result.request_id).toBe('req-1');
+      expect(result.identifications).toHaveLength(2);
+      expect(result.usage.daily_limit).toBe(3);
+    });
+
+    it('should log the result for scan history under the request id', async () => {
+      const recordUsage = jest.spyOn(usage, 'recordUsage');
+
+      await runAnalysis(request, { requestId: 'req-history', device });
+
+      const details = recordUsage.mock.calls[0][7];
+      expect(details).toMatchObject({ requestId: 'req-history', identificationCount: 2 });
+      expect(details?.result).toEqual({
+        tank_health: 'Good',
+        summary: 'Healthy mixed reef.',
+        identifications: providerResult.identifications,
+        recommendations: ['Remove aiptasia'],
+      });
+
+      recordUsage.mockRestore();
+    });
+
+    it('should pass the tank profile to the provider and update the tank', async () => {
+      const getTank = jest.spyOn(tanks, 'getTank').mockResolvedValue(tank);
+      const recordUsage = jest.spyOn(usage, 'recordUsage');
+      const recordScan = jest.spyOn(livestock, 'recordScan').mockResolvedValue();
+      const recordScore = jest.spyOn(health, 'recordScore');
+
+      await runAnalysis({ ...request, tank_id: tank.id }, { requestId: 'req-tank', device });
+
+      expect(getTank).toHaveBeenCalledWith(device.id, tank.id);
+      expect(mockedAnalyzeImage.mock.calls[0][4]?.tank).toEqual({
+        tank_type: 'sps',
+        volume_liters: 300,
+        setup_date: '2025-01-15',
+      });
+      expect(recordUsage.mock.calls[0][7]?.tankId).toBe(tank.id);
+      expect(recordScan).toHaveBeenCalledWith(tank.id, 'comprehensive', providerResult.identifications);
+      expect(recordScore).toHaveBeenCalledWith(tank.id, 'req-tank', expect.objectContaining({ tank_health: 'Good' }));
+
+      getTank.mockRestore();
+      recordUsage.mockRestore();
+      recordScan.mockRestore();
+      recordScore.mockRestore();
+    });
+
+    it('should reject tanks the device does not own', async () => {
+      const tankRequest = { ...request, tank_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7' };
+
+      await expect(runAnalysis(tankRequest, { requestId: 'req-no-tank', device })).rejects.toMatchObject({
+        statusCode: 404,
+        message: 'Tank not found',
+      });
+      expect(mockedAnalyzeImage).not.toHaveBeenCalled();
+    });
+
+    it('should emit progressive events in order', async () => {
+      const events: AnalysisEvent[] = [];
+
+      await runAnalysis(request, { requestId: 'req-2', device }, (e) => events.push(e));
+
+      expect(events.map((e) => e.event)).toEqual([
+        'accepted',
+        'provider',
+        'result',
+      ]);
+    });
+
+    it('should stream a single result event on cache hit', async () => {
+      const events: AnalysisEvent[] = [];
+
+      await runAnalysis(request, { requestId: 'req-3', device });
+      await runAnalysis(request, { requestId: 'req-4', device }, (e) => events.push(e));
+
+      expect(mockedAnalyzeImage).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+      expect(events[0].event).toBe('result');
+    });
+
+    it('should pass the language to providers and not reuse other languages from cache', async () => {
+      await runAnalysis(request, { requestId: 'req-lang-1', device });
+      await runAnalysis(
+        { ...request, options: { language: 'es' } },
+        { requestId: 'req-lang-2', device }
+      );
+
+      expect(mockedAnalyzeImage).toHaveBeenCalledTimes(2);
+      expect(mockedAnalyzeImage.mock.calls[1][4]).toMatchObject({ language: 'es' });
+    });
+
+    it('should not serve results cached under a previous prompt version', async () => {
+      await runAnalysis(request, { requestId: 'req-prompt-1', device });
+      mockStore.set('prompt:comprehensive', {
+        value: { systemPrompt: 'system v2', modePrompt: 'mode v2', version: 2 },
+      });
+
+      await runAnalysis(request, { requestId: 'req-prompt-2', device });
+
+      expect(mockedAnalyzeImage).toHaveBeenCalledTimes(2);
+      expect(mockedAnalyzeImage.mock.calls[1][4]?.prompt?.version).toBe(2);
+    });
+
+    it('should stream a single result event for idempotent replays', async () => {
+      const events: AnalysisEvent[] = [];
+      mockStore.set('idempotency:req-5', { value: { ...providerResult, request_id: 'req-5' } });
+
+      const result = await runAnalysis(request, { requestId: 'req-5', device }, (e) => events.push(e));
+
+      expect(result.request_id).toBe('req-5');
+      expect(events).toHaveLength(1);
+      expect(mockedAnalyzeImage).not.toHaveBeenCalled();
+    });
+
+    it('should strip recommendations when not requested', async () => {
+      const result = (await runAnalysis(
+        { ...request, options: { include_recommendations: false } },
+        { requestId: 'req-6', device }
+      )) as ScanResult;
+
+      expect(result.recommendations).toEqual([]);
+    });
+
+    it('should save confident test kit readings to the tank log instead of scan history', async () => {
+      mockedAnalyzeImage.mockResolvedValue({
+        success: true,
+        result: testKitResult,
+        provider: 'gemini',
+        tokensUsed: { input: 100, output: 50 },
+        latencyMs: 10,
+      });
+      const getTank = jest.spyOn(tanks, 'getTank').mockResolvedValue(tank);
+      const getTankContext = jest.spyOn(tanks, 'getTankContext');
+      const logReadings = jest.spyOn(water, 'logReadings').mockResolvedValue([]);
+      const recordUsage = jest.spyOn(usage, 'recordUsage');
+      const recordScan = jest.spyOn(livestock, 'recordScan');
+      const events: AnalysisEvent[] = [];
+
+      const result = await runAnalysis(
+        { ...request, mode: 'test_kit_read', tank_id: tank.id, options: { save_readings: true } },
+        { requestId: 'req-kit', device },
+        (e) => events.push(e)
+      );
+
+      expect(result).toMatchObject({ request_id: 'req-kit', saved_parameters: ['alkalinity'] });
+      expect(logReadings).toHaveBeenCalledWith(
+        tank.id,
+        { readings: { alkalinity: 8.2 }, note: 'Salifert KH/Alk' },
+        'test_kit_scan'
+      );
+      expect(getTankContext).not.toHaveBeenCalled();
+      expect(mockedAnalyzeImage.mock.calls[0][4]?.tank).toBeUndefined();
+      expect(events.map((e) => e.event)).toEqual(['accepted', 'result']);
+      expect(recordUsage.mock.calls[0][7]).toMatchObject({ identificationCount: 0, tankId: tank.id });
+      expect(recordUsage.mock.calls[0][7]?.result).toBeUndefined();
+      expect(recordScan).not.toHaveBeenCalled();
+
+      getTank.mockRestore();
+      getTankContext.mockRestore();
+      logReadings.mockRestore();
+      recordUsage.mockRestore();
+      recordScan.mockRestore();
+    });
+
+    it('should save test kit readings again on a cache hit and report failed saves', async () => {
+      mockedAnalyzeImage.mockResolvedValue({
+        success: true,
+        result: testKitResult,
+        provider: 'gemini',
+        tokensUsed: { input: 100, output: 50 },
+        latencyMs: 10,
+      });
+      const getTank = jest.spyOn(tanks, 'getTank').mockResolvedValue(tank);
+      const logReadings = jest.spyOn(water, 'logReadings').mockRejectedValueOnce(new Error('db down'));
+      const kitRequest = { ...request, mode: 'test_kit_read' as const, tank_id: tank.id };
+
+      const first = await runAnalysis(
+        { ...kitRequest, options: { save_readings: true } },
+        { requestId: 'req-kit-1', device }
+      );
+      const unsaved = await runAnalysis(kitRequest, { requestId: 'req-kit-2', device });
+      logReadings.mockResolvedValueOnce([]);
+      const cached = await runAnalysis(
+        { ...kitRequest, options: { save_readings: true } },
+        { requestId: 'req-kit-3', device }
+      );
+
+      expect(mockedAnalyzeImage).toHaveBeenCalledTimes(1);
+      expect(first).toMatchObject({ saved_parameters: [] });
+      expect(unsaved).toMatchObject({ saved_parameters: [] });
+      expect(cached).toMatchObject({ saved_parameters: ['alkalinity'] });
+      expect(logReadings).toHaveBeenCalledTimes(2);
+
+      getTank.mockRestore();
+      logReadings.mockRestore();
+    });
+
+    it('should throw AnalysisError when no provider is available', async () => {
+      mockedIsAvailable.mockResolvedValue(false);
+
+      await expect(
+        runAnalysis(request, { requestId: 'req-7', device })
+      ).rejects.toBeInstanceOf(AnalysisError);
+    });
+
+    it('should throw AnalysisError when the provider fails', async () => {
+      mockedAnalyzeImage.mockResolvedValue({
+        success: false,
+        provider: 'openai',
+        tokensUsed: { input: 0, output: 0 },
+        latencyMs: 10,
+        error: { code: 'OPENAI_ERROR', message: 'Upstream failure' },
+      });
+
+      await expect(
+        runAnalysis(request, { requestId: 'req-8', device })
+      ).rejects.toMatchObject({ code: 'AI_UNAVAILABLE', statusCode: 503 });
+    });
+  });
+});
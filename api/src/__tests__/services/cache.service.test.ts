@@ -5,6 +5,7 @@
 
 import {
   calculateImageHash,
+  calculateImageSetHash,
   getCachedResult,
   cacheResult,
   getCacheHitCount,
@@ -12,6 +13,8 @@ import {
   setIdempotentResult,
   isRequestProcessed,
   invalidateImageCache,
+  markImageCorrected,
+  isImageCorrected,
   getCacheStats,
 } from '../../services/cache.service';
 import * as redis from '../../services/redis.service';
@@ -85,6 +88,31 @@ describe('Cache Service', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // calculateImageSetHash Tests
+  // -------------------------------------------------------------------------
+
+  describe('calculateImageSetHash', () => {
+    it('should match calculateImageHash for a single image', () => {
+      expect(calculateImageSetHash(['front-view'])).toBe(calculateImageHash('front-view'));
+    });
+
+    it('should produce a combined hash for several images', () => {
+      const hash = calculateImageSetHash(['front-view', 'side-view']);
+
+      expect(hash).toHaveLength(64);
+      expect(hash).not.toBe(calculateImageHash('front-view'));
+      expect(hash).not.toBe(calculateImageHash('side-view'));
+    });
+
+    it('should depend on image order', () => {
+      const forward = calculateImageSetHash(['front-view', 'side-view']);
+      const reversed = calculateImageSetHash(['side-view', 'front-view']);
+
+      expect(forward).not.toBe(reversed);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // getCachedResult Tests
   // -------------------------------------------------------------------------
@@ -168,6 +196,29 @@ describe('Cache Service', () => {
       // TTL should be set in the future
       expect(stored?.expiry).toBeGreaterThan(Date.now());
     });
+
+    it('should keep localized results separate from English ones', async () => {
+      const imageHash = 'localized-hash';
+      const spanishResult = { ...mockScanResult, summary: 'Acuario saludable' };
+
+      await cacheResult(imageHash, 'fish_id', mockScanResult, { language: 'en' });
+      await cacheResult(imageHash, 'fish_id', spanishResult, { language: 'es' });
+
+      expect(mockStore.has(`cache:image:${imageHash}:fish_id`)).toBe(true);
+      expect(await getCachedResult(imageHash, 'fish_id')).toEqual(mockScanResult);
+      expect(await getCachedResult(imageHash, 'fish_id', { language: 'es' })).toEqual(spanishResult);
+      expect(await getCachedResult(imageHash, 'fish_id', { language: 'fr' })).toBeNull();
+    });
+
+    it('should keep results from different prompt versions separate', async () => {
+      const imageHash = 'prompt-version-hash';
+
+      await cacheResult(imageHash, 'coral_id', mockScanResult, { promptVersion: 3, language: 'de' });
+
+      expect(mockStore.has(`cache:image:${imageHash}:coral_id:p3:de`)).toBe(true);
+      expect(await getCachedResult(imageHash, 'coral_id', { promptVersion: 4, language: 'de' })).toBeNull();
+      expect(await getCachedResult(imageHash, 'coral_id', { promptVersion: 0 })).toBeNull();
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -274,6 +325,20 @@ describe('Cache Service', () => {
     });
   });
 
+  describe('markImageCorrected', () => {
+    it('should stop serving and storing results for the image', async () => {
+      const imageHash = 'corrected-test';
+      await cacheResult(imageHash, 'fish_id', mockScanResult);
+
+      await markImageCorrected(imageHash);
+
+      expect(await isImageCorrected(imageHash)).toBe(true);
+      expect(await getCachedResult(imageHash, 'fish_id')).toBeNull();
+      expect(await cacheResult(imageHash, 'fish_id', mockScanResult)).toBe(false);
+      expect(mockStore.has(`cache:image:${imageHash}:fish_id`)).toBe(false);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // getCacheStats Tests
   // -------------------------------------------------------------------------
@@ -0,0 +1,213 @@
+// ============================================================================
+// Compatibility Service Unit Tests
+// Tests for conflict rules and how tank inhabitants are gathered
+// ============================================================================
+
+import {
+  checkCompatibility,
+  findConflicts,
+  CompatibilityError,
+} from '../../services/compatibility.service';
+import * as livestock from '../../services/livestock.service';
+import * as scans from '../../services/scan.service';
+import { getSpecies } from '../../services/species.service';
+import * as tanks from '../../services/tank.service';
+import type { Identification, LivestockItem, Species, Tank } from '../../types';
+
+describe('Compatibility Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const deviceId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const tank: Tank = {
+    id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    device_id: deviceId,
+    name: 'Display',
+    volume_liters: 200,
+    tank_type: 'mixed_reef',
+    setup_date: '2025-01-15',
+    photo_url: null,
+    scan_count: 3,
+    last_scan_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const catalog = (id: string): Species => {
+    const entry = getSpecies(id);
+    if (!entry) {
+      throw new Error(`${id} is not in the catalog`);
+    }
+    return entry;
+  };
+
+  const item = (name: string, category: LivestockItem['category']): LivestockItem => ({
+    id: 1,
+    tank_id: tank.id,
+    name,
+    category,
+    count: 1,
+    notes: null,
+    source: 'user',
+    first_seen_at: null,
+    last_seen_at: null,
+    sighting_count: 0,
+    missed_scans: 0,
+    status: 'present',
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  const identification = (name: string, category: string, confidence = 0.9): Identification => ({
+    name,
+    category,
+    confidence,
+    is_problem: false,
+    severity: null,
+    description: '',
+  });
+
+  // -------------------------------------------------------------------------
+  // findConflicts
+  // -------------------------------------------------------------------------
+
+  describe('findConflicts', () => {
+    it('should find no conflicts for peaceful reef safe tankmates', () => {
+      const conflicts = findConflicts(
+        catalog('royal-gramma'),
+        [catalog('ocellaris-clownfish'), catalog('hammer-coral'), catalog('skunk-cleaner-shrimp')],
+        300
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should flag predation in both directions', () => {
+      const asPredator = findConflicts(catalog('red-lionfish'), [catalog('firefish-goby'), catalog('fire-shrimp')], null);
+      const asPrey = findConflicts(catalog('fire-shrimp'), [catalog('niger-triggerfish')], null);
+
+      expect(asPredator).toEqual([
+        expect.objectContaining({ type: 'predation', severity: 'incompatible', species_id: 'firefish-goby' }),
+        expect.objectContaining({ type: 'predation', severity: 'incompatible', species_id: 'fire-shrimp' }),
+      ]);
+      expect(asPrey).toEqual([
+        expect.objectContaining({
+          type: 'predation',
+          species_id: 'niger-triggerfish',
+          reason: 'Niger Triggerfish eats invertebrates such as Fire Shrimp',
+        }),
+      ]);
+    });
+
+    it('should not treat fish close to the predator size as prey', () => {
+      expect(findConflicts(catalog('red-lionfish'), [catalog('foxface-rabbitfish')], null)).toEqual([]);
+    });
+
+    it('should flag coral nippers as a reef safety caution', () => {
+      const conflicts = findConflicts(catalog('flame-angelfish'), [catalog('candy-cane-coral')], null);
+
+      expect(conflicts).toEqual([
+        {
+          type: 'reef_safety',
+          severity: 'caution',
+          species_id: 'candy-cane-coral',
+          reason: 'Flame Angelfish may nip at corals such as Candy Cane Coral',
+        },
+      ]);
+    });
+
+    it('should flag aggression between fish', () => {
+      const bully = findConflicts(catalog('firefish-goby'), [catalog('maroon-clownfish')], null);
+      const relatives = findConflicts(catalog('yellow-tang'), [catalog('yellow-tang')], null);
+
+      expect(bully).toEqual([
+        expect.objectContaining({
+          type: 'aggression',
+          severity: 'incompatible',
+          reason: 'Maroon Clownfish is aggressive and will harass the peaceful Firefish Goby',
+        }),
+      ]);
+      expect(relatives).toEqual([expect.objectContaining({ type: 'aggression', severity: 'caution' })]);
+    });
+
+    it('should check the tank volume and list incompatible conflicts first', () => {
+      const conflicts = findConflicts(catalog('yellow-tang'), [catalog('yellow-tang')], 200);
+
+      expect(conflicts.map((conflict) => conflict.type)).toEqual(['space', 'aggression']);
+      expect(conflicts[0]).toEqual({
+        type: 'space',
+        severity: 'incompatible',
+        species_id: null,
+        reason: 'Yellow Tang needs a tank of at least 380 L; this tank holds 200 L',
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // checkCompatibility
+  // -------------------------------------------------------------------------
+
+  describe('checkCompatibility', () => {
+    it('should use the inventory and confident identifications of recent scans', async () => {
+      const getTank = jest.spyOn(tanks, 'getTank').mockResolvedValue(tank);
+      const listLivestock = jest
+        .spyOn(livestock, 'listLivestock')
+        .mockResolvedValue([item('Ocellaris Clownfish', 'fish'), item('Mystery Wrasse', 'fish')]);
+      const getRecentIdentifications = jest
+        .spyOn(scans, 'getRecentIdentifications')
+        .mockResolvedValue([
+          identification('Clownfish', 'fish'),
+          identification('Skunk Cleaner Shrimp', 'invertebrate'),
+          identification('Hammer Coral', 'coral', 0.4),
+          identification('Aiptasia', 'pest'),
+        ]);
+
+      const result = await checkCompatibility(deviceId, { candidate: { name: 'Lionfish' }, tank_id: tank.id });
+
+      expect(getTank).toHaveBeenCalledWith(deviceId, tank.id);
+      expect(getRecentIdentifications).toHaveBeenCalledWith(tank.id, expect.any(Date));
+      expect(result.candidate.id).toBe('red-lionfish');
+      expect(result.residents).toEqual([
+        { name: 'Ocellaris Clownfish', species_id: 'ocellaris-clownfish', source: 'inventory' },
+        { name: 'Mystery Wrasse', species_id: null, source: 'inventory' },
+        { name: 'Skunk Cleaner Shrimp', species_id: 'skunk-cleaner-shrimp', source: 'scan' },
+      ]);
+      expect(result.verdict).toBe('incompatible');
+      expect(result.volume_liters).toBe(200);
+      expect(result.conflicts.map((conflict) => [conflict.type, conflict.species_id])).toEqual([
+        ['predation', 'ocellaris-clownfish'],
+        ['predation', 'skunk-cleaner-shrimp'],
+        ['space', null],
+      ]);
+
+      getTank.mockRestore();
+      listLivestock.mockRestore();
+      getRecentIdentifications.mockRestore();
+    });
+
+    it('should check an explicit livestock list without a tank', async () => {
+      const result = await checkCompatibility(deviceId, {
+        candidate: { species_id: 'royal-gramma' },
+        livestock: [{ name: 'clown fish', category: 'fish' }, { species_id: 'duncan-coral' }],
+      });
+
+      expect(result).toMatchObject({ verdict: 'compatible', conflicts: [], volume_liters: null });
+      expect(result.residents.map((resident) => resident.source)).toEqual(['request', 'request']);
+    });
+
+    it('should reject candidates outside the catalog and unknown tanks', async () => {
+      const getTank = jest.spyOn(tanks, 'getTank').mockResolvedValue(null);
+
+      await expect(
+        checkCompatibility(deviceId, { candidate: { name: 'Purple Unicorn Fish' }, livestock: [] })
+      ).rejects.toThrow(CompatibilityError);
+      await expect(
+        checkCompatibility(deviceId, { candidate: { species_id: 'royal-gramma' }, tank_id: tank.id })
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Tank not found' });
+
+      getTank.mockRestore();
+    });
+  });
+});
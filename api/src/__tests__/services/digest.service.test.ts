@@ -0,0 +1,201 @@
+// ============================================================================
+// Digest Service Unit Tests
+// Tests for the weekly digest and the job that sends it
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  buildWeeklyDigest,
+  findRecurringProblems,
+  findTopRecommendations,
+  runWeeklyDigests,
+  toNotification,
+} from '../../services/digest.service';
+import * as health from '../../services/health.service';
+import * as notifications from '../../services/notification.service';
+import * as scans from '../../services/scan.service';
+import type { HealthScore, Identification, Notification, StoredScanResult } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Digest Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const now = new Date('2026-10-19T08:00:00.000Z');
+  const tank = { id: '7c9e6679-7425-40de-944b-e07fc1f90ae7', device_id: 'device-row-1', name: 'Display' };
+
+  const problem = (name: string, severity: Identification['severity']): Identification => ({
+    name,
+    category: 'algae',
+    confidence: 0.9,
+    is_problem: true,
+    severity,
+    description: '',
+  });
+
+  const result = (identifications: Identification[], recommendations: string[] = []): StoredScanResult => ({
+    tank_health: 'Fair',
+    summary: '',
+    identifications,
+    recommendations,
+  });
+
+  const score = (value: number, daysAgo: number): HealthScore => ({
+    request_id: `req-${daysAgo}`,
+    score: value,
+    tank_health: 'Good',
+    problem_count: 0,
+    scanned_at: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+  });
+
+  // -------------------------------------------------------------------------
+  // Digest Parts
+  // -------------------------------------------------------------------------
+
+  describe('findRecurringProblems', () => {
+    it('should count problems once per scan and keep the worst severity', () => {
+      const problems = findRecurringProblems([
+        result([problem('Green Hair Algae', 'high'), problem('green hair algae', 'low')]),
+        result([problem('Green Hair Algae', 'medium'), problem('Cyanobacteria', 'low')]),
+        result([problem('Cyanobacteria', 'medium'), problem('Diatoms', 'low')]),
+        result([problem('Green Hair Algae', 'low')]),
+      ]);
+
+      expect(problems).toEqual([
+        { name: 'Green Hair Algae', category: 'algae', occurrences: 3, max_severity: 'high' },
+        { name: 'Cyanobacteria', category: 'algae', occurrences: 2, max_severity: 'medium' },
+      ]);
+    });
+  });
+
+  describe('findTopRecommendations', () => {
+    it('should rank by frequency, then by recency', () => {
+      const top = findTopRecommendations(
+        [
+          result([], ['Reduce feeding', 'Do a 15% water change.']),
+          result([], ['Do a 15% water change', 'Clean the glass']),
+          result([], ['reduce feeding.', 'Check the skimmer']),
+        ],
+        2
+      );
+
+      expect(top).toEqual(['Reduce feeding', 'Do a 15% water change.']);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // buildWeeklyDigest
+  // -------------------------------------------------------------------------
+
+  describe('buildWeeklyDigest', () => {
+    it('should compare the week with the week before', async () => {
+      const getScores = jest
+        .spyOn(health, 'getScores')
+        .mockResolvedValue([score(80, 12), score(84, 9), score(70, 5), score(66, 1)]);
+      const getTankResults = jest
+        .spyOn(scans, 'getTankResults')
+        .mockResolvedValue([result([problem('Hair Algae', 'medium')], ['Reduce feeding']), result([problem('Hair Algae', 'low')])]);
+
+      const digest = await buildWeeklyDigest(tank, now);
+
+      expect(getScores).toHaveBeenCalledWith(tank.id, {
+        from: new Date('2026-10-05T08:00:00.000Z'),
+        to: now,
+        limit: 1000,
+      });
+      expect(getTankResults).toHaveBeenCalledWith(tank.id, new Date('2026-10-12T08:00:00.000Z'), now);
+      expect(digest).toMatchObject({
+        tank_id: tank.id,
+        tank_name: 'Display',
+        scan_count: 2,
+        score: { latest: 66, average: 68, previous_average: 82, change: -14 },
+        trend: 'declining',
+        recurring_problems: [{ name: 'Hair Algae', occurrences: 2, max_severity: 'medium' }],
+        top_recommendations: ['Reduce feeding'],
+      });
+
+      getScores.mockRestore();
+      getTankResults.mockRestore();
+    });
+
+    it('should leave the trend out without scans in both weeks', async () => {
+      const getScores = jest.spyOn(health, 'getScores').mockResolvedValue([score(70, 3), score(72, 1)]);
+      const getTankResults = jest.spyOn(scans, 'getTankResults').mockResolvedValue([]);
+
+      const digest = await buildWeeklyDigest(tank, now);
+
+      expect(digest.score).toEqual({ latest: 72, average: 71, previous_average: null, change: null });
+      expect(digest.trend).toBeNull();
+
+      getScores.mockRestore();
+      getTankResults.mockRestore();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Delivery
+  // -------------------------------------------------------------------------
+
+  describe('toNotification', () => {
+    it('should summarize the digest in the body', async () => {
+      const getScores = jest.spyOn(health, 'getScores').mockResolvedValue([score(90, 10), score(70, 2)]);
+      const getTankResults = jest
+        .spyOn(scans, 'getTankResults')
+        .mockResolvedValue([
+          result([problem('Hair Algae', 'high')], ['Reduce feeding']),
+          result([problem('Hair Algae', 'high')]),
+        ]);
+
+      const notification = toNotification(tank, await buildWeeklyDigest(tank, now));
+
+      expect(notification).toMatchObject({
+        device_id: 'device-row-1',
+        category: 'weekly_digest',
+        title: 'Display: your week in review',
+        body: 'Health score 70 (down 20 on last week). Keeps showing up: Hair Algae. Top tip: Reduce feeding',
+        data: { digest: { tank_id: tank.id } },
+      });
+
+      getScores.mockRestore();
+      getTankResults.mockRestore();
+    });
+  });
+
+  describe('runWeeklyDigests', () => {
+    it('should send a digest per recently scanned tank and count the outcomes', async () => {
+      const sent: Notification[] = [];
+      const notify = jest.spyOn(notifications, 'notify').mockImplementation((notification) => {
+        if (notification.device_id === 'device-row-2') {
+          return Promise.reject(new Error('Delivery failed'));
+        }
+        if (notification.device_id === 'device-row-3') {
+          return Promise.resolve('skipped');
+        }
+        sent.push(notification);
+        return Promise.resolve('sent');
+      });
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          tank,
+          { ...tank, id: 'b3f1c2d4-0000-4000-8000-000000000002', device_id: 'device-row-2' },
+          { ...tank, id: 'b3f1c2d4-0000-4000-8000-000000000003', device_id: 'device-row-3' },
+        ],
+        rowCount: 3,
+      } as never);
+      const getScores = jest.spyOn(health, 'getScores').mockResolvedValue([]);
+      const getTankResults = jest.spyOn(scans, 'getTankResults').mockResolvedValue([]);
+
+      const summary = await runWeeklyDigests(now);
+
+      expect(summary).toEqual({ tanks: 3, sent: 1, skipped: 1, failed: 1 });
+      expect(sent.map((notification) => notification.device_id)).toEqual(['device-row-1']);
+      expect(sqlMock.mock.calls[0]).toContain('2026-10-12T08:00:00.000Z');
+
+      notify.mockRestore();
+      getScores.mockRestore();
+      getTankResults.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// ============================================================================
+// Experiment Service Unit Tests
+// Tests for variant assignment and prompt resolution
+// ============================================================================
+
+import { assignVariant, resolvePrompt } from '../../services/experiment.service';
+import * as redis from '../../services/redis.service';
+import type { PromptExperiment } from '../../types';
+
+const mockStore = (redis as unknown as { __mockStore: Map<string, { value: unknown; expiry?: number }> }).__mockStore;
+
+describe('Experiment Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const experiment = (variants: PromptExperiment['variants']): PromptExperiment => ({
+    id: 42,
+    mode: 'fish_id',
+    variants,
+    status: 'running',
+    started_by: 'alice',
+    started_at: new Date(),
+    stopped_by: null,
+    stopped_at: null,
+    promoted_version: null,
+  });
+
+  const seedRunningExperiment = (value: PromptExperiment): void => {
+    mockStore.set('experiment:running:fish_id', { value: { experiment: value } });
+  };
+
+  // -------------------------------------------------------------------------
+  // assignVariant
+  // -------------------------------------------------------------------------
+
+  describe('assignVariant', () => {
+    const split = experiment([
+      { version: 1, weight: 1 },
+      { version: 2, weight: 1 },
+    ]);
+
+    it('should keep a device in the same variant', () => {
+      const first = assignVariant(split, 'device-abc');
+
+      for (let i = 0; i < 5; i++) {
+        expect(assignVariant(split, 'device-abc')).toBe(first);
+      }
+    });
+
+    it('should reshuffle devices between experiments', () => {
+      const devices = Array.from({ length: 50 }, (_, i) => `device-${i}`);
+      const other = { ...split, id: 43 };
+
+      const moved = devices.filter(
+        (device) => assignVariant(split, device).version !== assignVariant(other, device).version
+      );
+
+      expect(moved.length).toBeGreaterThan(0);
+    });
+
+    it('should split devices roughly by weight', () => {
+      const weighted = experiment([
+        { version: 1, weight: 3 },
+        { version: 2, weight: 1 },
+      ]);
+
+      let control = 0;
+      for (let i = 0; i < 2000; i++) {
+        if (assignVariant(weighted, `device-${i}`).version === 1) control++;
+      }
+
+      expect(control / 2000).toBeGreaterThan(0.7);
+      expect(control / 2000).toBeLessThan(0.8);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // resolvePrompt
+  // -------------------------------------------------------------------------
+
+  describe('resolvePrompt', () => {
+    it('should use the active prompt when no experiment is running', async () => {
+      const resolved = await resolvePrompt('fish_id', 'device-abc');
+
+      expect(resolved.experimentId).toBeUndefined();
+      expect(resolved.prompt.version).toBe(0);
+    });
+
+    it('should attribute requests to the running experiment', async () => {
+      seedRunningExperiment(experiment([{ version: 0, weight: 1 }]));
+
+      const resolved = await resolvePrompt('fish_id', 'device-abc');
+
+      expect(resolved.experimentId).toBe(42);
+      expect(resolved.prompt.version).toBe(0);
+    });
+
+    it('should fall back to the active prompt when a variant is missing', async () => {
+      seedRunningExperiment(experiment([{ version: 9, weight: 1 }]));
+
+      const resolved = await resolvePrompt('fish_id', 'device-abc');
+
+      expect(resolved.experimentId).toBeUndefined();
+      expect(resolved.prompt.version).toBe(0);
+    });
+  });
+});
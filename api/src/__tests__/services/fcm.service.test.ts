@@ -0,0 +1,156 @@
+// ============================================================================
+// FCM Service Unit Tests
+// Tests for the FCM HTTP v1 transport and its error mapping
+// ============================================================================
+
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { buildFcmMessage, createFcmTransport, resetAccessToken } from '../../services/fcm.service';
+import type { PushMessage } from '../../types';
+
+describe('FCM Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  const account = {
+    projectId: 'reefscan-test',
+    clientEmail: 'push@reefscan-test.iam.gserviceaccount.com',
+    privateKey,
+  };
+
+  const message: PushMessage = {
+    token: 'token-1',
+    platform: 'android',
+    category: 'maintenance_due',
+    title: 'Display: Water change',
+    body: 'Due 2026-10-20.',
+    data: { task_id: 12, status: 'due' },
+  };
+
+  const jsonResponse = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  const tokenResponse = () => jsonResponse(200, { access_token: 'access-1', expires_in: 3600 });
+
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetAccessToken();
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  // -------------------------------------------------------------------------
+  // buildFcmMessage
+  // -------------------------------------------------------------------------
+
+  describe('buildFcmMessage', () => {
+    it('should send data values as strings', () => {
+      expect(buildFcmMessage(message)).toMatchObject({
+        token: 'token-1',
+        notification: { title: 'Display: Water change', body: 'Due 2026-10-20.' },
+        data: { category: 'maintenance_due', task_id: '12', status: 'due' },
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Transport
+  // -------------------------------------------------------------------------
+
+  describe('createFcmTransport', () => {
+    it('should sign in with the service account and send the message', async () => {
+      fetchMock.mockResolvedValueOnce(tokenResponse()).mockResolvedValueOnce(jsonResponse(200, { name: 'msg-1' }));
+
+      const result = await createFcmTransport(account).send(message);
+
+      expect(result).toEqual({ status: 'sent' });
+
+      const [tokenUrl, tokenInit] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const assertion = new URLSearchParams(tokenInit.body as string).get('assertion') as string;
+      expect(tokenUrl).toBe('https://oauth2.googleapis.com/token');
+      expect(jwt.verify(assertion, publicKey)).toMatchObject({
+        iss: account.clientEmail,
+        scope: 'https://www.googleapis.com/auth/firebase.messaging',
+      });
+
+      const [sendUrl, sendInit] = fetchMock.mock.calls[1] as [string, RequestInit];
+      expect(sendUrl).toBe('https://fcm.googleapis.com/v1/projects/reefscan-test/messages:send');
+      expect((sendInit.headers as Record<string, string>).Authorization).toBe('Bearer access-1');
+    });
+
+    it('should reuse the access token', async () => {
+      fetchMock
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(jsonResponse(200, {}))
+        .mockResolvedValueOnce(jsonResponse(200, {}));
+      const transport = createFcmTransport(account);
+
+      await transport.send(message);
+      await transport.send(message);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report unregistered and malformed tokens as invalid', async () => {
+      fetchMock
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(
+          jsonResponse(404, {
+            error: {
+              code: 404,
+              message: 'Requested entity was not found.',
+              status: 'NOT_FOUND',
+              details: [{ '@type': 'type.googleapis.com/google.firebase.fcm.v1.FcmError', errorCode: 'UNREGISTERED' }],
+            },
+          })
+        )
+        .mockResolvedValueOnce(
+          jsonResponse(400, {
+            error: {
+              code: 400,
+              message: 'The registration token is not a valid FCM registration token',
+              status: 'INVALID_ARGUMENT',
+            },
+          })
+        );
+      const transport = createFcmTransport(account);
+
+      expect(await transport.send(message)).toEqual({
+        status: 'invalid_token',
+        error: 'Requested entity was not found.',
+      });
+      expect((await transport.send(message)).status).toBe('invalid_token');
+    });
+
+    it('should report other errors as failed', async () => {
+      fetchMock
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValueOnce(
+          jsonResponse(503, { error: { code: 503, message: 'The service is unavailable.', status: 'UNAVAILABLE' } })
+        );
+
+      expect(await createFcmTransport(account).send(message)).toEqual({
+        status: 'failed',
+        error: 'The service is unavailable.',
+      });
+    });
+
+    it('should throw without a service account or when sign-in fails', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(400, { error: 'invalid_grant', error_description: 'Invalid JWT' }));
+
+      await expect(createFcmTransport(null).send(message)).rejects.toThrow('FCM_SERVICE_ACCOUNT is not set');
+      await expect(createFcmTransport(account).send(message)).rejects.toThrow('Invalid JWT');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// ============================================================================
+// Feedback Service Unit Tests
+// Tests for feedback ownership checks, cache invalidation and livestock updates
+// ============================================================================
+
+import { sql } from '../../db';
+import { submitFeedback, FeedbackError } from '../../services/feedback.service';
+import { cacheResult, getCachedResult, isImageCorrected } from '../../services/cache.service';
+import * as livestock from '../../services/livestock.service';
+import type { ScanResult } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Feedback Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const deviceId = 'device-1';
+  const imageHash = 'a'.repeat(64);
+
+  const requestLog = (overrides: Record<string, unknown> = {}) => ({
+    rows: [
+      {
+        device_id: deviceId,
+        image_hash: imageHash,
+        mode: 'fish_id',
+        status: 'success',
+        identification_count: 2,
+        ...overrides,
+      },
+    ],
+    rowCount: 1,
+  });
+
+  const savedFeedback = (identifications: unknown[]) => ({
+    rows: [
+      {
+        id: 1,
+        request_id: 'req-1',
+        device_id: deviceId,
+        image_hash: imageHash,
+        mode: 'fish_id',
+        rating: 2,
+        identifications,
+        comment: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+    ],
+    rowCount: 1,
+  });
+
+  const scanResult = { request_id: 'req-0', identifications: [] } as unknown as ScanResult;
+
+  // -------------------------------------------------------------------------
+  // submitFeedback
+  // -------------------------------------------------------------------------
+
+  describe('submitFeedback', () => {
+    it('should report requests from other devices as missing', async () => {
+      sqlMock.mockResolvedValueOnce(requestLog({ device_id: 'device-2' }));
+
+      await expect(submitFeedback('req-1', deviceId, { rating: 3, identifications: [] })).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should reject feedback on failed requests', async () => {
+      sqlMock.mockResolvedValueOnce(requestLog({ status: 'error', identification_count: null }));
+
+      await expect(submitFeedback('req-1', deviceId, { rating: 1, identifications: [] })).rejects.toBeInstanceOf(
+        FeedbackError
+      );
+    });
+
+    it('should reject identification indexes outside the result', async () => {
+      sqlMock.mockResolvedValueOnce(requestLog());
+
+      await expect(
+        submitFeedback('req-1', deviceId, {
+          identifications: [{ index: 2, name: 'Blue Tang', verdict: 'incorrect' }],
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should stop serving the cached result once corrected', async () => {
+      const identifications = [
+        { index: 0, name: 'Damselfish', verdict: 'renamed', corrected_name: 'Blue Green Chromis' },
+      ] as const;
+      await cacheResult(imageHash, 'fish_id', scanResult);
+      sqlMock.mockResolvedValueOnce(requestLog()).mockResolvedValueOnce(savedFeedback([...identifications]));
+
+      const feedback = await submitFeedback('req-1', deviceId, {
+        rating: 2,
+        identifications: [...identifications],
+      });
+
+      expect(feedback.identifications[0].corrected_name).toBe('Blue Green Chromis');
+      expect(await isImageCorrected(imageHash)).toBe(true);
+      expect(await getCachedResult(imageHash, 'fish_id')).toBeNull();
+    });
+
+    it('should keep the cached result when every identification is confirmed', async () => {
+      const identifications = [{ index: 0, name: 'Yellow Tang', verdict: 'correct' }] as const;
+      await cacheResult(imageHash, 'fish_id', scanResult);
+      sqlMock.mockResolvedValueOnce(requestLog()).mockResolvedValueOnce(savedFeedback([...identifications]));
+
+      await submitFeedback('req-1', deviceId, { rating: 5, identifications: [...identifications] });
+
+      expect(await isImageCorrected(imageHash)).toBe(false);
+      expect(await getCachedResult(imageHash, 'fish_id')).not.toBeNull();
+    });
+
+    it('should add confirmed and renamed identifications to the tank livestock', async () => {
+      const recordConfirmed = jest.spyOn(livestock, 'recordConfirmed').mockResolvedValue();
+      const identifications = [
+        { index: 0, name: 'Damselfish', verdict: 'renamed', corrected_name: 'Blue Green Chromis' },
+        { index: 1, name: 'Yellow Tang', verdict: 'correct' },
+        { index: 2, name: 'Clownfish', verdict: 'incorrect' },
+      ] as const;
+      sqlMock
+        .mockResolvedValueOnce(
+          requestLog({
+            identification_count: 3,
+            tank_id: 'tank-1',
+            created_at: '2026-10-01T12:00:00.000Z',
+            result: {
+              identifications: [
+                { name: 'Damselfish', category: 'fish', confidence: 0.5 },
+                { name: 'Yellow Tang', category: 'fish', confidence: 0.6 },
+                { name: 'Clownfish', category: 'fish', confidence: 0.9 },
+              ],
+            },
+          })
+        )
+        .mockResolvedValueOnce(savedFeedback([...identifications]));
+
+      await submitFeedback('req-1', deviceId, { identifications: [...identifications] });
+
+      expect(recordConfirmed).toHaveBeenCalledWith(
+        'tank-1',
+        [
+          { name: 'Blue Green Chromis', category: 'fish' },
+          { name: 'Yellow Tang', category: 'fish' },
+        ],
+        new Date('2026-10-01T12:00:00.000Z')
+      );
+
+      recordConfirmed.mockRestore();
+    });
+  });
+});
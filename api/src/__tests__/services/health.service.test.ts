@@ -0,0 +1,114 @@
+// ============================================================================
+// Health Score Service Unit Tests
+// Tests for scan scoring and the score time series
+// ============================================================================
+
+import { sql } from '../../db';
+import { calculateHealthScore, recordScore, getScores } from '../../services/health.service';
+import type { Identification, StoredScanResult } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Health Score Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const tankId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const problem = (severity: Identification['severity'], confidence = 1): Identification => ({
+    name: 'Aiptasia',
+    category: 'pest',
+    confidence,
+    is_problem: true,
+    severity,
+    description: '',
+  });
+
+  const result = (
+    tankHealth: StoredScanResult['tank_health'],
+    identifications: Identification[] = []
+  ): StoredScanResult => ({
+    tank_health: tankHealth,
+    summary: '',
+    identifications,
+    recommendations: [],
+  });
+
+  // -------------------------------------------------------------------------
+  // calculateHealthScore
+  // -------------------------------------------------------------------------
+
+  describe('calculateHealthScore', () => {
+    it('should start from the tank_health rating', () => {
+      expect(calculateHealthScore(result('Excellent'))).toBe(100);
+      expect(calculateHealthScore(result('Critical'))).toBe(20);
+    });
+
+    it('should take points off per problem, weighted by confidence', () => {
+      const healthy = { ...problem('high'), is_problem: false };
+
+      expect(calculateHealthScore(result('Good', [problem('high'), problem('medium', 0.5), healthy]))).toBe(73);
+      expect(calculateHealthScore(result('Good', [problem(null)]))).toBe(83);
+    });
+
+    it('should cap the problem penalty and stay within 0-100', () => {
+      const many = Array.from({ length: 10 }, () => problem('high'));
+
+      expect(calculateHealthScore(result('Good', many))).toBe(55);
+      expect(calculateHealthScore(result('Critical', many))).toBe(0);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Storage
+  // -------------------------------------------------------------------------
+
+  describe('recordScore', () => {
+    it('should store the score with the problem count', async () => {
+      const scannedAt = new Date('2026-10-15T09:00:00.000Z');
+
+      const score = await recordScore(tankId, 'req-1', result('Fair', [problem('low')]), scannedAt);
+
+      expect(score).toEqual({
+        request_id: 'req-1',
+        score: 63,
+        tank_health: 'Fair',
+        problem_count: 1,
+        scanned_at: scannedAt,
+      });
+      expect(sqlMock.mock.calls[0]).toEqual(
+        expect.arrayContaining(['req-1', tankId, 63, 'Fair', 1, '2026-10-15T09:00:00.000Z'])
+      );
+    });
+  });
+
+  describe('getScores', () => {
+    it('should convert rows', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          {
+            request_id: 'req-1',
+            score: 72,
+            tank_health: 'Good',
+            problem_count: '2',
+            scanned_at: '2026-10-15T09:00:00.000Z',
+          },
+        ],
+        rowCount: 1,
+      } as never);
+
+      const scores = await getScores(tankId, { limit: 200 });
+
+      expect(scores).toEqual([
+        {
+          request_id: 'req-1',
+          score: 72,
+          tank_health: 'Good',
+          problem_count: 2,
+          scanned_at: new Date('2026-10-15T09:00:00.000Z'),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+// ============================================================================
+// Job Service Unit Tests
+// Tests for asynchronous analysis job submission and processing
+// ============================================================================
+
+import {
+  submitJob,
+  processJob,
+  getJob,
+  getJobByRequestId,
+  isTerminal,
+} from '../../services/job.service';
+import * as analysis from '../../services/analysis.service';
+import config from '../../config';
+import { sql } from '../../db';
+import * as notifications from '../../services/notification.service';
+import type { AnalysisJob, Device, ScanResult } from '../../types';
+
+jest.mock('../../services/analysis.service', () => {
+  const actual = jest.requireActual<typeof import('../../services/analysis.service')>(
+    '../../services/analysis.service'
+  );
+  return {
+    AnalysisError: actual.AnalysisError,
+    resolveTank: actual.resolveTank,
+    runAnalysis: jest.fn(),
+  };
+});
+
+const mockedRunAnalysis = analysis.runAnalysis as jest.MockedFunction<typeof analysis.runAnalysis>;
+
+describe('Job Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const device: Device = {
+    id: 'device-row-1',
+    device_uuid: '550e8400-e29b-41d4-a716-446655440000',
+    platform: 'android',
+    app_version: '1.0.0',
+    created_at: new Date(),
+    last_seen_at: new Date(),
+    refresh_token: null,
+    token_version: 1,
+    tier: 'free',
+    subscription_id: null,
+    is_blocked: false,
+    block_reason: null,
+    metadata: {},
+  };
+
+  const scanResult: ScanResult = {
+    request_id: 'req-job-1',
+    tank_health: 'Good',
+    summary: 'Healthy tank.',
+    identifications: [],
+    recommendations: [],
+    usage: { requests_today: 1, daily_limit: 3, reset_at: new Date().toISOString() },
+  };
+
+  const request = {
+    images: [{ data: 'aW1hZ2U=', mime_type: 'image/png' as const }],
+    mode: 'fish_id' as const,
+  };
+
+  // -------------------------------------------------------------------------
+  // submitJob Tests
+  // -------------------------------------------------------------------------
+
+  describe('submitJob', () => {
+    it('should create a queued job owned by the device', async () => {
+      mockedRunAnalysis.mockReturnValue(new Promise(() => undefined));
+
+      const { job, isNew } = await submitJob(request, { requestId: 'req-job-1', device });
+
+      expect(isNew).toBe(true);
+      expect(job.status).toBe('queued');
+      expect(job.device_id).toBe(device.id);
+      expect(job.mode).toBe('fish_id');
+    });
+
+    it('should return the existing job for a repeated request id', async () => {
+      mockedRunAnalysis.mockReturnValue(new Promise(() => undefined));
+
+      const first = await submitJob(request, { requestId: 'req-job-2', device });
+      const second = await submitJob(request, { requestId: 'req-job-2', device });
+
+      expect(second.isNew).toBe(false);
+      expect(second.job.id).toBe(first.job.id);
+      expect(mockedRunAnalysis).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start one job for concurrent submissions with the same request id', async () => {
+      mockedRunAnalysis.mockReturnValue(new Promise(() => undefined));
+
+      const [first, second] = await Promise.all([
+        submitJob(request, { requestId: 'req-job-7', device }),
+        submitJob(request, { requestId: 'req-job-7', device }),
+      ]);
+
+      expect([first.isNew, second.isNew].sort()).toEqual([false, true]);
+      expect(second.job.id).toBe(first.job.id);
+      expect(mockedRunAnalysis).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be retrievable by id and request id', async () => {
+      mockedRunAnalysis.mockReturnValue(new Promise(() => undefined));
+
+      const { job } = await submitJob(request, { requestId: 'req-job-3', device });
+
+      expect((await getJob(job.id))?.request_id).toBe('req-job-3');
+      expect((await getJobByRequestId('req-job-3'))?.id).toBe(job.id);
+    });
+
+    it('should reject an unknown tank before accepting the job', async () => {
+      await expect(
+        submitJob({ ...request, tank_id: 'not-a-tank' }, { requestId: 'req-job-5', device })
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Tank not found' });
+
+      expect(mockedRunAnalysis).not.toHaveBeenCalled();
+      expect(await getJobByRequestId('req-job-5')).toBeNull();
+    });
+
+    it('should fail jobs that are not finished in time when read', async () => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T08:00:00.000Z') });
+      mockedRunAnalysis.mockReturnValue(new Promise(() => undefined));
+
+      const { job } = await submitJob(request, { requestId: 'req-job-6', device });
+      expect(isTerminal((await getJob(job.id))?.status ?? 'failed')).toBe(false);
+
+      jest.setSystemTime(new Date('2026-10-19T08:05:00.000Z'));
+      const expired = await getJob(job.id);
+
+      expect(expired?.status).toBe('failed');
+      expect(expired?.error?.code).toBe('AI_UNAVAILABLE');
+      expect((await getJobByRequestId('req-job-6'))?.status).toBe('failed');
+
+      jest.useRealTimers();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // processJob Tests
+  // -------------------------------------------------------------------------
+
+  describe('processJob', () => {
+    const newJob = async (): Promise<AnalysisJob> => {
+      await sql`
+        INSERT INTO analysis_jobs (id, request_id, device_id, mode, status)
+        VALUES (${'job-1'}, ${'req-job-4'}, ${device.id}, ${'fish_id'}, 'queued')
+        ON CONFLICT (request_id) DO NOTHING
+        RETURNING id
+      `;
+
+      return {
+        id: 'job-1',
+        request_id: 'req-job-4',
+        device_id: device.id,
+        mode: 'fish_id',
+        status: 'queued',
+        result: null,
+        error: null,
+        created_at: new Date().toISOString(),
+        started_at: null,
+        completed_at: null,
+      };
+    };
+
+    it('should store the result when analysis succeeds', async () => {
+      mockedRunAnalysis.mockResolvedValue(scanResult);
+
+      await processJob(await newJob(), request, { requestId: 'req-job-4', device });
+      const stored = await getJob('job-1');
+
+      expect(stored?.status).toBe('succeeded');
+      expect(stored?.result?.summary).toBe('Healthy tank.');
+      expect(stored?.completed_at).not.toBeNull();
+    });
+
+    it('should record the error when analysis fails', async () => {
+      mockedRunAnalysis.mockRejectedValue(
+        new analysis.AnalysisError('AI_UNAVAILABLE', 'All providers failed', 503, 30)
+      );
+
+      await processJob(await newJob(), request, { requestId: 'req-job-4', device });
+      const stored = await getJob('job-1');
+
+      expect(stored?.status).toBe('failed');
+      expect(stored?.error).toEqual({ code: 'AI_UNAVAILABLE', message: 'All providers failed' });
+    });
+
+    it('should tell the device the job finished', async () => {
+      const notify = jest.spyOn(notifications, 'notify').mockResolvedValue('sent');
+      mockedRunAnalysis.mockResolvedValue(scanResult);
+
+      await processJob(await newJob(), request, { requestId: 'req-job-4', device });
+
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          device_id: device.id,
+          category: 'job_complete',
+          data: { job_id: 'job-1', request_id: 'req-job-4', status: 'succeeded' },
+        })
+      );
+
+      notify.mockRestore();
+    });
+
+    it('should not overwrite a job that expired before its analysis finished', async () => {
+      const jobTimeout = jest.replaceProperty(config.limits, 'jobTimeoutMs', 0);
+      const notify = jest.spyOn(notifications, 'notify').mockResolvedValue('sent');
+      let finishAnalysis: (result: ScanResult) => void = () => undefined;
+      mockedRunAnalysis.mockReturnValue(
+        new Promise((resolve) => {
+          finishAnalysis = resolve;
+        })
+      );
+
+      const late = processJob(await newJob(), request, { requestId: 'req-job-4', device });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockedRunAnalysis).toHaveBeenCalled();
+      expect((await getJob('job-1'))?.status).toBe('failed');
+
+      finishAnalysis(scanResult);
+      await late;
+
+      const stored = await getJob('job-1');
+      expect(stored?.status).toBe('failed');
+      expect(stored?.result).toBeNull();
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'failed' }) })
+      );
+
+      notify.mockRestore();
+      jobTimeout.restore();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // isTerminal Tests
+  // -------------------------------------------------------------------------
+
+  describe('isTerminal', () => {
+    it('should treat succeeded and failed as terminal', () => {
+      expect(isTerminal('succeeded')).toBe(true);
+      expect(isTerminal('failed')).toBe(true);
+      expect(isTerminal('queued')).toBe(false);
+      expect(isTerminal('running')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+// ============================================================================
+// Livestock Service Unit Tests
+// Tests for scan-driven inventory updates and user edits
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  recordScan,
+  recordConfirmed,
+  listLivestock,
+  addLivestock,
+  updateLivestock,
+  LivestockError,
+} from '../../services/livestock.service';
+import type { Identification } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Livestock Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const tankId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const identification = (name: string, category: string, confidence = 0.9): Identification => ({
+    name,
+    category,
+    confidence,
+    is_problem: false,
+    severity: null,
+    description: '',
+  });
+
+  const row = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    tank_id: tankId,
+    name: 'Ocellaris Clownfish',
+    category: 'fish',
+    count: 2,
+    notes: null,
+    source: 'scan',
+    first_seen_at: '2026-09-01T12:00:00.000Z',
+    last_seen_at: '2026-10-01T12:00:00.000Z',
+    sighting_count: 5,
+    missed_scans: 0,
+    created_at: '2026-09-01T12:00:00.000Z',
+    updated_at: '2026-10-01T12:00:00.000Z',
+    ...overrides,
+  });
+
+  // -------------------------------------------------------------------------
+  // recordScan
+  // -------------------------------------------------------------------------
+
+  describe('recordScan', () => {
+    it('should refresh entries from confident sightings grouped by name', async () => {
+      await recordScan(tankId, 'comprehensive', [
+        identification('Ocellaris Clownfish', 'fish'),
+        identification('ocellaris  clownfish', 'fish'),
+        identification('Green Star Polyp', 'coral', 0.4),
+        identification('Aiptasia', 'pest'),
+      ]);
+
+      // One refresh for the clownfish, then the miss update
+      expect(sqlMock).toHaveBeenCalledTimes(2);
+      expect(sqlMock.mock.calls[0]).toEqual(expect.arrayContaining([2, tankId, 'ocellaris clownfish']));
+
+      const missUpdate = sqlMock.mock.calls[1];
+      // Unconfident sightings still reset misses; only the categories of the mode are checked
+      expect(missUpdate).toContainEqual(['ocellaris clownfish', 'green star polyp']);
+      expect(missUpdate).toContainEqual(['fish', 'coral', 'invertebrate']);
+      expect(missUpdate).toContainEqual(['ocellaris clownfish']);
+    });
+
+    it('should only count misses for the categories a mode looks for', async () => {
+      await recordScan(tankId, 'fish_id', [identification('Torch Coral', 'coral')]);
+
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+      expect(sqlMock.mock.calls[0]).toContainEqual(['fish']);
+    });
+
+    it('should leave the inventory alone for modes that ignore livestock', async () => {
+      await recordScan(tankId, 'algae_id', [identification('Ocellaris Clownfish', 'fish')]);
+
+      expect(sqlMock).not.toHaveBeenCalled();
+    });
+
+    it('should treat the confidence threshold as confirmation', async () => {
+      await recordScan(tankId, 'fish_id', [
+        identification('Yellow Tang', 'fish', 0.7),
+        identification('Royal Gramma', 'fish', 0.69),
+      ]);
+
+      // One refresh for the tang, then the miss update
+      expect(sqlMock).toHaveBeenCalledTimes(2);
+      expect(sqlMock.mock.calls[0]).toContain('yellow tang');
+    });
+
+    it('should not add livestock the user has not confirmed', async () => {
+      await recordScan(tankId, 'comprehensive', [identification('Yellow Tang', 'fish', 0.99)]);
+
+      for (const [strings] of sqlMock.mock.calls) {
+        expect(strings.join('')).not.toContain('INSERT');
+      }
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // recordConfirmed
+  // -------------------------------------------------------------------------
+
+  describe('recordConfirmed', () => {
+    it('should add user-confirmed livestock dated to the scan', async () => {
+      const scannedAt = new Date('2026-10-01T12:00:00.000Z');
+
+      await recordConfirmed(
+        tankId,
+        [
+          { name: 'Blue Green Chromis', category: 'fish' },
+          { name: 'Aiptasia', category: 'pest' },
+        ],
+        scannedAt
+      );
+
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+      expect(sqlMock.mock.calls[0]).toEqual(
+        expect.arrayContaining([tankId, 'Blue Green Chromis', 'blue green chromis', 'fish', scannedAt.toISOString()])
+      );
+      // Sending the feedback again must not count another sighting
+      expect(sqlMock.mock.calls[0][0].join('')).not.toContain('sighting_count = livestock.sighting_count');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // listLivestock
+  // -------------------------------------------------------------------------
+
+  describe('listLivestock', () => {
+    it('should flag items missing from several consecutive scans', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [row(), row({ id: 2, name: 'Yellow Tang', missed_scans: 3 })],
+        rowCount: 2,
+      } as never);
+
+      const items = await listLivestock(tankId);
+
+      expect(items.map((item) => item.status)).toEqual(['present', 'not_seen_recently']);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // User Edits
+  // -------------------------------------------------------------------------
+
+  describe('addLivestock', () => {
+    it('should reject names already in the tank', async () => {
+      await expect(
+        addLivestock(tankId, { name: 'Ocellaris Clownfish', category: 'fish' })
+      ).rejects.toBeInstanceOf(LivestockError);
+    });
+
+    it('should store hand-added items as user entries', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [row({ source: 'user', first_seen_at: null, last_seen_at: null, sighting_count: 0 })],
+        rowCount: 1,
+      } as never);
+
+      const item = await addLivestock(tankId, { name: 'Ocellaris Clownfish', category: 'fish', count: 2 });
+
+      expect(item).toMatchObject({ source: 'user', first_seen_at: null, status: 'present' });
+    });
+  });
+
+  describe('updateLivestock', () => {
+    it('should reject a rename onto another item', async () => {
+      sqlMock
+        .mockResolvedValueOnce({ rows: [row()], rowCount: 1 } as never)
+        .mockResolvedValueOnce({ rows: [{ id: 2 }], rowCount: 1 } as never);
+
+      const error = await updateLivestock(tankId, 1, { name: 'Yellow Tang' }).catch((err: unknown) => err);
+
+      expect(error).toMatchObject({ statusCode: 409 });
+    });
+
+    it('should return null for items outside the tank', async () => {
+      expect(await updateLivestock(tankId, 99, { count: 3 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// ============================================================================
+// Maintenance Service Unit Tests
+// Tests for task scheduling, recommendation tasks and due reminders
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  completeTask,
+  createTaskFromRecommendation,
+  getTaskStatus,
+  inferIntervalDays,
+  inferTaskKind,
+  MaintenanceError,
+  sendDueReminders,
+} from '../../services/maintenance.service';
+import * as notifications from '../../services/notification.service';
+import * as scans from '../../services/scan.service';
+import type { Notification, ScanRecord } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Maintenance Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const now = new Date('2026-10-19T08:00:00.000Z');
+  const tankId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const taskRow = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    id: '12',
+    tank_id: tankId,
+    title: 'Water change',
+    kind: 'water_change',
+    interval_days: 7,
+    next_due_at: '2026-10-18T08:00:00.000Z',
+    notes: null,
+    source: 'user',
+    source_request_id: null,
+    source_index: null,
+    last_completed_at: '2026-10-11T08:00:00.000Z',
+    last_reminded_at: null,
+    created_at: '2026-09-01T08:00:00.000Z',
+    updated_at: '2026-10-11T08:00:00.000Z',
+    ...overrides,
+  });
+
+  const scan = (overrides: Partial<ScanRecord> = {}): ScanRecord => ({
+    request_id: 'req-1',
+    mode: 'comprehensive',
+    tank_id: tankId,
+    tank_health: 'Fair',
+    summary: '',
+    identifications: [],
+    recommendations: ['Reduce feeding', 'Do a 15% water change every week.'],
+    created_at: now,
+    ...overrides,
+  });
+
+  // -------------------------------------------------------------------------
+  // Recommendation Parsing
+  // -------------------------------------------------------------------------
+
+  describe('inferTaskKind', () => {
+    it('should recognise common upkeep', () => {
+      expect(inferTaskKind('Do a 20% water change')).toBe('water_change');
+      expect(inferTaskKind('Swap the filter socks every 3 days')).toBe('filter_sock');
+      expect(inferTaskKind('Refill the kalkwasser reservoir')).toBe('dosing_refill');
+      expect(inferTaskKind('Test alkalinity and calcium')).toBe('water_test');
+      expect(inferTaskKind('Clean the skimmer cup')).toBe('equipment');
+      expect(inferTaskKind('Reduce feeding')).toBe('other');
+    });
+  });
+
+  describe('inferIntervalDays', () => {
+    it('should read how often the text asks for it', () => {
+      expect(inferIntervalDays('Swap the filter socks every 3 days')).toBe(3);
+      expect(inferIntervalDays('Water change every 2 weeks')).toBe(14);
+      expect(inferIntervalDays('Dose magnesium daily')).toBe(1);
+      expect(inferIntervalDays('Do a weekly 10% water change')).toBe(7);
+      expect(inferIntervalDays('Replace the carbon monthly')).toBe(30);
+      expect(inferIntervalDays('Remove the aiptasia')).toBeNull();
+    });
+  });
+
+  describe('getTaskStatus', () => {
+    it('should tell overdue, due and upcoming apart', () => {
+      expect(getTaskStatus(new Date('2026-10-19T07:00:00.000Z'), now)).toBe('overdue');
+      expect(getTaskStatus(new Date('2026-10-20T07:00:00.000Z'), now)).toBe('due');
+      expect(getTaskStatus(new Date('2026-10-21T08:00:00.000Z'), now)).toBe('upcoming');
+      expect(getTaskStatus(null, now)).toBe('done');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // createTaskFromRecommendation
+  // -------------------------------------------------------------------------
+
+  describe('createTaskFromRecommendation', () => {
+    it('should create a recurring task from the recommendation text', async () => {
+      const getScan = jest.spyOn(scans, 'getScan').mockResolvedValue(scan());
+      sqlMock
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as never)
+        .mockResolvedValueOnce({ rows: [{ count: '2' }], rowCount: 1 } as never)
+        .mockResolvedValueOnce({
+          rows: [taskRow({ title: 'Do a 15% water change every week.', source: 'recommendation' })],
+          rowCount: 1,
+        } as never);
+
+      const { task, created } = await createTaskFromRecommendation('device-row-1', tankId, {
+        request_id: 'req-1',
+        index: 1,
+      });
+
+      expect(created).toBe(true);
+      expect(task).toMatchObject({ id: 12, source: 'recommendation', kind: 'water_change' });
+      expect(sqlMock.mock.calls[2]).toEqual(
+        expect.arrayContaining([tankId, 'Do a 15% water change every week.', 'water_change', 7, 'req-1', 1])
+      );
+
+      getScan.mockRestore();
+    });
+
+    it('should return the existing task for a repeated recommendation', async () => {
+      const getScan = jest.spyOn(scans, 'getScan').mockResolvedValue(scan());
+      sqlMock.mockResolvedValueOnce({ rows: [taskRow({ source: 'recommendation' })], rowCount: 1 } as never);
+
+      const { task, created } = await createTaskFromRecommendation('device-row-1', tankId, {
+        request_id: 'req-1',
+        index: 1,
+      });
+
+      expect(created).toBe(false);
+      expect(task.id).toBe(12);
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+
+      getScan.mockRestore();
+    });
+
+    it('should reject scans of other tanks and indexes out of range', async () => {
+      const getScan = jest
+        .spyOn(scans, 'getScan')
+        .mockResolvedValueOnce(scan({ tank_id: 'b3f1c2d4-0000-4000-8000-000000000002' }))
+        .mockResolvedValueOnce(scan());
+
+      await expect(
+        createTaskFromRecommendation('device-row-1', tankId, { request_id: 'req-1', index: 0 })
+      ).rejects.toMatchObject({ statusCode: 400, message: 'The scan is of another tank' });
+      await expect(
+        createTaskFromRecommendation('device-row-1', tankId, { request_id: 'req-1', index: 2 })
+      ).rejects.toBeInstanceOf(MaintenanceError);
+
+      getScan.mockRestore();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // completeTask
+  // -------------------------------------------------------------------------
+
+  describe('completeTask', () => {
+    it('should schedule a recurring task one interval after the completion', async () => {
+      const completedAt = new Date('2026-10-19T06:00:00.000Z');
+      sqlMock
+        .mockResolvedValueOnce({ rows: [taskRow()], rowCount: 1 } as never)
+        .mockResolvedValueOnce({
+          rows: [{ id: '3', task_id: '12', completed_at: completedAt.toISOString(), note: null, created_at: now }],
+          rowCount: 1,
+        } as never)
+        .mockResolvedValueOnce({
+          rows: [taskRow({ next_due_at: '2026-10-26T06:00:00.000Z', last_completed_at: completedAt.toISOString() })],
+          rowCount: 1,
+        } as never);
+
+      const completed = await completeTask(tankId, 12, { completed_at: completedAt });
+
+      expect(completed?.completion).toMatchObject({ id: 3, task_id: 12, completed_at: completedAt });
+      expect(sqlMock.mock.calls[2]).toEqual(
+        expect.arrayContaining(['2026-10-19T06:00:00.000Z', '2026-10-26T06:00:00.000Z'])
+      );
+    });
+
+    it('should mark a one-off task done', async () => {
+      sqlMock
+        .mockResolvedValueOnce({ rows: [taskRow({ interval_days: null, last_completed_at: null })], rowCount: 1 } as never)
+        .mockResolvedValueOnce({ rows: [{ id: '4', task_id: '12', completed_at: now, created_at: now }], rowCount: 1 } as never)
+        .mockResolvedValueOnce({ rows: [taskRow({ interval_days: null, next_due_at: null })], rowCount: 1 } as never);
+
+      const completed = await completeTask(tankId, 12, { completed_at: now });
+
+      expect(completed?.task.status).toBe('done');
+      expect(sqlMock.mock.calls[2]).toEqual(expect.arrayContaining([now.toISOString(), null]));
+    });
+
+    it('should return null for tasks of other tanks', async () => {
+      expect(await completeTask(tankId, 99, {})).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // sendDueReminders
+  // -------------------------------------------------------------------------
+
+  describe('sendDueReminders', () => {
+    it('should remind each due task once and count failures', async () => {
+      const sent: Notification[] = [];
+      const notify = jest.spyOn(notifications, 'notify').mockImplementation((notification) => {
+        if (notification.device_id === 'device-row-2') {
+          return Promise.reject(new Error('Delivery failed'));
+        }
+        sent.push(notification);
+        return Promise.resolve('sent');
+      });
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          taskRow({ device_id: 'device-row-1', tank_name: 'Display' }),
+          taskRow({
+            id: '13',
+            title: 'Refill the ATO',
+            next_due_at: '2026-10-19T20:00:00.000Z',
+            device_id: 'device-row-2',
+            tank_name: 'Frag tank',
+          }),
+        ],
+        rowCount: 2,
+      } as never);
+
+      const summary = await sendDueReminders(now);
+
+      expect(summary).toEqual({ tasks: 2, sent: 1, skipped: 0, failed: 1 });
+      expect(sent).toEqual([
+        {
+          device_id: 'device-row-1',
+          category: 'maintenance_due',
+          title: 'Display: Water change',
+          body: 'Overdue since 2026-10-18.',
+          data: { task_id: 12, tank_id: tankId, kind: 'water_change', status: 'overdue' },
+        },
+      ]);
+      expect(sqlMock.mock.calls[0]).toContain('2026-10-20T08:00:00.000Z');
+      // Only the delivered reminder is marked as sent
+      expect(sqlMock).toHaveBeenCalledTimes(2);
+      expect(sqlMock.mock.calls[1]).toEqual(expect.arrayContaining([now.toISOString(), 12]));
+
+      notify.mockRestore();
+    });
+  });
+});
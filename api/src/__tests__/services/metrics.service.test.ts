@@ -0,0 +1,54 @@
+// ============================================================================
+// Metrics Service Unit Tests
+// Tests for the prompt experiment statistics
+// ============================================================================
+
+import { sql } from '../../db';
+import { getExperimentStats } from '../../services/metrics.service';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Metrics Service', () => {
+  describe('getExperimentStats', () => {
+    it('should average identifications and latency over the rows that have them', async () => {
+      sqlMock
+        .mockResolvedValueOnce({
+          rows: [
+            // 4 requests, 3 of them errors without an identification count
+            {
+              prompt_version: 2,
+              provider: 'gemini',
+              requests: '4',
+              errors: '3',
+              parse_failures: '0',
+              identifications: '6',
+              identification_samples: '1',
+              latency: '4000',
+              latency_samples: '4',
+              input_tokens: '0',
+              output_tokens: '0',
+            },
+            {
+              prompt_version: 2,
+              provider: 'openai',
+              requests: '1',
+              errors: '0',
+              parse_failures: '0',
+              identifications: '2',
+              identification_samples: '1',
+              latency: '2000',
+              latency_samples: '1',
+              input_tokens: '0',
+              output_tokens: '0',
+            },
+          ],
+          rowCount: 2,
+        } as never)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+      const [stats] = await getExperimentStats({ id: 1, variants: [{ version: 2, weight: 100 }] });
+
+      expect(stats).toMatchObject({ requests: 5, errorRate: 60, avgIdentifications: 4, avgLatencyMs: 1200 });
+    });
+  });
+});
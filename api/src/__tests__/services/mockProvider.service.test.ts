@@ -0,0 +1,98 @@
+// ============================================================================
+// Mock Provider Service Unit Tests
+// Tests for canned results, fixtures and simulated failures
+// ============================================================================
+
+import { createMockProvider, parseMockBehavior } from '../../services/mockProvider.service';
+import { calculateImageSetHash } from '../../services/cache.service';
+import type { ScanResult } from '../../types';
+
+describe('Mock Provider Service', () => {
+  const images = [{ data: 'ZnJvbnQtdmlldw==', mime_type: 'image/jpeg' as const }];
+
+  const fixtureResult: Omit<ScanResult, 'request_id' | 'usage'> = {
+    tank_health: 'Critical',
+    summary: 'Fixture result',
+    identifications: [],
+    recommendations: [],
+  };
+
+  // -------------------------------------------------------------------------
+  // Canned Result Tests
+  // -------------------------------------------------------------------------
+
+  describe('analyze', () => {
+    it('should return the default result for the mode', async () => {
+      const provider = createMockProvider();
+
+      const outcome = await provider.analyze(images, 'algae_id', 'req-1');
+
+      expect(outcome.success).toBe(true);
+      expect((outcome.result as ScanResult | undefined)?.identifications[0].category).toBe('algae');
+      expect(outcome.tokensUsed?.input).toBeGreaterThan(0);
+    });
+
+    it('should be deterministic for the same input', async () => {
+      const provider = createMockProvider();
+
+      const first = await provider.analyze(images, 'comprehensive', 'req-2');
+      const second = await provider.analyze(images, 'comprehensive', 'req-3');
+
+      expect(second).toEqual(first);
+    });
+
+    it('should prefer a fixture matching the image hash over the mode', async () => {
+      const hash = calculateImageSetHash(images.map((image) => image.data));
+      const provider = createMockProvider({
+        fixtures: {
+          byHash: { [hash]: { result: fixtureResult } },
+          byMode: { comprehensive: { behavior: 'error' } },
+        },
+      });
+
+      const outcome = await provider.analyze(images, 'comprehensive', 'req-4');
+
+      expect(outcome.result?.summary).toBe('Fixture result');
+    });
+
+    it('should simulate failures configured per mode', async () => {
+      const provider = createMockProvider({
+        fixtures: { byMode: { pest_id: { behavior: 'rate_limited' } } },
+      });
+
+      const outcome = await provider.analyze(images, 'pest_id', 'req-5');
+
+      expect(outcome.success).toBe(false);
+      expect(outcome.error).toMatchObject({ code: 'RATE_LIMITED', statusCode: 429 });
+    });
+
+    it('should fail to parse malformed output', async () => {
+      const provider = createMockProvider({ behavior: 'malformed' });
+
+      const outcome = await provider.analyze(images, 'comprehensive', 'req-6');
+
+      expect(outcome.error?.code).toBe('INVALID_JSON');
+    });
+
+    it('should recover malformed output through the repair prompt', async () => {
+      const provider = createMockProvider({ behavior: 'repairable' });
+
+      const outcome = await provider.analyze(images, 'fish_id', 'req-7');
+
+      expect(outcome.success).toBe(true);
+      expect((outcome.result as ScanResult | undefined)?.identifications[0].name).toBe('Yellow Tang');
+      expect(outcome.validationError).toBe('INVALID_JSON');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // parseMockBehavior Tests
+  // -------------------------------------------------------------------------
+
+  describe('parseMockBehavior', () => {
+    it('should fall back to success for unknown values', () => {
+      expect(parseMockBehavior('timeout')).toBe('timeout');
+      expect(parseMockBehavior('explode')).toBe('success');
+    });
+  });
+});
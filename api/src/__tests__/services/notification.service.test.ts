@@ -0,0 +1,171 @@
+// ============================================================================
+// Notification Service Unit Tests
+// Tests for transports, preferences and delivery with token pruning
+// ============================================================================
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sql } from '../../db';
+import {
+  createFileTransport,
+  createMemoryTransport,
+  createTransport,
+  getPreferences,
+  getTransport,
+  notify,
+  NotificationError,
+  setTransport,
+  updatePreferences,
+} from '../../services/notification.service';
+import type { Notification, PushMessage } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Notification Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const notification: Notification = {
+    device_id: 'device-row-1',
+    category: 'weekly_digest',
+    title: 'Display: your week in review',
+    body: 'Health score 80.',
+    data: { digest: { tank_id: 'tank-1' } },
+  };
+
+  const device = (overrides: Record<string, unknown> = {}) => ({
+    rows: [{ platform: 'ios', push_token: 'token-1', notification_preferences: {}, ...overrides }],
+    rowCount: 1,
+  });
+
+  // Values passed to the INSERT of the delivery log
+  const deliveryCall = () =>
+    sqlMock.mock.calls.find(([strings]) => strings.join('').includes('INSERT INTO notification_deliveries'));
+
+  afterEach(() => {
+    setTransport(null);
+  });
+
+  // -------------------------------------------------------------------------
+  // Transports
+  // -------------------------------------------------------------------------
+
+  describe('transports', () => {
+    it('should create transports by name and fall back to the log', () => {
+      expect(createTransport('fcm').name).toBe('fcm');
+      expect(createTransport('carrier-pigeon').name).toBe('log');
+      expect(getTransport().name).toBe('memory');
+    });
+
+    it('should append one JSON line per push to a file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'notifications-'));
+      const path = join(dir, 'notifications.jsonl');
+      const transport = createFileTransport(path);
+      const message: PushMessage = { ...notification, token: 'token-1', platform: 'ios' };
+
+      await transport.send(message);
+      await transport.send({ ...message, token: 'token-2' });
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n').map((line) => JSON.parse(line) as PushMessage);
+      expect(lines.map((line) => line.token)).toEqual(['token-1', 'token-2']);
+      expect(lines[0]).toMatchObject({ category: 'weekly_digest', data: { digest: { tank_id: 'tank-1' } } });
+
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Preferences
+  // -------------------------------------------------------------------------
+
+  describe('preferences', () => {
+    it('should fill in defaults for categories the device never set', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [{ notification_preferences: { weekly_digest: false, unknown: true } }],
+        rowCount: 1,
+      } as never);
+
+      expect(await getPreferences('device-row-1')).toEqual({
+        job_complete: true,
+        weekly_digest: false,
+        maintenance_due: true,
+        quota_reset: false,
+        parameter_alert: true,
+      });
+    });
+
+    it('should merge changes into the stored preferences', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [{ notification_preferences: { quota_reset: true } }], rowCount: 1 } as never);
+
+      const preferences = await updatePreferences('device-row-1', { quota_reset: true });
+
+      expect(preferences.quota_reset).toBe(true);
+      expect(sqlMock.mock.calls[0]).toContain(JSON.stringify({ quota_reset: true }));
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // notify
+  // -------------------------------------------------------------------------
+
+  describe('notify', () => {
+    it('should send to the device token and log the delivery', async () => {
+      const transport = createMemoryTransport();
+      setTransport(transport);
+      sqlMock.mockResolvedValueOnce(device() as never);
+
+      expect(await notify(notification)).toBe('sent');
+
+      expect(transport.messages).toEqual([
+        {
+          token: 'token-1',
+          platform: 'ios',
+          category: 'weekly_digest',
+          title: 'Display: your week in review',
+          body: 'Health score 80.',
+          data: { digest: { tank_id: 'tank-1' } },
+        },
+      ]);
+      expect(deliveryCall()).toEqual(expect.arrayContaining(['device-row-1', 'weekly_digest', 'memory', 'sent']));
+    });
+
+    it('should skip devices without a token or with the category off', async () => {
+      const transport = createMemoryTransport();
+      setTransport(transport);
+      sqlMock
+        .mockResolvedValueOnce(device({ push_token: null }) as never)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as never)
+        .mockResolvedValueOnce(device({ notification_preferences: { weekly_digest: false } }) as never);
+
+      expect(await notify(notification)).toBe('skipped');
+      expect(await notify(notification)).toBe('skipped');
+
+      expect(transport.messages).toHaveLength(0);
+      expect(sqlMock.mock.calls[1]).toEqual(expect.arrayContaining(['skipped', 'No push token']));
+      expect(sqlMock.mock.calls[3]).toEqual(expect.arrayContaining(['skipped', 'Category turned off']));
+    });
+
+    it('should remove a token the transport reports as invalid', async () => {
+      setTransport(createMemoryTransport(['token-1']));
+      sqlMock.mockResolvedValueOnce(device() as never);
+
+      expect(await notify(notification)).toBe('invalid_token');
+
+      const prune = sqlMock.mock.calls[1];
+      expect(prune[0].join('')).toContain('SET push_token = NULL');
+      expect(prune).toEqual(expect.arrayContaining(['device-row-1', 'token-1']));
+      expect(deliveryCall()).toEqual(expect.arrayContaining(['invalid_token', 'Token not registered']));
+    });
+
+    it('should log and throw transport failures', async () => {
+      setTransport({ name: 'test', send: () => Promise.reject(new Error('Connection reset')) });
+      sqlMock.mockResolvedValueOnce(device() as never);
+
+      await expect(notify(notification)).rejects.toBeInstanceOf(NotificationError);
+
+      expect(deliveryCall()).toEqual(expect.arrayContaining(['test', 'failed', 'Connection reset']));
+    });
+  });
+});
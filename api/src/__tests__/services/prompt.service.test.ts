@@ -0,0 +1,199 @@
+// ============================================================================
+// Prompt Service Unit Tests
+// Tests for prompt assembly and version rollback
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  buildAnalysisInstructions,
+  buildTankInstructions,
+  rollbackPromptVersion,
+} from '../../services/prompt.service';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Prompt Service', () => {
+  // -------------------------------------------------------------------------
+  // buildTankInstructions Tests
+  // -------------------------------------------------------------------------
+
+  describe('buildTankInstructions', () => {
+    const now = new Date('2026-10-15T00:00:00Z');
+
+    it('should describe the known tank details', () => {
+      const text = buildTankInstructions(
+        { tank_type: 'sps', volume_liters: 300, setup_date: '2026-04-15' },
+        now
+      );
+
+      expect(text).toContain('- Type: SPS-dominant reef tank');
+      expect(text).toContain('- Water volume: 300 liters (about 79 US gallons)');
+      expect(text).toContain('- Set up on 2026-04-15 (about 6 months ago)');
+    });
+
+    it('should leave out unknown details', () => {
+      const text = buildTankInstructions({ tank_type: 'fowlr', volume_liters: null, setup_date: null }, now);
+
+      expect(text).toContain('FOWLR');
+      expect(text).not.toContain('Water volume');
+      expect(text).not.toContain('Set up on');
+    });
+
+    it('should list water readings and flag those off target', () => {
+      const text = buildTankInstructions(
+        {
+          tank_type: null,
+          volume_liters: null,
+          setup_date: null,
+          water_parameters: [
+            {
+              parameter: 'phosphate',
+              value: 0.25,
+              measured_at: '2026-10-13T08:00:00.000Z',
+              target: { min: 0.02, max: 0.1 },
+              status: 'high',
+            },
+            {
+              parameter: 'ph',
+              value: 8.1,
+              measured_at: '2026-10-15T00:00:00.000Z',
+              target: { min: 7.8, max: 8.4 },
+              status: 'ok',
+            },
+          ],
+        },
+        now
+      );
+
+      expect(text).not.toContain('About this tank');
+      expect(text).toContain('- Phosphate: 0.25 ppm (ABOVE the target of 0.02-0.1 ppm; tested 1 day ago)');
+      expect(text).toContain('- pH: 8.1 (within the target of 7.8-8.4; tested today)');
+    });
+
+    it('should return nothing without a profile', () => {
+      expect(buildTankInstructions(undefined, now)).toBe('');
+      expect(buildTankInstructions({ tank_type: null, volume_liters: null, setup_date: null }, now)).toBe('');
+    });
+  });
+
+  describe('buildAnalysisInstructions', () => {
+    it('should place the tank section before the response schema', () => {
+      const prompt = { systemPrompt: 'system', modePrompt: 'Find the fish.', version: 0 };
+      const text = buildAnalysisInstructions('fish_id', prompt, 1, undefined, {
+        tank_type: 'nano',
+        volume_liters: 40,
+        setup_date: null,
+      });
+
+      expect(text.indexOf('About this tank:')).toBeGreaterThan(text.indexOf('Find the fish.'));
+      expect(text.indexOf('About this tank:')).toBeLessThan(text.indexOf('Respond with JSON'));
+    });
+
+    it('should ask for readings without tank or identification sections for test kits', () => {
+      const prompt = { systemPrompt: 'system', modePrompt: 'Read the test.', version: 0 };
+      const text = buildAnalysisInstructions('test_kit_read', prompt, 2, 'de', {
+        tank_type: 'nano',
+        volume_liters: 40,
+        setup_date: null,
+      });
+
+      expect(text).toContain('"readings"');
+      expect(text).toContain('alkalinity in dKH');
+      expect(text).toContain('each showing one or more water tests');
+      expect(text).toContain('Write "summary" in German');
+      expect(text).not.toContain('About this tank:');
+      expect(text).not.toContain('"identifications"');
+      expect(text).not.toContain('SAME tank');
+    });
+
+    it('should point the tank section at the treatment plan for diagnoses', () => {
+      const prompt = { systemPrompt: 'system', modePrompt: 'Diagnose.', version: 0 };
+      const text = buildAnalysisInstructions('disease_dx', prompt, 1, undefined, {
+        tank_type: 'mixed_reef',
+        volume_liters: 200,
+        setup_date: null,
+      });
+
+      expect(text).toContain('About this tank:');
+      expect(text).toContain('Take these into account in "treatment_plan"');
+      expect(text).toContain('"differential"');
+      expect(text).toContain('"medication_class": "copper"');
+      expect(text).not.toContain('"recommendations"');
+    });
+
+    it('should tell the two scans apart for comparisons', () => {
+      const prompt = { systemPrompt: 'system', modePrompt: 'Compare.', version: 0 };
+      const text = buildAnalysisInstructions('scan_compare', prompt, 3, 'de', undefined, {
+        beforeImageCount: 1,
+        beforeAt: new Date('2026-10-01T09:00:00Z'),
+        afterAt: new Date('2026-10-15T09:00:00Z'),
+      });
+
+      expect(text).toContain('- Image 0: the EARLIER scan, taken on 2026-10-01');
+      expect(text).toContain('- Images 1 to 2: the LATER scan, taken on 2026-10-15');
+      expect(text).toContain('The scans are 14 days apart.');
+      expect(text).toContain('"kind": "appeared" | "disappeared" | "improved" | "worsened"');
+      expect(text).toContain('Write "summary" and every "subject" and "description" in German');
+      expect(text).not.toContain('"identifications"');
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // rollbackPromptVersion Tests
+  // -------------------------------------------------------------------------
+
+  describe('rollbackPromptVersion', () => {
+    const promptRow = (version: number) => ({
+      id: version,
+      name: 'fish_id',
+      version,
+      system_prompt: 'Be precise.',
+      mode_prompt: 'Identify the fish.',
+      is_active: false,
+      created_at: '2026-10-01T00:00:00.000Z',
+      created_by: 'admin',
+    });
+
+    const rollback = async (active: number, changes: { action: string; version: number }[], target: number) => {
+      sqlMock
+        .mockResolvedValueOnce({ rows: [{ version: active }], rowCount: 1 } as never)
+        .mockResolvedValueOnce({ rows: changes, rowCount: changes.length } as never);
+      // The default prompt is not looked up before activating it
+      if (target !== 0) {
+        sqlMock.mockResolvedValueOnce({ rows: [promptRow(target)], rowCount: 1 } as never);
+      }
+      sqlMock.mockResolvedValueOnce({ rows: [{ version: active }], rowCount: 1 } as never);
+
+      return rollbackPromptVersion('fish_id', 'admin');
+    };
+
+    it('should return to the previously live version, not the numerically previous one', async () => {
+      // Version 3 went live before version 2
+      const changes = [
+        { action: 'activate', version: 1 },
+        { action: 'activate', version: 3 },
+        { action: 'activate', version: 2 },
+      ];
+
+      expect(await rollback(2, changes, 3)).toBe(3);
+
+      const change = sqlMock.mock.calls.find(([strings]) => strings.join('').includes('INSERT INTO prompt_changes'));
+      expect(change).toEqual(expect.arrayContaining(['rollback', 3, 2]));
+    });
+
+    it('should keep walking back over earlier rollbacks and promotions', async () => {
+      const changes = [
+        { action: 'activate', version: 1 },
+        { action: 'promote', version: 4 },
+        { action: 'activate', version: 2 },
+        { action: 'rollback', version: 4 },
+      ];
+
+      expect(await rollback(4, changes, 1)).toBe(1);
+    });
+
+    it('should fall back to the default prompt without earlier versions', async () => {
+      expect(await rollback(2, [{ action: 'activate', version: 2 }], 0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// ============================================================================
+// Scan History Service Unit Tests
+// Tests for cursor pagination and device scoping
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  listScans,
+  getScan,
+  deleteScan,
+  encodeCursor,
+  decodeCursor,
+  ScanError,
+} from '../../services/scan.service';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Scan History Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const row = (index: number) => ({
+    request_id: `req-${index}`,
+    mode: 'fish_id',
+    tank_health: 'Good',
+    summary: `Scan ${index}`,
+    identification_count: '2',
+    created_at: `2026-10-0${index}T12:00:00.000Z`,
+    cursor_time: `2026-10-0${index}T12:00:00.123456Z`,
+  });
+
+  // -------------------------------------------------------------------------
+  // Cursors
+  // -------------------------------------------------------------------------
+
+  describe('cursors', () => {
+    it('should round-trip a cursor', () => {
+      const cursor = { createdAt: '2026-10-01T12:00:00.123456Z', requestId: 'req-1' };
+
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(Buffer.from('["yesterday","req-1"]').toString('base64url'))).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // listScans
+  // -------------------------------------------------------------------------
+
+  describe('listScans', () => {
+    it('should return a next cursor when more scans exist', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [row(3), row(2), row(1)], rowCount: 3 } as never);
+
+      const page = await listScans('device-1', { limit: 2 });
+
+      expect(page.scans.map((scan) => scan.request_id)).toEqual(['req-3', 'req-2']);
+      expect(page.scans[0].identification_count).toBe(2);
+      expect(decodeCursor(page.next_cursor || '')).toEqual({
+        createdAt: '2026-10-02T12:00:00.123456Z',
+        requestId: 'req-2',
+      });
+    });
+
+    it('should end pagination on the last page', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [row(1)], rowCount: 1 } as never);
+
+      const page = await listScans('device-1', { limit: 2 });
+
+      expect(page.next_cursor).toBeNull();
+    });
+
+    it('should reject an invalid cursor before querying', async () => {
+      await expect(listScans('device-1', { limit: 2, cursor: 'garbage' })).rejects.toBeInstanceOf(ScanError);
+      expect(sqlMock).not.toHaveBeenCalled();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // getScan / deleteScan
+  // -------------------------------------------------------------------------
+
+  describe('getScan', () => {
+    it('should merge the stored result into the scan', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          {
+            request_id: 'req-1',
+            mode: 'fish_id',
+            result: { tank_health: 'Fair', summary: 'Cloudy water', identifications: [], recommendations: [] },
+            created_at: '2026-10-01T12:00:00.000Z',
+          },
+        ],
+        rowCount: 1,
+      } as never);
+
+      const scan = await getScan('device-1', 'req-1');
+
+      expect(scan).toMatchObject({ request_id: 'req-1', mode: 'fish_id', tank_health: 'Fair' });
+      expect(sqlMock.mock.calls[0]).toContain('device-1');
+    });
+
+    it('should return null for scans that are missing or belong to another device', async () => {
+      expect(await getScan('device-1', 'req-unknown')).toBeNull();
+    });
+  });
+
+  describe('deleteScan', () => {
+    it('should report whether a scan was removed', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+
+      expect(await deleteScan('device-1', 'req-1')).toBe(true);
+      expect(await deleteScan('device-1', 'req-1')).toBe(false);
+    });
+
+    it('should remove the health score of a removed scan only', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+
+      await deleteScan('device-1', 'req-1');
+      await deleteScan('device-1', 'req-2');
+
+      expect(sqlMock).toHaveBeenCalledTimes(3);
+      expect(sqlMock.mock.calls[1][0].join('')).toContain('DELETE FROM tank_health_scores');
+      expect(sqlMock.mock.calls[1]).toContain('req-1');
+    });
+  });
+});
@@ -0,0 +1,265 @@
+// ============================================================================
+// Scan Comparison Service Unit Tests
+// Tests for identification matching, health deltas and the visual diff
+// ============================================================================
+
+import {
+  compareScans,
+  compareHealth,
+  diffIdentifications,
+  ScanComparisonError,
+} from '../../services/scanComparison.service';
+import * as aiProvider from '../../services/aiProvider.service';
+import { calculateImageSetHash } from '../../services/cache.service';
+import * as scans from '../../services/scan.service';
+import * as usage from '../../services/usage.service';
+import type { AnalysisImage, Device, Identification, ScanRecord, VisualDiffResult } from '../../types';
+
+jest.mock('../../services/aiProvider.service', () => ({
+  analyzeImage: jest.fn(),
+  isAnyProviderAvailable: jest.fn(async () => true),
+}));
+
+const mockedAnalyzeImage = aiProvider.analyzeImage as jest.MockedFunction<typeof aiProvider.analyzeImage>;
+
+describe('Scan Comparison Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const device: Device = {
+    id: 'device-row-1',
+    device_uuid: '550e8400-e29b-41d4-a716-446655440000',
+    platform: 'ios',
+    app_version: '1.0.0',
+    created_at: new Date(),
+    last_seen_at: new Date(),
+    refresh_token: null,
+    token_version: 1,
+    tier: 'free',
+    subscription_id: null,
+    is_blocked: false,
+    block_reason: null,
+    metadata: {},
+  };
+
+  const tankId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const identification = (
+    name: string,
+    category: string,
+    severity: Identification['severity'] = null
+  ): Identification => ({
+    name,
+    category,
+    confidence: 0.9,
+    is_problem: severity !== null,
+    severity,
+    description: '',
+  });
+
+  const scan = (requestId: string, createdAt: string, overrides: Partial<ScanRecord> = {}): ScanRecord => ({
+    request_id: requestId,
+    mode: 'comprehensive',
+    tank_id: tankId,
+    tank_health: 'Good',
+    summary: '',
+    identifications: [],
+    recommendations: [],
+    created_at: new Date(createdAt),
+    ...overrides,
+  });
+
+  const image = (data: string): AnalysisImage => ({ data, mime_type: 'image/jpeg' });
+
+  // -------------------------------------------------------------------------
+  // diffIdentifications
+  // -------------------------------------------------------------------------
+
+  describe('diffIdentifications', () => {
+    it('should report new and missing identifications', () => {
+      const diff = diffIdentifications(
+        [identification('Ocellaris Clownfish', 'fish'), identification('Yellow Tang', 'fish')],
+        [identification('Clownfish', 'fish'), identification('Aiptasia', 'pest', 'low')]
+      );
+
+      expect(diff.new_identifications.map((entry) => entry.name)).toEqual(['Aiptasia']);
+      expect(diff.missing_identifications).toEqual([
+        expect.objectContaining({ name: 'Yellow Tang', species_id: 'yellow-tang' }),
+      ]);
+      expect(diff.unchanged_count).toBe(1);
+    });
+
+    it('should report escalations before improvements', () => {
+      const diff = diffIdentifications(
+        [
+          identification('Green Hair Algae', 'algae', 'low'),
+          identification('Hammer Coral', 'coral'),
+          identification('Aiptasia', 'pest', 'high'),
+        ],
+        [
+          identification('Aiptasia', 'pest', 'medium'),
+          identification('green hair algae', 'algae', 'high'),
+          identification('Hammer Coral (Euphyllia ancora)', 'coral', 'medium'),
+        ]
+      );
+
+      expect(diff.severity_changes.map((change) => [change.name, change.change])).toEqual([
+        ['green hair algae', 'escalated'],
+        ['Hammer Coral (Euphyllia ancora)', 'escalated'],
+        ['Aiptasia', 'improved'],
+      ]);
+      expect(diff.severity_changes[1]).toMatchObject({
+        species_id: 'hammer-coral',
+        before: { is_problem: false },
+        after: { severity: 'medium' },
+      });
+      expect(diff.unchanged_count).toBe(0);
+    });
+
+    it('should pair repeated sightings most severe first', () => {
+      const diff = diffIdentifications(
+        [identification('Aiptasia', 'pest', 'low'), identification('Aiptasia', 'pest', 'high')],
+        [identification('Aiptasia', 'pest', 'high')]
+      );
+
+      expect(diff.severity_changes).toEqual([]);
+      expect(diff.missing_identifications).toEqual([expect.objectContaining({ severity: 'low' })]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // compareHealth
+  // -------------------------------------------------------------------------
+
+  describe('compareHealth', () => {
+    it('should count steps on the health scale', () => {
+      expect(compareHealth('Good', 'Needs Attention')).toEqual({
+        before: 'Good',
+        after: 'Needs Attention',
+        delta: -2,
+        direction: 'declined',
+      });
+      expect(compareHealth('Critical', 'Excellent')).toMatchObject({ delta: 4, direction: 'improved' });
+      expect(compareHealth('Fair', 'Fair')).toMatchObject({ delta: 0, direction: 'unchanged' });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // compareScans
+  // -------------------------------------------------------------------------
+
+  describe('compareScans', () => {
+    const older = scan('req-older', '2026-10-01T09:00:00Z', {
+      tank_health: 'Excellent',
+      identifications: [identification('Hammer Coral', 'coral')],
+    });
+    const newer = scan('req-newer', '2026-10-15T09:00:00Z', {
+      tank_health: 'Fair',
+      identifications: [identification('Hammer Coral', 'coral', 'medium')],
+    });
+
+    const mockScans = (records: ScanRecord[]) =>
+      jest
+        .spyOn(scans, 'getScan')
+        .mockImplementation(async (_, requestId) => records.find((record) => record.request_id === requestId) || null);
+
+    it('should order the scans by date and compare them', async () => {
+      const getScan = mockScans([older, newer]);
+
+      const comparison = await compareScans(device, 'req-compare', { request_ids: ['req-newer', 'req-older'] });
+
+      expect(getScan).toHaveBeenCalledWith(device.id, 'req-newer');
+      expect(comparison).toMatchObject({
+        tank_id: tankId,
+        before: { request_id: 'req-older', tank_health: 'Excellent' },
+        after: { request_id: 'req-newer', tank_health: 'Fair' },
+        tank_health: { delta: -2, direction: 'declined' },
+        severity_changes: [{ species_id: 'hammer-coral', change: 'escalated' }],
+        visual_diff: null,
+      });
+      expect(mockedAnalyzeImage).not.toHaveBeenCalled();
+
+      getScan.mockRestore();
+    });
+
+    it('should reject unknown scans and scans of different tanks', async () => {
+      const getScan = mockScans([older, scan('req-other', '2026-10-02T09:00:00Z', { tank_id: null })]);
+
+      await expect(
+        compareScans(device, 'req-compare', { request_ids: ['req-older', 'req-unknown'] })
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Scan not found: req-unknown' });
+      await expect(
+        compareScans(device, 'req-compare', { request_ids: ['req-older', 'req-other'] })
+      ).rejects.toThrow(ScanComparisonError);
+
+      getScan.mockRestore();
+    });
+
+    it('should send the images of both scans for a visual diff', async () => {
+      const getScan = mockScans([older, newer]);
+      const getScanImageHash = jest
+        .spyOn(scans, 'getScanImageHash')
+        .mockImplementation(async (_, requestId) =>
+          requestId === 'req-older' ? calculateImageSetHash(['b2xkZXI=']) : null
+        );
+      const recordUsage = jest.spyOn(usage, 'recordUsage');
+      const visualDiff: VisualDiffResult = {
+        request_id: '',
+        summary: 'The hammer coral has paled.',
+        changes: [{ subject: 'Hammer coral', kind: 'worsened', description: 'Lighter tentacles.' }],
+        usage: { requests_today: 0, daily_limit: 0, reset_at: '' },
+      };
+      mockedAnalyzeImage.mockResolvedValue({
+        success: true,
+        result: visualDiff,
+        provider: 'gemini',
+        tokensUsed: { input: 100, output: 50 },
+        latencyMs: 10,
+      });
+
+      const comparison = await compareScans(device, 'req-compare', {
+        request_ids: ['req-older', 'req-newer'],
+        visual_diff: true,
+        images: { 'req-newer': [image('bmV3ZXI='), image('bmV3ZXIy')], 'req-older': [image('b2xkZXI=')] },
+        language: 'de',
+      });
+
+      expect(comparison.visual_diff).toEqual({ summary: visualDiff.summary, changes: visualDiff.changes });
+      expect(mockedAnalyzeImage).toHaveBeenCalledWith(
+        [image('b2xkZXI='), image('bmV3ZXI='), image('bmV3ZXIy')],
+        'scan_compare',
+        'req-compare',
+        undefined,
+        expect.objectContaining({
+          language: 'de',
+          comparison: { beforeImageCount: 1, beforeAt: older.created_at, afterAt: newer.created_at },
+        })
+      );
+      expect(recordUsage.mock.calls[0][1]).toBe('scan_compare');
+      expect(recordUsage.mock.calls[0][7]).toMatchObject({ requestId: 'req-compare', tankId });
+      expect(recordUsage.mock.calls[0][7]).not.toHaveProperty('result');
+
+      getScan.mockRestore();
+      getScanImageHash.mockRestore();
+      recordUsage.mockRestore();
+    });
+
+    it('should reject images that do not belong to the scan', async () => {
+      const getScan = mockScans([older, newer]);
+      const getScanImageHash = jest.spyOn(scans, 'getScanImageHash').mockResolvedValue('0'.repeat(64));
+
+      await expect(
+        compareScans(device, 'req-compare', {
+          request_ids: ['req-older', 'req-newer'],
+          visual_diff: true,
+          images: { 'req-older': [image('b2xkZXI=')], 'req-newer': [image('bmV3ZXI=')] },
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockedAnalyzeImage).not.toHaveBeenCalled();
+
+      getScan.mockRestore();
+      getScanImageHash.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+// ============================================================================
+// Species Service Unit Tests
+// Tests for catalog matching, enrichment and unmatched name tracking
+// ============================================================================
+
+import { sql } from '../../db';
+import { SPECIES_CATALOG } from '../../data/speciesCatalog';
+import {
+  listSpecies,
+  matchSpecies,
+  enrichIdentifications,
+  recordUnmatched,
+  listUnmatched,
+  normalizeSpeciesName,
+} from '../../services/species.service';
+import type { Identification } from '../../types';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Species Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const identification = (name: string, category: string): Identification => ({
+    name,
+    category,
+    confidence: 0.9,
+    is_problem: false,
+    severity: null,
+    description: '',
+  });
+
+  // -------------------------------------------------------------------------
+  // Catalog
+  // -------------------------------------------------------------------------
+
+  describe('catalog', () => {
+    it('should not reuse ids or names across entries', () => {
+      const ids = SPECIES_CATALOG.map((species) => species.id);
+      const owners = new Map<string, Set<string>>();
+      for (const species of SPECIES_CATALOG) {
+        for (const name of [species.common_name, species.scientific_name, ...species.aliases]) {
+          const key = normalizeSpeciesName(name).replace(/ /g, '');
+          owners.set(key, (owners.get(key) || new Set()).add(species.id));
+        }
+      }
+
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(Array.from(owners.entries()).filter(([, speciesIds]) => speciesIds.size > 1)).toEqual([]);
+    });
+
+    it('should search names and aliases', () => {
+      expect(listSpecies({ q: 'dory' }).map((species) => species.id)).toEqual(['blue-tang']);
+      expect(listSpecies({ category: 'coral', q: 'euphyllia' }).map((species) => species.id)).toEqual([
+        'frogspawn-coral',
+        'hammer-coral',
+        'torch-coral',
+      ]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // matchSpecies
+  // -------------------------------------------------------------------------
+
+  describe('matchSpecies', () => {
+    it('should match common names, scientific names and aliases exactly', () => {
+      expect(matchSpecies('ocellaris clown-fish', 'fish')).toMatchObject({
+        species: { id: 'ocellaris-clownfish' },
+        similarity: 1,
+      });
+      expect(matchSpecies('Zebrasoma flavescens')?.species.id).toBe('yellow-tang');
+      expect(matchSpecies('Regal Tang', 'fish')?.species.id).toBe('blue-tang');
+      expect(matchSpecies('Zoanthus spp.', 'coral')?.species.id).toBe('zoanthids');
+    });
+
+    it('should match either part of "Common name (Scientific name)"', () => {
+      expect(matchSpecies('Clarion Angel (Centropyge loricula)', 'fish')?.species.id).toBe(
+        'flame-angelfish'
+      );
+      expect(matchSpecies('Hammer Coral (Euphyllia sp.)', 'coral')?.species.id).toBe('hammer-coral');
+    });
+
+    it('should match exact names in another category', () => {
+      expect(matchSpecies('Bubble Tip Anemone', 'coral')?.species.id).toBe('bubble-tip-anemone');
+    });
+
+    it('should match misspellings within the category only', () => {
+      const match = matchSpecies('Yelow Tang', 'fish');
+
+      expect(match?.species.id).toBe('yellow-tang');
+      expect(match?.similarity).toBeLessThan(1);
+      expect(matchSpecies('Yelow Tang', 'coral')).toBeNull();
+      expect(matchSpecies('Yelow Tang')).toBeNull();
+    });
+
+    it('should not match different species with similar names', () => {
+      expect(matchSpecies('Purple Tang', 'fish')).toBeNull();
+      expect(matchSpecies('Clarkii Clownfish', 'fish')).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // enrichIdentifications
+  // -------------------------------------------------------------------------
+
+  describe('enrichIdentifications', () => {
+    it('should add the species id and care data', () => {
+      const [clownfish, unknown, algae] = enrichIdentifications([
+        identification('Ocellaris Clownfish', 'fish'),
+        identification('Clarkii Clownfish', 'fish'),
+        identification('Green Hair Algae', 'algae'),
+      ]);
+
+      expect(clownfish).toMatchObject({
+        name: 'Ocellaris Clownfish',
+        species_id: 'ocellaris-clownfish',
+        species: {
+          common_name: 'Ocellaris Clownfish',
+          scientific_name: 'Amphiprion ocellaris',
+          category: 'fish',
+          reef_safe: 'yes',
+          care_level: 'beginner',
+          temperament: 'peaceful',
+          max_size_cm: 11,
+          min_tank_liters: 75,
+        },
+      });
+      expect(clownfish.species).not.toHaveProperty('aliases');
+      expect(unknown).toMatchObject({ species_id: null, species: null });
+      expect(algae).toMatchObject({ species_id: null, species: null });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Unmatched Names
+  // -------------------------------------------------------------------------
+
+  describe('recordUnmatched', () => {
+    it('should count each unmatched livestock name once per scan', async () => {
+      await recordUnmatched(
+        enrichIdentifications([
+          identification('Clarkii Clownfish', 'fish'),
+          identification('clarkii  clownfish', 'fish'),
+          identification('Yellow Tang', 'fish'),
+          identification('Aiptasia', 'pest'),
+        ])
+      );
+
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+      expect(sqlMock.mock.calls[0]).toContainEqual(['clarkii clownfish']);
+      expect(sqlMock.mock.calls[0]).toContainEqual(['fish']);
+    });
+
+    it('should not query when every name matched', async () => {
+      await recordUnmatched(enrichIdentifications([identification('Yellow Tang', 'fish')]));
+
+      expect(sqlMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listUnmatched', () => {
+    it('should leave out names the catalog matches by now', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          {
+            name: 'Clarkii Clownfish',
+            category: 'fish',
+            count: '12',
+            first_seen: '2026-09-01T12:00:00.000Z',
+            last_seen: '2026-10-01T12:00:00.000Z',
+          },
+          {
+            name: 'Hippo Tang',
+            category: 'fish',
+            count: '4',
+            first_seen: '2026-09-01T12:00:00.000Z',
+            last_seen: '2026-09-02T12:00:00.000Z',
+          },
+        ],
+        rowCount: 2,
+      } as never);
+
+      const names = await listUnmatched(50);
+
+      expect(names).toEqual([
+        {
+          name: 'Clarkii Clownfish',
+          category: 'fish',
+          count: 12,
+          first_seen: new Date('2026-09-01T12:00:00.000Z'),
+          last_seen: new Date('2026-10-01T12:00:00.000Z'),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+// ============================================================================
+// Tank Service Unit Tests
+// Tests for tank profiles and device scoping
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  createTank,
+  getTank,
+  updateTank,
+  deleteTank,
+  TankError,
+} from '../../services/tank.service';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Tank Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const tankId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const row = {
+    id: tankId,
+    device_id: 'device-1',
+    name: 'Display',
+    volume_liters: '300.0',
+    tank_type: 'sps',
+    setup_date: '2025-01-15',
+    photo_url: null,
+    scan_count: '4',
+    last_scan_at: '2026-10-01T12:00:00.000Z',
+    created_at: '2025-01-15T09:00:00.000Z',
+    updated_at: '2025-01-15T09:00:00.000Z',
+  };
+
+  // -------------------------------------------------------------------------
+  // createTank
+  // -------------------------------------------------------------------------
+
+  describe('createTank', () => {
+    it('should create a tank with no scans', async () => {
+      sqlMock
+        .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1 } as never)
+        .mockResolvedValueOnce({
+          rows: [{ ...row, scan_count: undefined, last_scan_at: undefined }],
+          rowCount: 1,
+        } as never);
+
+      const tank = await createTank('device-1', { name: 'Display', volume_liters: 300, tank_type: 'sps' });
+
+      expect(tank).toMatchObject({ id: tankId, volume_liters: 300, scan_count: 0, last_scan_at: null });
+    });
+
+    it('should enforce the per-device tank limit', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [{ count: '20' }], rowCount: 1 } as never);
+
+      const error = await createTank('device-1', { name: 'Frag' }).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(TankError);
+      expect(error).toMatchObject({ statusCode: 409 });
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // getTank
+  // -------------------------------------------------------------------------
+
+  describe('getTank', () => {
+    it('should map numeric and date columns', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [row], rowCount: 1 } as never);
+
+      const tank = await getTank('device-1', tankId);
+
+      expect(tank).toMatchObject({
+        volume_liters: 300,
+        setup_date: '2025-01-15',
+        scan_count: 4,
+        last_scan_at: new Date('2026-10-01T12:00:00.000Z'),
+      });
+    });
+
+    it('should treat malformed ids as missing without querying', async () => {
+      expect(await getTank('device-1', 'not-a-uuid')).toBeNull();
+      expect(sqlMock).not.toHaveBeenCalled();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // updateTank / deleteTank
+  // -------------------------------------------------------------------------
+
+  describe('updateTank', () => {
+    it('should merge changes into the existing tank and keep its scan stats', async () => {
+      sqlMock
+        .mockResolvedValueOnce({ rows: [row], rowCount: 1 } as never)
+        .mockResolvedValueOnce({
+          rows: [{ ...row, name: 'Main display', photo_url: null, tank_type: null }],
+          rowCount: 1,
+        } as never);
+
+      const tank = await updateTank('device-1', tankId, { name: 'Main display', tank_type: null });
+
+      expect(sqlMock.mock.calls[1]).toEqual(expect.arrayContaining(['Main display', 300, null, '2025-01-15']));
+      expect(tank).toMatchObject({ name: 'Main display', tank_type: null, scan_count: 4 });
+    });
+
+    it('should return null for tanks of other devices', async () => {
+      expect(await updateTank('device-2', tankId, { name: 'Mine now' })).toBeNull();
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deleteTank', () => {
+    it('should report whether a tank was removed', async () => {
+      sqlMock.mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+
+      expect(await deleteTank('device-1', tankId)).toBe(true);
+      expect(await deleteTank('device-1', tankId)).toBe(false);
+      expect(await deleteTank('device-1', 'not-a-uuid')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// ============================================================================
+// Usage Service Unit Tests
+// Tests for request logging and the quota reset notifications
+// ============================================================================
+
+import { sql } from '../../db';
+import * as notifications from '../../services/notification.service';
+import { notifyQuotaResets, recordError, recordUsage } from '../../services/usage.service';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Usage Service', () => {
+  describe('request logging', () => {
+    it('should replace a failed attempt when the retry succeeds', async () => {
+      await recordError('device-row-1', 'comprehensive', 'gemini', 'gemini-1', 'PROVIDER_ERROR', 900, {
+        requestId: 'req-1',
+      });
+      await recordUsage('device-row-1', 'comprehensive', 'gemini', 'gemini-1', 1200, 800, 400, {
+        requestId: 'req-1',
+        result: { summary: 'Healthy', tank_health: 'Good', identifications: [], recommendations: [] },
+      });
+
+      const [errorInsert, successInsert] = sqlMock.mock.calls.map(([strings]) => strings.join('?'));
+      expect(errorInsert).toContain('ON CONFLICT (request_id) DO NOTHING');
+      expect(successInsert).toContain('ON CONFLICT (request_id) DO UPDATE');
+      expect(successInsert).toContain("WHERE request_logs.status = 'error' AND request_logs.device_id = EXCLUDED.device_id");
+      expect(sqlMock.mock.calls[1]).toContain('req-1');
+      // The retry still counts towards the day's usage
+      expect(sqlMock.mock.calls[2][0].join('')).toContain('INSERT INTO daily_usage');
+    });
+  });
+
+  describe('notifyQuotaResets', () => {
+    it('should notify devices that used up yesterday with their daily limit', async () => {
+      const notify = jest
+        .spyOn(notifications, 'notify')
+        .mockResolvedValueOnce('sent')
+        .mockResolvedValueOnce('skipped');
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          { id: 'device-row-1', tier: 'free' },
+          { id: 'device-row-2', tier: 'premium' },
+        ],
+        rowCount: 2,
+      } as never);
+
+      const summary = await notifyQuotaResets(new Date('2026-10-19T00:05:00.000Z'));
+
+      expect(summary).toEqual({ devices: 2, sent: 1, skipped: 1, failed: 0 });
+      expect(sqlMock.mock.calls[0]).toEqual(expect.arrayContaining(['2026-10-18', 20, 3]));
+      expect(notify).toHaveBeenCalledWith({
+        device_id: 'device-row-1',
+        category: 'quota_reset',
+        title: 'Your daily scans are back',
+        body: 'You have 3 scans to use today.',
+        data: { daily_limit: 3 },
+      });
+
+      notify.mockRestore();
+    });
+  });
+});
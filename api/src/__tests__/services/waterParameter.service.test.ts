@@ -0,0 +1,189 @@
+// ============================================================================
+// Water Parameter Service Unit Tests
+// Tests for target ranges, trends and alerts
+// ============================================================================
+
+import { sql } from '../../db';
+import {
+  computeTrend,
+  evaluateParameter,
+  getRecentSnapshots,
+  getTargets,
+  logReadings,
+  notifyAlerts,
+} from '../../services/waterParameter.service';
+import * as notifications from '../../services/notification.service';
+
+const sqlMock = jest.mocked(sql);
+
+describe('Water Parameter Service', () => {
+  // -------------------------------------------------------------------------
+  // Test Fixtures
+  // -------------------------------------------------------------------------
+
+  const tankId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+  const alkalinityTarget = { min: 7, max: 11 };
+
+  // One reading per day starting Oct 1
+  const series = (values: number[]) =>
+    values.map((value, day) => ({ value, measured_at: new Date(Date.UTC(2026, 9, 1 + day)) }));
+
+  // -------------------------------------------------------------------------
+  // Targets
+  // -------------------------------------------------------------------------
+
+  describe('getTargets', () => {
+    it('should apply tank type ranges over the defaults', () => {
+      expect(getTargets(null).nitrate).toEqual({ min: 2, max: 20 });
+      expect(getTargets('sps').nitrate).toEqual({ min: 1, max: 10 });
+      expect(getTargets('sps').calcium).toEqual(getTargets(null).calcium);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Trends
+  // -------------------------------------------------------------------------
+
+  describe('computeTrend', () => {
+    it('should report the weekly change of a steady rise', () => {
+      const trend = computeTrend(series([8, 8.1, 8.2, 8.3]), alkalinityTarget);
+
+      expect(trend).toEqual({ direction: 'rising', change_per_week: 0.7, reading_count: 4 });
+    });
+
+    it('should treat small changes as stable', () => {
+      const trend = computeTrend(series([8.2, 8.1, 8.2, 8.15]), alkalinityTarget);
+
+      expect(trend?.direction).toBe('stable');
+    });
+
+    it('should need several readings at different times', () => {
+      expect(computeTrend(series([8, 9]), alkalinityTarget)).toBeNull();
+
+      const sameTime = new Date('2026-10-01T12:00:00Z');
+      expect(
+        computeTrend([8, 8.5, 9].map((value) => ({ value, measured_at: sameTime })), alkalinityTarget)
+      ).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Alerts
+  // -------------------------------------------------------------------------
+
+  describe('evaluateParameter', () => {
+    it('should alert on readings outside the target', () => {
+      const points = series([30, 32, 35]);
+      const { summary, alert } = evaluateParameter('nitrate', points[2], points, { min: 2, max: 20 });
+
+      expect(summary.status).toBe('high');
+      expect(alert).toMatchObject({ kind: 'out_of_range', status: 'high', value: 35 });
+      expect(alert?.message).toBe('Nitrate is 35 ppm, above the 2-20 ppm target');
+    });
+
+    it('should warn when the trend leaves the target within a week', () => {
+      const points = series([9.5, 9.8, 10.1, 10.4]);
+      const { summary, alert } = evaluateParameter('alkalinity', points[3], points, alkalinityTarget);
+
+      expect(summary.status).toBe('ok');
+      expect(alert).toMatchObject({ kind: 'trending_out_of_range', status: 'high' });
+    });
+
+    it('should stay quiet for in-range stable readings and untested parameters', () => {
+      const points = series([8.2, 8.2, 8.3]);
+
+      expect(evaluateParameter('alkalinity', points[2], points, alkalinityTarget).alert).toBeNull();
+      expect(evaluateParameter('calcium', null, [], { min: 380, max: 450 })).toMatchObject({
+        summary: { latest: null, status: null, trend: null },
+        alert: null,
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Storage
+  // -------------------------------------------------------------------------
+
+  describe('logReadings', () => {
+    it('should insert every given parameter in one statement', async () => {
+      await logReadings(tankId, { readings: { ph: 8.1, alkalinity: 8.4 } });
+
+      expect(sqlMock).toHaveBeenCalledTimes(1);
+      // Parameters are stored in canonical order
+      expect(sqlMock.mock.calls[0]).toContainEqual(['alkalinity', 'ph']);
+      expect(sqlMock.mock.calls[0]).toContainEqual([8.4, 8.1]);
+    });
+  });
+
+  describe('notifyAlerts', () => {
+    const tank = { id: tankId, device_id: 'device-row-1', name: 'Display', tank_type: null };
+
+    it('should push the alerts of the logged parameters only', async () => {
+      const notify = jest.spyOn(notifications, 'notify').mockResolvedValue('sent');
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          { parameter: 'alkalinity', value: '6.5000', measured_at: '2026-10-12T08:00:00.000Z' },
+          { parameter: 'nitrate', value: '80.0000', measured_at: '2026-10-01T08:00:00.000Z' },
+        ],
+        rowCount: 2,
+      } as never);
+
+      const alerts = await notifyAlerts(tank, ['alkalinity', 'calcium'], new Date('2026-10-14T00:00:00Z'));
+
+      expect(alerts.map((alert) => alert.parameter)).toEqual(['alkalinity']);
+      expect(notify).toHaveBeenCalledWith({
+        device_id: 'device-row-1',
+        category: 'parameter_alert',
+        title: 'Display: Alkalinity needs attention',
+        body: `${alerts[0].message}.`,
+        data: { tank_id: tankId, alerts },
+      });
+
+      notify.mockRestore();
+    });
+
+    it('should send nothing when the logged parameters are fine', async () => {
+      const notify = jest.spyOn(notifications, 'notify').mockResolvedValue('sent');
+      sqlMock.mockResolvedValueOnce({
+        rows: [{ parameter: 'alkalinity', value: '8.5000', measured_at: '2026-10-12T08:00:00.000Z' }],
+        rowCount: 1,
+      } as never);
+
+      expect(await notifyAlerts(tank, ['alkalinity'], new Date('2026-10-14T00:00:00Z'))).toEqual([]);
+      expect(notify).not.toHaveBeenCalled();
+
+      notify.mockRestore();
+    });
+  });
+
+  describe('getRecentSnapshots', () => {
+    it('should rate the latest readings against the tank type targets', async () => {
+      sqlMock.mockResolvedValueOnce({
+        rows: [
+          { parameter: 'phosphate', value: '0.0900', measured_at: '2026-10-10T08:00:00.000Z' },
+          { parameter: 'alkalinity', value: '8.3000', measured_at: '2026-10-12T08:00:00.000Z' },
+        ],
+        rowCount: 2,
+      } as never);
+
+      const snapshots = await getRecentSnapshots(tankId, 'sps', new Date('2026-10-14T00:00:00Z'));
+
+      expect(snapshots).toEqual([
+        {
+          parameter: 'alkalinity',
+          value: 8.3,
+          measured_at: '2026-10-12T08:00:00.000Z',
+          target: { min: 7.5, max: 9.5 },
+          status: 'ok',
+        },
+        {
+          parameter: 'phosphate',
+          value: 0.09,
+          measured_at: '2026-10-10T08:00:00.000Z',
+          target: { min: 0.02, max: 0.08 },
+          status: 'high',
+        },
+      ]);
+    });
+  });
+});
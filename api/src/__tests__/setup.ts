@@ -17,6 +17,7 @@ process.env.GEMINI_KEY_2 = 'test-gemini-key-2';
 process.env.OPENAI_API_KEY = 'test-openai-key';
 process.env.UPSTASH_REDIS_REST_URL = 'https://test.upstash.io';
 process.env.UPSTASH_REDIS_REST_TOKEN = 'test-redis-token';
+process.env.NOTIFICATION_TRANSPORT = 'memory';
 
 // -----------------------------------------------------------------------------
 // Redis Mock
@@ -84,6 +85,7 @@ jest.mock('../services/redis.service', () => ({
 // -----------------------------------------------------------------------------
 
 const mockDevices: Map<string, Record<string, unknown>> = new Map();
+const mockJobs: Map<string, Record<string, unknown>> = new Map();
 
 jest.mock('../db', () => ({
   sql: Object.assign(
@@ -153,6 +155,55 @@ jest.mock('../db', () => ({
         return { rowCount: 0 };
       }
 
+      if (query.includes('insert into analysis_jobs')) {
+        const [id, requestId, deviceId, mode] = values as string[];
+        const claimed = [...mockJobs.values()].some((job) => job.request_id === requestId);
+        if (claimed) {
+          return { rows: [], rowCount: 0 };
+        }
+        mockJobs.set(id, {
+          id,
+          request_id: requestId,
+          device_id: deviceId,
+          mode,
+          status: 'queued',
+          result: null,
+          error_code: null,
+          error_message: null,
+          created_at: new Date().toISOString(),
+          started_at: null,
+          completed_at: null,
+        });
+        return { rows: [{ id }], rowCount: 1 };
+      }
+
+      if (query.includes('update analysis_jobs')) {
+        const job = mockJobs.get(values[6] as string);
+        if (!job || !['queued', 'running'].includes(job.status as string)) {
+          return { rows: [], rowCount: 0 };
+        }
+        const [status, result, errorCode, errorMessage, startedAt, completedAt] = values;
+        Object.assign(job, {
+          status,
+          result: result ? (JSON.parse(result as string) as unknown) : null,
+          error_code: errorCode,
+          error_message: errorMessage,
+          started_at: startedAt,
+          completed_at: completedAt,
+        });
+        return { rows: [{ id: job.id }], rowCount: 1 };
+      }
+
+      if (query.includes('select * from analysis_jobs where id')) {
+        const job = mockJobs.get(values[0] as string);
+        return { rows: job ? [job] : [], rowCount: job ? 1 : 0 };
+      }
+
+      if (query.includes('select * from analysis_jobs where request_id')) {
+        const job = [...mockJobs.values()].find((row) => row.request_id === values[0]);
+        return { rows: job ? [job] : [], rowCount: job ? 1 : 0 };
+      }
+
       // Default: return empty result
       return { rows: [], rowCount: 0 };
     }),
@@ -177,6 +228,7 @@ beforeEach(() => {
   jest.clearAllMocks();
   mockRedisStore.clear();
   mockDevices.clear();
+  mockJobs.clear();
 });
 
 // Global test utilities
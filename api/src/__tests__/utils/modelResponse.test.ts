@@ -0,0 +1,350 @@
+// ============================================================================
+// Model Response Validation Unit Tests
+// Tests for schema coercion, failure reasons and the repair flow
+// ============================================================================
+
+import {
+  parseModelResponse,
+  parseWithRepair,
+  isScanResult,
+  isTestKitResult,
+  isValidationReason,
+} from '../../utils/modelResponse';
+
+describe('Model Response Validation', () => {
+  const validOutput = {
+    tank_health: 'Good',
+    summary: 'Healthy tank.',
+    identifications: [
+      {
+        name: 'Yellow Tang',
+        category: 'fish',
+        confidence: 0.9,
+        is_problem: false,
+        severity: null,
+        description: 'Bright coloration.',
+      },
+    ],
+    recommendations: ['Keep it up.'],
+  };
+
+  // -------------------------------------------------------------------------
+  // parseModelResponse Tests
+  // -------------------------------------------------------------------------
+
+  describe('parseModelResponse', () => {
+    it('should parse valid output wrapped in a code fence', () => {
+      const outcome = parseModelResponse('```json\n' + JSON.stringify(validOutput) + '\n```', 1, 'comprehensive');
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !isScanResult(outcome.result)) return;
+      expect(outcome.result.identifications[0].image_indices).toEqual([0]);
+    });
+
+    it('should coerce common deviations', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({
+          tank_health: 'needs_attention',
+          summary: 'Algae spreading.',
+          identifications: [
+            { name: 'Hair Algae', category: 'Algae', confidence: '85%', is_problem: 'yes' },
+            { name: 'Hammer Coral', category: 'corals', confidence: 90, is_problem: false, severity: 'severe' },
+            { name: 'Dinos', category: 'pest', confidence: 0.7, is_problem: true, severity: 'moderate' },
+          ],
+          recommendations: 'Reduce nutrients.',
+        }),
+        1,
+        'comprehensive'
+      );
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !isScanResult(outcome.result)) return;
+
+      const [algae, coral, dinos] = outcome.result.identifications;
+      expect(outcome.result.tank_health).toBe('Needs Attention');
+      expect(outcome.result.recommendations).toEqual(['Reduce nutrients.']);
+      expect(algae).toMatchObject({ category: 'algae', confidence: 0.85, is_problem: true, severity: 'low' });
+      expect(coral).toMatchObject({ category: 'coral', confidence: 0.9, severity: null });
+      expect(dinos.severity).toBe('medium');
+    });
+
+    it('should report invalid JSON', () => {
+      const outcome = parseModelResponse('{"tank_health": "Good", "summ', 1, 'comprehensive');
+
+      expect(outcome).toMatchObject({ success: false, reason: 'INVALID_JSON' });
+    });
+
+    it('should report the path of the first schema violation', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({ ...validOutput, tank_health: 'Superb' }),
+        1,
+        'comprehensive'
+      );
+
+      expect(outcome.success).toBe(false);
+      if (outcome.success) return;
+      expect(outcome.reason).toBe('SCHEMA:tank_health');
+      expect(outcome.issues[0]).toContain('tank_health');
+    });
+
+    it('should reject confidence that cannot be coerced', () => {
+      const identification = { ...validOutput.identifications[0], confidence: 250 };
+      const outcome = parseModelResponse(
+        JSON.stringify({ ...validOutput, identifications: [identification] }),
+        1,
+        'comprehensive'
+      );
+
+      expect(outcome).toMatchObject({ success: false, reason: 'SCHEMA:identifications.0.confidence' });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Test Kit Tests
+  // -------------------------------------------------------------------------
+
+  describe('parseModelResponse for test_kit_read', () => {
+    it('should normalize parameter names and convert units', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({
+          summary: 'Three tests read.',
+          readings: [
+            { parameter: 'KH', value: '8.4', unit: 'dKH', confidence: 0.9, kit: 'Salifert KH/Alk' },
+            { parameter: 'PO4', value: 30, unit: 'ppb', confidence: '80%' },
+            { parameter: 'SG', value: 35, unit: 'ppt', confidence: 0.7, kit: null },
+          ],
+        }),
+        1,
+        'test_kit_read'
+      );
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !isTestKitResult(outcome.result)) return;
+
+      expect(outcome.result.readings).toEqual([
+        { parameter: 'alkalinity', value: 8.4, unit: 'dKH', confidence: 0.9, kit: 'Salifert KH/Alk' },
+        { parameter: 'phosphate', value: 0.03, unit: 'ppm', confidence: 0.8, kit: null },
+        { parameter: 'salinity', value: 1.0264, unit: 'SG', confidence: 0.7, kit: null },
+      ]);
+      expect(outcome.result.saved_parameters).toEqual([]);
+    });
+
+    it('should drop unknown parameters and keep the more confident duplicate', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({
+          summary: 'Read.',
+          readings: [
+            { parameter: 'ammonia', value: 0.25, unit: 'ppm', confidence: 0.9 },
+            { parameter: 'calcium', value: 400, unit: 'ppm', confidence: 0.6 },
+            { parameter: 'Ca', value: 420, unit: 'ppm', confidence: 0.85 },
+          ],
+        }),
+        1,
+        'test_kit_read'
+      );
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !isTestKitResult(outcome.result)) return;
+      expect(outcome.result.readings).toEqual([expect.objectContaining({ parameter: 'calcium', value: 420 })]);
+    });
+
+    it('should reject implausible values and unknown units for repair', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({
+          summary: 'Read.',
+          readings: [
+            { parameter: 'alkalinity', value: 145, unit: 'dKH', confidence: 0.9 },
+            { parameter: 'salinity', value: 35, unit: 'ppm', confidence: 0.9 },
+          ],
+        }),
+        1,
+        'test_kit_read'
+      );
+
+      expect(outcome).toMatchObject({ success: false, reason: 'SCHEMA:readings.0.value' });
+      if (outcome.success) return;
+      expect(outcome.issues[1]).toContain('unit "ppm" is not valid for salinity');
+    });
+
+    it('should treat output without readings as nothing read', () => {
+      const outcome = parseModelResponse(JSON.stringify({ summary: 'No test visible.' }), 1, 'test_kit_read');
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success) return;
+      expect(isTestKitResult(outcome.result) && outcome.result.readings).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Diagnosis Tests
+  // -------------------------------------------------------------------------
+
+  describe('parseModelResponse for disease_dx', () => {
+    const diagnosisOutput = {
+      summary: 'Likely marine ich.',
+      urgency: 'severe',
+      differential: [
+        { condition: 'Marine velvet', category: 'fishes', likelihood: 0.3, evidence: 'Dusty sheen.' },
+        { condition: 'Marine ich', category: 'fish', likelihood: '70%', evidence: 'White spots.' },
+      ],
+      treatment_plan: [
+        { action: 'Quarantine all fish.', medication_class: 'none', reef_safe: true, requires_quarantine: true },
+        { action: 'Dose Cupramine.', medication_class: 'Cupramine', dosage_notes: 'Follow the label.', reef_safe: true },
+      ],
+    };
+
+    it('should order the differential and coerce labels', () => {
+      const outcome = parseModelResponse(JSON.stringify(diagnosisOutput), 1, 'disease_dx');
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !('differential' in outcome.result)) return;
+
+      expect(outcome.result.urgency).toBe('high');
+      expect(outcome.result.differential.map((candidate) => [candidate.condition, candidate.likelihood])).toEqual([
+        ['Marine ich', 0.7],
+        ['Marine velvet', 0.3],
+      ]);
+      expect(outcome.result.differential[1].category).toBe('fish');
+    });
+
+    it('should flag reef-unsafe treatments whatever the model says', () => {
+      const outcome = parseModelResponse(JSON.stringify(diagnosisOutput), 1, 'disease_dx');
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !('differential' in outcome.result)) return;
+
+      const [quarantine, copper] = outcome.result.treatment_plan;
+      expect(quarantine).toMatchObject({ medication_class: null, reef_safe: true, warning: null });
+      expect(copper).toMatchObject({ medication_class: 'copper', reef_safe: false, requires_quarantine: true });
+      expect(copper.warning).toContain('Copper is lethal to corals');
+      expect(outcome.result.disclaimer).toMatch(/^This plan includes treatments that are NOT reef safe/);
+    });
+
+    it('should treat a missing reef_safe flag as unsafe', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({
+          ...diagnosisOutput,
+          treatment_plan: [{ action: 'Use a new remedy.', medication_class: 'Mystery Cure' }],
+        }),
+        1,
+        'disease_dx'
+      );
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !('differential' in outcome.result)) return;
+      expect(outcome.result.treatment_plan[0]).toMatchObject({
+        medication_class: 'other',
+        reef_safe: false,
+        warning: 'Not reef safe. Use only in a separate quarantine tank, never in the display.',
+      });
+    });
+
+    it('should use the standard disclaimer for reef-safe plans', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({ ...diagnosisOutput, treatment_plan: [diagnosisOutput.treatment_plan[0]] }),
+        1,
+        'disease_dx'
+      );
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !('differential' in outcome.result)) return;
+      expect(outcome.result.disclaimer).toMatch(/^This is an automated assessment of photos/);
+    });
+
+    it('should reject unknown urgency values', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({ ...diagnosisOutput, urgency: 'whenever' }),
+        1,
+        'disease_dx'
+      );
+
+      expect(outcome).toMatchObject({ success: false, reason: 'SCHEMA:urgency' });
+    });
+  });
+
+  describe('parseModelResponse for scan_compare', () => {
+    it('should coerce change kinds and default missing changes', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({
+          summary: 'Algae has spread.',
+          changes: [
+            { subject: 'Hair algae', kind: 'Spreading', description: 'Covers more rock.' },
+            { subject: 'Cleaner shrimp', kind: 'gone' },
+          ],
+        }),
+        2,
+        'scan_compare'
+      );
+      const empty = parseModelResponse(JSON.stringify({ summary: 'No visible change.' }), 2, 'scan_compare');
+
+      expect(outcome.success).toBe(true);
+      if (!outcome.success || !('changes' in outcome.result)) return;
+      expect(outcome.result.changes).toEqual([
+        { subject: 'Hair algae', kind: 'worsened', description: 'Covers more rock.' },
+        { subject: 'Cleaner shrimp', kind: 'disappeared', description: '' },
+      ]);
+      expect(empty).toMatchObject({ success: true, result: { changes: [] } });
+    });
+
+    it('should reject unknown change kinds', () => {
+      const outcome = parseModelResponse(
+        JSON.stringify({ summary: 'Changed.', changes: [{ subject: 'Rock', kind: 'moved' }] }),
+        2,
+        'scan_compare'
+      );
+
+      expect(outcome).toMatchObject({ success: false, reason: 'SCHEMA:changes.0.kind' });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // parseWithRepair Tests
+  // -------------------------------------------------------------------------
+
+  describe('parseWithRepair', () => {
+    it('should not re-prompt when the first output is valid', async () => {
+      const repair = jest.fn();
+
+      const outcome = await parseWithRepair(JSON.stringify(validOutput), 1, 'comprehensive', repair);
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.repairReason).toBeUndefined();
+      expect(repair).not.toHaveBeenCalled();
+    });
+
+    it('should pass issues to the repair and keep the original reason', async () => {
+      const repair = jest.fn(async (_issues: string[]) => JSON.stringify(validOutput));
+
+      const outcome = await parseWithRepair(JSON.stringify({ summary: 'x' }), 1, 'comprehensive', repair);
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.repairReason).toBe('SCHEMA:tank_health');
+      expect(repair.mock.calls[0][0]).toEqual(expect.arrayContaining([expect.stringContaining('tank_health')]));
+    });
+
+    it('should fail with the original reason when the repair is also invalid', async () => {
+      const outcome = await parseWithRepair('not json', 1, 'comprehensive', async () => '{"summary": ""}');
+
+      expect(outcome).toMatchObject({ success: false, reason: 'INVALID_JSON' });
+    });
+
+    it('should fail when the repair request itself fails', async () => {
+      const outcome = await parseWithRepair('not json', 1, 'comprehensive', async () => null);
+
+      expect(outcome).toMatchObject({ success: false, reason: 'INVALID_JSON' });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // isValidationReason Tests
+  // -------------------------------------------------------------------------
+
+  describe('isValidationReason', () => {
+    it('should recognize validation reasons only', () => {
+      expect(isValidationReason('INVALID_JSON')).toBe(true);
+      expect(isValidationReason('SCHEMA:summary')).toBe(true);
+      expect(isValidationReason('API_ERROR')).toBe(false);
+      expect(isValidationReason(undefined)).toBe(false);
+    });
+  });
+});
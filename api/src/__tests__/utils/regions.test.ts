@@ -0,0 +1,95 @@
+// ============================================================================
+// Image Region Helper Unit Tests
+// Tests for bounding box and polygon normalization
+// ============================================================================
+
+import { normalizeRegions, normalizeBoundingBox } from '../../utils/regions';
+
+describe('Image Region Helpers', () => {
+  // -------------------------------------------------------------------------
+  // normalizeBoundingBox Tests
+  // -------------------------------------------------------------------------
+
+  describe('normalizeBoundingBox', () => {
+    it('should keep a valid box unchanged', () => {
+      const box = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+
+      expect(normalizeBoundingBox(box)).toEqual(box);
+    });
+
+    it('should clamp boxes that slightly overflow the image', () => {
+      const box = normalizeBoundingBox({ x: -0.05, y: 0.8, width: 0.5, height: 0.25 });
+
+      expect(box).toEqual({ x: 0, y: 0.8, width: 0.45, height: 0.2 });
+    });
+
+    it('should reject pixel coordinates', () => {
+      expect(normalizeBoundingBox({ x: 120, y: 40, width: 200, height: 80 })).toBeNull();
+    });
+
+    it('should reject missing, non-numeric or empty boxes', () => {
+      expect(normalizeBoundingBox(undefined)).toBeNull();
+      expect(normalizeBoundingBox({ x: '0.1', y: 0.1, width: 0.2, height: 0.2 })).toBeNull();
+      expect(normalizeBoundingBox({ x: 0.1, y: 0.1, width: 0, height: 0.2 })).toBeNull();
+      expect(normalizeBoundingBox({ x: 1, y: 0.1, width: 0.05, height: 0.2 })).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // normalizeRegions Tests
+  // -------------------------------------------------------------------------
+
+  describe('normalizeRegions', () => {
+    const box = { x: 0.1, y: 0.1, width: 0.2, height: 0.2 };
+
+    it('should return an empty list for non-array input', () => {
+      expect(normalizeRegions(null, 1)).toEqual([]);
+      expect(normalizeRegions({ image_index: 0 }, 1)).toEqual([]);
+    });
+
+    it('should default the image index for single-image requests', () => {
+      const regions = normalizeRegions([{ bounding_box: box }], 1);
+
+      expect(regions).toEqual([{ image_index: 0, bounding_box: box }]);
+    });
+
+    it('should drop regions referencing unknown images', () => {
+      const regions = normalizeRegions(
+        [
+          { image_index: 1, bounding_box: box },
+          { image_index: 3, bounding_box: box },
+          { bounding_box: box },
+        ],
+        2
+      );
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].image_index).toBe(1);
+    });
+
+    it('should keep valid polygons and discard malformed ones', () => {
+      const triangle = [
+        { x: 0.1, y: 0.1 },
+        { x: 0.3, y: 0.1 },
+        { x: 0.2, y: 1.05 },
+      ];
+
+      const regions = normalizeRegions(
+        [
+          { image_index: 0, bounding_box: box, polygon: triangle },
+          { image_index: 0, bounding_box: box, polygon: triangle.slice(0, 2) },
+          { image_index: 0, bounding_box: box, polygon: [...triangle, { x: 5, y: 5 }] },
+        ],
+        1
+      );
+
+      expect(regions[0].polygon).toEqual([
+        { x: 0.1, y: 0.1 },
+        { x: 0.3, y: 0.1 },
+        { x: 0.2, y: 1 },
+      ]);
+      expect(regions[1].polygon).toBeUndefined();
+      expect(regions[2].polygon).toBeUndefined();
+    });
+  });
+});
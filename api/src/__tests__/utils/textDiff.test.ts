@@ -0,0 +1,45 @@
+// ============================================================================
+// Text Diff Unit Tests
+// Tests for the line diff used to compare prompt versions
+// ============================================================================
+
+import { diffLines, hasChanges } from '../../utils/textDiff';
+
+describe('Text Diff', () => {
+  // -------------------------------------------------------------------------
+  // diffLines Tests
+  // -------------------------------------------------------------------------
+
+  describe('diffLines', () => {
+    it('should mark every line unchanged for identical text', () => {
+      const diff = diffLines('a\nb', 'a\nb');
+
+      expect(diff).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'unchanged', text: 'b' },
+      ]);
+      expect(hasChanges(diff)).toBe(false);
+    });
+
+    it('should report replaced, added and removed lines in order', () => {
+      const diff = diffLines('intro\nold rule\nshared\ntrailing', 'intro\nnew rule\nshared\nextra');
+
+      expect(diff).toEqual([
+        { type: 'unchanged', text: 'intro' },
+        { type: 'removed', text: 'old rule' },
+        { type: 'added', text: 'new rule' },
+        { type: 'unchanged', text: 'shared' },
+        { type: 'removed', text: 'trailing' },
+        { type: 'added', text: 'extra' },
+      ]);
+      expect(hasChanges(diff)).toBe(true);
+    });
+
+    it('should handle text appended to the end', () => {
+      expect(diffLines('a', 'a\nb')).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'added', text: 'b' },
+      ]);
+    });
+  });
+});
@@ -3,6 +3,9 @@
 // Centralized configuration management
 // ============================================================================
 
+import type { TankType, WaterTargetRange } from '../types';
+import { isWaterParameter, WaterParameter } from '../utils/waterParameters';
+
 // -----------------------------------------------------------------------------
 // Environment Variables Validation
 // -----------------------------------------------------------------------------
@@ -19,6 +22,217 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+function listEnv(name: string, defaultValue: string): string[] {
+  return optionalEnv(name, defaultValue)
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// -----------------------------------------------------------------------------
+// OpenAI-Compatible Providers
+// -----------------------------------------------------------------------------
+
+export interface OpenAICompatibleProviderConfig {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  pricing?: {
+    input: number;  // USD per 1M input tokens
+    output: number; // USD per 1M output tokens
+  };
+}
+
+/**
+ * Parse OPENAI_COMPATIBLE_PROVIDERS, a JSON array of endpoint definitions
+ * e.g. [{"name":"local","baseUrl":"http://localhost:8000/v1","model":"llava"}]
+ */
+function parseOpenAICompatibleProviders(raw: string | undefined): OpenAICompatibleProviderConfig[] {
+  if (!raw) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('OPENAI_COMPATIBLE_PROVIDERS must be valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('OPENAI_COMPATIBLE_PROVIDERS must be a JSON array');
+  }
+
+  return parsed.map((entry: Partial<OpenAICompatibleProviderConfig>, index) => {
+    if (!entry.name || !entry.baseUrl || !entry.model) {
+      throw new Error(`OPENAI_COMPATIBLE_PROVIDERS[${index}] requires name, baseUrl and model`);
+    }
+    return {
+      name: entry.name,
+      baseUrl: entry.baseUrl,
+      model: entry.model,
+      apiKey: entry.apiKey,
+      pricing: entry.pricing,
+    };
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Admin API Keys
+// -----------------------------------------------------------------------------
+
+export interface AdminApiKey {
+  name: string; // recorded as the author of admin changes
+  key: string;
+}
+
+/**
+ * Parse ADMIN_API_KEYS, a comma-separated list of name:key pairs
+ * e.g. "alice:3f9a...,deploy-bot:c81e..."
+ */
+function parseAdminApiKeys(raw: string | undefined): AdminApiKey[] {
+  return (raw || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`ADMIN_API_KEYS[${index}] must be in the form name:key`);
+      }
+      return { name: entry.slice(0, separator), key: entry.slice(separator + 1) };
+    });
+}
+
+// -----------------------------------------------------------------------------
+// Push Notifications
+// -----------------------------------------------------------------------------
+
+export interface FcmServiceAccount {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+}
+
+/**
+ * Parse FCM_SERVICE_ACCOUNT, the JSON key of a Google service account allowed
+ * to send Firebase Cloud Messaging messages
+ */
+function parseFcmServiceAccount(raw: string | undefined): FcmServiceAccount | null {
+  if (!raw) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('FCM_SERVICE_ACCOUNT must be the JSON key of a service account');
+  }
+
+  const { project_id, client_email, private_key } = (parsed || {}) as Record<string, unknown>;
+  if (typeof project_id !== 'string' || typeof client_email !== 'string' || typeof private_key !== 'string') {
+    throw new Error('FCM_SERVICE_ACCOUNT must include project_id, client_email and private_key');
+  }
+
+  return { projectId: project_id, clientEmail: client_email, privateKey: private_key };
+}
+
+// -----------------------------------------------------------------------------
+// Water Parameter Targets
+// -----------------------------------------------------------------------------
+
+export type WaterTargets = Partial<Record<WaterParameter, WaterTargetRange>>;
+
+// Ranges for tanks without a type, and the base that per-type ranges adjust
+const DEFAULT_WATER_TARGETS: Record<WaterParameter, WaterTargetRange> = {
+  alkalinity: { min: 7, max: 11 },
+  calcium: { min: 380, max: 450 },
+  magnesium: { min: 1250, max: 1400 },
+  nitrate: { min: 2, max: 20 },
+  phosphate: { min: 0.02, max: 0.1 },
+  salinity: { min: 1.024, max: 1.026 },
+  temperature: { min: 24, max: 27 },
+  ph: { min: 7.8, max: 8.4 },
+};
+
+const TANK_TYPE_WATER_TARGETS: Partial<Record<TankType, WaterTargets>> = {
+  sps: {
+    alkalinity: { min: 7.5, max: 9.5 },
+    nitrate: { min: 1, max: 10 },
+    phosphate: { min: 0.02, max: 0.08 },
+  },
+  frag: {
+    alkalinity: { min: 7.5, max: 9.5 },
+    nitrate: { min: 1, max: 10 },
+    phosphate: { min: 0.02, max: 0.08 },
+  },
+  soft_coral: {
+    nitrate: { min: 2, max: 25 },
+    phosphate: { min: 0.02, max: 0.2 },
+  },
+  fowlr: {
+    nitrate: { min: 0, max: 40 },
+    phosphate: { min: 0, max: 0.5 },
+  },
+};
+
+/**
+ * Parse WATER_TARGETS, a JSON object of ranges keyed by "default" or tank type
+ * e.g. {"sps":{"nitrate":{"min":2,"max":8}}}; unset values keep the built-in ranges
+ */
+function parseWaterTargetOverrides(raw: string | undefined): Record<string, WaterTargets> {
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('WATER_TARGETS must be valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('WATER_TARGETS must be a JSON object');
+  }
+
+  const overrides: Record<string, WaterTargets> = {};
+
+  for (const [scope, ranges] of Object.entries(parsed as Record<string, Record<string, WaterTargetRange>>)) {
+    overrides[scope] = {};
+
+    for (const [parameter, range] of Object.entries(ranges || {})) {
+      if (!isWaterParameter(parameter)) {
+        throw new Error(`WATER_TARGETS.${scope} has unknown parameter ${parameter}`);
+      }
+      if (typeof range?.min !== 'number' || typeof range?.max !== 'number' || range.min > range.max) {
+        throw new Error(`WATER_TARGETS.${scope}.${parameter} needs numeric min and max with min <= max`);
+      }
+      overrides[scope][parameter] = { min: range.min, max: range.max };
+    }
+  }
+
+  return overrides;
+}
+
+function buildWaterTargets(overrides: Record<string, WaterTargets>) {
+  const defaults = { ...DEFAULT_WATER_TARGETS, ...overrides.default };
+  const byTankType: Record<string, WaterTargets> = {};
+
+  for (const tankType of new Set([...Object.keys(TANK_TYPE_WATER_TARGETS), ...Object.keys(overrides)])) {
+    if (tankType !== 'default') {
+      byTankType[tankType] = {
+        ...TANK_TYPE_WATER_TARGETS[tankType as TankType],
+        ...overrides[tankType],
+      };
+    }
+  }
+
+  return { defaults, byTankType: byTankType as Partial<Record<TankType, WaterTargets>> };
+}
+
 // -----------------------------------------------------------------------------
 // Configuration Object
 // -----------------------------------------------------------------------------
@@ -50,6 +264,16 @@ export const config = {
     },
   },
 
+  // Admin API (prompt management); disabled when no keys are configured
+  admin: {
+    apiKeys: parseAdminApiKeys(process.env.ADMIN_API_KEYS),
+  },
+
+  // Scheduled jobs (crons in vercel.json); disabled when no secret is configured
+  cron: {
+    secret: process.env.CRON_SECRET || '',
+  },
+
   // Gemini API Configuration
   gemini: {
     keys: [
@@ -68,6 +292,24 @@ export const config = {
     maxCostPerDay: parseFloat(optionalEnv('OPENAI_MAX_COST_PER_DAY', '100')),
   },
 
+  // AI Provider Registry
+  providers: {
+    // Fallback order; only providers listed here are tried
+    order: listEnv('AI_PROVIDERS', 'gemini,openai'),
+    openaiCompatible: parseOpenAICompatibleProviders(process.env.OPENAI_COMPATIBLE_PROVIDERS),
+  },
+
+  // Mock AI Provider (offline development; add "mock" to AI_PROVIDERS)
+  mockProvider: {
+    // success | rate_limited | timeout | malformed | repairable | error
+    behavior: optionalEnv('MOCK_AI_BEHAVIOR', 'success'),
+    latencyMs: parseInt(optionalEnv('MOCK_AI_LATENCY_MS', '0'), 10),
+    timeoutMs: parseInt(optionalEnv('MOCK_AI_TIMEOUT_MS', '30000'), 10),
+    useKeyPool: optionalEnv('MOCK_AI_USE_KEY_POOL', 'false') === 'true',
+    // Optional JSON file with { "byHash": {...}, "byMode": {...} } fixtures
+    fixturesPath: process.env.MOCK_AI_FIXTURES || '',
+  },
+
   // Rate Limiting
   rateLimit: {
     free: {
@@ -100,6 +342,13 @@ export const config = {
       timeoutSeconds: 60,
       halfOpenRequests: 3,
     },
+    // Used for providers without their own entry
+    default: {
+      failureThreshold: 5,
+      successThreshold: 3,
+      timeoutSeconds: 60,
+      halfOpenRequests: 3,
+    },
   },
 
   // Caching
@@ -107,13 +356,107 @@ export const config = {
     imageTtlDays: 7,
     idempotencyTtlHours: 24,
     jwtValidationTtlMinutes: 5,
+    jobTtlHours: 24,
+  },
+
+  // Data Retention (request logs and scan history, per tier)
+  retention: {
+    requestLogDays: {
+      free: parseInt(optionalEnv('RETENTION_DAYS_FREE', '30'), 10),
+      premium: parseInt(optionalEnv('RETENTION_DAYS_PREMIUM', '365'), 10),
+    },
+  },
+
+  // Water Parameters (target ranges by tank type; override with WATER_TARGETS)
+  water: {
+    targets: buildWaterTargets(parseWaterTargetOverrides(process.env.WATER_TARGETS)),
+    // Readings older than this are left out of analyze prompts
+    promptMaxAgeDays: 14,
+    // Window used for trends
+    trendWindowDays: 30,
+    // Test kit readings below this confidence are not added to the log
+    testKitMinConfidence: 0.7,
+  },
+
+  // Livestock Inventory
+  livestock: {
+    // Scan identifications at or above this confidence refresh inventory
+    // entries; only feedback from the user adds new ones
+    minConfidence: 0.7,
+    // Consecutive scans an item can be missing from before it is flagged
+    notSeenAfterScans: 3,
+  },
+
+  // Species Catalog
+  species: {
+    // Lowest name similarity (0-1) accepted for a fuzzy catalog match
+    minMatchSimilarity: 0.85,
+  },
+
+  // Compatibility Checks
+  compatibility: {
+    // Scans of a tank this recent add their identifications to its inhabitants
+    recentScanDays: 30,
+  },
+
+  // Tank Health Scores (0-100 per scan) and weekly digests
+  health: {
+    // Score of each tank_health rating before problems are taken off
+    baseScores: {
+      Excellent: 100,
+      Good: 85,
+      Fair: 65,
+      'Needs Attention': 45,
+      Critical: 20,
+    },
+    // Points taken off per problem, scaled by the identification's confidence
+    severityPenalties: { low: 2, medium: 5, high: 10 },
+    maxProblemPenalty: 30,
+    // A change in weekly average score below this counts as stable
+    stableScoreChange: 5,
+    // Recommendations listed in a digest
+    digestRecommendations: 3,
+  },
+
+  // Maintenance Tasks
+  maintenance: {
+    // Tasks due within this many hours count as due rather than upcoming
+    dueSoonHours: 24,
+    maxTasksPerTank: 100,
+  },
+
+  // Notifications (transport: log | file | memory | fcm)
+  notifications: {
+    transport: optionalEnv('NOTIFICATION_TRANSPORT', 'log'),
+    // file appends JSON lines here
+    filePath: optionalEnv('NOTIFICATION_FILE_PATH', 'notifications.jsonl'),
+    fcm: {
+      serviceAccount: parseFcmServiceAccount(process.env.FCM_SERVICE_ACCOUNT),
+      timeoutMs: 10000,
+    },
+    // Categories a device gets until it changes its preferences
+    defaultPreferences: {
+      job_complete: true,
+      weekly_digest: true,
+      maintenance_due: true,
+      quota_reset: false,
+      parameter_alert: true,
+    },
+    deliveryLogLimit: 200,
   },
 
   // Request Limits
   limits: {
     maxImageSizeMB: 5,
+    maxImagesPerRequest: 4,
+    maxTotalImageSizeMB: 7,
     maxRequestSizeMB: 10,
     requestTimeoutMs: 30000,
+    // Scheduled jobs under /v1/cron
+    cronTimeoutMs: 300000,
+    // Analysis jobs not finished by then are reported as failed
+    jobTimeoutMs: 120000,
+    maxTanksPerDevice: 20,
   },
 
   // Feature Flags
@@ -140,13 +483,39 @@ export function validateConfig(): void {
       errors.push('JWT_SECRET must be at least 32 characters in production');
     }
 
-    if (config.gemini.keys.length === 0) {
+    if (config.providers.order.includes('gemini') && config.gemini.keys.length === 0) {
       errors.push('At least one GEMINI_KEY is required');
     }
 
+    if (config.providers.order.includes('mock')) {
+      errors.push('The mock AI provider cannot be used in production');
+    }
+
     if (!config.appSecrets.ios.v1 && !config.appSecrets.android.v1) {
       errors.push('At least one APP_SECRET is required');
     }
+
+    if (config.admin.apiKeys.some(({ key }) => key.length < 32)) {
+      errors.push('ADMIN_API_KEYS keys must be at least 32 characters in production');
+    }
+
+    if (config.cron.secret && config.cron.secret.length < 32) {
+      errors.push('CRON_SECRET must be at least 32 characters in production');
+    }
+
+    if (config.notifications.transport === 'fcm' && !config.notifications.fcm.serviceAccount) {
+      errors.push('FCM_SERVICE_ACCOUNT is required for the fcm notification transport');
+    }
+
+    if (config.notifications.transport === 'memory') {
+      errors.push('The memory notification transport cannot be used in production');
+    }
+  }
+
+  for (const [tier, days] of Object.entries(config.retention.requestLogDays)) {
+    if (!Number.isInteger(days) || days < 1) {
+      errors.push(`Retention for the ${tier} tier must be a positive number of days`);
+    }
   }
 
   if (errors.length > 0) {
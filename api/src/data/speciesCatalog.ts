@@ -0,0 +1,634 @@
+// ============================================================================
+// Species Catalog
+// Curated care data for common reef fish, corals and invertebrates
+// ============================================================================
+
+import type { Species } from '../types';
+
+// Ids are stable: clients link care sheets to them, so never rename one.
+// Aliases are trade and hobby names the models tend to return; names listed in
+// GET /v1/admin/species/unmatched are candidates for new entries or aliases.
+export const SPECIES_CATALOG: Species[] = [
+  // ---------------------------------------------------------------------------
+  // Fish
+  // ---------------------------------------------------------------------------
+  {
+    id: 'ocellaris-clownfish',
+    common_name: 'Ocellaris Clownfish',
+    scientific_name: 'Amphiprion ocellaris',
+    aliases: ['False Percula Clownfish', 'Common Clownfish', 'Clownfish', 'Nemo'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 11,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'percula-clownfish',
+    common_name: 'Percula Clownfish',
+    scientific_name: 'Amphiprion percula',
+    aliases: ['True Percula Clownfish', 'Orange Clownfish'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 11,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'maroon-clownfish',
+    common_name: 'Maroon Clownfish',
+    scientific_name: 'Premnas biaculeatus',
+    aliases: ['Maroon Clown', 'Gold Stripe Maroon Clownfish'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'aggressive',
+    preys_on: [],
+    max_size_cm: 17,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'yellow-tang',
+    common_name: 'Yellow Tang',
+    scientific_name: 'Zebrasoma flavescens',
+    aliases: ['Yellow Sailfin Tang', 'Yellow Surgeonfish'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: 20,
+    min_tank_liters: 380,
+  },
+  {
+    id: 'blue-tang',
+    common_name: 'Blue Tang',
+    scientific_name: 'Paracanthurus hepatus',
+    aliases: ['Regal Tang', 'Palette Tang', 'Hippo Tang', 'Royal Blue Tang', 'Dory'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: 31,
+    min_tank_liters: 680,
+  },
+  {
+    id: 'powder-blue-tang',
+    common_name: 'Powder Blue Tang',
+    scientific_name: 'Acanthurus leucosternon',
+    aliases: ['Powder Blue Surgeonfish'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'expert',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: 23,
+    min_tank_liters: 475,
+  },
+  {
+    id: 'royal-gramma',
+    common_name: 'Royal Gramma',
+    scientific_name: 'Gramma loreto',
+    aliases: ['Fairy Basslet', 'Royal Gramma Basslet'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'firefish-goby',
+    common_name: 'Firefish Goby',
+    scientific_name: 'Nemateleotris magnifica',
+    aliases: ['Firefish', 'Fire Goby', 'Fire Dartfish', 'Magnificent Dartfish'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'yellow-watchman-goby',
+    common_name: 'Yellow Watchman Goby',
+    scientific_name: 'Cryptocentrus cinctus',
+    aliases: ['Watchman Goby', 'Yellow Prawn Goby'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'mandarin-dragonet',
+    common_name: 'Mandarin Dragonet',
+    scientific_name: 'Synchiropus splendidus',
+    aliases: ['Mandarin Goby', 'Mandarinfish', 'Green Mandarin', 'Mandarin'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'expert',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'six-line-wrasse',
+    common_name: 'Six Line Wrasse',
+    scientific_name: 'Pseudocheilinus hexataenia',
+    aliases: ['6 Line Wrasse'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'coral-beauty-angelfish',
+    common_name: 'Coral Beauty Angelfish',
+    scientific_name: 'Centropyge bispinosa',
+    aliases: ['Coral Beauty', 'Twospined Angelfish', 'Dusky Angelfish'],
+    category: 'fish',
+    reef_safe: 'with_caution',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: ['corals'],
+    max_size_cm: 10,
+    min_tank_liters: 265,
+  },
+  {
+    id: 'flame-angelfish',
+    common_name: 'Flame Angelfish',
+    scientific_name: 'Centropyge loricula',
+    aliases: ['Flame Angel'],
+    category: 'fish',
+    reef_safe: 'with_caution',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: ['corals'],
+    max_size_cm: 10,
+    min_tank_liters: 265,
+  },
+  {
+    id: 'banggai-cardinalfish',
+    common_name: 'Banggai Cardinalfish',
+    scientific_name: 'Pterapogon kauderni',
+    aliases: ['Banggai Cardinal', 'Kaudern\'s Cardinalfish'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'green-chromis',
+    common_name: 'Green Chromis',
+    scientific_name: 'Chromis viridis',
+    aliases: ['Blue Green Chromis', 'Chromis'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 10,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'lawnmower-blenny',
+    common_name: 'Lawnmower Blenny',
+    scientific_name: 'Salarias fasciatus',
+    aliases: ['Jeweled Rockskipper', 'Algae Blenny', 'Sailfin Blenny'],
+    category: 'fish',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: 13,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'foxface-rabbitfish',
+    common_name: 'Foxface Rabbitfish',
+    scientific_name: 'Siganus vulpinus',
+    aliases: ['Foxface', 'Foxface Lo'],
+    category: 'fish',
+    reef_safe: 'with_caution',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: ['corals'],
+    max_size_cm: 24,
+    min_tank_liters: 265,
+  },
+  {
+    id: 'copperband-butterflyfish',
+    common_name: 'Copperband Butterflyfish',
+    scientific_name: 'Chelmon rostratus',
+    aliases: ['Copperband Butterfly', 'Beaked Butterflyfish'],
+    category: 'fish',
+    reef_safe: 'with_caution',
+    care_level: 'expert',
+    temperament: 'peaceful',
+    preys_on: ['corals'],
+    max_size_cm: 20,
+    min_tank_liters: 285,
+  },
+  {
+    id: 'red-lionfish',
+    common_name: 'Red Lionfish',
+    scientific_name: 'Pterois volitans',
+    aliases: ['Lionfish', 'Volitans Lionfish', 'Common Lionfish'],
+    category: 'fish',
+    reef_safe: 'with_caution',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: ['small_fish', 'invertebrates'],
+    max_size_cm: 38,
+    min_tank_liters: 455,
+  },
+  {
+    id: 'niger-triggerfish',
+    common_name: 'Niger Triggerfish',
+    scientific_name: 'Odonus niger',
+    aliases: ['Niger Trigger', 'Redtooth Triggerfish'],
+    category: 'fish',
+    reef_safe: 'with_caution',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: ['invertebrates'],
+    max_size_cm: 50,
+    min_tank_liters: 570,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Corals
+  // ---------------------------------------------------------------------------
+  {
+    id: 'hammer-coral',
+    common_name: 'Hammer Coral',
+    scientific_name: 'Fimbriaphyllia ancora',
+    aliases: ['Euphyllia ancora', 'Anchor Coral', 'Hammer'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'torch-coral',
+    common_name: 'Torch Coral',
+    scientific_name: 'Euphyllia glabrescens',
+    aliases: ['Torch'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'frogspawn-coral',
+    common_name: 'Frogspawn Coral',
+    scientific_name: 'Fimbriaphyllia divisa',
+    aliases: ['Euphyllia divisa', 'Frogspawn', 'Octopus Coral'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'green-star-polyps',
+    common_name: 'Green Star Polyps',
+    scientific_name: 'Briareum violaceum',
+    aliases: ['GSP', 'Star Polyps', 'Pachyclavularia violacea'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'zoanthids',
+    common_name: 'Zoanthids',
+    scientific_name: 'Zoanthus sp.',
+    aliases: ['Zoanthid', 'Zoas', 'Zoa', 'Button Polyps'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'palythoa',
+    common_name: 'Palythoa',
+    scientific_name: 'Palythoa sp.',
+    aliases: ['Palys', 'Paly', 'Palythoa Polyps'],
+    category: 'coral',
+    reef_safe: 'with_caution',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'discosoma-mushroom',
+    common_name: 'Mushroom Coral',
+    scientific_name: 'Discosoma sp.',
+    aliases: ['Discosoma Mushroom', 'Mushroom', 'Shroom', 'Disc Coral', 'Mushroom Anemone'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'toadstool-leather',
+    common_name: 'Toadstool Leather Coral',
+    scientific_name: 'Sarcophyton sp.',
+    aliases: ['Toadstool Leather', 'Leather Coral', 'Mushroom Leather', 'Toadstool Coral'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'kenya-tree-coral',
+    common_name: 'Kenya Tree Coral',
+    scientific_name: 'Capnella sp.',
+    aliases: ['Kenya Tree'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'duncan-coral',
+    common_name: 'Duncan Coral',
+    scientific_name: 'Duncanopsammia axifuga',
+    aliases: ['Duncan', 'Whisker Coral', 'Daisy Coral'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'candy-cane-coral',
+    common_name: 'Candy Cane Coral',
+    scientific_name: 'Caulastraea furcata',
+    aliases: ['Trumpet Coral', 'Candy Cane', 'Kitkat Coral'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'acropora',
+    common_name: 'Acropora',
+    scientific_name: 'Acropora sp.',
+    aliases: ['Acro', 'Staghorn Coral', 'Table Coral', 'Acropora Coral'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'expert',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'montipora-capricornis',
+    common_name: 'Montipora Capricornis',
+    scientific_name: 'Montipora capricornis',
+    aliases: ['Monti Cap', 'Montipora', 'Vase Coral', 'Plating Montipora'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+  {
+    id: 'birds-nest-coral',
+    common_name: 'Bird\'s Nest Coral',
+    scientific_name: 'Seriatopora hystrix',
+    aliases: ['Birds Nest', 'Needle Coral'],
+    category: 'coral',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: null,
+    min_tank_liters: null,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Invertebrates
+  // ---------------------------------------------------------------------------
+  {
+    id: 'bubble-tip-anemone',
+    common_name: 'Bubble Tip Anemone',
+    scientific_name: 'Entacmaea quadricolor',
+    aliases: ['BTA', 'Rose Bubble Tip Anemone', 'Bubble Tip', 'Rose BTA'],
+    category: 'invertebrate',
+    reef_safe: 'with_caution',
+    care_level: 'intermediate',
+    temperament: 'semi_aggressive',
+    preys_on: [],
+    max_size_cm: 30,
+    min_tank_liters: 115,
+  },
+  {
+    id: 'skunk-cleaner-shrimp',
+    common_name: 'Skunk Cleaner Shrimp',
+    scientific_name: 'Lysmata amboinensis',
+    aliases: ['Cleaner Shrimp', 'Pacific Cleaner Shrimp', 'Scarlet Skunk Cleaner Shrimp'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 6,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'fire-shrimp',
+    common_name: 'Fire Shrimp',
+    scientific_name: 'Lysmata debelius',
+    aliases: ['Blood Red Fire Shrimp', 'Fire Cleaner Shrimp'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 5,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'peppermint-shrimp',
+    common_name: 'Peppermint Shrimp',
+    scientific_name: 'Lysmata wurdemanni',
+    aliases: ['Lysmata boggessi', 'Camel Shrimp'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 5,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'randalls-pistol-shrimp',
+    common_name: 'Randall\'s Pistol Shrimp',
+    scientific_name: 'Alpheus randalli',
+    aliases: ['Pistol Shrimp', 'Candy Pistol Shrimp'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 5,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'harlequin-shrimp',
+    common_name: 'Harlequin Shrimp',
+    scientific_name: 'Hymenocera picta',
+    aliases: ['Harlequin'],
+    category: 'invertebrate',
+    reef_safe: 'with_caution',
+    care_level: 'expert',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 5,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'turbo-snail',
+    common_name: 'Turbo Snail',
+    scientific_name: 'Turbo fluctuosus',
+    aliases: ['Mexican Turbo Snail', 'Turbo'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 5,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'trochus-snail',
+    common_name: 'Trochus Snail',
+    scientific_name: 'Trochus sp.',
+    aliases: ['Banded Trochus Snail'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 4,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'nassarius-snail',
+    common_name: 'Nassarius Snail',
+    scientific_name: 'Nassarius sp.',
+    aliases: ['Nassarius vibex'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 2.5,
+    min_tank_liters: 20,
+  },
+  {
+    id: 'emerald-crab',
+    common_name: 'Emerald Crab',
+    scientific_name: 'Mithraculus sculptus',
+    aliases: ['Emerald Mithrax Crab', 'Mithrax Crab', 'Green Clinging Crab'],
+    category: 'invertebrate',
+    reef_safe: 'with_caution',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: ['corals'],
+    max_size_cm: 5,
+    min_tank_liters: 75,
+  },
+  {
+    id: 'scarlet-reef-hermit-crab',
+    common_name: 'Scarlet Reef Hermit Crab',
+    scientific_name: 'Paguristes cadenati',
+    aliases: ['Scarlet Hermit Crab', 'Red Leg Hermit Crab', 'Red Reef Hermit'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'beginner',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 4,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'blue-leg-hermit-crab',
+    common_name: 'Blue Leg Hermit Crab',
+    scientific_name: 'Clibanarius tricolor',
+    aliases: ['Blue Legged Hermit Crab', 'Blue Leg Hermit'],
+    category: 'invertebrate',
+    reef_safe: 'with_caution',
+    care_level: 'beginner',
+    temperament: 'semi_aggressive',
+    preys_on: ['invertebrates'],
+    max_size_cm: 3,
+    min_tank_liters: 40,
+  },
+  {
+    id: 'tuxedo-urchin',
+    common_name: 'Tuxedo Urchin',
+    scientific_name: 'Mespilia globulus',
+    aliases: ['Blue Tuxedo Urchin', 'Tuxedo Pincushion Urchin'],
+    category: 'invertebrate',
+    reef_safe: 'yes',
+    care_level: 'intermediate',
+    temperament: 'peaceful',
+    preys_on: [],
+    max_size_cm: 8,
+    min_tank_liters: 115,
+  },
+];
@@ -27,6 +27,149 @@ CREATE INDEX IF NOT EXISTS idx_devices_device_uuid ON devices(device_uuid);
 CREATE INDEX IF NOT EXISTS idx_devices_last_seen ON devices(last_seen_at);
 CREATE INDEX IF NOT EXISTS idx_devices_tier ON devices(tier);
 
+-- Push notifications: the FCM registration token of the app install and the
+-- categories it opted in or out of
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS push_token VARCHAR(512);
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS push_token_updated_at TIMESTAMPTZ;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS notification_preferences JSONB DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_devices_push_token ON devices(push_token) WHERE push_token IS NOT NULL;
+
+-- -----------------------------------------------------------------------------
+-- Tanks Table
+-- Aquarium profiles; a device can keep several (display, frag, quarantine)
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS tanks (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    device_id       UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    name            VARCHAR(100) NOT NULL,
+    volume_liters   NUMERIC(8,1),
+    tank_type       VARCHAR(20) CHECK (tank_type IN (
+                        'mixed_reef', 'sps', 'lps', 'soft_coral', 'fowlr', 'nano', 'frag', 'quarantine'
+                    )),
+    setup_date      DATE,
+    photo_url       TEXT,
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tanks_device_id ON tanks(device_id, created_at);
+
+-- -----------------------------------------------------------------------------
+-- Livestock Table
+-- Fish, corals and inverts in a tank, seeded from scans and edited by the user
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS livestock (
+    id              SERIAL PRIMARY KEY,
+    tank_id         UUID NOT NULL REFERENCES tanks(id) ON DELETE CASCADE,
+    name            VARCHAR(255) NOT NULL,
+    normalized_name VARCHAR(255) NOT NULL,      -- lower-cased name matched against identifications
+    category        VARCHAR(20) NOT NULL CHECK (category IN ('fish', 'coral', 'invertebrate')),
+    count           INTEGER NOT NULL DEFAULT 1 CHECK (count > 0),
+    notes           TEXT,
+    source          VARCHAR(10) NOT NULL DEFAULT 'scan',   -- scan | user
+    first_seen_at   TIMESTAMPTZ,                -- first scan it was identified in
+    last_seen_at    TIMESTAMPTZ,
+    sighting_count  INTEGER NOT NULL DEFAULT 0,
+    missed_scans    INTEGER NOT NULL DEFAULT 0, -- consecutive scans that looked for it and did not find it
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tank_id, normalized_name)
+);
+
+-- -----------------------------------------------------------------------------
+-- Water Readings Table
+-- Water parameter test results per tank, in the units of utils/waterParameters
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS water_readings (
+    id              BIGSERIAL PRIMARY KEY,
+    tank_id         UUID NOT NULL REFERENCES tanks(id) ON DELETE CASCADE,
+    parameter       VARCHAR(20) NOT NULL CHECK (parameter IN (
+                        'alkalinity', 'calcium', 'magnesium', 'nitrate',
+                        'phosphate', 'salinity', 'temperature', 'ph'
+                    )),
+    value           NUMERIC(10,4) NOT NULL,
+    measured_at     TIMESTAMPTZ NOT NULL,
+    note            TEXT,
+    source          VARCHAR(20) NOT NULL DEFAULT 'manual', -- manual | test_kit_scan
+    created_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_water_readings_series ON water_readings(tank_id, parameter, measured_at DESC);
+
+-- -----------------------------------------------------------------------------
+-- Tank Health Scores Table
+-- Numeric health of each scan of a tank, for trends and weekly digests
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS tank_health_scores (
+    request_id      VARCHAR(255) PRIMARY KEY,
+    tank_id         UUID NOT NULL REFERENCES tanks(id) ON DELETE CASCADE,
+    score           SMALLINT NOT NULL CHECK (score BETWEEN 0 AND 100),
+    tank_health     VARCHAR(20) NOT NULL,
+    problem_count   INTEGER NOT NULL DEFAULT 0,
+    scanned_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_health_scores_series ON tank_health_scores(tank_id, scanned_at DESC);
+
+-- -----------------------------------------------------------------------------
+-- Maintenance Tasks Table
+-- Recurring and one-off upkeep per tank, with due dates for reminders
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS maintenance_tasks (
+    id                  BIGSERIAL PRIMARY KEY,
+    tank_id             UUID NOT NULL REFERENCES tanks(id) ON DELETE CASCADE,
+    title               VARCHAR(255) NOT NULL,
+    kind                VARCHAR(20) NOT NULL DEFAULT 'other', -- water_change | filter_sock | dosing_refill | water_test | equipment | other
+    interval_days       INTEGER CHECK (interval_days > 0),   -- NULL for one-off tasks
+    next_due_at         TIMESTAMPTZ,                          -- NULL once a one-off task is done
+    notes               TEXT,
+    source              VARCHAR(20) NOT NULL DEFAULT 'user',  -- user | recommendation
+    source_request_id   VARCHAR(255),
+    source_index        INTEGER,                              -- position in the scan's recommendations
+    last_completed_at   TIMESTAMPTZ,
+    last_reminded_at    TIMESTAMPTZ,
+    created_at          TIMESTAMPTZ DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tank_id, source_request_id, source_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_due ON maintenance_tasks(next_due_at) WHERE next_due_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_tank ON maintenance_tasks(tank_id);
+
+-- -----------------------------------------------------------------------------
+-- Maintenance Completions Table
+-- Log of when each task was done
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS maintenance_completions (
+    id              BIGSERIAL PRIMARY KEY,
+    task_id         BIGINT NOT NULL REFERENCES maintenance_tasks(id) ON DELETE CASCADE,
+    completed_at    TIMESTAMPTZ NOT NULL,
+    note            TEXT,
+    created_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_completions_task ON maintenance_completions(task_id, completed_at DESC);
+
+-- -----------------------------------------------------------------------------
+-- Notification Deliveries Table
+-- Every notification the server tried to send, and what became of it
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id              BIGSERIAL PRIMARY KEY,
+    device_id       UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    category        VARCHAR(30) NOT NULL,
+    title           VARCHAR(255) NOT NULL,
+    body            TEXT NOT NULL,
+    data            JSONB DEFAULT '{}',
+    transport       VARCHAR(20),                -- NULL when skipped before reaching a transport
+    status          VARCHAR(20) NOT NULL,       -- sent | skipped | failed | invalid_token
+    error           TEXT,
+    created_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_device ON notification_deliveries(device_id, created_at DESC);
+
 -- -----------------------------------------------------------------------------
 -- Request Logs Table
 -- For analytics, debugging, and idempotency
@@ -44,7 +187,11 @@ CREATE TABLE IF NOT EXISTS request_logs (
     tokens_input    INTEGER,
     tokens_output   INTEGER,
     error_code      VARCHAR(50),
-    result          JSONB,
+    prompt_version  INTEGER,         -- 0 = built-in default prompt
+    experiment_id   INTEGER,         -- prompt_experiments.id when bucketed
+    identification_count INTEGER,
+    result          JSONB,           -- scan history; cleared when the user deletes the scan
+    tank_id         UUID REFERENCES tanks(id) ON DELETE SET NULL,
     created_at      TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -52,6 +199,34 @@ CREATE INDEX IF NOT EXISTS idx_logs_device_id ON request_logs(device_id);
 CREATE INDEX IF NOT EXISTS idx_logs_created_at ON request_logs(created_at);
 CREATE INDEX IF NOT EXISTS idx_logs_image_hash ON request_logs(image_hash);
 CREATE INDEX IF NOT EXISTS idx_logs_request_id ON request_logs(request_id);
+ALTER TABLE request_logs ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+ALTER TABLE request_logs ADD COLUMN IF NOT EXISTS experiment_id INTEGER;
+ALTER TABLE request_logs ADD COLUMN IF NOT EXISTS identification_count INTEGER;
+CREATE INDEX IF NOT EXISTS idx_logs_experiment ON request_logs(experiment_id) WHERE experiment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_logs_history ON request_logs(device_id, created_at DESC, request_id DESC) WHERE result IS NOT NULL;
+ALTER TABLE request_logs ADD COLUMN IF NOT EXISTS tank_id UUID REFERENCES tanks(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_logs_tank ON request_logs(tank_id, created_at DESC) WHERE tank_id IS NOT NULL;
+
+-- -----------------------------------------------------------------------------
+-- Analysis Feedback Table
+-- User ratings and identification corrections, one row per request
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS analysis_feedback (
+    id              SERIAL PRIMARY KEY,
+    request_id      VARCHAR(255) UNIQUE NOT NULL REFERENCES request_logs(request_id) ON DELETE CASCADE,
+    device_id       UUID REFERENCES devices(id) ON DELETE CASCADE,
+    image_hash      VARCHAR(64),
+    mode            VARCHAR(50) NOT NULL,
+    rating          SMALLINT CHECK (rating BETWEEN 1 AND 5),
+    identifications JSONB NOT NULL DEFAULT '[]',   -- [{ "index": 0, "name": "...", "verdict": "renamed", "corrected_name": "..." }]
+    has_corrections BOOLEAN NOT NULL DEFAULT FALSE, -- any incorrect or renamed verdict
+    comment         TEXT,
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_image_hash ON analysis_feedback(image_hash) WHERE has_corrections;
+CREATE INDEX IF NOT EXISTS idx_feedback_created_at ON analysis_feedback(created_at);
 
 -- -----------------------------------------------------------------------------
 -- Daily Usage Table
@@ -82,6 +257,29 @@ CREATE TABLE IF NOT EXISTS image_cache (
 CREATE INDEX IF NOT EXISTS idx_cache_expires ON image_cache(expires_at);
 CREATE INDEX IF NOT EXISTS idx_cache_mode ON image_cache(mode);
 
+-- -----------------------------------------------------------------------------
+-- Analysis Jobs Table
+-- Asynchronous analysis requests, keyed by request_id for idempotency
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    request_id      VARCHAR(255) UNIQUE NOT NULL,
+    device_id       UUID REFERENCES devices(id) ON DELETE CASCADE,
+    mode            VARCHAR(50) NOT NULL,
+    status          VARCHAR(20) NOT NULL DEFAULT 'queued'
+                    CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    result          JSONB,
+    error_code      VARCHAR(50),
+    error_message   TEXT,
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    started_at      TIMESTAMPTZ,
+    completed_at    TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_device_id ON analysis_jobs(device_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON analysis_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON analysis_jobs(created_at);
+
 -- -----------------------------------------------------------------------------
 -- Prompts Table
 -- Version-controlled AI prompts
@@ -101,6 +299,41 @@ CREATE TABLE IF NOT EXISTS prompts (
 -- Only one active version per prompt name
 CREATE UNIQUE INDEX IF NOT EXISTS idx_active_prompt ON prompts(name) WHERE is_active = TRUE;
 
+-- -----------------------------------------------------------------------------
+-- Prompt Changes Table
+-- Audit log of prompt version changes made through the admin API
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS prompt_changes (
+    id                  SERIAL PRIMARY KEY,
+    name                VARCHAR(100) NOT NULL,
+    action              VARCHAR(20) NOT NULL,   -- create | activate | rollback
+    version             INTEGER NOT NULL,       -- 0 = built-in default
+    previous_version    INTEGER,
+    changed_by          VARCHAR(100) NOT NULL,
+    created_at          TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_changes_name ON prompt_changes(name, created_at DESC);
+
+-- -----------------------------------------------------------------------------
+-- Prompt Experiments Table
+-- A/B tests splitting devices between prompt versions of one mode
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+    id                  SERIAL PRIMARY KEY,
+    mode                VARCHAR(100) NOT NULL,
+    variants            JSONB NOT NULL,          -- [{ "version": 2, "weight": 50 }, ...]
+    status              VARCHAR(20) NOT NULL DEFAULT 'running',
+    started_by          VARCHAR(100) NOT NULL,
+    started_at          TIMESTAMPTZ DEFAULT NOW(),
+    stopped_by          VARCHAR(100),
+    stopped_at          TIMESTAMPTZ,
+    promoted_version    INTEGER
+);
+
+-- Only one running experiment per mode
+CREATE UNIQUE INDEX IF NOT EXISTS idx_running_experiment ON prompt_experiments(mode) WHERE status = 'running';
+
 -- -----------------------------------------------------------------------------
 -- Species Analytics Table
 -- Track identified species for business intelligence
@@ -119,6 +352,23 @@ CREATE TABLE IF NOT EXISTS species_analytics (
 CREATE INDEX IF NOT EXISTS idx_species_category ON species_analytics(category);
 CREATE INDEX IF NOT EXISTS idx_species_count ON species_analytics(count DESC);
 
+-- -----------------------------------------------------------------------------
+-- Unmatched Species Table
+-- Identification names missing from the species catalog, for curation
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS unmatched_species (
+    id              SERIAL PRIMARY KEY,
+    name            VARCHAR(255) NOT NULL,
+    normalized_name VARCHAR(255) NOT NULL,
+    category        VARCHAR(50) NOT NULL,  -- fish | coral | invertebrate
+    count           INTEGER NOT NULL DEFAULT 1,
+    first_seen      TIMESTAMPTZ DEFAULT NOW(),
+    last_seen       TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(normalized_name, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_unmatched_species_count ON unmatched_species(count DESC);
+
 -- -----------------------------------------------------------------------------
 -- Functions
 -- -----------------------------------------------------------------------------
@@ -0,0 +1,101 @@
+// ============================================================================
+// Golden Set Loader
+// Labeled tank images used to score analysis quality offline
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import type { AnalysisImage, AnalysisMode, Identification, ScanResult } from '../types';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ExpectedIdentification {
+  name: string;
+  // Other names a model may reasonably use, e.g. the scientific name
+  aliases?: string[];
+  is_problem: boolean;
+  severity: Identification['severity'];
+}
+
+export interface GoldenCase {
+  id: string;
+  mode: AnalysisMode;
+  // Image file names relative to the golden set directory, in view order
+  images: string[];
+  expected: {
+    tank_health: ScanResult['tank_health'];
+    identifications: ExpectedIdentification[];
+  };
+}
+
+export interface GoldenSet {
+  name: string;
+  cases: GoldenCase[];
+}
+
+const MIME_TYPES: Record<string, AnalysisImage['mime_type']> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+};
+
+// Modes whose results have no identifications to compare with the labels
+const UNSCORED_MODES: AnalysisMode[] = ['test_kit_read', 'disease_dx', 'scan_compare'];
+
+// -----------------------------------------------------------------------------
+// Loading
+// -----------------------------------------------------------------------------
+
+/**
+ * Load a golden set from a directory containing manifest.json and its images
+ */
+export function loadGoldenSet(directory: string): GoldenSet {
+  const manifest = JSON.parse(
+    readFileSync(path.join(directory, 'manifest.json'), 'utf8')
+  ) as Partial<GoldenSet>;
+
+  if (!Array.isArray(manifest.cases) || manifest.cases.length === 0) {
+    throw new Error(`Golden set manifest in ${directory} has no cases`);
+  }
+
+  const ids = new Set<string>();
+  for (const goldenCase of manifest.cases) {
+    if (ids.has(goldenCase.id)) {
+      throw new Error(`Duplicate golden case id: ${goldenCase.id}`);
+    }
+    ids.add(goldenCase.id);
+
+    if (!Array.isArray(goldenCase.images) || goldenCase.images.length === 0) {
+      throw new Error(`Golden case ${goldenCase.id} has no images`);
+    }
+
+    if (UNSCORED_MODES.includes(goldenCase.mode)) {
+      throw new Error(`Golden case ${goldenCase.id} uses ${goldenCase.mode}, which has no identifications to score`);
+    }
+  }
+
+  return {
+    name: manifest.name || path.basename(directory),
+    cases: manifest.cases,
+  };
+}
+
+/**
+ * Read a case's images as base64 request payloads
+ */
+export function loadCaseImages(directory: string, goldenCase: GoldenCase): AnalysisImage[] {
+  return goldenCase.images.map((file) => {
+    const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+
+    if (!mimeType) {
+      throw new Error(`Unsupported image type for golden case ${goldenCase.id}: ${file}`);
+    }
+
+    return {
+      data: readFileSync(path.join(directory, file)).toString('base64'),
+      mime_type: mimeType,
+    };
+  });
+}
@@ -0,0 +1,183 @@
+// ============================================================================
+// Eval Report
+// JSON/Markdown output and comparison against a stored baseline
+// ============================================================================
+
+import type { AnalysisMode, ScanResult } from '../types';
+import type { CaseScore, EvalMetrics } from './scoring';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface CaseReport {
+  id: string;
+  mode: AnalysisMode;
+  success: boolean;
+  provider: string;
+  latency_ms: number;
+  error?: string;
+  validation_error?: string;
+  tank_health: {
+    expected: ScanResult['tank_health'];
+    actual: ScanResult['tank_health'] | null;
+  };
+  missed: string[];
+  unexpected: string[];
+  severity_mismatches: CaseScore['severityMismatches'];
+}
+
+export interface EvalReport {
+  golden_set: string;
+  generated_at: string;
+  providers: string[];
+  case_count: number;
+  failure_count: number;
+  metrics: EvalMetrics;
+  cases: CaseReport[];
+}
+
+export type EvalBaseline = Pick<EvalReport, 'golden_set' | 'generated_at' | 'providers' | 'metrics'>;
+
+export interface MetricComparison {
+  metric: keyof EvalMetrics;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+  regressed: boolean;
+}
+
+// Allowed drop before a metric counts as a regression
+export const DEFAULT_TOLERANCE = 0.02;
+
+const METRIC_LABELS: Record<keyof EvalMetrics, string> = {
+  species_precision: 'Species precision',
+  species_recall: 'Species recall',
+  species_f1: 'Species F1',
+  problem_precision: 'Problem precision',
+  problem_recall: 'Problem recall',
+  severity_agreement: 'Severity agreement',
+  tank_health_agreement: 'Tank health agreement',
+};
+
+// -----------------------------------------------------------------------------
+// Baseline Comparison
+// -----------------------------------------------------------------------------
+
+/**
+ * Compare every metric with the baseline
+ * A metric regresses when it drops by more than the tolerance, or when it
+ * had a value in the baseline and can no longer be measured.
+ */
+export function compareToBaseline(
+  metrics: EvalMetrics,
+  baseline: EvalBaseline,
+  tolerance: number = DEFAULT_TOLERANCE
+): MetricComparison[] {
+  return (Object.keys(METRIC_LABELS) as (keyof EvalMetrics)[]).map((metric) => {
+    const current = metrics[metric];
+    const previous = baseline.metrics[metric] ?? null;
+    const delta = current === null || previous === null
+      ? null
+      : Math.round((current - previous) * 10000) / 10000;
+
+    return {
+      metric,
+      baseline: previous,
+      current,
+      delta,
+      regressed: previous !== null && (current === null || previous - current > tolerance),
+    };
+  });
+}
+
+export function toBaseline(report: EvalReport): EvalBaseline {
+  return {
+    golden_set: report.golden_set,
+    generated_at: report.generated_at,
+    providers: report.providers,
+    metrics: report.metrics,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Markdown Rendering
+// -----------------------------------------------------------------------------
+
+/**
+ * Render a report for humans, e.g. as a CI job summary
+ */
+export function renderMarkdown(report: EvalReport, comparison?: MetricComparison[]): string {
+  const lines = [
+    `# Eval report: ${report.golden_set}`,
+    '',
+    `Generated ${report.generated_at} using ${report.providers.join(', ') || 'no provider'}.`,
+    `${report.case_count} cases, ${report.failure_count} failed.`,
+    '',
+  ];
+
+  if (comparison) {
+    lines.push('| Metric | Baseline | Current | Delta |', '| --- | --- | --- | --- |');
+    for (const row of comparison) {
+      const flag = row.regressed ? ' ⚠️' : '';
+      lines.push(
+        `| ${METRIC_LABELS[row.metric]} | ${formatRatio(row.baseline)} | ${formatRatio(row.current)} | ${formatDelta(row.delta)}${flag} |`
+      );
+    }
+  } else {
+    lines.push('| Metric | Value |', '| --- | --- |');
+    for (const metric of Object.keys(METRIC_LABELS) as (keyof EvalMetrics)[]) {
+      lines.push(`| ${METRIC_LABELS[metric]} | ${formatRatio(report.metrics[metric])} |`);
+    }
+  }
+
+  const problems = report.cases.filter(
+    (row) =>
+      !row.success ||
+      row.missed.length > 0 ||
+      row.unexpected.length > 0 ||
+      row.severity_mismatches.length > 0 ||
+      row.tank_health.actual !== row.tank_health.expected
+  );
+
+  if (problems.length > 0) {
+    lines.push('', '## Cases with differences', '');
+
+    for (const row of problems) {
+      lines.push(`### ${row.id} (${row.mode})`);
+
+      if (!row.success) {
+        lines.push(`- Failed: ${row.error || 'unknown error'}`);
+      }
+      if (row.tank_health.actual !== row.tank_health.expected) {
+        lines.push(`- Tank health: expected ${row.tank_health.expected}, got ${row.tank_health.actual ?? 'none'}`);
+      }
+      if (row.missed.length > 0) {
+        lines.push(`- Missed: ${row.missed.join(', ')}`);
+      }
+      if (row.unexpected.length > 0) {
+        lines.push(`- Unexpected: ${row.unexpected.join(', ')}`);
+      }
+      for (const mismatch of row.severity_mismatches) {
+        lines.push(
+          `- Severity of ${mismatch.name}: expected ${mismatch.expected ?? 'none'}, got ${mismatch.actual ?? 'none'}`
+        );
+      }
+      lines.push('');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null) {
+    return 'n/a';
+  }
+  const points = (value * 100).toFixed(1);
+  return value > 0 ? `+${points}` : points;
+}
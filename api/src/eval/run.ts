@@ -0,0 +1,169 @@
+// ============================================================================
+// Eval Runner
+// Replay the golden set through the configured AI providers and score it
+// Run with: npm run eval -- [--golden dir] [--baseline file] [--out dir]
+//                          [--tolerance 0.02] [--update-baseline]
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeImage } from '../services/aiProvider.service';
+import { isScanResult } from '../utils/modelResponse';
+import { loadCaseImages, loadGoldenSet } from './golden';
+import { computeMetrics, scoreCase, CaseCounts } from './scoring';
+import {
+  compareToBaseline,
+  renderMarkdown,
+  toBaseline,
+  CaseReport,
+  DEFAULT_TOLERANCE,
+  EvalBaseline,
+  EvalReport,
+} from './report';
+
+// Golden set shipped with the repo; works with the mock provider fixtures in it
+export const DEFAULT_GOLDEN_DIR = path.join(__dirname, '../../eval/golden');
+
+/**
+ * Analyze every golden case in order and build a report
+ * Cases run one at a time so the eval does not trip provider rate limits.
+ */
+export async function runEval(goldenDir: string = DEFAULT_GOLDEN_DIR): Promise<EvalReport> {
+  const goldenSet = loadGoldenSet(goldenDir);
+  const cases: CaseReport[] = [];
+  const counts: CaseCounts[] = [];
+  const providers = new Set<string>();
+
+  for (const goldenCase of goldenSet.cases) {
+    const images = loadCaseImages(goldenDir, goldenCase);
+    const response = await analyzeImage(images, goldenCase.mode, `eval-${goldenCase.id}`);
+    // Golden cases are labeled with identifications, which only scan results have
+    const result = response.success && response.result && isScanResult(response.result)
+      ? response.result
+      : undefined;
+    const score = scoreCase(goldenCase, result);
+
+    if (response.success) {
+      providers.add(response.provider);
+    }
+    counts.push(score.counts);
+
+    cases.push({
+      id: goldenCase.id,
+      mode: goldenCase.mode,
+      success: response.success,
+      provider: response.provider,
+      latency_ms: response.latencyMs,
+      error: response.error?.code,
+      validation_error: response.validationError,
+      tank_health: {
+        expected: goldenCase.expected.tank_health,
+        actual: result?.tank_health ?? null,
+      },
+      missed: score.missed,
+      unexpected: score.unexpected,
+      severity_mismatches: score.severityMismatches,
+    });
+  }
+
+  return {
+    golden_set: goldenSet.name,
+    generated_at: new Date().toISOString(),
+    providers: Array.from(providers),
+    case_count: cases.length,
+    failure_count: cases.filter((row) => !row.success).length,
+    metrics: computeMetrics(counts),
+    cases,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Command Line
+// -----------------------------------------------------------------------------
+
+interface CliOptions {
+  goldenDir: string;
+  baselinePath: string;
+  outDir: string;
+  tolerance: number;
+  updateBaseline: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const value = (flag: string): string | undefined => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const goldenDir = path.resolve(value('--golden') || DEFAULT_GOLDEN_DIR);
+  const tolerance = parseFloat(value('--tolerance') || String(DEFAULT_TOLERANCE));
+
+  if (Number.isNaN(tolerance) || tolerance < 0) {
+    throw new Error('--tolerance must be a non-negative number');
+  }
+
+  return {
+    goldenDir,
+    baselinePath: path.resolve(value('--baseline') || path.join(goldenDir, 'baseline.json')),
+    outDir: path.resolve(value('--out') || 'eval-reports'),
+    tolerance,
+    updateBaseline: argv.includes('--update-baseline'),
+  };
+}
+
+function readBaseline(baselinePath: string): EvalBaseline | null {
+  if (!fs.existsSync(baselinePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as EvalBaseline;
+}
+
+/**
+ * Exit code 1 when any metric regresses against the baseline
+ */
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Running eval on ${options.goldenDir}...`);
+  const report = await runEval(options.goldenDir);
+
+  const baseline = options.updateBaseline ? null : readBaseline(options.baselinePath);
+  const comparison = baseline ? compareToBaseline(report.metrics, baseline, options.tolerance) : undefined;
+  const markdown = renderMarkdown(report, comparison);
+
+  fs.mkdirSync(options.outDir, { recursive: true });
+  fs.writeFileSync(path.join(options.outDir, 'eval-report.json'), `${JSON.stringify({ ...report, comparison }, null, 2)}\n`);
+  fs.writeFileSync(path.join(options.outDir, 'eval-report.md'), markdown);
+
+  console.log(markdown);
+  console.log(`Reports written to ${options.outDir}`);
+
+  if (options.updateBaseline) {
+    fs.writeFileSync(options.baselinePath, `${JSON.stringify(toBaseline(report), null, 2)}\n`);
+    console.log(`Baseline updated: ${options.baselinePath}`);
+    return 0;
+  }
+
+  if (!baseline) {
+    console.warn(`No baseline at ${options.baselinePath}; run with --update-baseline to create one`);
+    return 0;
+  }
+
+  const regressions = comparison?.filter((row) => row.regressed) || [];
+  if (regressions.length > 0) {
+    console.error(`Regressed: ${regressions.map((row) => row.metric).join(', ')}`);
+    return 1;
+  }
+
+  return 0;
+}
+
+// Run eval if called directly
+if (require.main === module) {
+  main()
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      console.error('Eval failed:', error);
+      process.exit(1);
+    });
+}
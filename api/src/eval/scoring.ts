@@ -0,0 +1,201 @@
+// ============================================================================
+// Eval Scoring
+// Compare analysis results against golden set labels
+// ============================================================================
+
+import type { Identification, ScanResult } from '../types';
+import type { ExpectedIdentification, GoldenCase } from './golden';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Raw counts for one case; metrics are computed from summed counts so that
+ * cases with many identifications weigh more than cases with one
+ */
+export interface CaseCounts {
+  // Species
+  matched: number;
+  predicted: number;
+  expected: number;
+  // Problem detection (identifications flagged is_problem)
+  problemsMatched: number;
+  problemsPredicted: number;
+  problemsExpected: number;
+  // Matched expected problems whose severity was compared / agreed
+  severityCompared: number;
+  severityAgreed: number;
+  tankHealthAgreed: boolean;
+}
+
+export interface CaseScore {
+  counts: CaseCounts;
+  missed: string[];
+  unexpected: string[];
+  severityMismatches: { name: string; expected: string | null; actual: string | null }[];
+}
+
+// Ratios are null when there was nothing to measure
+export interface EvalMetrics {
+  species_precision: number | null;
+  species_recall: number | null;
+  species_f1: number | null;
+  problem_precision: number | null;
+  problem_recall: number | null;
+  severity_agreement: number | null;
+  tank_health_agreement: number | null;
+}
+
+// -----------------------------------------------------------------------------
+// Case Scoring
+// -----------------------------------------------------------------------------
+
+/**
+ * Score one analysis result against a golden case
+ * A failed analysis is scored as an empty result, so failures lower recall
+ * and tank health agreement rather than being skipped.
+ */
+export function scoreCase(goldenCase: GoldenCase, result: ScanResult | undefined): CaseScore {
+  const expected = goldenCase.expected.identifications;
+  const predicted = result?.identifications || [];
+  const pairs = matchIdentifications(expected, predicted);
+
+  const matchedExpected = new Set(pairs.map(([expectedIndex]) => expectedIndex));
+  const matchedPredicted = new Set(pairs.map(([, predictedIndex]) => predictedIndex));
+
+  const counts: CaseCounts = {
+    matched: pairs.length,
+    predicted: predicted.length,
+    expected: expected.length,
+    problemsMatched: 0,
+    problemsPredicted: predicted.filter((identification) => identification.is_problem).length,
+    problemsExpected: expected.filter((identification) => identification.is_problem).length,
+    severityCompared: 0,
+    severityAgreed: 0,
+    tankHealthAgreed: result?.tank_health === goldenCase.expected.tank_health,
+  };
+
+  const severityMismatches: CaseScore['severityMismatches'] = [];
+
+  for (const [expectedIndex, predictedIndex] of pairs) {
+    const label = expected[expectedIndex];
+    const actual = predicted[predictedIndex];
+
+    if (!label.is_problem) {
+      continue;
+    }
+
+    if (actual.is_problem) {
+      counts.problemsMatched++;
+    }
+
+    counts.severityCompared++;
+    if (actual.severity === label.severity) {
+      counts.severityAgreed++;
+    } else {
+      severityMismatches.push({ name: label.name, expected: label.severity, actual: actual.severity });
+    }
+  }
+
+  return {
+    counts,
+    missed: expected.filter((_, index) => !matchedExpected.has(index)).map((label) => label.name),
+    unexpected: predicted
+      .filter((_, index) => !matchedPredicted.has(index))
+      .map((identification) => identification.name),
+    severityMismatches,
+  };
+}
+
+/**
+ * Pair expected labels with predicted identifications by name or alias
+ * Each prediction can satisfy at most one label.
+ */
+function matchIdentifications(
+  expected: ExpectedIdentification[],
+  predicted: Identification[]
+): [number, number][] {
+  const used = new Set<number>();
+  const pairs: [number, number][] = [];
+
+  expected.forEach((label, expectedIndex) => {
+    const names = new Set([label.name, ...(label.aliases || [])].map(normalizeName));
+    const predictedIndex = predicted.findIndex(
+      (identification, index) => !used.has(index) && names.has(normalizeName(identification.name))
+    );
+
+    if (predictedIndex !== -1) {
+      used.add(predictedIndex);
+      pairs.push([expectedIndex, predictedIndex]);
+    }
+  });
+
+  return pairs;
+}
+
+/**
+ * "Ocellaris Clownfish", "ocellaris clown-fish" -> "ocellarisclownfish"
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// -----------------------------------------------------------------------------
+// Aggregation
+// -----------------------------------------------------------------------------
+
+/**
+ * Sum case counts and compute the headline metrics
+ */
+export function computeMetrics(counts: CaseCounts[]): EvalMetrics {
+  const total = counts.reduce(
+    (sum, count) => ({
+      matched: sum.matched + count.matched,
+      predicted: sum.predicted + count.predicted,
+      expected: sum.expected + count.expected,
+      problemsMatched: sum.problemsMatched + count.problemsMatched,
+      problemsPredicted: sum.problemsPredicted + count.problemsPredicted,
+      problemsExpected: sum.problemsExpected + count.problemsExpected,
+      severityCompared: sum.severityCompared + count.severityCompared,
+      severityAgreed: sum.severityAgreed + count.severityAgreed,
+      tankHealthAgreed: sum.tankHealthAgreed + (count.tankHealthAgreed ? 1 : 0),
+    }),
+    {
+      matched: 0,
+      predicted: 0,
+      expected: 0,
+      problemsMatched: 0,
+      problemsPredicted: 0,
+      problemsExpected: 0,
+      severityCompared: 0,
+      severityAgreed: 0,
+      tankHealthAgreed: 0,
+    }
+  );
+
+  const precision = ratio(total.matched, total.predicted);
+  const recall = ratio(total.matched, total.expected);
+
+  return {
+    species_precision: precision,
+    species_recall: recall,
+    species_f1:
+      precision === null || recall === null || precision + recall === 0
+        ? null
+        : round((2 * precision * recall) / (precision + recall)),
+    // Only matched species count, so a problem flagged on the wrong organism is a false positive
+    problem_precision: ratio(total.problemsMatched, total.problemsPredicted),
+    problem_recall: ratio(total.problemsMatched, total.problemsExpected),
+    severity_agreement: ratio(total.severityAgreed, total.severityCompared),
+    tank_health_agreement: ratio(total.tankHealthAgreed, counts.length),
+  };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : round(numerator / denominator);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
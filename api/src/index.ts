@@ -11,6 +11,7 @@ import { v4 as uuidv4 } from 'uuid';
 import config, { validateConfig } from './config';
 import { testConnection as testDbConnection } from './db';
 import { testConnection as testRedisConnection } from './services/redis.service';
+import { getRegisteredProviders } from './services/providerRegistry.service';
 import type { HealthStatus } from './types';
 
 // Route imports
@@ -18,6 +19,13 @@ import authRoutes from './routes/auth.routes';
 import usageRoutes from './routes/usage.routes';
 import analyzeRoutes from './routes/analyze.routes';
 import accountRoutes from './routes/account.routes';
+import adminRoutes from './routes/admin.routes';
+import cronRoutes from './routes/cron.routes';
+import scanRoutes from './routes/scans.routes';
+import tankRoutes from './routes/tanks.routes';
+import speciesRoutes from './routes/species.routes';
+import compatibilityRoutes from './routes/compatibility.routes';
+import notificationRoutes from './routes/notifications.routes';
 
 // Middleware imports
 import { enforceIpRateLimit } from './middleware/rateLimit.middleware';
@@ -40,12 +48,13 @@ app.use(helmet());
 app.use(
   cors({
     origin: '*', // Allow all origins for mobile apps
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: [
       'Content-Type',
       'Authorization',
       'X-Request-ID',
       'X-App-Version',
+      'X-Admin-Key',
     ],
     exposedHeaders: [
       'X-RateLimit-Limit',
@@ -92,6 +101,10 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 // IP-based rate limiting (abuse prevention)
 app.use(enforceIpRateLimit);
 
+// Scheduled jobs, mounted ahead of the request timeout because they loop over
+// every tank or device
+app.use('/v1/cron', timeoutHandler(config.limits.cronTimeoutMs), cronRoutes);
+
 // Request timeout (30 seconds)
 app.use(timeoutHandler(config.limits.requestTimeoutMs));
 
@@ -108,16 +121,12 @@ app.get('/health', async (_req: Request, res: Response) => {
   const status: HealthStatus = {
     status: dbConnected && redisConnected ? 'healthy' : 'degraded',
     version: config.appVersion,
-    providers: {
-      gemini: {
-        status: config.gemini.keys.length > 0 ? 'operational' : 'disabled',
-      },
-      openai: {
-        status: config.features.enableOpenAiFallback && config.openai.apiKey
-          ? 'operational'
-          : 'disabled',
-      },
-    },
+    providers: Object.fromEntries(
+      getRegisteredProviders().map((provider) => [
+        provider.name,
+        { status: provider.isConfigured() ? 'operational' : 'disabled' },
+      ])
+    ),
     database: dbConnected ? 'connected' : 'disconnected',
     redis: redisConnected ? 'connected' : 'disconnected',
   };
@@ -152,9 +161,27 @@ app.use('/v1/usage', usageRoutes);
 // Analysis routes (Phase 6)
 app.use('/v1/analyze', analyzeRoutes);
 
+// Scan history routes
+app.use('/v1/scans', scanRoutes);
+
+// Tank profile routes
+app.use('/v1/tanks', tankRoutes);
+
+// Species catalog routes
+app.use('/v1/species', speciesRoutes);
+
+// Livestock compatibility routes
+app.use('/v1/compatibility', compatibilityRoutes);
+
+// Push notification routes
+app.use('/v1/notifications', notificationRoutes);
+
 // Account routes (GDPR compliance)
 app.use('/v1/account', accountRoutes);
 
+// Admin routes (prompt management, species curation)
+app.use('/v1/admin', adminRoutes);
+
 // -----------------------------------------------------------------------------
 // 404 Handler
 // -----------------------------------------------------------------------------
@@ -0,0 +1,21 @@
+// ============================================================================
+// Maintenance Reminders Job
+// Remind owners of maintenance tasks that are due soon or overdue
+// Scheduled hourly through /v1/cron/maintenance-reminders (see vercel.json)
+// Run by hand with: npm run job:maintenance-reminders
+// ============================================================================
+
+import { sendDueReminders } from '../services/maintenance.service';
+
+// Run the job if called directly
+if (require.main === module) {
+  sendDueReminders()
+    .then((summary) => {
+      console.log(`Maintenance reminders: ${summary.sent} sent, ${summary.skipped} skipped, ${summary.failed} failed, ${summary.tasks} tasks`);
+      process.exit(summary.failed > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error('Maintenance reminders job failed:', error);
+      process.exit(1);
+    });
+}
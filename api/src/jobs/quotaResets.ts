@@ -0,0 +1,21 @@
+// ============================================================================
+// Quota Reset Job
+// Tell devices that used up yesterday's scans that they have scans again
+// Scheduled daily just after midnight UTC through /v1/cron/quota-resets
+// (see vercel.json). Run by hand with: npm run job:quota-resets
+// ============================================================================
+
+import { notifyQuotaResets } from '../services/usage.service';
+
+// Run the job if called directly
+if (require.main === module) {
+  notifyQuotaResets()
+    .then((summary) => {
+      console.log(`Quota resets: ${summary.sent} sent, ${summary.skipped} skipped, ${summary.failed} failed, ${summary.devices} devices`);
+      process.exit(summary.failed > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error('Quota reset job failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,21 @@
+// ============================================================================
+// Weekly Digest Job
+// Send every recently scanned tank its weekly health digest
+// Scheduled through /v1/cron/weekly-digest (see vercel.json)
+// Run by hand with: npm run job:weekly-digest
+// ============================================================================
+
+import { runWeeklyDigests } from '../services/digest.service';
+
+// Run the job if called directly
+if (require.main === module) {
+  runWeeklyDigests()
+    .then((summary) => {
+      console.log(`Weekly digests: ${summary.sent} sent, ${summary.skipped} skipped, ${summary.failed} failed, ${summary.tanks} tanks`);
+      process.exit(summary.failed > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error('Weekly digest job failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,91 @@
+// ============================================================================
+// Admin Middleware
+// API key authentication for internal admin endpoints and scheduled jobs
+// ============================================================================
+
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import config from '../config';
+import type { ApiError } from '../types';
+import logger from '../utils/logger';
+
+/**
+ * Require a valid X-Admin-Key header and attach the key's name to the request
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const header = req.headers['x-admin-key'];
+
+  if (typeof header !== 'string' || !header) {
+    sendUnauthorized(res, 'X-Admin-Key header required');
+    return;
+  }
+
+  const match = config.admin.apiKeys.find(({ key }) => keysMatch(header, key));
+
+  if (!match) {
+    logger.warn('Invalid admin key attempt', {
+      request_id: req.requestId,
+      ip: req.ip,
+      path: req.path,
+    });
+
+    sendUnauthorized(res, 'Invalid admin key');
+    return;
+  }
+
+  req.admin = match.name;
+  next();
+}
+
+/**
+ * Require the CRON_SECRET bearer token Vercel Cron sends with each run
+ * Without a configured secret every call is refused.
+ */
+export function requireCronSecret(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const header = req.headers.authorization;
+
+  const valid =
+    Boolean(config.cron.secret) &&
+    typeof header === 'string' &&
+    keysMatch(header, `Bearer ${config.cron.secret}`);
+
+  if (!valid) {
+    logger.warn('Invalid cron request', {
+      request_id: req.requestId,
+      ip: req.ip,
+      path: req.path,
+    });
+
+    sendUnauthorized(res, 'Invalid cron secret');
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Constant-time comparison; hashing first keeps the lengths equal
+ */
+function keysMatch(provided: string, expected: string): boolean {
+  const a = createHash('sha256').update(provided).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+function sendUnauthorized(res: Response, message: string): void {
+  const error: ApiError = {
+    error: {
+      code: 'UNAUTHORIZED',
+      message,
+    },
+  };
+  res.status(401).json(error);
+}
@@ -5,6 +5,7 @@
 
 import { Router, Request, Response } from 'express';
 import { sql } from '../db';
+import config from '../config';
 import { requireAuth } from '../middleware/auth.middleware';
 import { deleteDevice } from '../services/auth.service';
 import type { ApiError } from '../types';
@@ -95,13 +96,22 @@ router.get(
       }
 
       const deviceId = req.device.id;
+      const retentionDays = config.retention.requestLogDays[req.device.tier];
 
       // Get all device data
-      const [deviceData, usageData, requestLogs] = await Promise.all([
+      const [
+        deviceData,
+        usageData,
+        requestLogs,
+        tankData,
+        livestockData,
+        waterData,
+        notificationData,
+      ] = await Promise.all([
         // Device info (excluding sensitive fields)
         sql`
           SELECT device_uuid, platform, app_version, created_at, last_seen_at,
-                 tier, subscription_id
+                 tier, subscription_id, notification_preferences
           FROM devices
           WHERE id = ${deviceId}
         `,
@@ -113,12 +123,42 @@ router.get(
           ORDER BY date DESC
           LIMIT 365
         `,
-        // Request logs (last 30 days, anonymized)
+        // Request logs with scan results (retention period of the tier)
         sql`
-          SELECT mode, provider_used, status, latency_ms, created_at
+          SELECT request_id, mode, tank_id, provider_used, status, latency_ms, result, created_at
           FROM request_logs
           WHERE device_id = ${deviceId}
-            AND created_at > NOW() - INTERVAL '30 days'
+          ORDER BY created_at DESC
+        `,
+        // Tank profiles
+        sql`
+          SELECT id, name, volume_liters, tank_type, setup_date, photo_url, created_at, updated_at
+          FROM tanks
+          WHERE device_id = ${deviceId}
+          ORDER BY created_at ASC
+        `,
+        // Livestock inventory of those tanks
+        sql`
+          SELECT l.tank_id, l.name, l.category, l.count, l.notes, l.source,
+                 l.first_seen_at, l.last_seen_at, l.created_at
+          FROM livestock l
+          JOIN tanks t ON t.id = l.tank_id
+          WHERE t.device_id = ${deviceId}
+          ORDER BY l.tank_id, l.category, l.name
+        `,
+        // Water test results of those tanks
+        sql`
+          SELECT w.tank_id, w.parameter, w.value, w.measured_at, w.note, w.source
+          FROM water_readings w
+          JOIN tanks t ON t.id = w.tank_id
+          WHERE t.device_id = ${deviceId}
+          ORDER BY w.tank_id, w.measured_at
+        `,
+        // Notifications sent to the device
+        sql`
+          SELECT category, title, body, status, created_at
+          FROM notification_deliveries
+          WHERE device_id = ${deviceId}
           ORDER BY created_at DESC
         `,
       ]);
@@ -128,8 +168,12 @@ router.get(
         device: deviceData.rows[0] || null,
         usage_history: usageData.rows,
         request_history: requestLogs.rows,
+        tanks: tankData.rows,
+        livestock: livestockData.rows,
+        water_readings: waterData.rows,
+        notifications: notificationData.rows,
         data_retention_policy: {
-          request_logs: '30 days',
+          request_logs: `${retentionDays} days`,
           usage_data: '365 days',
           images: 'Not stored (processed in memory only)',
         },
@@ -0,0 +1,424 @@
+// ============================================================================
+// Admin Routes
+// Prompt, experiment and species catalog management and jobs for operators
+// ============================================================================
+
+import { Router, Request, Response } from 'express';
+import { requireAdmin } from '../middleware/admin.middleware';
+import * as prompts from '../services/prompt.service';
+import * as digests from '../services/digest.service';
+import * as maintenance from '../services/maintenance.service';
+import * as experiments from '../services/experiment.service';
+import * as species from '../services/species.service';
+import * as usage from '../services/usage.service';
+import { getExperimentStats } from '../services/metrics.service';
+import {
+  validate,
+  validateQuery,
+  CreatePromptVersionSchema,
+  CreatePromptVersionRequest,
+  StartExperimentSchema,
+  StartExperimentRequest,
+  PromoteExperimentSchema,
+  PromoteExperimentRequest,
+  UnmatchedSpeciesQuerySchema,
+  UnmatchedSpeciesQuery,
+} from '../utils/validation';
+import type { AnalysisMode, ApiError } from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/prompts
+// List the active prompt version for every mode
+// -----------------------------------------------------------------------------
+
+router.get('/prompts', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const active = await prompts.getAllActivePrompts();
+
+    res.json({
+      prompts: prompts.PROMPT_MODES.map((mode) => {
+        const prompt = active.get(mode);
+        return {
+          mode,
+          active_version: prompt?.version ?? prompts.DEFAULT_PROMPT_VERSION,
+          created_by: prompt?.created_by ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to list prompts');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/prompts/:mode
+// List every stored version of a mode's prompt
+// -----------------------------------------------------------------------------
+
+router.get('/prompts/:mode', async (req: Request, res: Response): Promise<void> => {
+  const mode = resolveMode(req, res);
+  if (!mode) return;
+
+  try {
+    const [versions, activeVersion] = await Promise.all([
+      prompts.getPromptVersions(mode),
+      prompts.getActiveVersion(mode),
+    ]);
+
+    res.json({ mode, active_version: activeVersion, versions });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to list prompt versions');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/prompts/:mode/history
+// Audit log of changes to a mode's prompt
+// -----------------------------------------------------------------------------
+
+router.get('/prompts/:mode/history', async (req: Request, res: Response): Promise<void> => {
+  const mode = resolveMode(req, res);
+  if (!mode) return;
+
+  try {
+    const changes = await prompts.getPromptChanges(mode);
+    res.json({ mode, changes });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to get prompt history');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/prompts/:mode/diff?from=1&to=2
+// Line diff between two versions; "to" defaults to the active version
+// -----------------------------------------------------------------------------
+
+router.get('/prompts/:mode/diff', async (req: Request, res: Response): Promise<void> => {
+  const mode = resolveMode(req, res);
+  if (!mode) return;
+
+  const from = parseVersion(req.query.from);
+  const to = req.query.to === undefined ? undefined : parseVersion(req.query.to);
+
+  if (from === null || to === null) {
+    sendBadRequest(res, 'from and to must be non-negative integer versions');
+    return;
+  }
+
+  try {
+    const toVersion = to ?? (await prompts.getActiveVersion(mode));
+    const diff = await prompts.diffPromptVersions(mode, from, toVersion);
+
+    res.json({ mode, from, to: toVersion, ...diff });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to diff prompt versions');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/prompts/:mode
+// Create a new prompt version, optionally activating it
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/prompts/:mode',
+  validate(CreatePromptVersionSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    const mode = resolveMode(req, res);
+    if (!mode || !req.admin) return;
+
+    try {
+      const { system_prompt, mode_prompt, activate } = req.body as CreatePromptVersionRequest;
+
+      const prompt = await prompts.createPromptVersion(mode, system_prompt, mode_prompt, req.admin);
+
+      if (activate) {
+        await prompts.activatePromptVersion(mode, prompt.version, req.admin);
+        prompt.is_active = true;
+      }
+
+      res.status(201).json(prompt);
+    } catch (error) {
+      sendError(req, res, error, 'Failed to create prompt version');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/prompts/:mode/versions/:version/activate
+// Make a version active; version 0 restores the built-in default
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/prompts/:mode/versions/:version/activate',
+  async (req: Request, res: Response): Promise<void> => {
+    const mode = resolveMode(req, res);
+    if (!mode || !req.admin) return;
+
+    const version = parseVersion(req.params.version);
+    if (version === null) {
+      sendBadRequest(res, 'version must be a non-negative integer');
+      return;
+    }
+
+    try {
+      await prompts.activatePromptVersion(mode, version, req.admin);
+      res.json({ mode, active_version: version });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to activate prompt version');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/prompts/:mode/rollback
+// Reactivate the version that was live before the current one
+// -----------------------------------------------------------------------------
+
+router.post('/prompts/:mode/rollback', async (req: Request, res: Response): Promise<void> => {
+  const mode = resolveMode(req, res);
+  if (!mode || !req.admin) return;
+
+  try {
+    const version = await prompts.rollbackPromptVersion(mode, req.admin);
+    res.json({ mode, active_version: version });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to roll back prompt version');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/experiments?mode=fish_id
+// List prompt experiments, newest first
+// -----------------------------------------------------------------------------
+
+router.get('/experiments', async (req: Request, res: Response): Promise<void> => {
+  const mode = req.query.mode as AnalysisMode | undefined;
+
+  if (mode !== undefined && !prompts.PROMPT_MODES.includes(mode)) {
+    sendBadRequest(res, `mode must be one of: ${prompts.PROMPT_MODES.join(', ')}`);
+    return;
+  }
+
+  try {
+    res.json({ experiments: await experiments.listExperiments(mode) });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to list experiments');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/experiments
+// Start splitting devices between prompt versions of a mode
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/experiments',
+  validate(StartExperimentSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.admin) return;
+
+    try {
+      const { mode, variants } = req.body as StartExperimentRequest;
+      const experiment = await experiments.startExperiment(mode, variants, req.admin);
+
+      res.status(201).json(experiment);
+    } catch (error) {
+      sendError(req, res, error, 'Failed to start experiment');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/experiments/:id
+// Experiment details with per-variant outcome statistics
+// -----------------------------------------------------------------------------
+
+router.get('/experiments/:id', async (req: Request, res: Response): Promise<void> => {
+  const id = parseVersion(req.params.id);
+
+  try {
+    const experiment = id === null ? null : await experiments.getExperiment(id);
+
+    if (!experiment) {
+      const error: ApiError = {
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Experiment not found',
+        },
+      };
+      res.status(404).json(error);
+      return;
+    }
+
+    res.json({ ...experiment, stats: await getExperimentStats(experiment) });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to get experiment');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/experiments/:id/stop
+// Stop an experiment; every device goes back to the active prompt
+// -----------------------------------------------------------------------------
+
+router.post('/experiments/:id/stop', async (req: Request, res: Response): Promise<void> => {
+  const id = parseVersion(req.params.id);
+  if (id === null || !req.admin) {
+    sendBadRequest(res, 'id must be a positive integer');
+    return;
+  }
+
+  try {
+    res.json(await experiments.stopExperiment(id, req.admin));
+  } catch (error) {
+    sendError(req, res, error, 'Failed to stop experiment');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/experiments/:id/promote
+// Stop an experiment and activate the winning variant for everyone
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/experiments/:id/promote',
+  validate(PromoteExperimentSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    const id = parseVersion(req.params.id);
+    if (id === null || !req.admin) {
+      sendBadRequest(res, 'id must be a positive integer');
+      return;
+    }
+
+    try {
+      const { version } = req.body as PromoteExperimentRequest;
+      res.json(await experiments.promoteExperiment(id, version, req.admin));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to promote experiment');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/admin/species/unmatched?limit=100
+// Identification names missing from the species catalog, most frequent first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/species/unmatched',
+  validateQuery(UnmatchedSpeciesQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { limit } = req.query as unknown as UnmatchedSpeciesQuery;
+      res.json({ names: await species.listUnmatched(limit) });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to list unmatched species');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/jobs/weekly-digest
+// Send the weekly digests now; /v1/cron/weekly-digest runs them on schedule
+// -----------------------------------------------------------------------------
+
+router.post('/jobs/weekly-digest', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await digests.runWeeklyDigests());
+  } catch (error) {
+    sendError(req, res, error, 'Failed to send weekly digests');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/jobs/maintenance-reminders
+// Send the due maintenance reminders now
+// -----------------------------------------------------------------------------
+
+router.post('/jobs/maintenance-reminders', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await maintenance.sendDueReminders());
+  } catch (error) {
+    sendError(req, res, error, 'Failed to send maintenance reminders');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/admin/jobs/quota-resets
+// Send the quota reset notifications now
+// -----------------------------------------------------------------------------
+
+router.post('/jobs/quota-resets', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await usage.notifyQuotaResets());
+  } catch (error) {
+    sendError(req, res, error, 'Failed to send quota reset notifications');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function resolveMode(req: Request, res: Response): AnalysisMode | null {
+  const mode = req.params.mode as AnalysisMode;
+
+  if (!prompts.PROMPT_MODES.includes(mode)) {
+    sendBadRequest(res, `mode must be one of: ${prompts.PROMPT_MODES.join(', ')}`);
+    return null;
+  }
+
+  return mode;
+}
+
+function parseVersion(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+}
+
+function sendBadRequest(res: Response, message: string): void {
+  const error: ApiError = {
+    error: {
+      code: 'INVALID_REQUEST',
+      message,
+    },
+  };
+  res.status(400).json(error);
+}
+
+function sendError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof prompts.PromptError || error instanceof experiments.ExperimentError) {
+    const apiError: ApiError = {
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    };
+    res.status(error.statusCode).json(apiError);
+    return;
+  }
+
+  logger.error(message, {
+    request_id: req.requestId,
+    admin: req.admin,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const apiError: ApiError = {
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  };
+  res.status(500).json(apiError);
+}
+
+export default router;
@@ -6,15 +6,25 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth.middleware';
 import { enforceRateLimit } from '../middleware/rateLimit.middleware';
-import { validate, AnalyzeRequestSchema } from '../utils/validation';
+import {
+  validate,
+  AnalyzeRequestSchema,
+  AnalysisFeedbackSchema,
+  AnalysisFeedbackRequest,
+} from '../utils/validation';
 import * as aiProvider from '../services/aiProvider.service';
-import * as cache from '../services/cache.service';
-import * as usage from '../services/usage.service';
-import type { ApiError, AnalysisMode, ScanResult } from '../types';
+import * as analysis from '../services/analysis.service';
+import * as feedback from '../services/feedback.service';
+import * as jobs from '../services/job.service';
+import type { ApiError, AnalysisFeedback, AnalysisJob, AnalyzeRequest, Tank } from '../types';
 import logger from '../utils/logger';
+import { openEventStream } from '../utils/sse';
 
 const router = Router();
 
+// Suggested client polling interval for unfinished jobs
+const JOB_POLL_INTERVAL_SECONDS = 2;
+
 // -----------------------------------------------------------------------------
 // POST /v1/analyze
 // Analyze a reef tank image
@@ -26,8 +36,6 @@ router.post(
   enforceRateLimit,
   validate(AnalyzeRequestSchema),
   async (req: Request, res: Response): Promise<void> => {
-    const startTime = Date.now();
-
     try {
       if (!req.device || !req.requestId) {
         const error: ApiError = {
@@ -40,156 +48,278 @@ router.post(
         return;
       }
 
-      const { image, mode, options } = req.body as {
-        image: { data: string; mime_type: 'image/jpeg' | 'image/png' };
-        mode: AnalysisMode;
-        options?: { include_recommendations?: boolean; language?: string };
+      const result = await analysis.runAnalysis(req.body as AnalyzeRequest, {
+        requestId: req.requestId,
+        device: req.device,
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof analysis.AnalysisError) {
+        res.status(error.statusCode).json(toApiError(error));
+        return;
+      }
+
+      logger.error('Analyze endpoint error', {
+        request_id: req.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      const apiError: ApiError = {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
       };
+      res.status(500).json(apiError);
+    }
+  }
+);
 
-      const requestId = req.requestId;
-      const deviceId = req.device.device_uuid;
+// -----------------------------------------------------------------------------
+// POST /v1/analyze/stream
+// Analyze a reef tank image, streaming progress as Server-Sent Events
+// Events: accepted, provider (one per provider attempted), result
+// The model output itself is not streamed, so there are no partial summary or
+// identification events; the result carries them once the provider answers
+// -----------------------------------------------------------------------------
 
-      // Check idempotency - return cached result for duplicate request
-      const idempotentResult = await cache.getIdempotentResult(requestId);
-      if (idempotentResult) {
-        logger.info('Returning idempotent result', {
-          request_id: requestId,
-          device_id: deviceId,
-        });
+router.post(
+  '/stream',
+  requireAuth,
+  enforceRateLimit,
+  validate(AnalyzeRequestSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device || !req.requestId) {
+      const error: ApiError = {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Request context missing',
+        },
+      };
+      res.status(500).json(error);
+      return;
+    }
 
-        res.json(idempotentResult);
+    const body = req.body as AnalyzeRequest;
+
+    // Before the stream opens, so a missing tank is a 404 rather than an error event
+    let tank: Tank | null;
+    try {
+      tank = await analysis.resolveTank(req.device, body.tank_id);
+    } catch (error) {
+      if (error instanceof analysis.AnalysisError) {
+        res.status(error.statusCode).json(toApiError(error));
         return;
       }
 
-      // Calculate image hash for caching
-      const imageHash = cache.calculateImageHash(image.data);
-
-      // Check image cache
-      const cachedResult = await cache.getCachedResult(imageHash, mode);
-      if (cachedResult) {
-        // Update usage info and return cached result
-        const usageInfo = await usage.getUsageInfo(deviceId, req.device.tier);
+      logger.error('Analyze stream error', {
+        request_id: req.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
 
-        const result: ScanResult = {
-          ...cachedResult,
-          request_id: requestId,
-          usage: usageInfo,
-        };
+      const apiError: ApiError = {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      };
+      res.status(500).json(apiError);
+      return;
+    }
 
-        // Store for idempotency
-        await cache.setIdempotentResult(requestId, result);
+    const stream = openEventStream(res);
 
-        logger.info('Returning cached result', {
-          request_id: requestId,
-          image_hash: imageHash.substring(0, 16),
-          mode,
+    try {
+      await analysis.runAnalysis(
+        body,
+        { requestId: req.requestId, device: req.device, tank },
+        (event) => stream.send(event.event, event.data)
+      );
+    } catch (error) {
+      if (error instanceof analysis.AnalysisError) {
+        stream.send('error', toApiError(error));
+      } else {
+        logger.error('Analyze stream error', {
+          request_id: req.requestId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          stack: error instanceof Error ? error.stack : undefined,
         });
 
-        res.json(result);
-        return;
+        const apiError: ApiError = {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        };
+        stream.send('error', apiError);
       }
+    } finally {
+      stream.close();
+    }
+  }
+);
 
-      // Check if any AI provider is available
-      const providersAvailable = await aiProvider.isAnyProviderAvailable();
-      if (!providersAvailable) {
+// -----------------------------------------------------------------------------
+// POST /v1/analyze/jobs
+// Submit an analysis job and return immediately with its id
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/jobs',
+  requireAuth,
+  enforceRateLimit,
+  validate(AnalyzeRequestSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.device || !req.requestId) {
         const error: ApiError = {
           error: {
-            code: 'AI_UNAVAILABLE',
-            message: 'AI analysis service is temporarily unavailable. Please try again later.',
-            retry_after: 60,
+            code: 'INTERNAL_ERROR',
+            message: 'Request context missing',
           },
         };
-        res.status(503).json(error);
+        res.status(500).json(error);
         return;
       }
 
-      // Perform analysis
-      const analysisResult = await aiProvider.analyzeImage(
-        image.data,
-        image.mime_type,
-        mode,
-        requestId
-      );
-
-      if (!analysisResult.success || !analysisResult.result) {
-        logger.error('Analysis failed', {
-          request_id: requestId,
-          provider: analysisResult.provider,
-          error: analysisResult.error?.code,
-        });
+      const { job, isNew } = await jobs.submitJob(req.body as AnalyzeRequest, {
+        requestId: req.requestId,
+        device: req.device,
+      });
 
+      if (job.device_id !== req.device.id) {
         const error: ApiError = {
           error: {
-            code: 'AI_UNAVAILABLE',
-            message: analysisResult.error?.message || 'Analysis failed',
-            retry_after: 30,
+            code: 'INVALID_REQUEST',
+            message: 'Request ID already used by another device',
           },
         };
-        res.status(503).json(error);
+        res.status(409).json(error);
         return;
       }
 
-      // Get usage info
-      const usageInfo = await usage.getUsageInfo(deviceId, req.device.tier);
+      res.status(isNew ? 202 : 200).json(toJobResponse(job));
+    } catch (error) {
+      if (error instanceof analysis.AnalysisError) {
+        res.status(error.statusCode).json(toApiError(error));
+        return;
+      }
+
+      logger.error('Job submission error', {
+        request_id: req.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
 
-      // Build final result
-      const result: ScanResult = {
-        ...analysisResult.result,
-        request_id: requestId,
-        usage: usageInfo,
+      const apiError: ApiError = {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to submit analysis job',
+        },
       };
+      res.status(500).json(apiError);
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/analyze/jobs/:id
+// Poll an analysis job for its status and result
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/jobs/:id',
+  requireAuth,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = await jobs.getJob(req.params.id);
 
-      // Filter recommendations if not requested
-      if (options?.include_recommendations === false) {
-        result.recommendations = [];
+      // Jobs belonging to other devices are reported as missing
+      if (!job || !req.device || job.device_id !== req.device.id) {
+        const error: ApiError = {
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Job not found',
+          },
+        };
+        res.status(404).json(error);
+        return;
       }
 
-      // Cache the result
-      await Promise.all([
-        cache.cacheResult(imageHash, mode, result),
-        cache.setIdempotentResult(requestId, result),
-      ]);
+      if (!jobs.isTerminal(job.status)) {
+        res.setHeader('Retry-After', String(JOB_POLL_INTERVAL_SECONDS));
+      }
 
-      // Record usage (async, don't wait)
-      usage.recordUsage(
-        req.device.id,
-        mode,
-        analysisResult.provider,
-        analysisResult.apiKeyId || 'unknown',
-        analysisResult.latencyMs,
-        analysisResult.tokensUsed.input,
-        analysisResult.tokensUsed.output,
-        imageHash
-      ).catch((err) => {
-        logger.error('Failed to record usage', {
-          error: err instanceof Error ? err.message : 'Unknown error',
-        });
+      res.json(toJobResponse(job));
+    } catch (error) {
+      logger.error('Job status error', {
+        request_id: req.requestId,
+        job_id: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
 
-      const totalLatency = Date.now() - startTime;
+      const apiError: ApiError = {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get job status',
+        },
+      };
+      res.status(500).json(apiError);
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/analyze/:request_id/feedback
+// Rate a result and correct individual identifications
+// -----------------------------------------------------------------------------
 
-      logger.info('Analysis completed', {
-        request_id: requestId,
-        device_id: deviceId,
-        mode,
-        provider: analysisResult.provider,
-        latency_ms: totalLatency,
-        tank_health: result.tank_health,
-        identifications_count: result.identifications.length,
-      });
+router.post(
+  '/:request_id/feedback',
+  requireAuth,
+  validate(AnalysisFeedbackSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.device) {
+        const error: ApiError = {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Request context missing',
+          },
+        };
+        res.status(500).json(error);
+        return;
+      }
 
-      res.json(result);
+      const saved = await feedback.submitFeedback(
+        req.params.request_id,
+        req.device.id,
+        req.body as AnalysisFeedbackRequest
+      );
+
+      res.status(201).json(toFeedbackResponse(saved));
     } catch (error) {
-      logger.error('Analyze endpoint error', {
-        request_id: req.requestId,
+      if (error instanceof feedback.FeedbackError) {
+        const apiError: ApiError = {
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        };
+        res.status(error.statusCode).json(apiError);
+        return;
+      }
+
+      logger.error('Feedback submission error', {
+        request_id: req.params.request_id,
         error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
       });
 
       const apiError: ApiError = {
         error: {
           code: 'INTERNAL_ERROR',
-          message: 'An unexpected error occurred',
+          message: 'Failed to save feedback',
         },
       };
       res.status(500).json(apiError);
@@ -209,18 +339,21 @@ router.get(
     try {
       const status = await aiProvider.getProviderStatus();
 
-      res.json({
-        available: status.gemini.available || status.openai.available,
-        providers: {
-          gemini: {
-            status: status.gemini.available ? 'operational' : 'degraded',
-            circuit_state: status.gemini.circuit_state,
-          },
-          openai: {
-            status: status.openai.available ? 'operational' : 'disabled',
-            circuit_state: status.openai.circuit_state,
+      const providers = Object.fromEntries(
+        Object.entries(status).map(([name, provider]) => [
+          name,
+          {
+            status: provider.available
+              ? 'operational'
+              : provider.configured ? 'degraded' : 'disabled',
+            circuit_state: provider.circuit_state,
           },
-        },
+        ])
+      );
+
+      res.json({
+        available: Object.values(status).some((provider) => provider.available),
+        providers,
       });
     } catch (error) {
       logger.error('Status endpoint error', {
@@ -237,4 +370,44 @@ router.get(
   }
 );
 
+// -----------------------------------------------------------------------------
+// Helper Functions
+// -----------------------------------------------------------------------------
+
+function toApiError(error: analysis.AnalysisError): ApiError {
+  return {
+    error: {
+      code: error.code,
+      message: error.message,
+      retry_after: error.retryAfter,
+    },
+  };
+}
+
+function toJobResponse(job: AnalysisJob): Record<string, unknown> {
+  return {
+    job_id: job.id,
+    request_id: job.request_id,
+    status: job.status,
+    mode: job.mode,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    completed_at: job.completed_at,
+    status_url: `/v1/analyze/jobs/${job.id}`,
+    ...(job.result ? { result: job.result } : {}),
+    ...(job.error ? { error: job.error } : {}),
+  };
+}
+
+function toFeedbackResponse(saved: AnalysisFeedback): Record<string, unknown> {
+  return {
+    request_id: saved.request_id,
+    rating: saved.rating,
+    identifications: saved.identifications,
+    comment: saved.comment,
+    created_at: saved.created_at,
+    updated_at: saved.updated_at,
+  };
+}
+
 export default router;
@@ -0,0 +1,79 @@
+// ============================================================================
+// Compatibility Routes
+// Whether a species will get along with the inhabitants of a tank
+// ============================================================================
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { validate, CompatibilityCheckSchema, CompatibilityCheckRequest } from '../utils/validation';
+import * as compatibility from '../services/compatibility.service';
+import type { ApiError } from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// -----------------------------------------------------------------------------
+// POST /v1/compatibility
+// Check a candidate species against a tank and/or a livestock list
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/',
+  validate(CompatibilityCheckSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const result = await compatibility.checkCompatibility(
+        req.device.id,
+        req.body as CompatibilityCheckRequest
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(req, res, error, 'Failed to check compatibility');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function sendError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof compatibility.CompatibilityError) {
+    const apiError: ApiError = {
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    };
+    res.status(error.statusCode).json(apiError);
+    return;
+  }
+
+  logger.error(message, {
+    request_id: req.requestId,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const apiError: ApiError = {
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  };
+  res.status(500).json(apiError);
+}
+
+export default router;
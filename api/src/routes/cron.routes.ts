@@ -0,0 +1,76 @@
+// ============================================================================
+// Cron Routes
+// Scheduled jobs called by Vercel Cron; the schedules are in vercel.json
+// ============================================================================
+
+import { Router, Request, Response } from 'express';
+import { requireCronSecret } from '../middleware/admin.middleware';
+import * as digests from '../services/digest.service';
+import * as maintenance from '../services/maintenance.service';
+import * as usage from '../services/usage.service';
+import type { ApiError } from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireCronSecret);
+
+// -----------------------------------------------------------------------------
+// GET /v1/cron/weekly-digest
+// Mondays 08:00 UTC
+// -----------------------------------------------------------------------------
+
+router.get('/weekly-digest', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await digests.runWeeklyDigests());
+  } catch (error) {
+    sendError(req, res, error, 'Failed to send weekly digests');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/cron/maintenance-reminders
+// Every hour
+// -----------------------------------------------------------------------------
+
+router.get('/maintenance-reminders', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await maintenance.sendDueReminders());
+  } catch (error) {
+    sendError(req, res, error, 'Failed to send maintenance reminders');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/cron/quota-resets
+// Daily 00:05 UTC, just after the daily quota resets
+// -----------------------------------------------------------------------------
+
+router.get('/quota-resets', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await usage.notifyQuotaResets());
+  } catch (error) {
+    sendError(req, res, error, 'Failed to send quota reset notifications');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function sendError(req: Request, res: Response, error: unknown, message: string): void {
+  logger.error(message, {
+    request_id: req.requestId,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const apiError: ApiError = {
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  };
+  res.status(500).json(apiError);
+}
+
+export default router;
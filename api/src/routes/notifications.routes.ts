@@ -0,0 +1,199 @@
+// ============================================================================
+// Notification Routes
+// Push token registration, category preferences and the delivery log
+// ============================================================================
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import {
+  validate,
+  validateQuery,
+  RegisterPushTokenSchema,
+  RegisterPushTokenRequest,
+  NotificationPreferencesSchema,
+  NotificationPreferencesRequest,
+  NotificationDeliveriesQuerySchema,
+  NotificationDeliveriesQuery,
+} from '../utils/validation';
+import * as notifications from '../services/notification.service';
+import type { ApiError, NotificationDelivery } from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// -----------------------------------------------------------------------------
+// GET /v1/notifications?limit=50
+// Notifications sent to the device, newest first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/',
+  validateQuery(NotificationDeliveriesQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const { limit } = req.query as unknown as NotificationDeliveriesQuery;
+      const deliveries = await notifications.listDeliveries(req.device.id, limit);
+      res.json({ notifications: deliveries.map(toDeliveryResponse) });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to list notifications');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// PUT /v1/notifications/token
+// Register the FCM token of the app install
+// -----------------------------------------------------------------------------
+
+router.put(
+  '/token',
+  validate(RegisterPushTokenSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const { token } = req.body as RegisterPushTokenRequest;
+      await notifications.registerPushToken(req.device.id, token);
+      res.status(204).send();
+    } catch (error) {
+      sendError(req, res, error, 'Failed to register push token');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// DELETE /v1/notifications/token
+// Stop push notifications, e.g. on sign-out
+// -----------------------------------------------------------------------------
+
+router.delete('/token', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    await notifications.removePushToken(req.device.id);
+    res.status(204).send();
+  } catch (error) {
+    sendError(req, res, error, 'Failed to remove push token');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/notifications/preferences
+// Whether each category is on
+// -----------------------------------------------------------------------------
+
+router.get('/preferences', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const preferences = await notifications.getPreferences(req.device.id);
+    res.json({ preferences });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to get notification preferences');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// PATCH /v1/notifications/preferences
+// Turn categories on or off
+// -----------------------------------------------------------------------------
+
+router.patch(
+  '/preferences',
+  validate(NotificationPreferencesSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const preferences = await notifications.updatePreferences(
+        req.device.id,
+        req.body as NotificationPreferencesRequest
+      );
+      res.json({ preferences });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to update notification preferences');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toDeliveryResponse(delivery: NotificationDelivery): Record<string, unknown> {
+  return {
+    id: delivery.id,
+    category: delivery.category,
+    title: delivery.title,
+    body: delivery.body,
+    data: delivery.data,
+    status: delivery.status,
+    created_at: delivery.created_at,
+  };
+}
+
+function sendError(req: Request, res: Response, error: unknown, message: string): void {
+  logger.error(message, {
+    request_id: req.requestId,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const apiError: ApiError = {
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  };
+  res.status(500).json(apiError);
+}
+
+export default router;
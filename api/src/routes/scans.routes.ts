@@ -0,0 +1,198 @@
+// ============================================================================
+// Scan History Routes
+// Past analysis results for the authenticated device
+// ============================================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { enforceRateLimit } from '../middleware/rateLimit.middleware';
+import {
+  validate,
+  validateQuery,
+  CompareScansSchema,
+  CompareScansRequest,
+  ScanHistoryQuerySchema,
+  ScanHistoryQuery,
+} from '../utils/validation';
+import * as scanComparison from '../services/scanComparison.service';
+import * as scans from '../services/scan.service';
+import type { ApiError } from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// -----------------------------------------------------------------------------
+// GET /v1/scans?limit=20&cursor=...&mode=&tank_health=&from=&to=&tank_id=
+// List scans, newest first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/',
+  validateQuery(ScanHistoryQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const page = await scans.listScans(req.device.id, req.query as unknown as ScanHistoryQuery);
+      res.json(page);
+    } catch (error) {
+      sendError(req, res, error, 'Failed to list scans');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/scans/compare
+// What changed between two scans of the same tank
+// Only a visual diff calls the model, so only that counts against the daily limit
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/compare',
+  validate(CompareScansSchema),
+  (req: Request, res: Response, next: NextFunction): void => {
+    if ((req.body as CompareScansRequest).visual_diff) {
+      void enforceRateLimit(req, res, next);
+      return;
+    }
+    next();
+  },
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device || !req.requestId) {
+      const error: ApiError = {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Request context missing',
+        },
+      };
+      res.status(500).json(error);
+      return;
+    }
+
+    try {
+      const comparison = await scanComparison.compareScans(
+        req.device,
+        req.requestId,
+        req.body as CompareScansRequest
+      );
+      res.json(comparison);
+    } catch (error) {
+      sendError(req, res, error, 'Failed to compare scans');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/scans/:request_id
+// Full result of one scan
+// -----------------------------------------------------------------------------
+
+router.get('/:request_id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const scan = await scans.getScan(req.device.id, req.params.request_id);
+
+    if (!scan) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json(scan);
+  } catch (error) {
+    sendError(req, res, error, 'Failed to get scan');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// DELETE /v1/scans/:request_id
+// Remove a scan from history
+// -----------------------------------------------------------------------------
+
+router.delete('/:request_id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const deleted = await scans.deleteScan(req.device.id, req.params.request_id);
+
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    sendError(req, res, error, 'Failed to delete scan');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function sendNotFound(res: Response): void {
+  const error: ApiError = {
+    error: {
+      code: 'INVALID_REQUEST',
+      message: 'Scan not found',
+    },
+  };
+  res.status(404).json(error);
+}
+
+function sendError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof scans.ScanError || error instanceof scanComparison.ScanComparisonError) {
+    const apiError: ApiError = {
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    };
+    res.status(error.statusCode).json(apiError);
+    return;
+  }
+
+  logger.error(message, {
+    request_id: req.requestId,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const apiError: ApiError = {
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  };
+  res.status(500).json(apiError);
+}
+
+export default router;
@@ -0,0 +1,47 @@
+// ============================================================================
+// Species Routes
+// Care data from the species catalog, linked from identifications
+// ============================================================================
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { validateQuery, SpeciesQuerySchema, SpeciesQuery } from '../utils/validation';
+import * as species from '../services/species.service';
+import type { ApiError } from '../types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// -----------------------------------------------------------------------------
+// GET /v1/species?category=&q=
+// List catalog entries by common name
+// -----------------------------------------------------------------------------
+
+router.get('/', validateQuery(SpeciesQuerySchema), (req: Request, res: Response): void => {
+  res.json({ species: species.listSpecies(req.query as unknown as SpeciesQuery) });
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/species/:species_id
+// Care sheet of one species, e.g. for Identification.species_id
+// -----------------------------------------------------------------------------
+
+router.get('/:species_id', (req: Request, res: Response): void => {
+  const entry = species.getSpecies(req.params.species_id);
+
+  if (!entry) {
+    const error: ApiError = {
+      error: {
+        code: 'INVALID_REQUEST',
+        message: 'Species not found',
+      },
+    };
+    res.status(404).json(error);
+    return;
+  }
+
+  res.json(entry);
+});
+
+export default router;
@@ -0,0 +1,951 @@
+// ============================================================================
+// Tank Routes
+// Aquarium profiles for the authenticated device
+// ============================================================================
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import {
+  validate,
+  validateQuery,
+  CreateTankSchema,
+  CreateTankRequest,
+  UpdateTankSchema,
+  UpdateTankRequest,
+  CreateLivestockSchema,
+  CreateLivestockRequest,
+  UpdateLivestockSchema,
+  UpdateLivestockRequest,
+  LogWaterReadingsSchema,
+  LogWaterReadingsRequest,
+  WaterReadingsQuerySchema,
+  WaterReadingsQuery,
+  HealthScoresQuerySchema,
+  HealthScoresQuery,
+  CreateTaskSchema,
+  CreateTaskRequest,
+  UpdateTaskSchema,
+  UpdateTaskRequest,
+  TaskFromRecommendationSchema,
+  TaskFromRecommendationRequest,
+  CompleteTaskSchema,
+  CompleteTaskRequest,
+  TasksQuerySchema,
+  TasksQuery,
+  TaskCompletionsQuerySchema,
+  TaskCompletionsQuery,
+} from '../utils/validation';
+import * as digests from '../services/digest.service';
+import * as health from '../services/health.service';
+import * as livestock from '../services/livestock.service';
+import * as maintenance from '../services/maintenance.service';
+import * as tanks from '../services/tank.service';
+import * as water from '../services/waterParameter.service';
+import type {
+  ApiError,
+  LivestockItem,
+  MaintenanceCompletion,
+  MaintenanceTask,
+  Tank,
+  WaterReading,
+} from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks
+// List the device's tanks
+// -----------------------------------------------------------------------------
+
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const list = await tanks.listTanks(req.device.id);
+    res.json({ tanks: list.map(toTankResponse) });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to list tanks');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/tanks
+// Create a tank
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/',
+  validate(CreateTankSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.createTank(req.device.id, req.body as CreateTankRequest);
+      res.status(201).json(toTankResponse(tank));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to create tank');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id
+// Get a tank
+// -----------------------------------------------------------------------------
+
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+
+    if (!tank) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json(toTankResponse(tank));
+  } catch (error) {
+    sendError(req, res, error, 'Failed to get tank');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// PATCH /v1/tanks/:id
+// Update a tank; null clears an optional field
+// -----------------------------------------------------------------------------
+
+router.patch(
+  '/:id',
+  validate(UpdateTankSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.updateTank(req.device.id, req.params.id, req.body as UpdateTankRequest);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      res.json(toTankResponse(tank));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to update tank');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// DELETE /v1/tanks/:id
+// Delete a tank; its scans stay in history without a tank
+// -----------------------------------------------------------------------------
+
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const deleted = await tanks.deleteTank(req.device.id, req.params.id);
+
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    sendError(req, res, error, 'Failed to delete tank');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/livestock
+// List the tank's inventory
+// -----------------------------------------------------------------------------
+
+router.get('/:id/livestock', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+
+    if (!tank) {
+      sendNotFound(res);
+      return;
+    }
+
+    const items = await livestock.listLivestock(tank.id);
+    res.json({ livestock: items.map(toLivestockResponse) });
+  } catch (error) {
+    sendError(req, res, error, 'Failed to list livestock');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/tanks/:id/livestock
+// Add an item to the inventory by hand
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/:id/livestock',
+  validate(CreateLivestockSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const item = await livestock.addLivestock(tank.id, req.body as CreateLivestockRequest);
+      res.status(201).json(toLivestockResponse(item));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to add livestock');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// PATCH /v1/tanks/:id/livestock/:livestock_id
+// Edit an inventory item
+// -----------------------------------------------------------------------------
+
+router.patch(
+  '/:id/livestock/:livestock_id',
+  validate(UpdateLivestockSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+      const livestockId = parseNumericId(req.params.livestock_id);
+      const item = tank && livestockId
+        ? await livestock.updateLivestock(tank.id, livestockId, req.body as UpdateLivestockRequest)
+        : null;
+
+      if (!item) {
+        sendNotFound(res, 'Livestock not found');
+        return;
+      }
+
+      res.json(toLivestockResponse(item));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to update livestock');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// DELETE /v1/tanks/:id/livestock/:livestock_id
+// Remove an inventory item
+// -----------------------------------------------------------------------------
+
+router.delete('/:id/livestock/:livestock_id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+    const livestockId = parseNumericId(req.params.livestock_id);
+    const deleted = tank && livestockId ? await livestock.removeLivestock(tank.id, livestockId) : false;
+
+    if (!deleted) {
+      sendNotFound(res, 'Livestock not found');
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    sendError(req, res, error, 'Failed to remove livestock');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/tanks/:id/parameters
+// Log water test results
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/:id/parameters',
+  validate(LogWaterReadingsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const readings = await water.logReadings(tank.id, req.body as LogWaterReadingsRequest);
+      res.status(201).json({ readings: readings.map(toReadingResponse) });
+
+      // Out-of-range readings also go out as a push (async, don't wait)
+      water.notifyAlerts(tank, readings.map((reading) => reading.parameter)).catch((err) => {
+        logger.error('Failed to send parameter alerts', {
+          request_id: req.requestId,
+          tank_id: tank.id,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to log water readings');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/parameters?parameter=&from=&to=&limit=500
+// Readings as time series, oldest first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/:id/parameters',
+  validateQuery(WaterReadingsQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const readings = await water.getReadings(tank.id, req.query as unknown as WaterReadingsQuery);
+      res.json({ readings: readings.map(toReadingResponse) });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to get water readings');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/parameters/summary
+// Latest value, target range and trend of each parameter, plus alerts
+// -----------------------------------------------------------------------------
+
+router.get('/:id/parameters/summary', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+
+    if (!tank) {
+      sendNotFound(res);
+      return;
+    }
+
+    const summary = await water.getParameterSummary(tank.id, tank.tank_type);
+    res.json(summary);
+  } catch (error) {
+    sendError(req, res, error, 'Failed to summarize water parameters');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// DELETE /v1/tanks/:id/parameters/:reading_id
+// Delete a reading
+// -----------------------------------------------------------------------------
+
+router.delete('/:id/parameters/:reading_id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+    const readingId = parseNumericId(req.params.reading_id, Number.MAX_SAFE_INTEGER);
+    const deleted = tank && readingId ? await water.deleteReading(tank.id, readingId) : false;
+
+    if (!deleted) {
+      sendNotFound(res, 'Reading not found');
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    sendError(req, res, error, 'Failed to delete water reading');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/health?from=&to=&limit=200
+// Health score of each scan as time series, oldest first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/:id/health',
+  validateQuery(HealthScoresQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const scores = await health.getScores(tank.id, req.query as unknown as HealthScoresQuery);
+      res.json({ scores });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to get health scores');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/health/digest
+// Digest of the past seven days, as sent by the weekly digest job
+// -----------------------------------------------------------------------------
+
+router.get('/:id/health/digest', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+
+    if (!tank) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json(await digests.buildWeeklyDigest(tank));
+  } catch (error) {
+    sendError(req, res, error, 'Failed to build health digest');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/tasks?status=
+// Maintenance tasks, soonest due first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/:id/tasks',
+  validateQuery(TasksQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const { status } = req.query as unknown as TasksQuery;
+      const tasks = await maintenance.listTasks(tank.id, status);
+      res.json({ tasks: tasks.map(toTaskResponse) });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to list maintenance tasks');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/tanks/:id/tasks
+// Add a maintenance task
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/:id/tasks',
+  validate(CreateTaskSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const task = await maintenance.createTask(tank.id, req.body as CreateTaskRequest);
+      res.status(201).json(toTaskResponse(task));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to create maintenance task');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// POST /v1/tanks/:id/tasks/from-recommendation
+// Turn a scan recommendation into a task; 200 with the existing task if it was
+// already turned into one
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/:id/tasks/from-recommendation',
+  validate(TaskFromRecommendationSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+
+      if (!tank) {
+        sendNotFound(res);
+        return;
+      }
+
+      const { task, created } = await maintenance.createTaskFromRecommendation(
+        req.device.id,
+        tank.id,
+        req.body as TaskFromRecommendationRequest
+      );
+      res.status(created ? 201 : 200).json(toTaskResponse(task));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to create maintenance task');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// PATCH /v1/tanks/:id/tasks/:task_id
+// Update a task; null clears the notes or makes the task one-off
+// -----------------------------------------------------------------------------
+
+router.patch(
+  '/:id/tasks/:task_id',
+  validate(UpdateTaskSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+      const taskId = parseNumericId(req.params.task_id, Number.MAX_SAFE_INTEGER);
+      const task = tank && taskId
+        ? await maintenance.updateTask(tank.id, taskId, req.body as UpdateTaskRequest)
+        : null;
+
+      if (!task) {
+        sendNotFound(res, 'Task not found');
+        return;
+      }
+
+      res.json(toTaskResponse(task));
+    } catch (error) {
+      sendError(req, res, error, 'Failed to update maintenance task');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// DELETE /v1/tanks/:id/tasks/:task_id
+// Remove a task and its completion log
+// -----------------------------------------------------------------------------
+
+router.delete('/:id/tasks/:task_id', async (req: Request, res: Response): Promise<void> => {
+  if (!req.device) {
+    const error: ApiError = {
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Device not found',
+      },
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  try {
+    const tank = await tanks.getTank(req.device.id, req.params.id);
+    const taskId = parseNumericId(req.params.task_id, Number.MAX_SAFE_INTEGER);
+    const deleted = tank && taskId ? await maintenance.removeTask(tank.id, taskId) : false;
+
+    if (!deleted) {
+      sendNotFound(res, 'Task not found');
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    sendError(req, res, error, 'Failed to remove maintenance task');
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /v1/tanks/:id/tasks/:task_id/complete
+// Log that a task was done and schedule the next one
+// -----------------------------------------------------------------------------
+
+router.post(
+  '/:id/tasks/:task_id/complete',
+  validate(CompleteTaskSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+      const taskId = parseNumericId(req.params.task_id, Number.MAX_SAFE_INTEGER);
+      const completed = tank && taskId
+        ? await maintenance.completeTask(tank.id, taskId, req.body as CompleteTaskRequest)
+        : null;
+
+      if (!completed) {
+        sendNotFound(res, 'Task not found');
+        return;
+      }
+
+      res.status(201).json({
+        task: toTaskResponse(completed.task),
+        completion: toCompletionResponse(completed.completion),
+      });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to complete maintenance task');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// GET /v1/tanks/:id/tasks/:task_id/completions?limit=100
+// Times a task was done, newest first
+// -----------------------------------------------------------------------------
+
+router.get(
+  '/:id/tasks/:task_id/completions',
+  validateQuery(TaskCompletionsQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.device) {
+      const error: ApiError = {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Device not found',
+        },
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    try {
+      const tank = await tanks.getTank(req.device.id, req.params.id);
+      const taskId = parseNumericId(req.params.task_id, Number.MAX_SAFE_INTEGER);
+      const task = tank && taskId ? await maintenance.getTask(tank.id, taskId) : null;
+
+      if (!task) {
+        sendNotFound(res, 'Task not found');
+        return;
+      }
+
+      const { limit } = req.query as unknown as TaskCompletionsQuery;
+      const completions = await maintenance.listCompletions(task.id, limit);
+      res.json({ completions: completions.map(toCompletionResponse) });
+    } catch (error) {
+      sendError(req, res, error, 'Failed to list task completions');
+    }
+  }
+);
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+// Ids past the column's range would fail in Postgres rather than match nothing
+function parseNumericId(value: string, max = 2147483647): number | null {
+  if (!/^\d{1,15}$/.test(value)) {
+    return null;
+  }
+  const id = parseInt(value, 10);
+  return id <= max ? id : null;
+}
+
+function toReadingResponse(reading: WaterReading): Record<string, unknown> {
+  return {
+    id: reading.id,
+    parameter: reading.parameter,
+    value: reading.value,
+    measured_at: reading.measured_at,
+    note: reading.note,
+    source: reading.source,
+  };
+}
+
+function toLivestockResponse(item: LivestockItem): Record<string, unknown> {
+  return {
+    id: item.id,
+    name: item.name,
+    category: item.category,
+    count: item.count,
+    notes: item.notes,
+    source: item.source,
+    status: item.status,
+    first_seen_at: item.first_seen_at,
+    last_seen_at: item.last_seen_at,
+    sighting_count: item.sighting_count,
+    missed_scans: item.missed_scans,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+  };
+}
+
+function toTaskResponse(task: MaintenanceTask): Record<string, unknown> {
+  return {
+    id: task.id,
+    title: task.title,
+    kind: task.kind,
+    interval_days: task.interval_days,
+    next_due_at: task.next_due_at,
+    status: task.status,
+    notes: task.notes,
+    source: task.source,
+    source_request_id: task.source_request_id,
+    last_completed_at: task.last_completed_at,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+  };
+}
+
+function toCompletionResponse(completion: MaintenanceCompletion): Record<string, unknown> {
+  return {
+    id: completion.id,
+    completed_at: completion.completed_at,
+    note: completion.note,
+  };
+}
+
+function toTankResponse(tank: Tank): Record<string, unknown> {
+  return {
+    id: tank.id,
+    name: tank.name,
+    volume_liters: tank.volume_liters,
+    tank_type: tank.tank_type,
+    setup_date: tank.setup_date,
+    photo_url: tank.photo_url,
+    scan_count: tank.scan_count,
+    last_scan_at: tank.last_scan_at,
+    created_at: tank.created_at,
+    updated_at: tank.updated_at,
+  };
+}
+
+function sendNotFound(res: Response, message = 'Tank not found'): void {
+  const error: ApiError = {
+    error: {
+      code: 'INVALID_REQUEST',
+      message,
+    },
+  };
+  res.status(404).json(error);
+}
+
+function sendError(req: Request, res: Response, error: unknown, message: string): void {
+  if (
+    error instanceof tanks.TankError ||
+    error instanceof livestock.LivestockError ||
+    error instanceof maintenance.MaintenanceError
+  ) {
+    const apiError: ApiError = {
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    };
+    res.status(error.statusCode).json(apiError);
+    return;
+  }
+
+  logger.error(message, {
+    request_id: req.requestId,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const apiError: ApiError = {
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+    },
+  };
+  res.status(500).json(apiError);
+}
+
+export default router;
@@ -1,14 +1,20 @@
 // ============================================================================
 // AI Provider Orchestration Service
-// Routes requests through Gemini with OpenAI fallback using circuit breaker
+// Routes requests through the registered providers in fallback order
 // ============================================================================
 
-import * as keyPool from './keyPool.service';
 import * as circuitBreaker from './circuitBreaker.service';
-import * as gemini from './gemini.service';
-import * as openai from './openai.service';
-import type { AnalysisMode, ScanResult } from '../types';
+import * as registry from './providerRegistry.service';
+import type {
+  AIProvider,
+  AnalysisImage,
+  AnalysisMode,
+  AnalyzeResult,
+  ProviderAnalysisOptions,
+  ProviderName,
+} from '../types';
 import logger from '../utils/logger';
+import { isValidationReason } from '../utils/modelResponse';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -16,241 +22,164 @@ import logger from '../utils/logger';
 
 export interface AnalysisResponse {
   success: boolean;
-  result?: ScanResult;
-  provider: 'gemini' | 'openai';
+  result?: AnalyzeResult;
+  provider: ProviderName;
   apiKeyId?: string;
   tokensUsed: {
     input: number;
     output: number;
   };
   latencyMs: number;
+  // First model output validation failure seen while handling the request
+  validationError?: string;
   error?: {
     code: string;
     message: string;
   };
 }
 
+export type ProviderSelectedCallback = (provider: ProviderName) => void;
+
+export interface ProviderStatusSummary {
+  configured: boolean;
+  available: boolean;
+  circuit_state: string;
+  [detail: string]: unknown;
+}
+
+// Capacity errors that say nothing about the provider's health
+const NON_CIRCUIT_ERRORS = new Set(['NO_KEYS_AVAILABLE', 'DISABLED', 'COST_LIMIT']);
+
 // -----------------------------------------------------------------------------
 // Main Analysis Function
 // -----------------------------------------------------------------------------
 
 /**
  * Analyze an image using the best available AI provider
- * Implements circuit breaker pattern with automatic failover
+ * Providers are tried in the configured fallback order, skipping any whose
+ * circuit is open. onProviderSelected is called each time a provider is
+ * actually attempted.
  */
 export async function analyzeImage(
-  imageData: string,
-  mimeType: 'image/jpeg' | 'image/png',
+  images: AnalysisImage[],
   mode: AnalysisMode,
-  requestId: string
+  requestId: string,
+  onProviderSelected?: ProviderSelectedCallback,
+  options: ProviderAnalysisOptions = {}
 ): Promise<AnalysisResponse> {
   const startTime = Date.now();
+  const chain = registry.getProviderChain();
+
+  let lastResult: Omit<AnalysisResponse, 'latencyMs'> = {
+    success: false,
+    provider: chain[0]?.name || 'none',
+    tokensUsed: { input: 0, output: 0 },
+    error: {
+      code: 'NO_PROVIDERS',
+      message: 'No AI providers are configured',
+    },
+  };
 
-  // Try Gemini first (primary provider)
-  const geminiResult = await tryGemini(imageData, mimeType, mode, requestId);
+  let validationError: string | undefined;
 
-  if (geminiResult.success) {
-    return {
-      ...geminiResult,
-      latencyMs: Date.now() - startTime,
-    };
-  }
+  for (const [index, provider] of chain.entries()) {
+    if (index > 0) {
+      logger.info('Falling back to next AI provider', {
+        request_id: requestId,
+        provider: provider.name,
+        previous_provider: lastResult.provider,
+        previous_error: lastResult.error?.code,
+      });
+    }
 
-  // Gemini failed, try OpenAI fallback
-  logger.info('Falling back to OpenAI', {
-    request_id: requestId,
-    gemini_error: geminiResult.error?.code,
-  });
+    lastResult = await tryProvider(provider, images, mode, requestId, options, onProviderSelected);
+
+    const reason = lastResult.validationError ||
+      (isValidationReason(lastResult.error?.code) ? lastResult.error?.code : undefined);
+    validationError = validationError || reason;
 
-  const openaiResult = await tryOpenAI(imageData, mimeType, mode, requestId);
+    if (lastResult.success) {
+      break;
+    }
+  }
 
   return {
-    ...openaiResult,
+    ...lastResult,
+    validationError,
     latencyMs: Date.now() - startTime,
   };
 }
 
 // -----------------------------------------------------------------------------
-// Provider-Specific Functions
+// Provider Attempt
 // -----------------------------------------------------------------------------
 
-async function tryGemini(
-  imageData: string,
-  mimeType: 'image/jpeg' | 'image/png',
+async function tryProvider(
+  provider: AIProvider,
+  images: AnalysisImage[],
   mode: AnalysisMode,
-  requestId: string
+  requestId: string,
+  options: ProviderAnalysisOptions,
+  onProviderSelected?: ProviderSelectedCallback
 ): Promise<Omit<AnalysisResponse, 'latencyMs'>> {
-  // Check if Gemini circuit is open
-  const geminiAvailable = await circuitBreaker.shouldAllowRequest('gemini');
-
-  if (!geminiAvailable) {
-    logger.warn('Gemini circuit breaker is open', { request_id: requestId });
-    return {
-      success: false,
-      provider: 'gemini',
-      tokensUsed: { input: 0, output: 0 },
-      error: {
-        code: 'CIRCUIT_OPEN',
-        message: 'Gemini service is temporarily unavailable',
-      },
-    };
-  }
-
-  // Select an API key from the pool
-  const selectedKey = await keyPool.selectKey();
-
-  if (!selectedKey) {
-    logger.warn('No API keys available', { request_id: requestId });
-    return {
-      success: false,
-      provider: 'gemini',
-      tokensUsed: { input: 0, output: 0 },
-      error: {
-        code: 'NO_KEYS_AVAILABLE',
-        message: 'All API keys are in cooldown or at limit',
-      },
-    };
-  }
-
-  try {
-    // Call Gemini API
-    const result = await gemini.analyzeImage(imageData, mimeType, mode, selectedKey.key);
-
-    if (result.success && result.result) {
-      // Record success
-      await Promise.all([
-        keyPool.recordSuccess(selectedKey.id),
-        circuitBreaker.recordSuccess('gemini'),
-      ]);
+  const failure = (code: string, message: string, apiKeyId?: string) => ({
+    success: false,
+    provider: provider.name,
+    apiKeyId,
+    tokensUsed: { input: 0, output: 0 },
+    error: { code, message },
+  });
 
-      logger.geminiCall(
-        requestId,
-        selectedKey.id,
-        0, // Latency tracked at higher level
-        true,
-        (result.tokensUsed?.input || 0) + (result.tokensUsed?.output || 0)
-      );
+  // Check if the provider's circuit is open
+  const circuitAllows = await circuitBreaker.shouldAllowRequest(provider.name);
 
-      return {
-        success: true,
-        result: result.result,
-        provider: 'gemini',
-        apiKeyId: selectedKey.id,
-        tokensUsed: result.tokensUsed || { input: 0, output: 0 },
-      };
-    }
-
-    // API call returned but with error
-    await Promise.all([
-      keyPool.recordFailure(selectedKey.id, result.error?.statusCode),
-      circuitBreaker.recordFailure('gemini'),
-    ]);
-
-    logger.geminiCall(requestId, selectedKey.id, 0, false);
-
-    return {
-      success: false,
-      provider: 'gemini',
-      apiKeyId: selectedKey.id,
-      tokensUsed: { input: 0, output: 0 },
-      error: result.error,
-    };
-  } catch (error) {
-    // Unexpected error
-    await Promise.all([
-      keyPool.recordFailure(selectedKey.id),
-      circuitBreaker.recordFailure('gemini'),
-    ]);
-
-    logger.geminiCall(requestId, selectedKey.id, 0, false);
-
-    return {
-      success: false,
-      provider: 'gemini',
-      apiKeyId: selectedKey.id,
-      tokensUsed: { input: 0, output: 0 },
-      error: {
-        code: 'UNEXPECTED_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      },
-    };
+  if (!circuitAllows) {
+    logger.warn('Provider circuit breaker is open', {
+      request_id: requestId,
+      provider: provider.name,
+    });
+    return failure('CIRCUIT_OPEN', `${provider.name} is temporarily unavailable`);
   }
-}
 
-async function tryOpenAI(
-  imageData: string,
-  mimeType: 'image/jpeg' | 'image/png',
-  mode: AnalysisMode,
-  requestId: string
-): Promise<Omit<AnalysisResponse, 'latencyMs'>> {
-  // Check if OpenAI is available and circuit is not open
-  const openaiAvailable = await circuitBreaker.shouldAllowRequest('openai');
-  const openaiEnabled = await openai.isAvailable();
-
-  if (!openaiAvailable) {
-    logger.warn('OpenAI circuit breaker is open', { request_id: requestId });
-    return {
-      success: false,
-      provider: 'openai',
-      tokensUsed: { input: 0, output: 0 },
-      error: {
-        code: 'CIRCUIT_OPEN',
-        message: 'OpenAI service is temporarily unavailable',
-      },
-    };
+  if (!(await provider.isAvailable())) {
+    return failure('PROVIDER_UNAVAILABLE', `${provider.name} is not available`);
   }
 
-  if (!openaiEnabled) {
-    return {
-      success: false,
-      provider: 'openai',
-      tokensUsed: { input: 0, output: 0 },
-      error: {
-        code: 'FALLBACK_UNAVAILABLE',
-        message: 'OpenAI fallback is not available',
-      },
-    };
-  }
+  onProviderSelected?.(provider.name);
 
   try {
-    const result = await openai.analyzeImageFallback(imageData, mimeType, mode);
+    const result = await provider.analyze(images, mode, requestId, options);
 
     if (result.success && result.result) {
-      await circuitBreaker.recordSuccess('openai');
-
-      logger.info('OpenAI fallback succeeded', {
-        request_id: requestId,
-        cost: result.cost,
-      });
+      await circuitBreaker.recordSuccess(provider.name);
 
       return {
         success: true,
         result: result.result,
-        provider: 'openai',
+        provider: provider.name,
+        apiKeyId: result.apiKeyId,
         tokensUsed: result.tokensUsed || { input: 0, output: 0 },
+        validationError: result.validationError,
       };
     }
 
-    await circuitBreaker.recordFailure('openai');
+    if (!result.error || !NON_CIRCUIT_ERRORS.has(result.error.code)) {
+      await circuitBreaker.recordFailure(provider.name);
+    }
 
-    return {
-      success: false,
-      provider: 'openai',
-      tokensUsed: { input: 0, output: 0 },
-      error: result.error,
-    };
+    return failure(
+      result.error?.code || 'PROVIDER_ERROR',
+      result.error?.message || 'Analysis failed',
+      result.apiKeyId
+    );
   } catch (error) {
-    await circuitBreaker.recordFailure('openai');
-
-    return {
-      success: false,
-      provider: 'openai',
-      tokensUsed: { input: 0, output: 0 },
-      error: {
-        code: 'UNEXPECTED_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      },
-    };
+    // Unexpected error
+    await circuitBreaker.recordFailure(provider.name);
+
+    return failure(
+      'UNEXPECTED_ERROR',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
   }
 }
 
@@ -259,48 +188,32 @@ async function tryOpenAI(
 // -----------------------------------------------------------------------------
 
 /**
- * Get the status of all AI providers
+ * Get the status of every provider in the fallback chain
  */
-export async function getProviderStatus(): Promise<{
-  gemini: {
-    available: boolean;
-    circuit_state: string;
-    keys_available: number;
-  };
-  openai: {
-    available: boolean;
-    circuit_state: string;
-    daily_cost: number;
-    cost_limit: number;
-  };
-}> {
-  const [geminiCircuit, openaiCircuit, keyMetrics, openaiCost] = await Promise.all([
-    circuitBreaker.getCircuitState('gemini'),
-    circuitBreaker.getCircuitState('openai'),
-    keyPool.getKeyPoolMetrics(),
-    openai.getCurrentDailyCost(),
-  ]);
-
-  const geminiAvailable =
-    geminiCircuit.state !== 'OPEN' && keyMetrics.available_keys > 0;
-
-  const openaiAvailable =
-    openaiCircuit.state !== 'OPEN' &&
-    await openai.isAvailable();
+export async function getProviderStatus(): Promise<Record<ProviderName, ProviderStatusSummary>> {
+  const chain = registry.getProviderChain();
+
+  const entries = await Promise.all(
+    chain.map(async (provider): Promise<[ProviderName, ProviderStatusSummary]> => {
+      const [circuit, available, details] = await Promise.all([
+        circuitBreaker.getCircuitState(provider.name),
+        provider.isAvailable(),
+        provider.getStatusDetails ? provider.getStatusDetails() : Promise.resolve({}),
+      ]);
 
-  return {
-    gemini: {
-      available: geminiAvailable,
-      circuit_state: geminiCircuit.state,
-      keys_available: keyMetrics.available_keys,
-    },
-    openai: {
-      available: openaiAvailable,
-      circuit_state: openaiCircuit.state,
-      daily_cost: openaiCost,
-      cost_limit: await import('../config').then((c) => c.default.openai.maxCostPerDay),
-    },
-  };
+      return [
+        provider.name,
+        {
+          ...details,
+          configured: provider.isConfigured(),
+          available: circuit.state !== 'OPEN' && available,
+          circuit_state: circuit.state,
+        },
+      ];
+    })
+  );
+
+  return Object.fromEntries(entries);
 }
 
 /**
@@ -308,5 +221,5 @@ export async function getProviderStatus(): Promise<{
  */
 export async function isAnyProviderAvailable(): Promise<boolean> {
   const status = await getProviderStatus();
-  return status.gemini.available || status.openai.available;
+  return Object.values(status).some((provider) => provider.available);
 }
@@ -0,0 +1,425 @@
+// ============================================================================
+// Analysis Service
+// Shared analyze pipeline used by the synchronous and streaming routes
+// ============================================================================
+
+import config from '../config';
+import * as aiProvider from './aiProvider.service';
+import * as cache from './cache.service';
+import * as experiments from './experiment.service';
+import * as health from './health.service';
+import * as livestock from './livestock.service';
+import * as scans from './scan.service';
+import * as species from './species.service';
+import * as tanks from './tank.service';
+import * as usage from './usage.service';
+import * as water from './waterParameter.service';
+import type {
+  AnalysisEvent,
+  AnalyzeRequest,
+  AnalyzeResult,
+  Device,
+  ErrorCode,
+  ScanResult,
+  Tank,
+  TestKitResult,
+} from '../types';
+import logger from '../utils/logger';
+import { isDiagnosisResult, isScanResult, isTestKitResult } from '../utils/modelResponse';
+import type { WaterParameter } from '../utils/waterParameters';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface AnalysisContext {
+  requestId: string;
+  device: Device;
+  // Already resolved by the caller; looked up from request.tank_id otherwise
+  tank?: Tank | null;
+}
+
+export type AnalysisEventListener = (event: AnalysisEvent) => void;
+
+// -----------------------------------------------------------------------------
+// Main Pipeline
+// -----------------------------------------------------------------------------
+
+/**
+ * Run an analysis request end to end
+ * Checks idempotency and the image cache before calling an AI provider.
+ * Progress is reported through onEvent; cached hits only emit the final result.
+ * Only scan results are matched to the species catalog, go to scan history and
+ * update livestock and the tank's health scores; test kit reads can add to the tank's parameter log.
+ */
+export async function runAnalysis(
+  request: AnalyzeRequest,
+  context: AnalysisContext,
+  onEvent?: AnalysisEventListener
+): Promise<AnalyzeResult> {
+  const startTime = Date.now();
+  const { images, mode, options } = request;
+  const { requestId, device } = context;
+  const deviceId = device.device_uuid;
+  const emit = onEvent || (() => undefined);
+
+  // Check idempotency - return cached result for duplicate request
+  const idempotentResult = await cache.getIdempotentResult(requestId);
+  if (idempotentResult) {
+    logger.info('Returning idempotent result', {
+      request_id: requestId,
+      device_id: deviceId,
+    });
+
+    emit({ event: 'result', data: idempotentResult });
+    return idempotentResult;
+  }
+
+  const tank = context.tank !== undefined ? context.tank : await resolveTank(device, request.tank_id);
+  // Test kit photos are read the same way whatever the tank
+  const tankContext = tank && mode !== 'test_kit_read' ? await tanks.getTankContext(tank) : undefined;
+
+  // Calculate combined image hash for caching
+  const imageHash = cache.calculateImageSetHash(images.map((img) => img.data));
+
+  // Resolve the prompt once so the cache key matches the prompt actually used
+  const { prompt, experimentId } = await experiments.resolvePrompt(mode, device.id);
+  const cacheVariant = { language: options?.language, promptVersion: prompt.version, tank: tankContext };
+
+  // Check image cache
+  const cachedResult = await cache.getCachedResult(imageHash, mode, cacheVariant);
+  if (cachedResult) {
+    // Update usage info and return cached result
+    const usageInfo = await usage.getUsageInfo(deviceId, device.tier);
+
+    const result: AnalyzeResult = {
+      ...cachedResult,
+      request_id: requestId,
+      usage: usageInfo,
+    };
+
+    if (isTestKitResult(result)) {
+      result.saved_parameters =
+        tank && options?.save_readings ? await saveReadings(tank, requestId, result) : [];
+    }
+
+    // Store for idempotency
+    await cache.setIdempotentResult(requestId, result);
+
+    // Log the request so feedback can reference it (async, don't wait)
+    usage.recordCachedRequest(device.id, mode, {
+      requestId,
+      imageHash,
+      promptVersion: prompt.version,
+      experimentId,
+      ...toLoggedResult(result),
+      tankId: tank?.id,
+    }).catch((err) => {
+      logger.error('Failed to record cached request', {
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    });
+
+    if (tank && isScanResult(result)) {
+      updateLivestock(tank.id, mode, result);
+      recordHealthScore(tank.id, requestId, result);
+    }
+
+    logger.info('Returning cached result', {
+      request_id: requestId,
+      image_hash: imageHash.substring(0, 16),
+      mode,
+    });
+
+    emit({ event: 'result', data: result });
+    return result;
+  }
+
+  // Check if any AI provider is available
+  const providersAvailable = await aiProvider.isAnyProviderAvailable();
+  if (!providersAvailable) {
+    throw new AnalysisError(
+      'AI_UNAVAILABLE',
+      'AI analysis service is temporarily unavailable. Please try again later.',
+      503,
+      60
+    );
+  }
+
+  emit({ event: 'accepted', data: { request_id: requestId, mode } });
+
+  // Perform analysis
+  const analysisResult = await aiProvider.analyzeImage(
+    images,
+    mode,
+    requestId,
+    (provider) => emit({ event: 'provider', data: { provider } }),
+    { language: options?.language, prompt, tank: tankContext }
+  );
+
+  if (!analysisResult.success || !analysisResult.result) {
+    logger.error('Analysis failed', {
+      request_id: requestId,
+      provider: analysisResult.provider,
+      error: analysisResult.error?.code,
+      validation_error: analysisResult.validationError,
+    });
+
+    // Record the failure (async, don't wait)
+    usage.recordError(
+      device.id,
+      mode,
+      analysisResult.provider,
+      analysisResult.apiKeyId || 'unknown',
+      analysisResult.validationError || analysisResult.error?.code || 'PROVIDER_ERROR',
+      analysisResult.latencyMs,
+      { requestId, promptVersion: prompt.version, experimentId, tankId: tank?.id }
+    ).catch((err) => {
+      logger.error('Failed to record error', {
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    });
+
+    throw new AnalysisError(
+      'AI_UNAVAILABLE',
+      analysisResult.error?.message || 'Analysis failed',
+      503,
+      30
+    );
+  }
+
+  const parsed = analysisResult.result;
+  if (isScanResult(parsed)) {
+    parsed.identifications = species.enrichIdentifications(parsed.identifications);
+  }
+
+  // Get usage info
+  const usageInfo = await usage.getUsageInfo(deviceId, device.tier);
+
+  // Build final result
+  const result: AnalyzeResult = {
+    ...parsed,
+    request_id: requestId,
+    usage: usageInfo,
+  };
+
+  if (isTestKitResult(result)) {
+    result.saved_parameters =
+      tank && options?.save_readings ? await saveReadings(tank, requestId, result) : [];
+  } else if (isScanResult(result) && options?.include_recommendations === false) {
+    // Filter recommendations if not requested
+    result.recommendations = [];
+  }
+
+  // Cache the result
+  await Promise.all([
+    cache.cacheResult(imageHash, mode, result, cacheVariant),
+    cache.setIdempotentResult(requestId, result),
+  ]);
+
+  // Record usage (async, don't wait)
+  usage.recordUsage(
+    device.id,
+    mode,
+    analysisResult.provider,
+    analysisResult.apiKeyId || 'unknown',
+    analysisResult.latencyMs,
+    analysisResult.tokensUsed.input,
+    analysisResult.tokensUsed.output,
+    {
+      requestId,
+      imageHash,
+      errorCode: analysisResult.validationError,
+      promptVersion: prompt.version,
+      experimentId,
+      ...toLoggedResult(result),
+      tankId: tank?.id,
+    }
+  ).catch((err) => {
+    logger.error('Failed to record usage', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+
+  if (isScanResult(result)) {
+    if (tank) {
+      updateLivestock(tank.id, mode, result);
+      recordHealthScore(tank.id, requestId, result);
+    }
+    recordUnmatchedSpecies(requestId, result);
+  }
+
+  logger.info('Analysis completed', {
+    request_id: requestId,
+    device_id: deviceId,
+    mode,
+    provider: analysisResult.provider,
+    prompt_version: prompt.version,
+    experiment_id: experimentId,
+    tank_id: tank?.id,
+    image_count: images.length,
+    latency_ms: Date.now() - startTime,
+    ...describeForLog(result),
+  });
+
+  emit({ event: 'result', data: result });
+  return result;
+}
+
+/**
+ * Look up the tank a request is for
+ * Lets callers reject a missing or foreign tank before they accept the request.
+ */
+export async function resolveTank(device: Device, tankId: string | undefined): Promise<Tank | null> {
+  if (!tankId) {
+    return null;
+  }
+
+  const tank = await tanks.getTank(device.id, tankId);
+  if (!tank) {
+    throw new AnalysisError('INVALID_REQUEST', 'Tank not found', 404);
+  }
+  return tank;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Request log fields for a result
+ * Only scan results have identifications and are kept in scan history.
+ */
+function toLoggedResult(
+  result: AnalyzeResult
+): Pick<usage.RequestLogDetails, 'identificationCount' | 'result'> {
+  if (!isScanResult(result)) {
+    return { identificationCount: 0 };
+  }
+  return {
+    identificationCount: result.identifications.length,
+    result: scans.toStoredResult(result),
+  };
+}
+
+function describeForLog(result: AnalyzeResult): Record<string, unknown> {
+  if (isScanResult(result)) {
+    return { tank_health: result.tank_health, identifications_count: result.identifications.length };
+  }
+  if (isTestKitResult(result)) {
+    return { readings_count: result.readings.length, saved_count: result.saved_parameters.length };
+  }
+  if (isDiagnosisResult(result)) {
+    return { urgency: result.urgency, differential_count: result.differential.length };
+  }
+  return { changes_count: result.changes.length };
+}
+
+/**
+ * Add the confident readings of a test kit photo to the tank's parameter log
+ * Returns the saved parameters. A failed save is logged and reported as
+ * nothing saved, so the client can still log the readings by hand.
+ */
+async function saveReadings(
+  tank: Tank,
+  requestId: string,
+  result: TestKitResult
+): Promise<WaterParameter[]> {
+  const confident = result.readings.filter(
+    (reading) => reading.confidence >= config.water.testKitMinConfidence
+  );
+  if (confident.length === 0) {
+    return [];
+  }
+
+  const kits = Array.from(new Set(confident.flatMap((reading) => (reading.kit ? [reading.kit] : []))));
+  const parameters = confident.map((reading) => reading.parameter);
+
+  try {
+    await water.logReadings(
+      tank.id,
+      {
+        readings: Object.fromEntries(confident.map((reading) => [reading.parameter, reading.value])),
+        note: kits.length > 0 ? kits.join(', ') : undefined,
+      },
+      'test_kit_scan'
+    );
+  } catch (err) {
+    logger.error('Failed to save test kit readings', {
+      request_id: requestId,
+      tank_id: tank.id,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+    return [];
+  }
+
+  notifyParameterAlerts(tank, parameters);
+  return parameters;
+}
+
+/**
+ * Push alerts for the saved readings that are out of range (async, don't wait)
+ */
+function notifyParameterAlerts(tank: Tank, parameters: WaterParameter[]): void {
+  water.notifyAlerts(tank, parameters).catch((err) => {
+    logger.error('Failed to send parameter alerts', {
+      tank_id: tank.id,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+}
+
+/**
+ * Update the tank's inventory from a result (async, don't wait)
+ */
+function updateLivestock(tankId: string, mode: AnalyzeRequest['mode'], result: ScanResult): void {
+  livestock.recordScan(tankId, mode, result.identifications).catch((err) => {
+    logger.error('Failed to update livestock', {
+      tank_id: tankId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+}
+
+/**
+ * Add the scan to the tank's health score series (async, don't wait)
+ */
+function recordHealthScore(tankId: string, requestId: string, result: ScanResult): void {
+  health.recordScore(tankId, requestId, result).catch((err) => {
+    logger.error('Failed to record health score', {
+      tank_id: tankId,
+      request_id: requestId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+}
+
+/**
+ * Keep names the species catalog did not match for curation (async, don't wait)
+ */
+function recordUnmatchedSpecies(requestId: string, result: ScanResult): void {
+  species.recordUnmatched(result.identifications).catch((err) => {
+    logger.error('Failed to record unmatched species', {
+      request_id: requestId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class AnalysisError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+  retryAfter?: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number, retryAfter?: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.retryAfter = retryAfter;
+    this.name = 'AnalysisError';
+  }
+}
@@ -6,22 +6,49 @@
 import { createHash } from 'crypto';
 import * as redis from './redis.service';
 import config from '../config';
-import type { ScanResult, AnalysisMode } from '../types';
+import { getActivePrompt, PROMPT_MODES } from './prompt.service';
+import type { AnalyzeResult, AnalysisMode, TankContext } from '../types';
 import logger from '../utils/logger';
+import { isLocalized, SUPPORTED_LANGUAGES } from '../utils/language';
 
 // -----------------------------------------------------------------------------
 // Redis Key Patterns
 // -----------------------------------------------------------------------------
 
 const KEYS = {
-  // Cache by image hash + mode
-  imageCache: (hash: string, mode: string) => `cache:image:${hash}:${mode}`,
+  // Cache by image hash + mode, plus prompt version, language and tank profile when set
+  imageCache: (hash: string, mode: string, variant: CacheVariant = {}) =>
+    [
+      `cache:image:${hash}:${mode}`,
+      variant.promptVersion ? `:p${variant.promptVersion}` : '',
+      isLocalized(variant.language) ? `:${variant.language}` : '',
+      variant.tank ? `:t${hashTankContext(variant.tank)}` : '',
+    ].join(''),
   // Idempotency key for request deduplication
   idempotency: (requestId: string) => `idempotency:${requestId}`,
   // Cache hit counter
   cacheHits: (hash: string) => `cache:hits:${hash}`,
+  // Set once users have corrected a result for this image
+  corrected: (hash: string) => `cache:corrected:${hash}`,
 };
 
+/**
+ * Inputs besides the images that change the result of an analysis
+ * Defaults (English, built-in prompt) map to the original key format.
+ */
+export interface CacheVariant {
+  language?: string;
+  promptVersion?: number;
+  tank?: TankContext;
+}
+
+// Short fingerprint of the tank details and water readings that reach the prompt
+function hashTankContext(tank: TankContext): string {
+  const readings = (tank.water_parameters || []).map((reading) => `${reading.parameter}=${reading.value}`);
+  const fields = [tank.tank_type ?? '', tank.volume_liters ?? '', tank.setup_date ?? '', ...readings];
+  return createHash('sha256').update(fields.join('|')).digest('hex').substring(0, 12);
+}
+
 // -----------------------------------------------------------------------------
 // Image Hash Calculation
 // -----------------------------------------------------------------------------
@@ -33,24 +60,45 @@ export function calculateImageHash(imageData: string): string {
   return createHash('sha256').update(imageData).digest('hex');
 }
 
+/**
+ * Calculate a combined hash over an ordered set of images
+ * A single image hashes the same as calculateImageHash so existing cache entries stay valid
+ */
+export function calculateImageSetHash(images: string[]): string {
+  if (images.length === 1) {
+    return calculateImageHash(images[0]);
+  }
+
+  const combined = images.map((data) => calculateImageHash(data)).join(':');
+  return createHash('sha256').update(`set:${combined}`).digest('hex');
+}
+
 // -----------------------------------------------------------------------------
 // Result Caching
 // -----------------------------------------------------------------------------
 
 /**
  * Get cached result for an image
+ * Results are cached per language and prompt version so a localized or stale
+ * result is never served for a different variant. Images with user
+ * corrections always miss.
  */
 export async function getCachedResult(
   imageHash: string,
-  mode: AnalysisMode
-): Promise<ScanResult | null> {
+  mode: AnalysisMode,
+  variant: CacheVariant = {}
+): Promise<AnalyzeResult | null> {
   if (!config.features.enableImageCaching) {
     return null;
   }
 
   try {
-    const key = KEYS.imageCache(imageHash, mode);
-    const cached = await redis.get<ScanResult>(key);
+    if (await isImageCorrected(imageHash)) {
+      return null;
+    }
+
+    const key = KEYS.imageCache(imageHash, mode, variant);
+    const cached = await redis.get<AnalyzeResult>(key);
 
     if (cached) {
       // Increment hit counter
@@ -59,6 +107,7 @@ export async function getCachedResult(
       logger.debug('Cache hit', {
         image_hash: imageHash.substring(0, 16),
         mode,
+        ...variant,
       });
 
       return cached;
@@ -79,14 +128,19 @@ export async function getCachedResult(
 export async function cacheResult(
   imageHash: string,
   mode: AnalysisMode,
-  result: ScanResult
+  result: AnalyzeResult,
+  variant: CacheVariant = {}
 ): Promise<boolean> {
   if (!config.features.enableImageCaching) {
     return false;
   }
 
   try {
-    const key = KEYS.imageCache(imageHash, mode);
+    if (await isImageCorrected(imageHash)) {
+      return false;
+    }
+
+    const key = KEYS.imageCache(imageHash, mode, variant);
     const ttlSeconds = config.cache.imageTtlDays * 24 * 60 * 60;
 
     await redis.set(key, result, ttlSeconds);
@@ -123,10 +177,10 @@ export async function getCacheHitCount(imageHash: string): Promise<number> {
  */
 export async function getIdempotentResult(
   requestId: string
-): Promise<ScanResult | null> {
+): Promise<AnalyzeResult | null> {
   try {
     const key = KEYS.idempotency(requestId);
-    return await redis.get<ScanResult>(key);
+    return await redis.get<AnalyzeResult>(key);
   } catch (error) {
     logger.error('Idempotency check failed', {
       request_id: requestId,
@@ -141,7 +195,7 @@ export async function getIdempotentResult(
  */
 export async function setIdempotentResult(
   requestId: string,
-  result: ScanResult
+  result: AnalyzeResult
 ): Promise<boolean> {
   try {
     const key = KEYS.idempotency(requestId);
@@ -176,13 +230,16 @@ export async function isRequestProcessed(requestId: string): Promise<boolean> {
 
 /**
  * Invalidate cache for a specific image
+ * Only results from the active prompts are removed; entries from older prompt
+ * versions are never read again and expire with their TTL.
  */
 export async function invalidateImageCache(imageHash: string): Promise<void> {
-  const modes: AnalysisMode[] = ['comprehensive', 'fish_id', 'coral_id', 'algae_id', 'pest_id'];
+  for (const mode of PROMPT_MODES) {
+    const { version } = await getActivePrompt(mode);
 
-  for (const mode of modes) {
-    const key = KEYS.imageCache(imageHash, mode);
-    await redis.del(key);
+    for (const language of Object.keys(SUPPORTED_LANGUAGES)) {
+      await redis.del(KEYS.imageCache(imageHash, mode, { language, promptVersion: version }));
+    }
   }
 
   await redis.del(KEYS.cacheHits(imageHash));
@@ -192,6 +249,20 @@ export async function invalidateImageCache(imageHash: string): Promise<void> {
   });
 }
 
+/**
+ * Stop caching results for an image after users corrected one
+ * The flag has no TTL: a re-analysis could repeat the same mistake, so the
+ * image is always sent to a provider from now on.
+ */
+export async function markImageCorrected(imageHash: string): Promise<void> {
+  await redis.set(KEYS.corrected(imageHash), true);
+  await invalidateImageCache(imageHash);
+}
+
+export async function isImageCorrected(imageHash: string): Promise<boolean> {
+  return redis.exists(KEYS.corrected(imageHash));
+}
+
 /**
  * Get cache statistics
  */
@@ -5,7 +5,12 @@
 
 import * as redis from './redis.service';
 import config from '../config';
-import type { CircuitState, CircuitBreakerState, CircuitBreakerConfig } from '../types';
+import type {
+  CircuitState,
+  CircuitBreakerState,
+  CircuitBreakerConfig,
+  ProviderName,
+} from '../types';
 import logger from '../utils/logger';
 
 // -----------------------------------------------------------------------------
@@ -20,10 +25,18 @@ const KEYS = {
 // Circuit Breaker Implementation
 // -----------------------------------------------------------------------------
 
+/**
+ * Get thresholds for a provider, falling back to the default settings
+ */
+function getCircuitConfig(provider: ProviderName): CircuitBreakerConfig {
+  const overrides: Record<string, CircuitBreakerConfig | undefined> = config.circuitBreaker;
+  return overrides[provider] || config.circuitBreaker.default;
+}
+
 /**
  * Get the current state of a circuit breaker
  */
-export async function getCircuitState(provider: 'gemini' | 'openai'): Promise<CircuitBreakerState> {
+export async function getCircuitState(provider: ProviderName): Promise<CircuitBreakerState> {
   const key = KEYS.circuitState(provider);
   const savedState = await redis.get<CircuitBreakerState>(key);
 
@@ -52,7 +65,7 @@ export async function getCircuitState(provider: 'gemini' | 'openai'): Promise<Ci
  * Save circuit breaker state to Redis
  */
 async function saveCircuitState(
-  provider: 'gemini' | 'openai',
+  provider: ProviderName,
   state: CircuitBreakerState
 ): Promise<void> {
   const key = KEYS.circuitState(provider);
@@ -63,9 +76,9 @@ async function saveCircuitState(
 /**
  * Check if a request should be allowed through the circuit
  */
-export async function shouldAllowRequest(provider: 'gemini' | 'openai'): Promise<boolean> {
+export async function shouldAllowRequest(provider: ProviderName): Promise<boolean> {
   const circuitState = await getCircuitState(provider);
-  const circuitConfig = config.circuitBreaker[provider];
+  const circuitConfig = getCircuitConfig(provider);
 
   switch (circuitState.state) {
     case 'CLOSED':
@@ -95,9 +108,9 @@ export async function shouldAllowRequest(provider: 'gemini' | 'openai'): Promise
 /**
  * Record a successful request
  */
-export async function recordSuccess(provider: 'gemini' | 'openai'): Promise<void> {
+export async function recordSuccess(provider: ProviderName): Promise<void> {
   const circuitState = await getCircuitState(provider);
-  const circuitConfig = config.circuitBreaker[provider];
+  const circuitConfig = getCircuitConfig(provider);
 
   switch (circuitState.state) {
     case 'CLOSED':
@@ -135,9 +148,9 @@ export async function recordSuccess(provider: 'gemini' | 'openai'): Promise<void
 /**
  * Record a failed request
  */
-export async function recordFailure(provider: 'gemini' | 'openai'): Promise<void> {
+export async function recordFailure(provider: ProviderName): Promise<void> {
   const circuitState = await getCircuitState(provider);
-  const circuitConfig = config.circuitBreaker[provider];
+  const circuitConfig = getCircuitConfig(provider);
 
   circuitState.failures++;
   circuitState.lastFailure = new Date();
@@ -170,7 +183,7 @@ export async function recordFailure(provider: 'gemini' | 'openai'): Promise<void
  * Transition circuit to a new state
  */
 async function transitionTo(
-  provider: 'gemini' | 'openai',
+  provider: ProviderName,
   newState: CircuitState,
   currentState: CircuitBreakerState,
   circuitConfig: CircuitBreakerConfig
@@ -216,7 +229,7 @@ async function transitionTo(
 /**
  * Force reset a circuit breaker (for admin/testing)
  */
-export async function resetCircuit(provider: 'gemini' | 'openai'): Promise<void> {
+export async function resetCircuit(provider: ProviderName): Promise<void> {
   const key = KEYS.circuitState(provider);
   await redis.del(key);
 
@@ -224,26 +237,21 @@ export async function resetCircuit(provider: 'gemini' | 'openai'): Promise<void>
 }
 
 /**
- * Get circuit breaker status for all providers
+ * Get circuit breaker status for all providers in the fallback chain
  */
-export async function getAllCircuitStatus(): Promise<{
-  gemini: CircuitBreakerState;
-  openai: CircuitBreakerState;
-}> {
-  const [geminiState, openaiState] = await Promise.all([
-    getCircuitState('gemini'),
-    getCircuitState('openai'),
-  ]);
-
-  return {
-    gemini: geminiState,
-    openai: openaiState,
-  };
+export async function getAllCircuitStatus(
+  providers: ProviderName[] = config.providers.order
+): Promise<Record<ProviderName, CircuitBreakerState>> {
+  const states = await Promise.all(providers.map((provider) => getCircuitState(provider)));
+
+  return Object.fromEntries(
+    providers.map((provider, index) => [provider, states[index]])
+  );
 }
 
 /**
  * Check if provider is available (circuit not open)
  */
-export async function isProviderAvailable(provider: 'gemini' | 'openai'): Promise<boolean> {
+export async function isProviderAvailable(provider: ProviderName): Promise<boolean> {
   return shouldAllowRequest(provider);
 }
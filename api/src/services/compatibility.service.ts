@@ -0,0 +1,309 @@
+// ============================================================================
+// Compatibility Service
+// Checks a species a user wants to add against the inhabitants of a tank
+// ============================================================================
+
+import config from '../config';
+import * as livestock from './livestock.service';
+import * as scans from './scan.service';
+import * as species from './species.service';
+import * as tanks from './tank.service';
+import type {
+  CompatibilityConflict,
+  CompatibilityResident,
+  CompatibilityResult,
+  ErrorCode,
+  LivestockCategory,
+  PreyGroup,
+  ResidentSource,
+  Species,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+// A species by catalog id, or by name as a user or the model wrote it
+export interface SpeciesReference {
+  species_id?: string;
+  name?: string;
+  category?: LivestockCategory;
+}
+
+export interface CompatibilityInput {
+  candidate: SpeciesReference;
+  tank_id?: string;
+  livestock?: SpeciesReference[];
+  volume_liters?: number;
+}
+
+interface Resident extends CompatibilityResident {
+  species: Species | null;
+}
+
+// Fish up to this share of a predator's size count as food
+const PREY_SIZE_RATIO = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PREY_LABELS: Record<PreyGroup, string> = {
+  small_fish: 'small fish',
+  invertebrates: 'invertebrates',
+  corals: 'corals',
+};
+
+// -----------------------------------------------------------------------------
+// Check
+// -----------------------------------------------------------------------------
+
+/**
+ * Check a candidate species against a tank and/or an explicit livestock list
+ * With a tank, its inventory and the identifications of its recent scans are
+ * used. Inhabitants the catalog does not know are listed but not checked.
+ */
+export async function checkCompatibility(
+  deviceId: string,
+  input: CompatibilityInput
+): Promise<CompatibilityResult> {
+  const candidate = resolveSpecies(input.candidate);
+  if (!candidate) {
+    throw new CompatibilityError(
+      'INVALID_REQUEST',
+      `${input.candidate.name || input.candidate.species_id} is not in the species catalog`,
+      404
+    );
+  }
+
+  const tank = input.tank_id ? await tanks.getTank(deviceId, input.tank_id) : null;
+  if (input.tank_id && !tank) {
+    throw new CompatibilityError('INVALID_REQUEST', 'Tank not found', 404);
+  }
+
+  const residents = dedupeResidents([
+    ...(tank ? await getTankResidents(tank.id) : []),
+    ...(input.livestock || []).map((reference) => toResident(reference, 'request')),
+  ]);
+
+  const volumeLiters = input.volume_liters ?? tank?.volume_liters ?? null;
+  const tankmates = residents.flatMap((resident) => (resident.species ? [resident.species] : []));
+  const conflicts = findConflicts(candidate, tankmates, volumeLiters);
+
+  logger.debug('Compatibility checked', {
+    device_id: deviceId,
+    tank_id: tank?.id,
+    candidate: candidate.id,
+    residents: residents.length,
+    conflicts: conflicts.length,
+  });
+
+  return {
+    candidate,
+    verdict: conflicts.some((conflict) => conflict.severity === 'incompatible')
+      ? 'incompatible'
+      : conflicts.length > 0
+        ? 'caution'
+        : 'compatible',
+    conflicts,
+    residents: residents.map(({ name, species_id, source }) => ({ name, species_id, source })),
+    volume_liters: volumeLiters,
+  };
+}
+
+/**
+ * Conflicts between a candidate and catalog tankmates, incompatible ones first
+ * Without a tank volume the space check is skipped.
+ */
+export function findConflicts(
+  candidate: Species,
+  tankmates: Species[],
+  volumeLiters: number | null
+): CompatibilityConflict[] {
+  const conflicts = tankmates.flatMap((tankmate) => getPairConflicts(candidate, tankmate));
+
+  if (candidate.min_tank_liters !== null && volumeLiters !== null && volumeLiters < candidate.min_tank_liters) {
+    conflicts.push({
+      type: 'space',
+      severity: 'incompatible',
+      species_id: null,
+      reason: `${candidate.common_name} needs a tank of at least ${candidate.min_tank_liters} L; this tank holds ${volumeLiters} L`,
+    });
+  }
+
+  return conflicts.sort(
+    (a, b) => Number(b.severity === 'incompatible') - Number(a.severity === 'incompatible')
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Rules
+// -----------------------------------------------------------------------------
+
+function getPairConflicts(candidate: Species, tankmate: Species): CompatibilityConflict[] {
+  const conflicts: CompatibilityConflict[] = [];
+  const conflict = (
+    type: CompatibilityConflict['type'],
+    severity: CompatibilityConflict['severity'],
+    reason: string
+  ) => conflicts.push({ type, severity, species_id: tankmate.id, reason });
+
+  // Both directions: the candidate can be the threat or the one at risk
+  const pairs: [Species, Species][] =
+    candidate.id === tankmate.id ? [[candidate, tankmate]] : [[candidate, tankmate], [tankmate, candidate]];
+
+  for (const [predator, prey] of pairs) {
+    const threat = getThreat(predator, prey);
+
+    if (threat === 'corals') {
+      conflict(
+        'reef_safety',
+        predator.reef_safe === 'no' ? 'incompatible' : 'caution',
+        `${predator.common_name} may nip at corals such as ${prey.common_name}`
+      );
+    } else if (threat) {
+      // Fish swallow their prey whole; crabs and hermits only pick off some of it
+      conflict(
+        'predation',
+        predator.category === 'fish' ? 'incompatible' : 'caution',
+        `${predator.common_name} eats ${PREY_LABELS[threat]} such as ${prey.common_name}`
+      );
+    } else if (predator.reef_safe === 'no' && prey.category !== 'fish') {
+      conflict(
+        'reef_safety',
+        'incompatible',
+        `${predator.common_name} is not reef safe and will harm ${prey.common_name}`
+      );
+    }
+  }
+
+  // Being eaten is the bigger problem than being chased
+  const predation = conflicts.some((entry) => entry.type === 'predation');
+
+  if (candidate.category === 'fish' && tankmate.category === 'fish' && !predation) {
+    const temperaments = [candidate.temperament, tankmate.temperament];
+
+    if (temperaments.includes('aggressive') && temperaments.includes('peaceful')) {
+      const [bully, victim] = candidate.temperament === 'aggressive' ? [candidate, tankmate] : [tankmate, candidate];
+      conflict(
+        'aggression',
+        'incompatible',
+        `${bully.common_name} is aggressive and will harass the peaceful ${victim.common_name}`
+      );
+    } else if (getGenus(candidate) === getGenus(tankmate) && temperaments.some((value) => value !== 'peaceful')) {
+      conflict(
+        'aggression',
+        'caution',
+        candidate.id === tankmate.id
+          ? `${candidate.common_name} often fights with its own kind; add them together in a large tank`
+          : `${candidate.common_name} and ${tankmate.common_name} are close relatives and may fight over territory`
+      );
+    }
+  }
+
+  return conflicts;
+}
+
+function getThreat(predator: Species, prey: Species): PreyGroup | null {
+  if (predator.preys_on.includes('corals') && prey.category === 'coral') {
+    return 'corals';
+  }
+  if (predator.preys_on.includes('invertebrates') && prey.category === 'invertebrate') {
+    return 'invertebrates';
+  }
+  if (
+    predator.preys_on.includes('small_fish') &&
+    prey.category === 'fish' &&
+    predator.max_size_cm !== null &&
+    prey.max_size_cm !== null &&
+    prey.max_size_cm <= predator.max_size_cm * PREY_SIZE_RATIO
+  ) {
+    return 'small_fish';
+  }
+  return null;
+}
+
+function getGenus(entry: Species): string {
+  return entry.scientific_name.split(' ')[0].toLowerCase();
+}
+
+// -----------------------------------------------------------------------------
+// Residents
+// -----------------------------------------------------------------------------
+
+/**
+ * Inventory entries and confident identifications of recent scans
+ */
+async function getTankResidents(tankId: string): Promise<Resident[]> {
+  const since = new Date(Date.now() - config.compatibility.recentScanDays * DAY_MS);
+
+  const [items, identifications] = await Promise.all([
+    livestock.listLivestock(tankId),
+    scans.getRecentIdentifications(tankId, since),
+  ]);
+
+  const sightings = identifications.filter(
+    (identification) =>
+      ['fish', 'coral', 'invertebrate'].includes(identification.category) &&
+      identification.confidence >= config.livestock.minConfidence
+  );
+
+  return [
+    ...items.map((item) => toResident({ name: item.name, category: item.category }, 'inventory')),
+    ...sightings.map((identification) =>
+      toResident(
+        {
+          species_id: identification.species_id ?? undefined,
+          name: identification.name,
+          category: identification.category as LivestockCategory,
+        },
+        'scan'
+      )
+    ),
+  ];
+}
+
+function resolveSpecies(reference: SpeciesReference): Species | null {
+  const byId = reference.species_id ? species.getSpecies(reference.species_id) : null;
+  if (byId || !reference.name) {
+    return byId;
+  }
+  return species.matchSpecies(reference.name, reference.category)?.species || null;
+}
+
+function toResident(reference: SpeciesReference, source: ResidentSource): Resident {
+  const match = resolveSpecies(reference);
+  return {
+    name: reference.name || match?.common_name || reference.species_id || '',
+    species_id: match?.id ?? null,
+    species: match,
+    source,
+  };
+}
+
+// One entry per species, or per name when the catalog does not know it
+function dedupeResidents(residents: Resident[]): Resident[] {
+  const seen = new Map<string, Resident>();
+  for (const resident of residents) {
+    const key = resident.species_id || `name:${species.normalizeSpeciesName(resident.name)}`;
+    if (!seen.has(key)) {
+      seen.set(key, resident);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class CompatibilityError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'CompatibilityError';
+  }
+}
@@ -0,0 +1,235 @@
+// ============================================================================
+// Digest Service
+// Weekly summary of a tank's health, built and delivered by a scheduled job
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import * as health from './health.service';
+import * as notifications from './notification.service';
+import * as scans from './scan.service';
+import { normalizeSpeciesName } from './species.service';
+import type {
+  HealthScore,
+  HealthTrendDirection,
+  Identification,
+  Notification,
+  RecurringProblem,
+  StoredScanResult,
+  Tank,
+  WeeklyDigest,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type DigestTank = Pick<Tank, 'id' | 'device_id' | 'name'>;
+
+export interface DigestRunSummary {
+  tanks: number;
+  sent: number;
+  // No push token, or digests turned off
+  skipped: number;
+  failed: number;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SEVERITY_ORDER: Identification['severity'][] = [null, 'low', 'medium', 'high'];
+
+// -----------------------------------------------------------------------------
+// Digest
+// -----------------------------------------------------------------------------
+
+/**
+ * Summarize the week up to now: scores against the week before, problems seen
+ * in more than one scan and the recommendations made most often
+ */
+export async function buildWeeklyDigest(
+  tank: Pick<Tank, 'id' | 'name'>,
+  now: Date = new Date()
+): Promise<WeeklyDigest> {
+  const periodStart = new Date(now.getTime() - WEEK_MS);
+  const previousStart = new Date(now.getTime() - 2 * WEEK_MS);
+
+  const [scores, results] = await Promise.all([
+    health.getScores(tank.id, { from: previousStart, to: now, limit: 1000 }),
+    scans.getTankResults(tank.id, periodStart, now),
+  ]);
+
+  const current = scores.filter((entry) => entry.scanned_at >= periodStart);
+  const previous = scores.filter((entry) => entry.scanned_at < periodStart);
+  const average = getAverage(current);
+  const previousAverage = getAverage(previous);
+  const change =
+    average !== null && previousAverage !== null ? Math.round((average - previousAverage) * 10) / 10 : null;
+
+  return {
+    tank_id: tank.id,
+    tank_name: tank.name,
+    period_start: periodStart,
+    period_end: now,
+    scan_count: results.length,
+    score: {
+      latest: current.length > 0 ? current[current.length - 1].score : null,
+      average,
+      previous_average: previousAverage,
+      change,
+    },
+    trend: change === null ? null : getTrendDirection(change),
+    recurring_problems: findRecurringProblems(results),
+    top_recommendations: findTopRecommendations(results, config.health.digestRecommendations),
+  };
+}
+
+/**
+ * Problems seen in at least two scans, most frequent first
+ * Results are newest first; the newest name of each problem is kept.
+ */
+export function findRecurringProblems(results: StoredScanResult[]): RecurringProblem[] {
+  const problems = new Map<string, RecurringProblem>();
+
+  for (const result of results) {
+    const seen = new Set<string>();
+
+    for (const identification of result.identifications.filter((entry) => entry.is_problem)) {
+      const key = `${identification.category}:${normalizeSpeciesName(identification.name)}`;
+      const problem = problems.get(key) || {
+        name: identification.name,
+        category: identification.category,
+        occurrences: 0,
+        max_severity: null,
+      };
+
+      if (!seen.has(key)) {
+        seen.add(key);
+        problem.occurrences += 1;
+      }
+      if (SEVERITY_ORDER.indexOf(identification.severity) > SEVERITY_ORDER.indexOf(problem.max_severity)) {
+        problem.max_severity = identification.severity;
+      }
+      problems.set(key, problem);
+    }
+  }
+
+  return Array.from(problems.values())
+    .filter((problem) => problem.occurrences >= 2)
+    .sort(
+      (a, b) =>
+        b.occurrences - a.occurrences ||
+        SEVERITY_ORDER.indexOf(b.max_severity) - SEVERITY_ORDER.indexOf(a.max_severity)
+    );
+}
+
+/**
+ * Recommendations made most often, ties going to the most recent
+ */
+export function findTopRecommendations(results: StoredScanResult[], limit: number): string[] {
+  const counts = new Map<string, { text: string; count: number; order: number }>();
+
+  results
+    .flatMap((result) => result.recommendations)
+    .forEach((text, order) => {
+      const key = text.trim().toLowerCase().replace(/[.!]+$/, '');
+      const entry = counts.get(key) || { text: text.trim(), count: 0, order };
+      entry.count += 1;
+      counts.set(key, entry);
+    });
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.order - b.order)
+    .slice(0, limit)
+    .map((entry) => entry.text);
+}
+
+// -----------------------------------------------------------------------------
+// Scheduled Job
+// -----------------------------------------------------------------------------
+
+/**
+ * Build and send the digest of every tank scanned in the past week
+ * A tank that fails is logged and skipped so the others still get theirs.
+ */
+export async function runWeeklyDigests(now: Date = new Date()): Promise<DigestRunSummary> {
+  const since = new Date(now.getTime() - WEEK_MS).toISOString();
+
+  const result = await sql<DigestTank>`
+    SELECT id, device_id, name
+    FROM tanks
+    WHERE id IN (
+      SELECT DISTINCT tank_id
+      FROM tank_health_scores
+      WHERE scanned_at >= ${since}
+    )
+  `;
+
+  const summary: DigestRunSummary = { tanks: result.rows.length, sent: 0, skipped: 0, failed: 0 };
+
+  for (const tank of result.rows) {
+    try {
+      const digest = await buildWeeklyDigest(tank, now);
+      const status = await notifications.notify(toNotification(tank, digest));
+      summary[status === 'sent' ? 'sent' : 'skipped'] += 1;
+    } catch (error) {
+      summary.failed += 1;
+      logger.error('Failed to send weekly digest', {
+        tank_id: tank.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  logger.info('Weekly digests sent', { ...summary });
+
+  return summary;
+}
+
+/**
+ * Short message for a digest; the full digest goes in the data
+ */
+export function toNotification(tank: DigestTank, digest: WeeklyDigest): Notification {
+  const parts: string[] = [];
+
+  if (digest.score.latest !== null) {
+    const change =
+      digest.score.change !== null && digest.trend !== 'stable'
+        ? ` (${digest.trend === 'improving' ? 'up' : 'down'} ${Math.abs(Math.round(digest.score.change))} on last week)`
+        : '';
+    parts.push(`Health score ${digest.score.latest}${change}.`);
+  }
+  if (digest.recurring_problems.length > 0) {
+    parts.push(`Keeps showing up: ${digest.recurring_problems.map((problem) => problem.name).join(', ')}.`);
+  }
+  if (digest.top_recommendations.length > 0) {
+    parts.push(`Top tip: ${digest.top_recommendations[0]}`);
+  }
+
+  return {
+    device_id: tank.device_id,
+    category: 'weekly_digest',
+    title: `${tank.name}: your week in review`,
+    body: parts.join(' ') || `No scans of ${tank.name} this week.`,
+    data: { digest },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function getAverage(scores: HealthScore[]): number | null {
+  if (scores.length === 0) {
+    return null;
+  }
+  const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+  return Math.round((total / scores.length) * 10) / 10;
+}
+
+function getTrendDirection(change: number): HealthTrendDirection {
+  if (Math.abs(change) < config.health.stableScoreChange) {
+    return 'stable';
+  }
+  return change > 0 ? 'improving' : 'declining';
+}
@@ -0,0 +1,311 @@
+// ============================================================================
+// Prompt Experiment Service
+// Deterministic A/B splits between prompt versions
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { sql } from '../db';
+import * as redis from './redis.service';
+import * as prompts from './prompt.service';
+import type {
+  ActivePrompt,
+  AnalysisMode,
+  ErrorCode,
+  ExperimentStatus,
+  ExperimentVariant,
+  PromptExperiment,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Redis Key Patterns
+// -----------------------------------------------------------------------------
+
+const KEYS = {
+  // Running experiment for a mode (or none)
+  runningExperiment: (mode: string) => `experiment:running:${mode}`,
+};
+
+// Cache TTL in seconds; start/stop clear the key immediately
+const CACHE_TTL = 60;
+
+// -----------------------------------------------------------------------------
+// Prompt Resolution
+// -----------------------------------------------------------------------------
+
+export interface ResolvedPrompt {
+  prompt: ActivePrompt;
+  experimentId?: number;
+}
+
+/**
+ * Get the prompt a device should use for a mode
+ * Devices in a running experiment get their bucketed variant; everyone else
+ * gets the active prompt. If a variant's version has gone missing the active
+ * prompt is used and the request is not attributed to the experiment.
+ */
+export async function resolvePrompt(
+  mode: AnalysisMode,
+  deviceId: string
+): Promise<ResolvedPrompt> {
+  const experiment = await getRunningExperiment(mode);
+
+  if (experiment) {
+    const variant = assignVariant(experiment, deviceId);
+    const prompt = await prompts.getPromptByVersion(mode, variant.version);
+
+    if (prompt) {
+      return { prompt, experimentId: experiment.id };
+    }
+
+    logger.warn('Experiment variant prompt not found', {
+      experiment_id: experiment.id,
+      mode,
+      version: variant.version,
+    });
+  }
+
+  return { prompt: await prompts.getActivePrompt(mode) };
+}
+
+/**
+ * Pick a variant for a device
+ * Hashing the experiment id with the device id keeps a device in the same
+ * bucket for the whole experiment, while reshuffling between experiments.
+ */
+export function assignVariant(
+  experiment: Pick<PromptExperiment, 'id' | 'variants'>,
+  deviceId: string
+): ExperimentVariant {
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const hash = createHash('sha256').update(`${experiment.id}:${deviceId}`).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+
+  for (const variant of experiment.variants) {
+    if (bucket < variant.weight) {
+      return variant;
+    }
+    bucket -= variant.weight;
+  }
+
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+// -----------------------------------------------------------------------------
+// Experiment Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * Get the running experiment for a mode, if any
+ */
+export async function getRunningExperiment(mode: AnalysisMode): Promise<PromptExperiment | null> {
+  const cacheKey = KEYS.runningExperiment(mode);
+  const cached = await redis.get<{ experiment: PromptExperiment | null }>(cacheKey);
+
+  if (cached) {
+    return cached.experiment;
+  }
+
+  try {
+    const result = await sql`
+      SELECT *
+      FROM prompt_experiments
+      WHERE mode = ${mode} AND status = 'running'
+      LIMIT 1
+    `;
+
+    const experiment = result.rows.length > 0 ? toExperiment(result.rows[0]) : null;
+
+    // Cache misses too, so requests without an experiment skip the database
+    await redis.set(cacheKey, { experiment }, CACHE_TTL);
+
+    return experiment;
+  } catch (error) {
+    logger.error('Failed to get running experiment', {
+      mode,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Get an experiment by id
+ */
+export async function getExperiment(id: number): Promise<PromptExperiment | null> {
+  const result = await sql`
+    SELECT *
+    FROM prompt_experiments
+    WHERE id = ${id}
+  `;
+
+  return result.rows.length > 0 ? toExperiment(result.rows[0]) : null;
+}
+
+/**
+ * List experiments, newest first
+ */
+export async function listExperiments(mode?: AnalysisMode): Promise<PromptExperiment[]> {
+  const result = mode
+    ? await sql`
+        SELECT * FROM prompt_experiments
+        WHERE mode = ${mode}
+        ORDER BY started_at DESC
+      `
+    : await sql`
+        SELECT * FROM prompt_experiments
+        ORDER BY started_at DESC
+      `;
+
+  return result.rows.map(toExperiment);
+}
+
+// -----------------------------------------------------------------------------
+// Experiment Lifecycle (Admin)
+// -----------------------------------------------------------------------------
+
+/**
+ * Start an experiment splitting devices between two or more prompt versions
+ */
+export async function startExperiment(
+  mode: AnalysisMode,
+  variants: ExperimentVariant[],
+  startedBy: string
+): Promise<PromptExperiment> {
+  const versions = variants.map((variant) => variant.version);
+
+  if (new Set(versions).size !== versions.length) {
+    throw new ExperimentError('INVALID_REQUEST', 'Each variant must use a different prompt version', 400);
+  }
+
+  for (const version of versions) {
+    if (!(await prompts.getPromptByVersion(mode, version))) {
+      throw new ExperimentError('INVALID_REQUEST', `Prompt version ${version} not found for ${mode}`, 404);
+    }
+  }
+
+  if (await getRunningExperiment(mode)) {
+    throw new ExperimentError('INVALID_REQUEST', `An experiment is already running for ${mode}`, 409);
+  }
+
+  const result = await sql`
+    INSERT INTO prompt_experiments (mode, variants, status, started_by)
+    VALUES (${mode}, ${JSON.stringify(variants)}, 'running', ${startedBy})
+    RETURNING *
+  `;
+
+  await redis.del(KEYS.runningExperiment(mode));
+
+  const experiment = toExperiment(result.rows[0]);
+
+  logger.info('Prompt experiment started', {
+    experiment_id: experiment.id,
+    mode,
+    variants,
+    started_by: startedBy,
+  });
+
+  return experiment;
+}
+
+/**
+ * Stop a running experiment; devices go back to the active prompt
+ */
+export async function stopExperiment(id: number, stoppedBy: string): Promise<PromptExperiment> {
+  return finishExperiment(id, 'stopped', stoppedBy, null);
+}
+
+/**
+ * Stop a running experiment and activate one of its variants for everyone
+ */
+export async function promoteExperiment(
+  id: number,
+  version: number,
+  promotedBy: string
+): Promise<PromptExperiment> {
+  const experiment = await getExperiment(id);
+
+  if (experiment && !experiment.variants.some((variant) => variant.version === version)) {
+    throw new ExperimentError('INVALID_REQUEST', `Version ${version} is not a variant of this experiment`, 400);
+  }
+
+  const finished = await finishExperiment(id, 'promoted', promotedBy, version);
+  await prompts.activatePromptVersion(finished.mode, version, promotedBy, 'promote');
+
+  return finished;
+}
+
+async function finishExperiment(
+  id: number,
+  status: Exclude<ExperimentStatus, 'running'>,
+  changedBy: string,
+  promotedVersion: number | null
+): Promise<PromptExperiment> {
+  const experiment = await getExperiment(id);
+
+  if (!experiment) {
+    throw new ExperimentError('INVALID_REQUEST', 'Experiment not found', 404);
+  }
+
+  if (experiment.status !== 'running') {
+    throw new ExperimentError('INVALID_REQUEST', `Experiment is already ${experiment.status}`, 409);
+  }
+
+  const result = await sql`
+    UPDATE prompt_experiments
+    SET status = ${status},
+        stopped_by = ${changedBy},
+        stopped_at = NOW(),
+        promoted_version = ${promotedVersion}
+    WHERE id = ${id}
+    RETURNING *
+  `;
+
+  await redis.del(KEYS.runningExperiment(experiment.mode));
+
+  logger.info('Prompt experiment finished', {
+    experiment_id: id,
+    mode: experiment.mode,
+    status,
+    promoted_version: promotedVersion,
+    changed_by: changedBy,
+  });
+
+  return result.rows.length > 0 ? toExperiment(result.rows[0]) : { ...experiment, status };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toExperiment(row: Record<string, unknown>): PromptExperiment {
+  return {
+    id: row.id as number,
+    mode: row.mode as AnalysisMode,
+    variants: (typeof row.variants === 'string'
+      ? JSON.parse(row.variants)
+      : row.variants) as ExperimentVariant[],
+    status: row.status as ExperimentStatus,
+    started_by: row.started_by as string,
+    started_at: new Date(row.started_at as string),
+    stopped_by: row.stopped_by as string | null,
+    stopped_at: row.stopped_at ? new Date(row.stopped_at as string) : null,
+    promoted_version: row.promoted_version as number | null,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class ExperimentError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'ExperimentError';
+  }
+}
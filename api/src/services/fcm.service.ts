@@ -0,0 +1,199 @@
+// ============================================================================
+// FCM Service
+// Push delivery through the Firebase Cloud Messaging HTTP v1 API
+// ============================================================================
+
+import jwt from 'jsonwebtoken';
+import config, { FcmServiceAccount } from '../config';
+import type { NotificationTransport } from './notification.service';
+import type { PushMessage, PushSendResult } from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface FcmErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: { '@type'?: string; errorCode?: string }[];
+  };
+}
+
+interface AccessToken {
+  clientEmail: string;
+  token: string;
+  expiresAt: number;
+}
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+// Refresh the access token this long before Google expires it
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// FCM error codes that mean the token will never work again
+const INVALID_TOKEN_CODES = ['UNREGISTERED', 'SENDER_ID_MISMATCH'];
+
+let cachedToken: AccessToken | null = null;
+
+// -----------------------------------------------------------------------------
+// Transport
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a transport that sends through FCM with a service account
+ */
+export function createFcmTransport(
+  account: FcmServiceAccount | null = config.notifications.fcm.serviceAccount
+): NotificationTransport {
+  return {
+    name: 'fcm',
+    send: async (message) => {
+      if (!account) {
+        throw new FcmError('NOT_CONFIGURED', 'FCM_SERVICE_ACCOUNT is not set');
+      }
+
+      const accessToken = await getAccessToken(account);
+      const response = await fetch(
+        `https://fcm.googleapis.com/v1/projects/${account.projectId}/messages:send`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ message: buildFcmMessage(message) }),
+          signal: AbortSignal.timeout(config.notifications.fcm.timeoutMs),
+        }
+      );
+
+      if (response.ok) {
+        return { status: 'sent' };
+      }
+
+      const data = (await response.json().catch(() => ({}))) as FcmErrorResponse;
+      return toSendResult(response.status, data);
+    },
+  };
+}
+
+/**
+ * The FCM message for a push; data values must be strings, so anything
+ * else is sent as JSON
+ */
+export function buildFcmMessage(message: PushMessage): Record<string, unknown> {
+  const data = Object.fromEntries(
+    Object.entries({ category: message.category, ...message.data }).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value),
+    ])
+  );
+
+  return {
+    token: message.token,
+    notification: { title: message.title, body: message.body },
+    data,
+    android: { priority: 'high', notification: { channel_id: message.category } },
+    apns: { payload: { aps: { 'thread-id': message.category } } },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Tell a dead token apart from other failures
+ * FCM answers UNREGISTERED for uninstalled apps and INVALID_ARGUMENT for
+ * tokens that were never valid.
+ */
+function toSendResult(httpStatus: number, data: FcmErrorResponse): PushSendResult {
+  const message = data.error?.message || `HTTP ${httpStatus}`;
+  const errorCode = data.error?.details?.find((detail) => detail.errorCode)?.errorCode;
+
+  const invalidToken =
+    (errorCode !== undefined && INVALID_TOKEN_CODES.includes(errorCode)) ||
+    (data.error?.status === 'INVALID_ARGUMENT' && /registration token/i.test(message));
+
+  return { status: invalidToken ? 'invalid_token' : 'failed', error: message };
+}
+
+/**
+ * OAuth access token for the service account, cached until shortly before it expires
+ */
+async function getAccessToken(account: FcmServiceAccount): Promise<string> {
+  if (
+    cachedToken &&
+    cachedToken.clientEmail === account.clientEmail &&
+    cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+  ) {
+    return cachedToken.token;
+  }
+
+  const assertion = jwt.sign({ scope: SCOPE }, account.privateKey, {
+    algorithm: 'RS256',
+    issuer: account.clientEmail,
+    audience: TOKEN_URL,
+    expiresIn: 3600,
+  });
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }).toString(),
+    signal: AbortSignal.timeout(config.notifications.fcm.timeoutMs),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as {
+    access_token?: string;
+    expires_in?: number;
+    error_description?: string;
+  };
+
+  if (!response.ok || !data.access_token) {
+    throw new FcmError(
+      'AUTH_FAILED',
+      data.error_description || `Access token request failed with HTTP ${response.status}`,
+      response.status
+    );
+  }
+
+  cachedToken = {
+    clientEmail: account.clientEmail,
+    token: data.access_token,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+  };
+
+  logger.debug('FCM access token refreshed', { client_email: account.clientEmail });
+
+  return cachedToken.token;
+}
+
+/**
+ * Forget the cached access token
+ */
+export function resetAccessToken(): void {
+  cachedToken = null;
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class FcmError extends Error {
+  code: string;
+  statusCode?: number;
+
+  constructor(code: string, message: string, statusCode?: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'FcmError';
+  }
+}
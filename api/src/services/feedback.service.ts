@@ -0,0 +1,192 @@
+// ============================================================================
+// Feedback Service
+// User ratings and identification corrections for analysis results
+// ============================================================================
+
+import { sql } from '../db';
+import * as cache from './cache.service';
+import * as livestock from './livestock.service';
+import type {
+  AnalysisFeedback,
+  AnalysisMode,
+  ErrorCode,
+  IdentificationFeedback,
+  StoredScanResult,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface FeedbackInput {
+  rating?: number;
+  identifications: IdentificationFeedback[];
+  comment?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Feedback Submission
+// -----------------------------------------------------------------------------
+
+/**
+ * Store feedback for one of the device's analysis requests
+ * Submitting again replaces the earlier feedback. Corrections (incorrect or
+ * renamed verdicts) stop the image's cached result from being served; correct
+ * and renamed verdicts on a scan of a tank go to its livestock.
+ */
+export async function submitFeedback(
+  requestId: string,
+  deviceId: string,
+  input: FeedbackInput
+): Promise<AnalysisFeedback> {
+  const logResult = await sql<{
+    device_id: string;
+    image_hash: string | null;
+    mode: string;
+    status: string;
+    identification_count: number | null;
+    tank_id: string | null;
+    result: StoredScanResult | string | null;
+    created_at: string;
+  }>`
+    SELECT device_id, image_hash, mode, status, identification_count, tank_id, result, created_at
+    FROM request_logs
+    WHERE request_id = ${requestId}
+  `;
+
+  const log = logResult.rows[0];
+
+  // Requests from other devices are reported as missing
+  if (!log || log.device_id !== deviceId) {
+    throw new FeedbackError('INVALID_REQUEST', 'Request not found', 404);
+  }
+
+  if (log.status === 'error') {
+    throw new FeedbackError('INVALID_REQUEST', 'Failed requests have no result to review', 409);
+  }
+
+  const count = log.identification_count;
+  const outOfRange = input.identifications.find((item) => count !== null && item.index >= count);
+  if (outOfRange) {
+    throw new FeedbackError(
+      'INVALID_REQUEST',
+      `identification index ${outOfRange.index} is out of range for this result`,
+      400
+    );
+  }
+
+  const hasCorrections = input.identifications.some((item) => item.verdict !== 'correct');
+
+  const result = await sql`
+    INSERT INTO analysis_feedback (
+      request_id, device_id, image_hash, mode, rating,
+      identifications, has_corrections, comment
+    ) VALUES (
+      ${requestId},
+      ${deviceId},
+      ${log.image_hash},
+      ${log.mode},
+      ${input.rating ?? null},
+      ${JSON.stringify(input.identifications)},
+      ${hasCorrections},
+      ${input.comment || null}
+    )
+    ON CONFLICT (request_id)
+    DO UPDATE SET
+      rating = EXCLUDED.rating,
+      identifications = EXCLUDED.identifications,
+      has_corrections = EXCLUDED.has_corrections,
+      comment = EXCLUDED.comment,
+      updated_at = NOW()
+    RETURNING *
+  `;
+
+  if (hasCorrections && log.image_hash) {
+    await cache.markImageCorrected(log.image_hash);
+  }
+
+  if (log.tank_id && log.result) {
+    updateLivestock(log.tank_id, log.result, log.created_at, input.identifications);
+  }
+
+  logger.info('Analysis feedback recorded', {
+    request_id: requestId,
+    device_id: deviceId,
+    rating: input.rating,
+    identifications: input.identifications.length,
+    has_corrections: hasCorrections,
+  });
+
+  return toFeedback(result.rows[0]);
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Add the identifications the user confirmed to the tank's livestock
+ * (async, don't wait)
+ */
+function updateLivestock(
+  tankId: string,
+  storedResult: StoredScanResult | string,
+  scannedAt: string,
+  verdicts: IdentificationFeedback[]
+): void {
+  const result = (typeof storedResult === 'string' ? JSON.parse(storedResult) : storedResult) as StoredScanResult;
+
+  const confirmed = verdicts.flatMap((item) => {
+    const identification = result.identifications[item.index];
+    if (!identification || item.verdict === 'incorrect') {
+      return [];
+    }
+    const name = item.verdict === 'renamed' && item.corrected_name ? item.corrected_name : identification.name;
+    return [{ name, category: identification.category }];
+  });
+
+  if (confirmed.length === 0) {
+    return;
+  }
+
+  livestock.recordConfirmed(tankId, confirmed, new Date(scannedAt)).catch((err) => {
+    logger.error('Failed to update livestock from feedback', {
+      tank_id: tankId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+}
+
+function toFeedback(row: Record<string, unknown>): AnalysisFeedback {
+  return {
+    id: row.id as number,
+    request_id: row.request_id as string,
+    device_id: row.device_id as string,
+    image_hash: row.image_hash as string | null,
+    mode: row.mode as AnalysisMode,
+    rating: row.rating as number | null,
+    identifications: (typeof row.identifications === 'string'
+      ? JSON.parse(row.identifications)
+      : row.identifications) as IdentificationFeedback[],
+    comment: row.comment as string | null,
+    created_at: new Date(row.created_at as string),
+    updated_at: new Date(row.updated_at as string),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class FeedbackError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'FeedbackError';
+  }
+}
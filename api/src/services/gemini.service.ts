@@ -4,8 +4,18 @@
 // ============================================================================
 
 import config from '../config';
-import type { AnalysisMode, ScanResult, Identification } from '../types';
+import * as keyPool from './keyPool.service';
+import { buildAnalysisInstructions, buildRepairPrompt, getActivePrompt } from './prompt.service';
+import type {
+  ActivePrompt,
+  AIProvider,
+  AnalysisImage,
+  AnalysisMode,
+  AnalyzeResult,
+  ProviderAnalysisOptions,
+} from '../types';
 import logger from '../utils/logger';
+import { parseWithRepair } from '../utils/modelResponse';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -13,6 +23,7 @@ import logger from '../utils/logger';
 
 interface GeminiRequest {
   contents: Array<{
+    role?: 'user' | 'model';
     parts: Array<{
       text?: string;
       inline_data?: {
@@ -55,7 +66,8 @@ interface GeminiResponse {
 
 interface AnalysisResult {
   success: boolean;
-  result?: ScanResult;
+  result?: AnalyzeResult;
+  validationError?: string;
   tokensUsed?: {
     input: number;
     output: number;
@@ -67,90 +79,85 @@ interface AnalysisResult {
   };
 }
 
-// -----------------------------------------------------------------------------
-// Prompts
-// -----------------------------------------------------------------------------
-
-const SYSTEM_PROMPT = `You are ReefScan, an expert marine aquarium analyst AI. You analyze images of reef tanks to identify fish, coral, invertebrates, algae, and potential problems.
-
-Your analysis should be:
-- Accurate and specific (identify species when possible)
-- Practical and actionable
-- Focused on tank health and livestock welfare
-
-Always respond with valid JSON matching the requested schema.`;
-
-const MODE_PROMPTS: Record<AnalysisMode, string> = {
-  comprehensive: `Analyze this reef tank image comprehensively. Identify all visible fish, coral, invertebrates, and any potential problems like algae, pests, or health issues. Assess overall tank health.`,
-
-  fish_id: `Focus on identifying all fish visible in this reef tank image. Provide species names, health assessment, and any concerns about compatibility or behavior.`,
-
-  coral_id: `Focus on identifying all coral visible in this reef tank image. Provide species/type names, health assessment, and any signs of stress, bleaching, or disease.`,
-
-  algae_id: `Focus on identifying any algae visible in this reef tank image. Determine if it's beneficial or problematic, identify the type, and suggest remediation if needed.`,
-
-  pest_id: `Focus on identifying any pests or parasites visible in this reef tank image. Look for aiptasia, flatworms, bristleworms, red bugs, or any other common aquarium pests.`,
-};
-
-const RESPONSE_SCHEMA = `
-Respond with JSON in this exact format:
-{
-  "tank_health": "Excellent" | "Good" | "Fair" | "Needs Attention" | "Critical",
-  "summary": "Brief 1-2 sentence summary of the tank",
-  "identifications": [
-    {
-      "name": "Species or item name",
-      "category": "fish" | "coral" | "invertebrate" | "algae" | "pest" | "equipment" | "other",
-      "confidence": 0.0-1.0,
-      "is_problem": boolean,
-      "severity": "low" | "medium" | "high" | null,
-      "description": "Brief description and any concerns"
-    }
-  ],
-  "recommendations": ["List of actionable recommendations"]
-}`;
-
 // -----------------------------------------------------------------------------
 // Main Analysis Function
 // -----------------------------------------------------------------------------
 
 /**
- * Analyze an image using Gemini Vision API
+ * Analyze one or more images of a tank using Gemini Vision API
+ * Multiple images are sent as a single multimodal prompt
  */
 export async function analyzeImage(
-  imageData: string,
-  mimeType: 'image/jpeg' | 'image/png',
+  images: AnalysisImage[],
   mode: AnalysisMode,
-  apiKey: string
+  apiKey: string,
+  options: ProviderAnalysisOptions = {}
 ): Promise<AnalysisResult> {
   const startTime = Date.now();
 
   try {
-    // Build the request
-    const request = buildRequest(imageData, mimeType, mode);
+    // Build the request from the prompt chosen by the caller, or the active one
+    const prompt = options.prompt || (await getActivePrompt(mode));
+    const request = buildRequest(images, mode, prompt, options);
 
     // Make the API call
     const response = await callGeminiApi(request, apiKey);
+    const tokensUsed = {
+      input: response.usageMetadata?.promptTokenCount || 0,
+      output: response.usageMetadata?.candidatesTokenCount || 0,
+    };
 
-    // Parse the response
-    const result = parseResponse(response, mode);
+    // Validate the output, re-prompting once if it does not match the schema
+    const text = extractText(response);
+    const outcome = await parseWithRepair(text, images.length, mode, async (issues) => {
+      try {
+        const repaired = await callGeminiApi(buildRepairRequest(request, text, issues), apiKey);
+        tokensUsed.input += repaired.usageMetadata?.promptTokenCount || 0;
+        tokensUsed.output += repaired.usageMetadata?.candidatesTokenCount || 0;
+        return extractText(repaired);
+      } catch (repairError) {
+        logger.warn('Gemini repair request failed', {
+          mode,
+          error: repairError instanceof Error ? repairError.message : 'Unknown error',
+        });
+        return null;
+      }
+    });
 
     const latencyMs = Date.now() - startTime;
 
+    if (!outcome.success) {
+      logger.error('Gemini response failed validation', {
+        mode,
+        reason: outcome.reason,
+        issues: outcome.issues.slice(0, 5),
+        response_text: text.substring(0, 500),
+      });
+
+      return {
+        success: false,
+        tokensUsed,
+        error: {
+          code: outcome.reason,
+          message: 'AI response did not match the expected schema',
+        },
+      };
+    }
+
     logger.debug('Gemini analysis completed', {
       mode,
+      image_count: images.length,
       latency_ms: latencyMs,
-      tokens_input: response.usageMetadata?.promptTokenCount,
-      tokens_output: response.usageMetadata?.candidatesTokenCount,
+      tokens_input: tokensUsed.input,
+      tokens_output: tokensUsed.output,
+      repaired: Boolean(outcome.repairReason),
     });
 
     return {
       success: true,
-      result,
-      tokensUsed: {
-        input: response.usageMetadata?.promptTokenCount || 0,
-        output: response.usageMetadata?.candidatesTokenCount || 0,
-      },
+      result: outcome.result,
+      validationError: outcome.repairReason,
+      tokensUsed,
     };
   } catch (error) {
     const latencyMs = Date.now() - startTime;
@@ -187,25 +194,42 @@ export async function analyzeImage(
 // -----------------------------------------------------------------------------
 
 function buildRequest(
-  imageData: string,
-  mimeType: string,
-  mode: AnalysisMode
+  images: AnalysisImage[],
+  mode: AnalysisMode,
+  prompt: ActivePrompt,
+  options: ProviderAnalysisOptions
 ): GeminiRequest {
-  const prompt = `${SYSTEM_PROMPT}\n\n${MODE_PROMPTS[mode]}\n\n${RESPONSE_SCHEMA}`;
+  const text = [
+    prompt.systemPrompt,
+    buildAnalysisInstructions(
+      mode,
+      prompt,
+      images.length,
+      options.language,
+      options.tank,
+      options.comparison
+    ),
+  ].join('\n\n');
+
+  // Label each image so the model can reference it by index
+  const imageParts: GeminiRequest['contents'][number]['parts'] = images.flatMap((image, index) => [
+    ...(images.length > 1 ? [{ text: `Image ${index}:` }] : []),
+    {
+      inline_data: {
+        mime_type: image.mime_type,
+        data: image.data,
+      },
+    },
+  ]);
 
   return {
     contents: [
       {
         parts: [
           {
-            text: prompt,
-          },
-          {
-            inline_data: {
-              mime_type: mimeType,
-              data: imageData,
-            },
+            text,
           },
+          ...imageParts,
         ],
       },
     ],
@@ -235,6 +259,24 @@ function buildRequest(
   };
 }
 
+/**
+ * Continue the conversation with the invalid output and a request to fix it
+ */
+function buildRepairRequest(
+  original: GeminiRequest,
+  invalidOutput: string,
+  issues: string[]
+): GeminiRequest {
+  return {
+    ...original,
+    contents: [
+      { role: 'user', parts: original.contents[0].parts },
+      { role: 'model', parts: [{ text: invalidOutput }] },
+      { role: 'user', parts: [{ text: buildRepairPrompt(issues) }] },
+    ],
+  };
+}
+
 // -----------------------------------------------------------------------------
 // API Call
 // -----------------------------------------------------------------------------
@@ -279,65 +321,79 @@ async function callGeminiApi(
 // Response Parsing
 // -----------------------------------------------------------------------------
 
-function parseResponse(response: GeminiResponse, mode: AnalysisMode): ScanResult {
-  const candidate = response.candidates?.[0];
+function extractText(response: GeminiResponse): string {
+  const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
 
-  if (!candidate?.content?.parts?.[0]?.text) {
+  if (!text) {
     throw new GeminiError('INVALID_RESPONSE', 'No content in response');
   }
 
-  const text = candidate.content.parts[0].text;
+  return text;
+}
 
-  try {
-    const parsed = JSON.parse(text) as {
-      tank_health?: string;
-      summary?: string;
-      identifications?: Identification[];
-      recommendations?: string[];
-    };
+// -----------------------------------------------------------------------------
+// Provider Definition
+// -----------------------------------------------------------------------------
 
-    // Validate and normalize the response
-    return {
-      request_id: '', // Will be set by caller
-      tank_health: validateTankHealth(parsed.tank_health),
-      summary: parsed.summary || 'Analysis complete',
-      identifications: normalizeIdentifications(parsed.identifications || []),
-      recommendations: parsed.recommendations || [],
-      usage: {
-        requests_today: 0, // Will be set by caller
-        daily_limit: 0,
-        reset_at: '',
-      },
-    };
-  } catch (parseError) {
-    logger.error('Failed to parse Gemini response', {
-      mode,
-      response_text: text.substring(0, 500),
-      error: parseError instanceof Error ? parseError.message : 'Parse error',
-    });
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  // Gemini Flash list pricing
+  pricing: { input: 0.075, output: 0.30 },
 
-    throw new GeminiError('PARSE_ERROR', 'Failed to parse AI response');
-  }
-}
+  isConfigured: () => config.gemini.keys.length > 0,
 
-function validateTankHealth(health: string | undefined): ScanResult['tank_health'] {
-  const validValues = ['Excellent', 'Good', 'Fair', 'Needs Attention', 'Critical'] as const;
-  if (health && validValues.includes(health as typeof validValues[number])) {
-    return health as ScanResult['tank_health'];
-  }
-  return 'Good'; // Default
-}
+  async isAvailable() {
+    const metrics = await keyPool.getKeyPoolMetrics();
+    return metrics.available_keys > 0;
+  },
 
-function normalizeIdentifications(identifications: Identification[]): Identification[] {
-  return identifications.map((id) => ({
-    name: id.name || 'Unknown',
-    category: id.category || 'other',
-    confidence: Math.min(1, Math.max(0, id.confidence || 0.5)),
-    is_problem: Boolean(id.is_problem),
-    severity: id.is_problem ? (id.severity || 'low') : null,
-    description: id.description || '',
-  }));
-}
+  /**
+   * Analyze with a key from the pool and report the outcome back to it
+   */
+  async analyze(images, mode, requestId, options) {
+    const selectedKey = await keyPool.selectKey();
+
+    if (!selectedKey) {
+      logger.warn('No API keys available', { request_id: requestId });
+      return {
+        success: false,
+        error: {
+          code: 'NO_KEYS_AVAILABLE',
+          message: 'All API keys are in cooldown or at limit',
+        },
+      };
+    }
+
+    try {
+      const result = await analyzeImage(images, mode, selectedKey.key, options);
+
+      if (result.success && result.result) {
+        await keyPool.recordSuccess(selectedKey.id);
+      } else {
+        await keyPool.recordFailure(selectedKey.id, result.error?.statusCode);
+      }
+
+      logger.geminiCall(
+        requestId,
+        selectedKey.id,
+        0, // Latency tracked at higher level
+        result.success,
+        (result.tokensUsed?.input || 0) + (result.tokensUsed?.output || 0)
+      );
+
+      return { ...result, apiKeyId: selectedKey.id };
+    } catch (error) {
+      await keyPool.recordFailure(selectedKey.id);
+      logger.geminiCall(requestId, selectedKey.id, 0, false);
+      throw error;
+    }
+  },
+
+  async getStatusDetails() {
+    const metrics = await keyPool.getKeyPoolMetrics();
+    return { keys_available: metrics.available_keys };
+  },
+};
 
 // -----------------------------------------------------------------------------
 // Error Class
@@ -0,0 +1,129 @@
+// ============================================================================
+// Health Score Service
+// Numeric health of each scan of a tank, kept as a time series
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import type { HealthScore, StoredScanResult } from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ScoreFilters {
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+// -----------------------------------------------------------------------------
+// Scoring
+// -----------------------------------------------------------------------------
+
+/**
+ * Score a scan from 0 to 100
+ * Starts from the model's tank_health rating and takes points off for each
+ * problem by severity, weighted by how sure the model was about it.
+ */
+export function calculateHealthScore(result: StoredScanResult): number {
+  const { baseScores, severityPenalties, maxProblemPenalty } = config.health;
+
+  const penalty = result.identifications
+    .filter((identification) => identification.is_problem)
+    .reduce(
+      (sum, identification) =>
+        sum + severityPenalties[identification.severity || 'low'] * identification.confidence,
+      0
+    );
+
+  const score = baseScores[result.tank_health] - Math.min(penalty, maxProblemPenalty);
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// -----------------------------------------------------------------------------
+// Storage
+// -----------------------------------------------------------------------------
+
+/**
+ * Store the score of a scan of a tank
+ * A repeated request id keeps the first score.
+ */
+export async function recordScore(
+  tankId: string,
+  requestId: string,
+  result: StoredScanResult,
+  scannedAt: Date = new Date()
+): Promise<HealthScore> {
+  const score: HealthScore = {
+    request_id: requestId,
+    score: calculateHealthScore(result),
+    tank_health: result.tank_health,
+    problem_count: result.identifications.filter((identification) => identification.is_problem).length,
+    scanned_at: scannedAt,
+  };
+
+  await sql`
+    INSERT INTO tank_health_scores (request_id, tank_id, score, tank_health, problem_count, scanned_at)
+    VALUES (
+      ${score.request_id}, ${tankId}, ${score.score}, ${score.tank_health},
+      ${score.problem_count}, ${score.scanned_at.toISOString()}
+    )
+    ON CONFLICT (request_id) DO NOTHING
+  `;
+
+  logger.debug('Health score recorded', {
+    tank_id: tankId,
+    request_id: requestId,
+    score: score.score,
+  });
+
+  return score;
+}
+
+/**
+ * Get a tank's scores in time order, for charts
+ * When more scores match than the limit, the most recent ones are returned.
+ */
+export async function getScores(tankId: string, filters: ScoreFilters): Promise<HealthScore[]> {
+  const result = await sql`
+    SELECT *
+    FROM (
+      SELECT request_id, score, tank_health, problem_count, scanned_at
+      FROM tank_health_scores
+      WHERE tank_id = ${tankId}
+        AND (${filters.from?.toISOString() ?? null}::timestamptz IS NULL OR scanned_at >= ${filters.from?.toISOString() ?? null})
+        AND (${filters.to?.toISOString() ?? null}::timestamptz IS NULL OR scanned_at < ${filters.to?.toISOString() ?? null})
+      ORDER BY scanned_at DESC
+      LIMIT ${filters.limit}
+    ) recent
+    ORDER BY scanned_at ASC
+  `;
+
+  return result.rows.map(toHealthScore);
+}
+
+/**
+ * Remove the score of a scan deleted from history
+ */
+export async function removeScore(requestId: string): Promise<void> {
+  await sql`
+    DELETE FROM tank_health_scores
+    WHERE request_id = ${requestId}
+  `;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toHealthScore(row: Record<string, unknown>): HealthScore {
+  return {
+    request_id: row.request_id as string,
+    score: Number(row.score),
+    tank_health: row.tank_health as HealthScore['tank_health'],
+    problem_count: Number(row.problem_count),
+    scanned_at: new Date(row.scanned_at as string),
+  };
+}
@@ -0,0 +1,379 @@
+// ============================================================================
+// Analysis Job Service
+// Asynchronous analysis jobs, stored in Postgres and cached in Redis for polling
+//
+// Jobs run in the process that accepted them; there is no separate worker or
+// queue. On Vercel, waitUntil keeps the function alive after the 202 is sent
+// until the job settles. A job that is still not finished after
+// config.limits.jobTimeoutMs (the function was stopped at its max duration,
+// or the process crashed) is reported as failed when read, and the client
+// submits a new request.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { waitUntil } from '@vercel/functions';
+import { sql } from '../db';
+import * as redis from './redis.service';
+import * as analysis from './analysis.service';
+import * as notifications from './notification.service';
+import config from '../config';
+import type { AnalysisJob, AnalyzeRequest, JobStatus } from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Redis Key Patterns
+// -----------------------------------------------------------------------------
+
+const KEYS = {
+  // Job state by job id
+  job: (jobId: string) => `job:${jobId}`,
+  // Job id by request id (idempotency)
+  jobByRequest: (requestId: string) => `job:request:${requestId}`,
+};
+
+// -----------------------------------------------------------------------------
+// Job Submission
+// -----------------------------------------------------------------------------
+
+/**
+ * Submit an analysis job and start processing it in the background
+ * A repeated request_id returns the existing job instead of starting a new one,
+ * also when both submissions arrive at the same time.
+ * The tank is checked before the job is accepted, so a bad tank_id is an error
+ * of the submission rather than a failed job.
+ */
+export async function submitJob(
+  request: AnalyzeRequest,
+  context: analysis.AnalysisContext
+): Promise<{ job: AnalysisJob; isNew: boolean }> {
+  const existing = await getJobByRequestId(context.requestId);
+  if (existing) {
+    return { job: existing, isNew: false };
+  }
+
+  const tank = await analysis.resolveTank(context.device, request.tank_id);
+
+  const job: AnalysisJob = {
+    id: uuidv4(),
+    request_id: context.requestId,
+    device_id: context.device.id,
+    mode: request.mode,
+    status: 'queued',
+    result: null,
+    error: null,
+    created_at: new Date().toISOString(),
+    started_at: null,
+    completed_at: null,
+  };
+
+  // request_id is unique, so of concurrent submissions with the same request
+  // id only the one whose insert returns the row starts the job
+  const claimed = await sql`
+    INSERT INTO analysis_jobs (id, request_id, device_id, mode, status)
+    VALUES (${job.id}, ${job.request_id}, ${job.device_id}, ${job.mode}, 'queued')
+    ON CONFLICT (request_id) DO NOTHING
+    RETURNING id
+  `;
+
+  if (claimed.rows.length === 0) {
+    const claimedBy = await getJobByRequestId(context.requestId);
+    if (!claimedBy) {
+      throw new Error('Analysis job was claimed but could not be loaded');
+    }
+    return { job: claimedBy, isNew: false };
+  }
+
+  await saveJob(job);
+
+  logger.info('Analysis job queued', {
+    job_id: job.id,
+    request_id: job.request_id,
+    mode: job.mode,
+  });
+
+  // Snapshot before processing mutates the job
+  const submitted = { ...job };
+
+  // Process outside the request lifecycle so the request timeout cannot cut it
+  // short; waitUntil is a no-op outside Vercel
+  waitUntil(
+    processJob(job, request, { ...context, tank }).catch((err) => {
+      logger.error('Analysis job crashed', {
+        job_id: job.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    })
+  );
+
+  return { job: submitted, isNew: true };
+}
+
+// -----------------------------------------------------------------------------
+// Job Processing
+// -----------------------------------------------------------------------------
+
+/**
+ * Run a queued job to completion and record the outcome
+ */
+export async function processJob(
+  job: AnalysisJob,
+  request: AnalyzeRequest,
+  context: analysis.AnalysisContext
+): Promise<AnalysisJob> {
+  const started = await updateJob(job, {
+    status: 'running',
+    started_at: new Date().toISOString(),
+  });
+  if (!started) {
+    return job;
+  }
+
+  let finished: boolean;
+
+  try {
+    const result = await analysis.runAnalysis(request, context);
+
+    finished = await updateJob(job, {
+      status: 'succeeded',
+      result,
+      completed_at: new Date().toISOString(),
+    });
+
+    logger.info('Analysis job succeeded', {
+      job_id: job.id,
+      request_id: job.request_id,
+    });
+  } catch (error) {
+    const jobError =
+      error instanceof analysis.AnalysisError
+        ? { code: error.code, message: error.message }
+        : { code: 'INTERNAL_ERROR' as const, message: 'An unexpected error occurred' };
+
+    finished = await updateJob(job, {
+      status: 'failed',
+      error: jobError,
+      completed_at: new Date().toISOString(),
+    });
+
+    logger.error('Analysis job failed', {
+      job_id: job.id,
+      request_id: job.request_id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  if (!finished) {
+    // Expired while the analysis ran; the device was already told it failed
+    logger.warn('Analysis job finished after it expired', {
+      job_id: job.id,
+      request_id: job.request_id,
+    });
+    return job;
+  }
+
+  notifyJobFinished(job);
+
+  return job;
+}
+
+/**
+ * Tell the device its job finished, in case the app was closed meanwhile
+ * (async, don't wait)
+ */
+function notifyJobFinished(job: AnalysisJob): void {
+  const succeeded = job.status === 'succeeded';
+
+  notifications
+    .notify({
+      device_id: job.device_id,
+      category: 'job_complete',
+      title: succeeded ? 'Your scan is ready' : 'Your scan could not be analyzed',
+      body: succeeded ? 'Tap to see the results.' : job.error?.message || 'Please try again.',
+      data: { job_id: job.id, request_id: job.request_id, status: job.status },
+    })
+    .catch((err) => {
+      logger.error('Failed to send job notification', {
+        job_id: job.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    });
+}
+
+// -----------------------------------------------------------------------------
+// Job Retrieval
+// -----------------------------------------------------------------------------
+
+/**
+ * Get a job by id, falling back to Postgres when Redis has expired it
+ */
+export async function getJob(jobId: string): Promise<AnalysisJob | null> {
+  const cached = await redis.get<AnalysisJob>(KEYS.job(jobId));
+  if (cached) {
+    return expireIfStale(cached);
+  }
+
+  const stored = await loadJob(jobId);
+  return stored ? expireIfStale(stored) : null;
+}
+
+/**
+ * Get a job by the request id it was submitted with
+ */
+export async function getJobByRequestId(requestId: string): Promise<AnalysisJob | null> {
+  const jobId = await redis.get<string>(KEYS.jobByRequest(requestId));
+  if (jobId) {
+    return getJob(jobId);
+  }
+
+  try {
+    const result = await sql`
+      SELECT * FROM analysis_jobs WHERE request_id = ${requestId}
+    `;
+
+    return result.rows.length > 0 ? await expireIfStale(mapRowToJob(result.rows[0])) : null;
+  } catch (error) {
+    logger.error('Failed to load analysis job by request id', {
+      request_id: requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Check whether a job is finished
+ */
+export function isTerminal(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed';
+}
+
+/**
+ * Fail a job that should have finished long ago
+ * Its process was most likely frozen or stopped, so it would stay queued or
+ * running forever and the client would never stop polling.
+ */
+async function expireIfStale(job: AnalysisJob, now: Date = new Date()): Promise<AnalysisJob> {
+  if (isTerminal(job.status)) {
+    return job;
+  }
+  if (now.getTime() - new Date(job.created_at).getTime() < config.limits.jobTimeoutMs) {
+    return job;
+  }
+
+  const expired = await updateJob(job, {
+    status: 'failed',
+    error: { code: 'AI_UNAVAILABLE', message: 'The analysis did not finish in time. Please try again.' },
+    completed_at: now.toISOString(),
+  });
+  if (!expired) {
+    // Finished since the cached copy was written
+    return (await loadJob(job.id)) ?? job;
+  }
+
+  logger.warn('Analysis job expired', {
+    job_id: job.id,
+    request_id: job.request_id,
+    created_at: job.created_at,
+  });
+
+  notifyJobFinished(job);
+
+  return job;
+}
+
+// -----------------------------------------------------------------------------
+// Persistence Helpers
+// -----------------------------------------------------------------------------
+
+async function saveJob(job: AnalysisJob): Promise<void> {
+  const ttlSeconds = config.cache.jobTtlHours * 60 * 60;
+
+  await Promise.all([
+    redis.set(KEYS.job(job.id), job, ttlSeconds),
+    redis.set(KEYS.jobByRequest(job.request_id), job.id, ttlSeconds),
+  ]);
+}
+
+async function loadJob(jobId: string): Promise<AnalysisJob | null> {
+  try {
+    const result = await sql`
+      SELECT * FROM analysis_jobs WHERE id = ${jobId}
+    `;
+
+    return result.rows.length > 0 ? mapRowToJob(result.rows[0]) : null;
+  } catch (error) {
+    logger.error('Failed to load analysis job', {
+      job_id: jobId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Apply a change to a job that has not finished yet
+ * Returns false, leaving the job and Redis untouched, when it had finished
+ * already: a late result must not replace the failure of an expired job.
+ */
+async function updateJob(
+  job: AnalysisJob,
+  changes: Partial<Pick<AnalysisJob, 'status' | 'result' | 'error' | 'started_at' | 'completed_at'>>
+): Promise<boolean> {
+  const next = { ...job, ...changes };
+
+  try {
+    const result = await sql`
+      UPDATE analysis_jobs
+      SET status = ${next.status},
+          result = ${next.result ? JSON.stringify(next.result) : null},
+          error_code = ${next.error?.code || null},
+          error_message = ${next.error?.message || null},
+          started_at = ${next.started_at},
+          completed_at = ${next.completed_at}
+      WHERE id = ${job.id} AND status IN ('queued', 'running')
+      RETURNING id
+    `;
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+  } catch (error) {
+    // Still record the change in Redis so polling clients see the outcome
+    logger.error('Failed to update analysis job', {
+      job_id: job.id,
+      status: next.status,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  Object.assign(job, changes);
+  await saveJob(job);
+
+  return true;
+}
+
+/**
+ * Map database row to AnalysisJob type
+ */
+function mapRowToJob(row: Record<string, unknown>): AnalysisJob {
+  const toIso = (value: unknown): string | null =>
+    value ? new Date(value as string).toISOString() : null;
+
+  return {
+    id: row.id as string,
+    request_id: row.request_id as string,
+    device_id: row.device_id as string,
+    mode: row.mode as AnalysisJob['mode'],
+    status: row.status as JobStatus,
+    result: (row.result as AnalysisJob['result']) || null,
+    error: row.error_code
+      ? {
+          code: row.error_code as NonNullable<AnalysisJob['error']>['code'],
+          message: (row.error_message as string) || '',
+        }
+      : null,
+    created_at: toIso(row.created_at) || new Date().toISOString(),
+    started_at: toIso(row.started_at),
+    completed_at: toIso(row.completed_at),
+  };
+}
@@ -0,0 +1,328 @@
+// ============================================================================
+// Livestock Service
+// Per-tank inventory of fish, corals and inverts kept up to date from scans
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import type {
+  AnalysisMode,
+  ErrorCode,
+  Identification,
+  LivestockCategory,
+  LivestockItem,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface LivestockInput {
+  name: string;
+  category: LivestockCategory;
+  count?: number;
+  notes?: string | null;
+}
+
+// An identification the user marked correct, under the name they confirmed
+export interface ConfirmedIdentification {
+  name: string;
+  category: string;
+}
+
+// Categories each mode looks for; a scan only counts as a miss for these
+const SCANNED_CATEGORIES: Record<AnalysisMode, LivestockCategory[]> = {
+  comprehensive: ['fish', 'coral', 'invertebrate'],
+  fish_id: ['fish'],
+  coral_id: ['coral'],
+  algae_id: [],
+  pest_id: [],
+  test_kit_read: [],
+  disease_dx: [],
+  scan_compare: [],
+};
+
+const LIVESTOCK_CATEGORIES: LivestockCategory[] = ['fish', 'coral', 'invertebrate'];
+
+// -----------------------------------------------------------------------------
+// Scan Updates
+// -----------------------------------------------------------------------------
+
+/**
+ * Update a tank's inventory from the identifications of one scan
+ * Scans never add entries: only identifications the user confirms are added,
+ * by recordConfirmed. Sightings the model is at least
+ * config.livestock.minConfidence sure of refresh the entries already there.
+ * Entries the scan looked for but did not find count a miss; any sighting,
+ * even an unconfident one, resets it.
+ */
+export async function recordScan(
+  tankId: string,
+  mode: AnalysisMode,
+  identifications: Identification[]
+): Promise<void> {
+  const categories = SCANNED_CATEGORIES[mode];
+  if (categories.length === 0) {
+    return;
+  }
+
+  const relevant = identifications.filter((item) =>
+    categories.includes(item.category as LivestockCategory)
+  );
+
+  const sightings = groupSightings(
+    relevant.filter((item) => item.confidence >= config.livestock.minConfidence)
+  );
+
+  for (const [normalizedName, sighting] of sightings) {
+    await sql`
+      UPDATE livestock
+      SET count = GREATEST(count, ${sighting.count}),
+          first_seen_at = COALESCE(first_seen_at, NOW()),
+          last_seen_at = NOW(),
+          sighting_count = sighting_count + 1,
+          missed_scans = 0
+      WHERE tank_id = ${tankId} AND normalized_name = ${normalizedName}
+    `;
+  }
+
+  const seenNames = Array.from(new Set(relevant.map((item) => normalizeName(item.name))));
+
+  await sql`
+    UPDATE livestock
+    SET missed_scans = CASE
+      WHEN normalized_name = ANY(${seenNames}::text[]) THEN 0
+      ELSE missed_scans + 1
+    END
+    WHERE tank_id = ${tankId}
+      AND category = ANY(${categories}::text[])
+      AND NOT (normalized_name = ANY(${Array.from(sightings.keys())}::text[]))
+  `;
+
+  logger.debug('Livestock updated from scan', {
+    tank_id: tankId,
+    mode,
+    sightings: sightings.size,
+  });
+}
+
+/**
+ * Add identifications the user confirmed in feedback on a scan
+ * Whatever the model's confidence, so unconfident or renamed sightings still
+ * reach the inventory. Feedback can be sent again, so this only widens the
+ * seen dates of existing entries and never counts another sighting.
+ */
+export async function recordConfirmed(
+  tankId: string,
+  identifications: ConfirmedIdentification[],
+  seenAt: Date
+): Promise<void> {
+  const sightings = groupSightings(
+    identifications.filter((item) => LIVESTOCK_CATEGORIES.includes(item.category as LivestockCategory))
+  );
+
+  for (const [normalizedName, sighting] of sightings) {
+    await sql`
+      INSERT INTO livestock (
+        tank_id, name, normalized_name, category, count, source,
+        first_seen_at, last_seen_at, sighting_count, missed_scans
+      ) VALUES (
+        ${tankId},
+        ${sighting.name},
+        ${normalizedName},
+        ${sighting.category},
+        ${sighting.count},
+        'scan',
+        ${seenAt.toISOString()},
+        ${seenAt.toISOString()},
+        1,
+        0
+      )
+      ON CONFLICT (tank_id, normalized_name)
+      DO UPDATE SET
+        count = GREATEST(livestock.count, EXCLUDED.count),
+        first_seen_at = LEAST(livestock.first_seen_at, EXCLUDED.first_seen_at),
+        last_seen_at = GREATEST(livestock.last_seen_at, EXCLUDED.last_seen_at)
+    `;
+  }
+
+  logger.debug('Livestock updated from feedback', {
+    tank_id: tankId,
+    confirmed: sightings.size,
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * List a tank's inventory by category and name
+ */
+export async function listLivestock(tankId: string): Promise<LivestockItem[]> {
+  const result = await sql`
+    SELECT *
+    FROM livestock
+    WHERE tank_id = ${tankId}
+    ORDER BY category, name
+  `;
+
+  return result.rows.map(toLivestockItem);
+}
+
+// -----------------------------------------------------------------------------
+// User Edits
+// -----------------------------------------------------------------------------
+
+/**
+ * Add an item the scans have not picked up
+ */
+export async function addLivestock(tankId: string, input: LivestockInput): Promise<LivestockItem> {
+  const result = await sql`
+    INSERT INTO livestock (tank_id, name, normalized_name, category, count, notes, source)
+    VALUES (
+      ${tankId},
+      ${input.name},
+      ${normalizeName(input.name)},
+      ${input.category},
+      ${input.count ?? 1},
+      ${input.notes ?? null},
+      'user'
+    )
+    ON CONFLICT (tank_id, normalized_name) DO NOTHING
+    RETURNING *
+  `;
+
+  if (result.rows.length === 0) {
+    throw new LivestockError('INVALID_REQUEST', `${input.name} is already in this tank`, 409);
+  }
+
+  return toLivestockItem(result.rows[0]);
+}
+
+/**
+ * Update some fields of an item
+ * Returns null when the item is not in the tank.
+ */
+export async function updateLivestock(
+  tankId: string,
+  livestockId: number,
+  input: Partial<LivestockInput>
+): Promise<LivestockItem | null> {
+  const existingResult = await sql`
+    SELECT *
+    FROM livestock
+    WHERE id = ${livestockId} AND tank_id = ${tankId}
+  `;
+
+  if (existingResult.rows.length === 0) {
+    return null;
+  }
+
+  const next = { ...toLivestockItem(existingResult.rows[0]), ...input };
+  const normalizedName = normalizeName(next.name);
+
+  const duplicate = await sql`
+    SELECT id
+    FROM livestock
+    WHERE tank_id = ${tankId}
+      AND normalized_name = ${normalizedName}
+      AND id <> ${livestockId}
+  `;
+
+  if (duplicate.rows.length > 0) {
+    throw new LivestockError('INVALID_REQUEST', `${next.name} is already in this tank`, 409);
+  }
+
+  const result = await sql`
+    UPDATE livestock
+    SET name = ${next.name},
+        normalized_name = ${normalizedName},
+        category = ${next.category},
+        count = ${next.count},
+        notes = ${next.notes},
+        updated_at = NOW()
+    WHERE id = ${livestockId} AND tank_id = ${tankId}
+    RETURNING *
+  `;
+
+  return result.rows.length > 0 ? toLivestockItem(result.rows[0]) : null;
+}
+
+/**
+ * Remove an item, e.g. after a loss or rehoming
+ * A later confident sighting adds it again.
+ */
+export async function removeLivestock(tankId: string, livestockId: number): Promise<boolean> {
+  const result = await sql`
+    DELETE FROM livestock
+    WHERE id = ${livestockId} AND tank_id = ${tankId}
+  `;
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Group by name so two clownfish become one entry with a count of 2
+ */
+function groupSightings(
+  items: { name: string; category: string }[]
+): Map<string, { name: string; category: LivestockCategory; count: number }> {
+  const sightings = new Map<string, { name: string; category: LivestockCategory; count: number }>();
+  for (const item of items) {
+    const key = normalizeName(item.name);
+    const existing = sightings.get(key);
+    sightings.set(key, {
+      name: existing?.name || item.name.trim(),
+      category: item.category as LivestockCategory,
+      count: (existing?.count || 0) + 1,
+    });
+  }
+  return sightings;
+}
+
+function toLivestockItem(row: Record<string, unknown>): LivestockItem {
+  const missedScans = row.missed_scans as number;
+
+  return {
+    id: row.id as number,
+    tank_id: row.tank_id as string,
+    name: row.name as string,
+    category: row.category as LivestockCategory,
+    count: row.count as number,
+    notes: row.notes as string | null,
+    source: row.source as LivestockItem['source'],
+    first_seen_at: row.first_seen_at ? new Date(row.first_seen_at as string) : null,
+    last_seen_at: row.last_seen_at ? new Date(row.last_seen_at as string) : null,
+    sighting_count: row.sighting_count as number,
+    missed_scans: missedScans,
+    status: missedScans >= config.livestock.notSeenAfterScans ? 'not_seen_recently' : 'present',
+    created_at: new Date(row.created_at as string),
+    updated_at: new Date(row.updated_at as string),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class LivestockError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'LivestockError';
+  }
+}
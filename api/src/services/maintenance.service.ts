@@ -0,0 +1,535 @@
+// ============================================================================
+// Maintenance Service
+// Recurring and one-off upkeep per tank, completion log and due reminders
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import * as notifications from './notification.service';
+import * as scans from './scan.service';
+import type {
+  ErrorCode,
+  MaintenanceCompletion,
+  MaintenanceTask,
+  MaintenanceTaskKind,
+  MaintenanceTaskStatus,
+  Notification,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TaskInput {
+  title: string;
+  kind?: MaintenanceTaskKind;
+  interval_days?: number | null;
+  due_at?: Date;
+  notes?: string | null;
+}
+
+export interface RecommendationTaskInput {
+  request_id: string;
+  index: number;
+  interval_days?: number | null;
+  due_at?: Date;
+}
+
+export interface CompletionInput {
+  completed_at?: Date;
+  note?: string | null;
+}
+
+export interface ReminderRunSummary {
+  tasks: number;
+  sent: number;
+  // No push token, or reminders turned off
+  skipped: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First match wins, so the more specific kinds come first
+const KIND_PATTERNS: [MaintenanceTaskKind, RegExp][] = [
+  ['water_change', /\bwater changes?\b/i],
+  ['filter_sock', /\bfilter (socks?|floss|pads?|rollers?)\b|\bsocks?\b/i],
+  ['dosing_refill', /\b(dos(e|es|ing)|refill|reservoir|top[- ]?off|kalkwasser|two[- ]part|all[- ]in[- ]one)\b/i],
+  ['water_test', /\b(test(s|ing)?|measure|monitor)\b/i],
+  ['equipment', /\b(skimmer|pump|powerhead|heater|light(s|ing)?|return|overflow|ato|reactor|probe|glass)\b/i],
+];
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * List a tank's tasks, soonest due first; done one-off tasks come last
+ */
+export async function listTasks(
+  tankId: string,
+  status?: MaintenanceTaskStatus,
+  now: Date = new Date()
+): Promise<MaintenanceTask[]> {
+  const result = await sql`
+    SELECT *
+    FROM maintenance_tasks
+    WHERE tank_id = ${tankId}
+    ORDER BY next_due_at ASC NULLS LAST, id ASC
+  `;
+
+  const tasks = result.rows.map((row) => toMaintenanceTask(row, now));
+  return status ? tasks.filter((task) => task.status === status) : tasks;
+}
+
+/**
+ * Get a task of the tank
+ */
+export async function getTask(tankId: string, taskId: number): Promise<MaintenanceTask | null> {
+  const result = await sql`
+    SELECT *
+    FROM maintenance_tasks
+    WHERE id = ${taskId} AND tank_id = ${tankId}
+  `;
+
+  return result.rows.length > 0 ? toMaintenanceTask(result.rows[0]) : null;
+}
+
+/**
+ * List the times a task was done, newest first
+ */
+export async function listCompletions(taskId: number, limit: number): Promise<MaintenanceCompletion[]> {
+  const result = await sql`
+    SELECT *
+    FROM maintenance_completions
+    WHERE task_id = ${taskId}
+    ORDER BY completed_at DESC
+    LIMIT ${limit}
+  `;
+
+  return result.rows.map(toMaintenanceCompletion);
+}
+
+// -----------------------------------------------------------------------------
+// User Edits
+// -----------------------------------------------------------------------------
+
+/**
+ * Add a task to the tank
+ * Without a due date the task is due now; the kind is guessed from the title
+ * when not given.
+ */
+export async function createTask(tankId: string, input: TaskInput): Promise<MaintenanceTask> {
+  await assertTaskLimit(tankId);
+
+  const result = await sql`
+    INSERT INTO maintenance_tasks (tank_id, title, kind, interval_days, next_due_at, notes, source)
+    VALUES (
+      ${tankId},
+      ${input.title},
+      ${input.kind ?? inferTaskKind(input.title)},
+      ${input.interval_days ?? null},
+      ${(input.due_at ?? new Date()).toISOString()},
+      ${input.notes ?? null},
+      'user'
+    )
+    RETURNING *
+  `;
+
+  const task = toMaintenanceTask(result.rows[0]);
+
+  logger.info('Maintenance task created', {
+    tank_id: tankId,
+    task_id: task.id,
+    kind: task.kind,
+  });
+
+  return task;
+}
+
+/**
+ * Turn one of a scan's recommendations into a task of the tank
+ * The scan has to be of this tank or of no tank. Creating the same task twice
+ * returns the first one, with created set to false.
+ */
+export async function createTaskFromRecommendation(
+  deviceId: string,
+  tankId: string,
+  input: RecommendationTaskInput
+): Promise<{ task: MaintenanceTask; created: boolean }> {
+  const scan = await scans.getScan(deviceId, input.request_id);
+  if (!scan) {
+    throw new MaintenanceError('INVALID_REQUEST', 'Scan not found', 404);
+  }
+  if (scan.tank_id !== null && scan.tank_id !== tankId) {
+    throw new MaintenanceError('INVALID_REQUEST', 'The scan is of another tank', 400);
+  }
+
+  const recommendation = scan.recommendations[input.index]?.trim();
+  if (!recommendation) {
+    throw new MaintenanceError(
+      'INVALID_REQUEST',
+      `The scan has ${scan.recommendations.length} recommendations; index ${input.index} is out of range`,
+      400
+    );
+  }
+
+  const existing = await findRecommendationTask(tankId, input.request_id, input.index);
+  if (existing) {
+    return { task: existing, created: false };
+  }
+
+  await assertTaskLimit(tankId);
+
+  const intervalDays =
+    input.interval_days !== undefined ? input.interval_days : inferIntervalDays(recommendation);
+
+  const result = await sql`
+    INSERT INTO maintenance_tasks (
+      tank_id, title, kind, interval_days, next_due_at, source, source_request_id, source_index
+    ) VALUES (
+      ${tankId},
+      ${recommendation.slice(0, 255)},
+      ${inferTaskKind(recommendation)},
+      ${intervalDays},
+      ${(input.due_at ?? new Date()).toISOString()},
+      'recommendation',
+      ${input.request_id},
+      ${input.index}
+    )
+    ON CONFLICT (tank_id, source_request_id, source_index) DO NOTHING
+    RETURNING *
+  `;
+
+  // Lost a race with the same request
+  if (result.rows.length === 0) {
+    const task = await findRecommendationTask(tankId, input.request_id, input.index);
+    if (task) {
+      return { task, created: false };
+    }
+    throw new MaintenanceError('INTERNAL_ERROR', 'Failed to create the task', 500);
+  }
+
+  const task = toMaintenanceTask(result.rows[0]);
+
+  logger.info('Maintenance task created from recommendation', {
+    tank_id: tankId,
+    task_id: task.id,
+    request_id: input.request_id,
+    kind: task.kind,
+  });
+
+  return { task, created: true };
+}
+
+/**
+ * Update some fields of a task; null clears notes or the interval
+ * Returns null when the task is not in the tank.
+ */
+export async function updateTask(
+  tankId: string,
+  taskId: number,
+  input: Partial<TaskInput>
+): Promise<MaintenanceTask | null> {
+  const existing = await getTask(tankId, taskId);
+  if (!existing) {
+    return null;
+  }
+
+  const nextDueAt = input.due_at ?? existing.next_due_at;
+
+  const result = await sql`
+    UPDATE maintenance_tasks
+    SET title = ${input.title ?? existing.title},
+        kind = ${input.kind ?? existing.kind},
+        interval_days = ${input.interval_days !== undefined ? input.interval_days : existing.interval_days},
+        next_due_at = ${nextDueAt ? nextDueAt.toISOString() : null},
+        notes = ${input.notes !== undefined ? input.notes : existing.notes},
+        updated_at = NOW()
+    WHERE id = ${taskId} AND tank_id = ${tankId}
+    RETURNING *
+  `;
+
+  return result.rows.length > 0 ? toMaintenanceTask(result.rows[0]) : null;
+}
+
+/**
+ * Remove a task and its completion log
+ */
+export async function removeTask(tankId: string, taskId: number): Promise<boolean> {
+  const result = await sql`
+    DELETE FROM maintenance_tasks
+    WHERE id = ${taskId} AND tank_id = ${tankId}
+  `;
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Log that a task was done
+ * A recurring task is next due one interval after the completion; a one-off
+ * task is done. Logging an earlier completion leaves the due date alone.
+ * Returns null when the task is not in the tank.
+ */
+export async function completeTask(
+  tankId: string,
+  taskId: number,
+  input: CompletionInput
+): Promise<{ task: MaintenanceTask; completion: MaintenanceCompletion } | null> {
+  const existing = await getTask(tankId, taskId);
+  if (!existing) {
+    return null;
+  }
+
+  const completedAt = input.completed_at ?? new Date();
+
+  const completionResult = await sql`
+    INSERT INTO maintenance_completions (task_id, completed_at, note)
+    VALUES (${taskId}, ${completedAt.toISOString()}, ${input.note ?? null})
+    RETURNING *
+  `;
+
+  const isLatest = !existing.last_completed_at || completedAt >= existing.last_completed_at;
+  const lastCompletedAt = isLatest ? completedAt : existing.last_completed_at;
+  let nextDueAt = existing.next_due_at;
+  if (isLatest) {
+    nextDueAt = existing.interval_days
+      ? new Date(completedAt.getTime() + existing.interval_days * DAY_MS)
+      : null;
+  }
+
+  const taskResult = await sql`
+    UPDATE maintenance_tasks
+    SET last_completed_at = ${lastCompletedAt ? lastCompletedAt.toISOString() : null},
+        next_due_at = ${nextDueAt ? nextDueAt.toISOString() : null},
+        updated_at = NOW()
+    WHERE id = ${taskId} AND tank_id = ${tankId}
+    RETURNING *
+  `;
+
+  logger.info('Maintenance task completed', {
+    tank_id: tankId,
+    task_id: taskId,
+    next_due_at: nextDueAt?.toISOString() ?? null,
+  });
+
+  return {
+    task: toMaintenanceTask(taskResult.rows[0]),
+    completion: toMaintenanceCompletion(completionResult.rows[0]),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Recommendation Parsing
+// -----------------------------------------------------------------------------
+
+/**
+ * Guess what kind of upkeep a piece of text describes
+ */
+export function inferTaskKind(text: string): MaintenanceTaskKind {
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'other';
+}
+
+/**
+ * Read how often a recommendation asks for something to be done
+ * Returns null for one-off advice.
+ */
+export function inferIntervalDays(text: string): number | null {
+  const every = text.match(/\bevery (\d{1,3}) (day|week|month)s?\b/i);
+  if (every) {
+    const count = Number(every[1]);
+    const unit = every[2].toLowerCase();
+    const days = unit === 'day' ? count : unit === 'week' ? count * 7 : count * 30;
+    return days > 0 ? days : null;
+  }
+
+  if (/\b(daily|every day|each day)\b/i.test(text)) {
+    return 1;
+  }
+  if (/\b(bi-?weekly|fortnightly|every (other|second) week)\b/i.test(text)) {
+    return 14;
+  }
+  if (/\b(weekly|every week|each week|once a week|per week)\b/i.test(text)) {
+    return 7;
+  }
+  if (/\b(monthly|every month|each month|once a month)\b/i.test(text)) {
+    return 30;
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Scheduled Job
+// -----------------------------------------------------------------------------
+
+/**
+ * Remind the owners of tasks that are due soon or overdue
+ * Each due date is reminded once; completing the task moves the due date and
+ * arms the next reminder. A task that fails is logged and retried next run.
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<ReminderRunSummary> {
+  const dueSoonMs = config.maintenance.dueSoonHours * 60 * 60 * 1000;
+  const dueBefore = new Date(now.getTime() + dueSoonMs).toISOString();
+
+  const result = await sql`
+    SELECT t.*, k.device_id, k.name AS tank_name
+    FROM maintenance_tasks t
+    JOIN tanks k ON k.id = t.tank_id
+    WHERE t.next_due_at IS NOT NULL
+      AND t.next_due_at <= ${dueBefore}
+      AND (t.last_reminded_at IS NULL OR t.last_reminded_at < t.next_due_at - ${config.maintenance.dueSoonHours} * INTERVAL '1 hour')
+    ORDER BY t.next_due_at ASC
+  `;
+
+  const summary: ReminderRunSummary = { tasks: result.rows.length, sent: 0, skipped: 0, failed: 0 };
+
+  for (const row of result.rows) {
+    const task = toMaintenanceTask(row, now);
+
+    try {
+      const status = await notifications.notify(
+        toReminderNotification(
+          { device_id: row.device_id as string, name: row.tank_name as string },
+          task
+        )
+      );
+      // Skipped reminders are marked too, so they wait for the next due date
+      await sql`
+        UPDATE maintenance_tasks
+        SET last_reminded_at = ${now.toISOString()}
+        WHERE id = ${task.id}
+      `;
+      summary[status === 'sent' ? 'sent' : 'skipped'] += 1;
+    } catch (error) {
+      summary.failed += 1;
+      logger.error('Failed to send maintenance reminder', {
+        task_id: task.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  logger.info('Maintenance reminders sent', { ...summary });
+
+  return summary;
+}
+
+/**
+ * Short message for a task that is due
+ */
+export function toReminderNotification(
+  tank: { device_id: string; name: string },
+  task: MaintenanceTask
+): Notification {
+  const dueDate = task.next_due_at ? task.next_due_at.toISOString().slice(0, 10) : null;
+
+  return {
+    device_id: tank.device_id,
+    category: 'maintenance_due',
+    title: `${tank.name}: ${task.title}`,
+    body: task.status === 'overdue' ? `Overdue since ${dueDate}.` : `Due ${dueDate}.`,
+    data: { task_id: task.id, tank_id: task.tank_id, kind: task.kind, status: task.status },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Where a task stands at a point in time
+ */
+export function getTaskStatus(nextDueAt: Date | null, now: Date = new Date()): MaintenanceTaskStatus {
+  if (!nextDueAt) {
+    return 'done';
+  }
+  if (nextDueAt < now) {
+    return 'overdue';
+  }
+  const dueSoonMs = config.maintenance.dueSoonHours * 60 * 60 * 1000;
+  return nextDueAt.getTime() - now.getTime() <= dueSoonMs ? 'due' : 'upcoming';
+}
+
+async function assertTaskLimit(tankId: string): Promise<void> {
+  const countResult = await sql`
+    SELECT COUNT(*) as count
+    FROM maintenance_tasks
+    WHERE tank_id = ${tankId}
+  `;
+
+  if (Number(countResult.rows[0]?.count || 0) >= config.maintenance.maxTasksPerTank) {
+    throw new MaintenanceError(
+      'INVALID_REQUEST',
+      `A tank can have at most ${config.maintenance.maxTasksPerTank} tasks`,
+      409
+    );
+  }
+}
+
+async function findRecommendationTask(
+  tankId: string,
+  requestId: string,
+  index: number
+): Promise<MaintenanceTask | null> {
+  const result = await sql`
+    SELECT *
+    FROM maintenance_tasks
+    WHERE tank_id = ${tankId}
+      AND source_request_id = ${requestId}
+      AND source_index = ${index}
+  `;
+
+  return result.rows.length > 0 ? toMaintenanceTask(result.rows[0]) : null;
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+function toMaintenanceTask(row: Record<string, unknown>, now: Date = new Date()): MaintenanceTask {
+  const nextDueAt = toDate(row.next_due_at);
+
+  return {
+    id: Number(row.id),
+    tank_id: row.tank_id as string,
+    title: row.title as string,
+    kind: row.kind as MaintenanceTaskKind,
+    interval_days: row.interval_days === null ? null : Number(row.interval_days),
+    next_due_at: nextDueAt,
+    notes: row.notes as string | null,
+    source: row.source as MaintenanceTask['source'],
+    source_request_id: row.source_request_id as string | null,
+    last_completed_at: toDate(row.last_completed_at),
+    last_reminded_at: toDate(row.last_reminded_at),
+    status: getTaskStatus(nextDueAt, now),
+    created_at: new Date(row.created_at as string),
+    updated_at: new Date(row.updated_at as string),
+  };
+}
+
+function toMaintenanceCompletion(row: Record<string, unknown>): MaintenanceCompletion {
+  return {
+    id: Number(row.id),
+    task_id: Number(row.task_id),
+    completed_at: new Date(row.completed_at as string),
+    note: row.note as string | null,
+    created_at: new Date(row.created_at as string),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class MaintenanceError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'MaintenanceError';
+  }
+}
@@ -4,32 +4,18 @@
 // ============================================================================
 
 import { sql } from '../db';
+import * as registry from './providerRegistry.service';
+import type { PromptExperiment, ProviderName } from '../types';
 
-// API Pricing (per 1M tokens)
-const PRICING = {
-  gemini: {
-    input: 0.075,   // $0.075 per 1M input tokens (Gemini 1.5 Flash)
-    output: 0.30,   // $0.30 per 1M output tokens
-  },
-  openai: {
-    input: 2.50,    // $2.50 per 1M input tokens (GPT-4o)
-    output: 10.00,  // $10.00 per 1M output tokens
-  },
-};
+type TokenCounts = { input: number; output: number };
 
 export interface CostStats {
   totalCost: number;
   costToday: number;
   costLast7Days: number;
   costLast30Days: number;
-  costByProvider: {
-    gemini: number;
-    openai: number;
-  };
-  tokensByProvider: {
-    gemini: { input: number; output: number };
-    openai: { input: number; output: number };
-  };
+  costByProvider: Record<ProviderName, number>;
+  tokensByProvider: Record<ProviderName, TokenCounts>;
   estimatedSavingsFromCache: number;
   avgCostPerRequest: number;
 }
@@ -63,13 +49,20 @@ export interface DashboardMetrics {
   }>;
 }
 
-// Calculate cost from tokens
+// Zeroed token counts for every registered provider
+function emptyTokensByProvider(): Record<ProviderName, TokenCounts> {
+  return Object.fromEntries(
+    registry.getRegisteredProviders().map((provider) => [provider.name, { input: 0, output: 0 }])
+  );
+}
+
+// Calculate cost from tokens using the registered provider's pricing
 function calculateCost(
-  provider: string,
+  provider: ProviderName,
   inputTokens: number,
   outputTokens: number
 ): number {
-  const pricing = provider === 'openai' ? PRICING.openai : PRICING.gemini;
+  const pricing = registry.getProvider(provider)?.pricing || { input: 0, output: 0 };
   const inputCost = (inputTokens / 1_000_000) * pricing.input;
   const outputCost = (outputTokens / 1_000_000) * pricing.output;
   return inputCost + outputCost;
@@ -255,12 +248,13 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
 
   // Helper to parse token results by provider
   const parseTokensByProvider = (result: { rows: Array<{ provider: string; input_tokens: string; output_tokens: string }> }) => {
-    const tokens = { gemini: { input: 0, output: 0 }, openai: { input: 0, output: 0 } };
+    const tokens = emptyTokensByProvider();
     let totalCost = 0;
     for (const row of result.rows) {
-      const provider = row.provider === 'openai' ? 'openai' : 'gemini';
+      const provider = row.provider;
       const input = parseInt(row.input_tokens, 10) || 0;
       const output = parseInt(row.output_tokens, 10) || 0;
+      tokens[provider] = tokens[provider] || { input: 0, output: 0 };
       tokens[provider].input += input;
       tokens[provider].output += output;
       totalCost += calculateCost(provider, input, output);
@@ -278,7 +272,8 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
   const cacheHits = parseInt(cacheHitsForSavingsResult.rows[0]?.hits || '0', 10);
   const avgInputTokens = parseFloat(cacheHitsForSavingsResult.rows[0]?.avg_input || '0');
   const avgOutputTokens = parseFloat(cacheHitsForSavingsResult.rows[0]?.avg_output || '0');
-  const estimatedSavingsFromCache = cacheHits * calculateCost('gemini', avgInputTokens, avgOutputTokens);
+  const primaryProvider = registry.getProviderChain()[0]?.name || 'gemini';
+  const estimatedSavingsFromCache = cacheHits * calculateCost(primaryProvider, avgInputTokens, avgOutputTokens);
 
   // Calculate average cost per request
   const totalRequests = parseInt(totalRequestsResult.rows[0]?.count || '0', 10);
@@ -290,10 +285,12 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
     costToday: Math.round(todayTokens.totalCost * 10000) / 10000,
     costLast7Days: Math.round(last7DaysTokens.totalCost * 10000) / 10000,
     costLast30Days: Math.round(last30DaysTokens.totalCost * 10000) / 10000,
-    costByProvider: {
-      gemini: Math.round(calculateCost('gemini', totalTokens.tokens.gemini.input, totalTokens.tokens.gemini.output) * 10000) / 10000,
-      openai: Math.round(calculateCost('openai', totalTokens.tokens.openai.input, totalTokens.tokens.openai.output) * 10000) / 10000,
-    },
+    costByProvider: Object.fromEntries(
+      Object.entries(totalTokens.tokens).map(([provider, tokens]) => [
+        provider,
+        Math.round(calculateCost(provider, tokens.input, tokens.output) * 10000) / 10000,
+      ])
+    ),
     tokensByProvider: totalTokens.tokens,
     estimatedSavingsFromCache: Math.round(estimatedSavingsFromCache * 10000) / 10000,
     avgCostPerRequest: Math.round(avgCostPerRequest * 1000000) / 1000000,
@@ -332,11 +329,10 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
         costToday: 0,
         costLast7Days: 0,
         costLast30Days: 0,
-        costByProvider: { gemini: 0, openai: 0 },
-        tokensByProvider: {
-          gemini: { input: 0, output: 0 },
-          openai: { input: 0, output: 0 },
-        },
+        costByProvider: Object.fromEntries(
+          registry.getRegisteredProviders().map((provider) => [provider.name, 0])
+        ),
+        tokensByProvider: emptyTokensByProvider(),
         estimatedSavingsFromCache: 0,
         avgCostPerRequest: 0,
       },
@@ -345,3 +341,139 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
     };
   }
 }
+
+// -----------------------------------------------------------------------------
+// Prompt Experiment Metrics
+// -----------------------------------------------------------------------------
+
+export interface ExperimentVariantStats {
+  version: number;
+  weight: number;
+  requests: number;
+  errorRate: number;
+  // Share of requests whose first model output failed validation, repaired or not
+  parseFailureRate: number;
+  avgIdentifications: number;
+  avgLatencyMs: number;
+  avgTokens: TokenCounts;
+  totalCost: number;
+  avgCostPerRequest: number;
+  feedback: {
+    count: number;
+    avgRating: number | null;
+    // Share of reviewed identifications marked incorrect or renamed
+    correctionRate: number;
+  };
+}
+
+/**
+ * Outcome statistics for each variant of a prompt experiment
+ * Request stats only count model calls; feedback includes cached results.
+ */
+export async function getExperimentStats(
+  experiment: Pick<PromptExperiment, 'id' | 'variants'>
+): Promise<ExperimentVariantStats[]> {
+  const [result, feedbackResult] = await Promise.all([
+    sql<{
+      prompt_version: number;
+      provider: string;
+      requests: string;
+      errors: string;
+      parse_failures: string;
+      identifications: string;
+      identification_samples: string;
+      latency: string;
+      latency_samples: string;
+      input_tokens: string;
+      output_tokens: string;
+    }>`
+      SELECT
+        prompt_version,
+        COALESCE(provider_used, 'gemini') as provider,
+        COUNT(*) as requests,
+        COUNT(*) FILTER (WHERE status = 'error') as errors,
+        COUNT(*) FILTER (WHERE error_code = 'INVALID_JSON' OR error_code LIKE 'SCHEMA:%') as parse_failures,
+        COALESCE(SUM(identification_count), 0) as identifications,
+        COUNT(identification_count) as identification_samples,
+        COALESCE(SUM(latency_ms), 0) as latency,
+        COUNT(latency_ms) as latency_samples,
+        COALESCE(SUM(tokens_input), 0) as input_tokens,
+        COALESCE(SUM(tokens_output), 0) as output_tokens
+      FROM request_logs
+      WHERE experiment_id = ${experiment.id} AND status <> 'cached'
+      GROUP BY prompt_version, provider_used
+    `,
+    sql<{
+      prompt_version: number;
+      feedback: string;
+      avg_rating: string | null;
+      reviewed: string;
+      corrections: string;
+    }>`
+      SELECT
+        r.prompt_version,
+        COUNT(*) as feedback,
+        AVG(f.rating) as avg_rating,
+        COALESCE(SUM(jsonb_array_length(f.identifications)), 0) as reviewed,
+        COALESCE(SUM((
+          SELECT COUNT(*) FROM jsonb_array_elements(f.identifications) item
+          WHERE item->>'verdict' <> 'correct'
+        )), 0) as corrections
+      FROM analysis_feedback f
+      JOIN request_logs r ON r.request_id = f.request_id
+      WHERE r.experiment_id = ${experiment.id}
+      GROUP BY r.prompt_version
+    `,
+  ]);
+
+  return experiment.variants.map((variant) => {
+    const rows = result.rows.filter((row) => Number(row.prompt_version) === variant.version);
+    const feedbackRow = feedbackResult.rows.find((row) => Number(row.prompt_version) === variant.version);
+    const reviewed = parseInt(feedbackRow?.reviewed || '0', 10);
+
+    const requests = rows.reduce((sum, row) => sum + parseInt(row.requests, 10), 0);
+    const errors = rows.reduce((sum, row) => sum + parseInt(row.errors, 10), 0);
+    const parseFailures = rows.reduce((sum, row) => sum + parseInt(row.parse_failures, 10), 0);
+    const inputTokens = rows.reduce((sum, row) => sum + (parseInt(row.input_tokens, 10) || 0), 0);
+    const outputTokens = rows.reduce((sum, row) => sum + (parseInt(row.output_tokens, 10) || 0), 0);
+    const totalCost = rows.reduce(
+      (sum, row) =>
+        sum + calculateCost(row.provider, parseInt(row.input_tokens, 10) || 0, parseInt(row.output_tokens, 10) || 0),
+      0
+    );
+
+    // Over the rows that have a value; error rows have no identification count
+    const average = (
+      field: 'identifications' | 'latency',
+      samplesField: 'identification_samples' | 'latency_samples'
+    ) => {
+      const samples = rows.reduce((sum, row) => sum + parseInt(row[samplesField], 10), 0);
+      const total = rows.reduce((sum, row) => sum + (parseFloat(row[field]) || 0), 0);
+      return samples > 0 ? total / samples : 0;
+    };
+
+    return {
+      version: variant.version,
+      weight: variant.weight,
+      requests,
+      errorRate: requests > 0 ? Math.round((errors / requests) * 10000) / 100 : 0,
+      parseFailureRate: requests > 0 ? Math.round((parseFailures / requests) * 10000) / 100 : 0,
+      avgIdentifications: Math.round(average('identifications', 'identification_samples') * 100) / 100,
+      avgLatencyMs: Math.round(average('latency', 'latency_samples')),
+      avgTokens: {
+        input: requests > 0 ? Math.round(inputTokens / requests) : 0,
+        output: requests > 0 ? Math.round(outputTokens / requests) : 0,
+      },
+      totalCost: Math.round(totalCost * 10000) / 10000,
+      avgCostPerRequest: requests > 0 ? Math.round((totalCost / requests) * 1000000) / 1000000 : 0,
+      feedback: {
+        count: parseInt(feedbackRow?.feedback || '0', 10),
+        avgRating: feedbackRow?.avg_rating ? Math.round(parseFloat(feedbackRow.avg_rating) * 100) / 100 : null,
+        correctionRate:
+          reviewed > 0
+            ? Math.round((parseInt(feedbackRow?.corrections || '0', 10) / reviewed) * 10000) / 100
+            : 0,
+      },
+    };
+  });
+}
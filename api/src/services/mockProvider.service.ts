@@ -0,0 +1,446 @@
+// ============================================================================
+// Mock AI Provider Service
+// Deterministic provider for offline development and tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import * as keyPool from './keyPool.service';
+import { calculateImageSetHash } from './cache.service';
+import type {
+  AIProvider,
+  AnalysisImage,
+  AnalysisMode,
+  DiagnosisResult,
+  ProviderAnalysisResult,
+  ProviderName,
+  ScanResult,
+  TestKitResult,
+  VisualDiffResult,
+} from '../types';
+import logger from '../utils/logger';
+import { parseWithRepair } from '../utils/modelResponse';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+// repairable returns malformed output that the repair re-prompt fixes
+export type MockBehavior =
+  | 'success'
+  | 'rate_limited'
+  | 'timeout'
+  | 'malformed'
+  | 'repairable'
+  | 'error';
+
+export type MockScanResult = Omit<ScanResult, 'request_id' | 'usage'>;
+
+// Model output for test_kit_read; readings are already in stored units
+export type MockTestKitResult = Omit<TestKitResult, 'request_id' | 'usage' | 'saved_parameters'>;
+
+// Model output for disease_dx; the disclaimer is added by the server
+export type MockDiagnosisResult = Omit<DiagnosisResult, 'request_id' | 'usage' | 'disclaimer'>;
+
+// Model output for scan_compare
+export type MockVisualDiffResult = Omit<VisualDiffResult, 'request_id' | 'usage'>;
+
+/**
+ * Canned outcome for one input: a result to return and/or a behavior to simulate
+ */
+export interface MockFixture {
+  behavior?: MockBehavior;
+  result?: MockScanResult | MockTestKitResult | MockDiagnosisResult | MockVisualDiffResult;
+}
+
+export interface MockFixtures {
+  // Keyed by calculateImageSetHash of the request images
+  byHash?: Record<string, MockFixture>;
+  byMode?: Partial<Record<AnalysisMode, MockFixture>>;
+}
+
+export interface MockProviderOptions {
+  name: ProviderName;
+  behavior: MockBehavior;
+  latencyMs: number;
+  timeoutMs: number;
+  // Select and report keys through the Gemini key pool like a real provider
+  useKeyPool: boolean;
+  fixtures: MockFixtures;
+}
+
+export interface MockProvider extends AIProvider {
+  // Change options at runtime, e.g. to flip a provider into failure mode
+  configure(options: Partial<Omit<MockProviderOptions, 'name'>>): void;
+  getCallCount(): number;
+}
+
+const MOCK_BEHAVIORS: MockBehavior[] = [
+  'success',
+  'rate_limited',
+  'timeout',
+  'malformed',
+  'repairable',
+  'error',
+];
+
+// Approximate tokens billed per input image
+const TOKENS_PER_IMAGE = 258;
+
+// Truncated output, as seen when a model hits its token limit
+const TRUNCATED_OUTPUT = '{"tank_health": "Good", "summary": "Healthy tank", "identif';
+
+// -----------------------------------------------------------------------------
+// Default Results
+// -----------------------------------------------------------------------------
+
+const DEFAULT_RESULTS: Record<AnalysisMode, NonNullable<MockFixture['result']>> = {
+  comprehensive: {
+    tank_health: 'Good',
+    summary: 'Healthy mixed reef with a small aiptasia outbreak on the rockwork.',
+    identifications: [
+      {
+        name: 'Ocellaris Clownfish',
+        category: 'fish',
+        confidence: 0.95,
+        is_problem: false,
+        severity: null,
+        description: 'Healthy pair hosting near the front glass.',
+        regions: [{ image_index: 0, bounding_box: { x: 0.2, y: 0.3, width: 0.15, height: 0.1 } }],
+      },
+      {
+        name: 'Aiptasia',
+        category: 'pest',
+        confidence: 0.82,
+        is_problem: true,
+        severity: 'medium',
+        description: 'Several small anemones on the lower rockwork.',
+        regions: [{ image_index: 0, bounding_box: { x: 0.55, y: 0.7, width: 0.1, height: 0.12 } }],
+      },
+    ],
+    recommendations: ['Treat aiptasia with a targeted injection or introduce peppermint shrimp.'],
+  },
+  fish_id: {
+    tank_health: 'Excellent',
+    summary: 'Active, well-fed fish with no visible signs of disease.',
+    identifications: [
+      {
+        name: 'Yellow Tang',
+        category: 'fish',
+        confidence: 0.93,
+        is_problem: false,
+        severity: null,
+        description: 'Bright coloration and intact fins.',
+      },
+    ],
+    recommendations: ['Continue feeding dried seaweed to support tang health.'],
+  },
+  coral_id: {
+    tank_health: 'Good',
+    summary: 'Corals show good polyp extension with mild recession on one colony.',
+    identifications: [
+      {
+        name: 'Hammer Coral',
+        category: 'coral',
+        confidence: 0.9,
+        is_problem: false,
+        severity: null,
+        description: 'Full extension with healthy tentacle tips.',
+      },
+    ],
+    recommendations: ['Keep flow moderate around the hammer coral.'],
+  },
+  algae_id: {
+    tank_health: 'Fair',
+    summary: 'Green hair algae is spreading across the upper rockwork.',
+    identifications: [
+      {
+        name: 'Green Hair Algae',
+        category: 'algae',
+        confidence: 0.88,
+        is_problem: true,
+        severity: 'medium',
+        description: 'Long green filaments on rock in high light areas.',
+      },
+    ],
+    recommendations: ['Reduce phosphate and nitrate, and manually remove algae.'],
+  },
+  pest_id: {
+    tank_health: 'Needs Attention',
+    summary: 'Aiptasia anemones are present and should be removed before they spread.',
+    identifications: [
+      {
+        name: 'Aiptasia',
+        category: 'pest',
+        confidence: 0.9,
+        is_problem: true,
+        severity: 'high',
+        description: 'Multiple glass anemones near the overflow.',
+      },
+    ],
+    recommendations: ['Remove aiptasia promptly; consider berghia nudibranchs.'],
+  },
+  test_kit_read: {
+    summary: 'Alkalinity and calcium tests read clearly; both are in the usual reef range.',
+    readings: [
+      { parameter: 'alkalinity', value: 8.2, unit: 'dKH', confidence: 0.9, kit: 'Salifert KH/Alk' },
+      { parameter: 'calcium', value: 430, unit: 'ppm', confidence: 0.8, kit: 'Salifert Calcium' },
+    ],
+  },
+  disease_dx: {
+    summary: 'White salt-grain spots on the fins and body point to marine ich.',
+    urgency: 'high',
+    differential: [
+      {
+        condition: 'Marine ich (Cryptocaryon irritans)',
+        category: 'fish',
+        likelihood: 0.75,
+        evidence: 'Raised white spots of even size on the fins and flanks.',
+        regions: [{ image_index: 0, bounding_box: { x: 0.4, y: 0.35, width: 0.2, height: 0.15 } }],
+      },
+      {
+        condition: 'Marine velvet (Amyloodinium ocellatum)',
+        category: 'fish',
+        likelihood: 0.2,
+        evidence: 'Some dusting near the gills, but no rapid breathing visible.',
+      },
+    ],
+    treatment_plan: [
+      {
+        action: 'Move all fish to a quarantine tank and leave the display fallow for 76 days.',
+        medication_class: null,
+        dosage_notes: null,
+        reef_safe: true,
+        requires_quarantine: true,
+        warning: null,
+      },
+      {
+        action: 'Treat the fish in quarantine with copper for at least 14 days.',
+        medication_class: 'copper',
+        dosage_notes: 'Raise copper gradually and keep it at the therapeutic level on the label, checked daily with a copper test kit.',
+        reef_safe: false,
+        requires_quarantine: true,
+        warning: null,
+      },
+    ],
+  },
+  scan_compare: {
+    summary: 'Green hair algae has spread along the back wall and the hammer coral looks paler.',
+    changes: [
+      {
+        subject: 'Green hair algae on the back wall',
+        kind: 'worsened',
+        description: 'The patches have grown and now cover most of the lower back wall.',
+      },
+      {
+        subject: 'Hammer coral',
+        kind: 'worsened',
+        description: 'The tentacles are lighter than before, an early sign of bleaching.',
+      },
+    ],
+  },
+};
+
+// -----------------------------------------------------------------------------
+// Provider Factory
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a mock provider
+ * The same images and mode always produce the same outcome.
+ */
+export function createMockProvider(options: Partial<MockProviderOptions> = {}): MockProvider {
+  const settings: MockProviderOptions = {
+    name: 'mock',
+    behavior: 'success',
+    latencyMs: 0,
+    timeoutMs: 30000,
+    useKeyPool: false,
+    fixtures: {},
+    ...options,
+  };
+  let callCount = 0;
+
+  return {
+    name: settings.name,
+    pricing: { input: 0, output: 0 },
+
+    isConfigured: () => true,
+
+    async isAvailable() {
+      if (!settings.useKeyPool) {
+        return true;
+      }
+      const metrics = await keyPool.getKeyPoolMetrics();
+      return metrics.available_keys > 0;
+    },
+
+    async analyze(images, mode, requestId) {
+      callCount++;
+
+      const imageHash = calculateImageSetHash(images.map((image) => image.data));
+      const fixture = settings.fixtures.byHash?.[imageHash] || settings.fixtures.byMode?.[mode];
+      const behavior = fixture?.behavior || settings.behavior;
+
+      const selectedKey = settings.useKeyPool ? await keyPool.selectKey() : null;
+      if (settings.useKeyPool && !selectedKey) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_KEYS_AVAILABLE',
+            message: 'All API keys are in cooldown or at limit',
+          },
+        };
+      }
+
+      await delay(settings.latencyMs);
+
+      const outcome = await simulate(behavior, images, mode, fixture?.result, settings.timeoutMs);
+
+      if (selectedKey) {
+        if (outcome.success) {
+          await keyPool.recordSuccess(selectedKey.id);
+        } else {
+          await keyPool.recordFailure(selectedKey.id, outcome.error?.statusCode);
+        }
+      }
+
+      logger.debug('Mock analysis completed', {
+        request_id: requestId,
+        provider: settings.name,
+        behavior,
+        image_hash: imageHash.substring(0, 16),
+        success: outcome.success,
+      });
+
+      return { ...outcome, apiKeyId: selectedKey?.id };
+    },
+
+    getStatusDetails: () => Promise.resolve({ behavior: settings.behavior }),
+
+    configure(changes) {
+      Object.assign(settings, changes);
+    },
+
+    getCallCount: () => callCount,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Behavior Simulation
+// -----------------------------------------------------------------------------
+
+async function simulate(
+  behavior: MockBehavior,
+  images: AnalysisImage[],
+  mode: AnalysisMode,
+  fixtureResult: MockFixture['result'],
+  timeoutMs: number
+): Promise<ProviderAnalysisResult> {
+  switch (behavior) {
+    case 'rate_limited':
+      return {
+        success: false,
+        error: { code: 'RATE_LIMITED', message: 'Resource has been exhausted', statusCode: 429 },
+      };
+
+    case 'timeout':
+      await delay(timeoutMs);
+      return {
+        success: false,
+        error: { code: 'TIMEOUT', message: `No response after ${timeoutMs}ms`, statusCode: 504 },
+      };
+
+    case 'error':
+      return {
+        success: false,
+        error: { code: 'API_ERROR', message: 'Internal error encountered', statusCode: 500 },
+      };
+
+    case 'malformed':
+      return parseCannedResponse(TRUNCATED_OUTPUT, TRUNCATED_OUTPUT, images, mode);
+
+    case 'repairable':
+      return parseCannedResponse(
+        TRUNCATED_OUTPUT,
+        JSON.stringify(fixtureResult || DEFAULT_RESULTS[mode]),
+        images,
+        mode
+      );
+
+    case 'success':
+    default: {
+      const text = JSON.stringify(fixtureResult || DEFAULT_RESULTS[mode]);
+      return parseCannedResponse(text, text, images, mode);
+    }
+  }
+}
+
+/**
+ * Run canned output through the same validation and repair flow as real
+ * providers; repairText is what the model "answers" to the repair prompt
+ */
+async function parseCannedResponse(
+  text: string,
+  repairText: string,
+  images: AnalysisImage[],
+  mode: AnalysisMode
+): Promise<ProviderAnalysisResult> {
+  const tokensUsed = {
+    input: images.length * TOKENS_PER_IMAGE,
+    output: Math.ceil(text.length / 4),
+  };
+
+  const outcome = await parseWithRepair(text, images.length, mode, () => {
+    tokensUsed.output += Math.ceil(repairText.length / 4);
+    return Promise.resolve(repairText);
+  });
+
+  if (!outcome.success) {
+    return {
+      success: false,
+      tokensUsed,
+      error: { code: outcome.reason, message: 'AI response did not match the expected schema' },
+    };
+  }
+
+  return {
+    success: true,
+    result: outcome.result,
+    validationError: outcome.repairReason,
+    tokensUsed,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Configuration Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Load fixtures from a JSON file of the form { "byHash": {...}, "byMode": {...} }
+ */
+export function loadMockFixtures(path: string): MockFixtures {
+  if (!path) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as MockFixtures;
+  } catch (error) {
+    logger.error('Failed to load mock AI fixtures', {
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {};
+  }
+}
+
+/**
+ * Validate a behavior name from configuration
+ */
+export function parseMockBehavior(value: string): MockBehavior {
+  return MOCK_BEHAVIORS.includes(value as MockBehavior) ? (value as MockBehavior) : 'success';
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,376 @@
+// ============================================================================
+// Notification Service
+// Push tokens, per-category preferences and delivery of server-initiated
+// messages through a pluggable transport
+// ============================================================================
+
+import { promises as fs } from 'fs';
+import { sql } from '../db';
+import config from '../config';
+import { createFcmTransport } from './fcm.service';
+import type {
+  Device,
+  Notification,
+  NotificationCategory,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  NotificationPreferences,
+  PushMessage,
+  PushSendResult,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface NotificationTransport {
+  name: string;
+  send(message: PushMessage): Promise<PushSendResult>;
+}
+
+// Keeps what it was given, for tests and local development
+export interface MemoryTransport extends NotificationTransport {
+  messages: PushMessage[];
+  // Tokens the transport reports as invalid
+  invalidTokens: Set<string>;
+}
+
+// -----------------------------------------------------------------------------
+// Transport State
+// -----------------------------------------------------------------------------
+
+let activeTransport: NotificationTransport | null = null;
+
+/**
+ * Get the transport, created from config on first use
+ */
+export function getTransport(): NotificationTransport {
+  if (!activeTransport) {
+    activeTransport = createTransport(config.notifications.transport);
+  }
+  return activeTransport;
+}
+
+/**
+ * Replace the transport; null goes back to the configured one
+ */
+export function setTransport(transport: NotificationTransport | null): void {
+  activeTransport = transport;
+}
+
+// -----------------------------------------------------------------------------
+// Push Tokens
+// -----------------------------------------------------------------------------
+
+/**
+ * Register the push token of the device, replacing its previous one
+ * A token moves with the app install, so any other device holding it loses it.
+ */
+export async function registerPushToken(deviceId: string, token: string): Promise<void> {
+  await sql`
+    UPDATE devices
+    SET push_token = NULL, push_token_updated_at = NOW()
+    WHERE push_token = ${token} AND id <> ${deviceId}
+  `;
+
+  await sql`
+    UPDATE devices
+    SET push_token = ${token}, push_token_updated_at = NOW()
+    WHERE id = ${deviceId}
+  `;
+
+  logger.info('Push token registered', { device_id: deviceId });
+}
+
+/**
+ * Stop sending pushes to the device
+ * With a token given, it is only removed while still the device's token, so a
+ * newer registration survives.
+ */
+export async function removePushToken(deviceId: string, token?: string): Promise<boolean> {
+  const result = await sql`
+    UPDATE devices
+    SET push_token = NULL, push_token_updated_at = NOW()
+    WHERE id = ${deviceId}
+      AND push_token IS NOT NULL
+      AND (${token ?? null}::text IS NULL OR push_token = ${token ?? null})
+  `;
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Preferences
+// -----------------------------------------------------------------------------
+
+/**
+ * Categories the device gets, with defaults for the ones it never set
+ */
+export async function getPreferences(deviceId: string): Promise<NotificationPreferences> {
+  const result = await sql`
+    SELECT notification_preferences
+    FROM devices
+    WHERE id = ${deviceId}
+  `;
+
+  return resolvePreferences(result.rows[0]?.notification_preferences);
+}
+
+/**
+ * Turn categories on or off; categories left out keep their setting
+ */
+export async function updatePreferences(
+  deviceId: string,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const result = await sql`
+    UPDATE devices
+    SET notification_preferences = COALESCE(notification_preferences, '{}'::jsonb) || ${JSON.stringify(changes)}::jsonb
+    WHERE id = ${deviceId}
+    RETURNING notification_preferences
+  `;
+
+  return resolvePreferences(result.rows[0]?.notification_preferences);
+}
+
+// -----------------------------------------------------------------------------
+// Delivery
+// -----------------------------------------------------------------------------
+
+/**
+ * Send a notification to its device and log the outcome
+ * Devices without a push token, or that turned the category off, are skipped.
+ * A token the transport rejects is removed from the device. Transport failures
+ * are logged as failed and thrown, so jobs can count and retry them.
+ */
+export async function notify(notification: Notification): Promise<NotificationDeliveryStatus> {
+  const result = await sql`
+    SELECT platform, push_token, notification_preferences
+    FROM devices
+    WHERE id = ${notification.device_id}
+  `;
+
+  const device = result.rows[0];
+  if (!device) {
+    logger.warn('Notification for unknown device', {
+      device_id: notification.device_id,
+      category: notification.category,
+    });
+    return 'skipped';
+  }
+
+  if (!resolvePreferences(device.notification_preferences)[notification.category]) {
+    await recordDelivery(notification, null, { status: 'skipped', error: 'Category turned off' });
+    return 'skipped';
+  }
+
+  const token = device.push_token as string | null;
+  if (!token) {
+    await recordDelivery(notification, null, { status: 'skipped', error: 'No push token' });
+    return 'skipped';
+  }
+
+  const transport = getTransport();
+  let sendResult: PushSendResult;
+  try {
+    sendResult = await transport.send({
+      token,
+      platform: device.platform as Device['platform'],
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+    });
+  } catch (error) {
+    sendResult = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  if (sendResult.status === 'invalid_token') {
+    await removePushToken(notification.device_id, token);
+    logger.info('Invalid push token removed', {
+      device_id: notification.device_id,
+      transport: transport.name,
+    });
+  }
+
+  await recordDelivery(notification, transport.name, sendResult);
+
+  if (sendResult.status === 'failed') {
+    throw new NotificationError(sendResult.error || 'Delivery failed', transport.name);
+  }
+
+  logger.debug('Notification delivered', {
+    transport: transport.name,
+    device_id: notification.device_id,
+    category: notification.category,
+    status: sendResult.status,
+  });
+
+  return sendResult.status;
+}
+
+/**
+ * The device's notifications, newest first
+ */
+export async function listDeliveries(deviceId: string, limit: number): Promise<NotificationDelivery[]> {
+  const result = await sql`
+    SELECT *
+    FROM notification_deliveries
+    WHERE device_id = ${deviceId}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+
+  return result.rows.map(toDelivery);
+}
+
+// -----------------------------------------------------------------------------
+// Transports
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a transport by name; unknown names fall back to the log transport
+ */
+export function createTransport(name: string): NotificationTransport {
+  switch (name) {
+    case 'log':
+      return createLogTransport();
+    case 'file':
+      return createFileTransport(config.notifications.filePath);
+    case 'memory':
+      return createMemoryTransport();
+    case 'fcm':
+      return createFcmTransport();
+    default:
+      logger.warn('Unknown notification transport, using log', { transport: name });
+      return createLogTransport();
+  }
+}
+
+/**
+ * Write pushes to the application log
+ */
+export function createLogTransport(): NotificationTransport {
+  return {
+    name: 'log',
+    send: (message) => {
+      logger.info('Push notification', {
+        platform: message.platform,
+        category: message.category,
+        title: message.title,
+        body: message.body,
+      });
+      return Promise.resolve({ status: 'sent' });
+    },
+  };
+}
+
+/**
+ * Append pushes to a file, one JSON object per line
+ */
+export function createFileTransport(path: string): NotificationTransport {
+  return {
+    name: 'file',
+    send: async (message) => {
+      const line = JSON.stringify({ ...message, sent_at: new Date().toISOString() });
+      await fs.appendFile(path, `${line}\n`, 'utf8');
+      return { status: 'sent' };
+    },
+  };
+}
+
+/**
+ * Keep pushes in memory; tokens in invalidTokens are reported as invalid
+ */
+export function createMemoryTransport(invalidTokens: string[] = []): MemoryTransport {
+  const transport: MemoryTransport = {
+    name: 'memory',
+    messages: [],
+    invalidTokens: new Set(invalidTokens),
+    send: (message) => {
+      if (transport.invalidTokens.has(message.token)) {
+        return Promise.resolve({ status: 'invalid_token', error: 'Token not registered' });
+      }
+      transport.messages.push(message);
+      return Promise.resolve({ status: 'sent' });
+    },
+  };
+  return transport;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function resolvePreferences(stored: unknown): NotificationPreferences {
+  const preferences: NotificationPreferences = { ...config.notifications.defaultPreferences };
+  const values = (typeof stored === 'string' ? JSON.parse(stored) : stored || {}) as Record<string, unknown>;
+
+  for (const category of Object.keys(preferences) as NotificationCategory[]) {
+    if (typeof values[category] === 'boolean') {
+      preferences[category] = values[category] as boolean;
+    }
+  }
+
+  return preferences;
+}
+
+/**
+ * Log a delivery; a failure to log is reported but does not fail the delivery
+ */
+async function recordDelivery(
+  notification: Notification,
+  transport: string | null,
+  result: PushSendResult | { status: 'skipped'; error: string }
+): Promise<void> {
+  try {
+    await sql`
+      INSERT INTO notification_deliveries (device_id, category, title, body, data, transport, status, error)
+      VALUES (
+        ${notification.device_id},
+        ${notification.category},
+        ${notification.title.slice(0, 255)},
+        ${notification.body},
+        ${JSON.stringify(notification.data)},
+        ${transport},
+        ${result.status},
+        ${result.error ?? null}
+      )
+    `;
+  } catch (error) {
+    logger.error('Failed to record notification delivery', {
+      device_id: notification.device_id,
+      category: notification.category,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+function toDelivery(row: Record<string, unknown>): NotificationDelivery {
+  return {
+    id: Number(row.id),
+    category: row.category as NotificationCategory,
+    title: row.title as string,
+    body: row.body as string,
+    data: (typeof row.data === 'string' ? JSON.parse(row.data) : row.data || {}) as Record<string, unknown>,
+    transport: row.transport as string | null,
+    status: row.status as NotificationDeliveryStatus,
+    error: row.error as string | null,
+    created_at: new Date(row.created_at as string),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class NotificationError extends Error {
+  transport: string;
+
+  constructor(message: string, transport: string) {
+    super(message);
+    this.transport = transport;
+    this.name = 'NotificationError';
+  }
+}
@@ -6,8 +6,16 @@
 import OpenAI from 'openai';
 import config from '../config';
 import * as redis from './redis.service';
-import type { AnalysisMode, ScanResult, Identification } from '../types';
+import { buildAnalysisInstructions, buildRepairPrompt, getActivePrompt } from './prompt.service';
+import type {
+  AIProvider,
+  AnalysisImage,
+  AnalysisMode,
+  AnalyzeResult,
+  ProviderAnalysisOptions,
+} from '../types';
 import logger from '../utils/logger';
+import { parseWithRepair, RepairedParseOutcome } from '../utils/modelResponse';
 
 // -----------------------------------------------------------------------------
 // OpenAI Client
@@ -33,7 +41,8 @@ function getClient(): OpenAI {
 
 interface AnalysisResult {
   success: boolean;
-  result?: ScanResult;
+  result?: AnalyzeResult;
+  validationError?: string;
   tokensUsed?: {
     input: number;
     output: number;
@@ -80,60 +89,18 @@ function calculateCost(inputTokens: number, outputTokens: number): number {
   return (inputTokens * COST_PER_INPUT_TOKEN) + (outputTokens * COST_PER_OUTPUT_TOKEN);
 }
 
-// -----------------------------------------------------------------------------
-// Prompts
-// -----------------------------------------------------------------------------
-
-const SYSTEM_PROMPT = `You are ReefScan, an expert marine aquarium analyst AI. You analyze images of reef tanks to identify fish, coral, invertebrates, algae, and potential problems.
-
-Your analysis should be:
-- Accurate and specific (identify species when possible)
-- Practical and actionable
-- Focused on tank health and livestock welfare
-
-Always respond with valid JSON matching the requested schema.`;
-
-const MODE_PROMPTS: Record<AnalysisMode, string> = {
-  comprehensive: `Analyze this reef tank image comprehensively. Identify all visible fish, coral, invertebrates, and any potential problems like algae, pests, or health issues. Assess overall tank health.`,
-
-  fish_id: `Focus on identifying all fish visible in this reef tank image. Provide species names, health assessment, and any concerns about compatibility or behavior.`,
-
-  coral_id: `Focus on identifying all coral visible in this reef tank image. Provide species/type names, health assessment, and any signs of stress, bleaching, or disease.`,
-
-  algae_id: `Focus on identifying any algae visible in this reef tank image. Determine if it's beneficial or problematic, identify the type, and suggest remediation if needed.`,
-
-  pest_id: `Focus on identifying any pests or parasites visible in this reef tank image. Look for aiptasia, flatworms, bristleworms, red bugs, or any other common aquarium pests.`,
-};
-
-const RESPONSE_SCHEMA = `
-Respond with JSON in this exact format:
-{
-  "tank_health": "Excellent" | "Good" | "Fair" | "Needs Attention" | "Critical",
-  "summary": "Brief 1-2 sentence summary of the tank",
-  "identifications": [
-    {
-      "name": "Species or item name",
-      "category": "fish" | "coral" | "invertebrate" | "algae" | "pest" | "equipment" | "other",
-      "confidence": 0.0-1.0,
-      "is_problem": boolean,
-      "severity": "low" | "medium" | "high" | null,
-      "description": "Brief description and any concerns"
-    }
-  ],
-  "recommendations": ["List of actionable recommendations"]
-}`;
-
 // -----------------------------------------------------------------------------
 // Main Analysis Function
 // -----------------------------------------------------------------------------
 
 /**
- * Analyze an image using OpenAI Vision API (fallback)
+ * Analyze one or more images of a tank using OpenAI Vision API (fallback)
+ * Multiple images are sent as a single multimodal prompt
  */
 export async function analyzeImageFallback(
-  imageData: string,
-  mimeType: 'image/jpeg' | 'image/png',
-  mode: AnalysisMode
+  images: AnalysisImage[],
+  mode: AnalysisMode,
+  options: ProviderAnalysisOptions = {}
 ): Promise<AnalysisResult> {
   const startTime = Date.now();
 
@@ -166,69 +133,53 @@ export async function analyzeImageFallback(
   }
 
   try {
-    const client = getClient();
-    const prompt = `${MODE_PROMPTS[mode]}\n\n${RESPONSE_SCHEMA}`;
-
-    const response = await client.chat.completions.create({
-      model: config.openai.model,
-      messages: [
-        {
-          role: 'system',
-          content: SYSTEM_PROMPT,
-        },
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: prompt,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:${mimeType};base64,${imageData}`,
-                detail: 'high',
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 2048,
-      temperature: 0.2,
-      response_format: { type: 'json_object' },
-    });
+    const { outcome, tokensUsed } = await analyzeWithClient(
+      getClient(),
+      config.openai.model,
+      images,
+      mode,
+      options
+    );
 
     const latencyMs = Date.now() - startTime;
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const cost = calculateCost(inputTokens, outputTokens);
+    const cost = calculateCost(tokensUsed.input, tokensUsed.output);
 
     // Track cost
     await addToDailyCost(cost);
 
-    // Parse response
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new OpenAIError('INVALID_RESPONSE', 'No content in response');
-    }
+    if (!outcome.success) {
+      logger.error('OpenAI response failed validation', {
+        mode,
+        reason: outcome.reason,
+        issues: outcome.issues.slice(0, 5),
+      });
 
-    const result = parseResponse(content);
+      return {
+        success: false,
+        tokensUsed,
+        cost,
+        error: {
+          code: outcome.reason,
+          message: 'AI response did not match the expected schema',
+        },
+      };
+    }
 
     logger.info('OpenAI fallback analysis completed', {
       mode,
+      image_count: images.length,
       latency_ms: latencyMs,
-      tokens_input: inputTokens,
-      tokens_output: outputTokens,
+      tokens_input: tokensUsed.input,
+      tokens_output: tokensUsed.output,
       cost_usd: cost.toFixed(4),
+      repaired: Boolean(outcome.repairReason),
     });
 
     return {
       success: true,
-      result,
-      tokensUsed: {
-        input: inputTokens,
-        output: outputTokens,
-      },
+      result: outcome.result,
+      validationError: outcome.repairReason,
+      tokensUsed,
       cost,
     };
   } catch (error) {
@@ -260,58 +211,101 @@ export async function analyzeImageFallback(
   }
 }
 
-// -----------------------------------------------------------------------------
-// Response Parsing
-// -----------------------------------------------------------------------------
+/**
+ * Run an analysis against an OpenAI-compatible chat completions endpoint
+ * Shared by the OpenAI fallback and configured self-hosted endpoints. Output
+ * that fails validation gets one repair re-prompt; API errors are thrown.
+ */
+export async function analyzeWithClient(
+  client: OpenAI,
+  model: string,
+  images: AnalysisImage[],
+  mode: AnalysisMode,
+  options: ProviderAnalysisOptions = {}
+): Promise<{
+  outcome: RepairedParseOutcome;
+  tokensUsed: { input: number; output: number };
+}> {
+  // Use the prompt chosen by the caller, or the active one
+  const prompt = options.prompt || (await getActivePrompt(mode));
+
+  // Label each image so the model can reference it by index
+  const imageParts: OpenAI.Chat.Completions.ChatCompletionContentPart[] = images.flatMap(
+    (image, index) => [
+      ...(images.length > 1 ? [{ type: 'text' as const, text: `Image ${index}:` }] : []),
+      {
+        type: 'image_url' as const,
+        image_url: {
+          url: `data:${image.mime_type};base64,${image.data}`,
+          detail: 'high' as const,
+        },
+      },
+    ]
+  );
 
-function parseResponse(content: string): ScanResult {
-  try {
-    const parsed = JSON.parse(content) as {
-      tank_health?: string;
-      summary?: string;
-      identifications?: Identification[];
-      recommendations?: string[];
-    };
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    {
+      role: 'system',
+      content: prompt.systemPrompt,
+    },
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: buildAnalysisInstructions(
+            mode,
+            prompt,
+            images.length,
+            options.language,
+            options.tank,
+            options.comparison
+          ),
+        },
+        ...imageParts,
+      ],
+    },
+  ];
 
-    return {
-      request_id: '', // Will be set by caller
-      tank_health: validateTankHealth(parsed.tank_health),
-      summary: parsed.summary || 'Analysis complete',
-      identifications: normalizeIdentifications(parsed.identifications || []),
-      recommendations: parsed.recommendations || [],
-      usage: {
-        requests_today: 0, // Will be set by caller
-        daily_limit: 0,
-        reset_at: '',
-      },
-    };
-  } catch (parseError) {
-    logger.error('Failed to parse OpenAI response', {
-      response_text: content.substring(0, 500),
-      error: parseError instanceof Error ? parseError.message : 'Parse error',
+  const tokensUsed = { input: 0, output: 0 };
+
+  const complete = async (
+    conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+  ): Promise<string> => {
+    const response = await client.chat.completions.create({
+      model,
+      messages: conversation,
+      max_tokens: 2048,
+      temperature: 0.2,
+      response_format: { type: 'json_object' },
     });
 
-    throw new OpenAIError('PARSE_ERROR', 'Failed to parse AI response');
-  }
-}
+    tokensUsed.input += response.usage?.prompt_tokens || 0;
+    tokensUsed.output += response.usage?.completion_tokens || 0;
 
-function validateTankHealth(health: string | undefined): ScanResult['tank_health'] {
-  const validValues = ['Excellent', 'Good', 'Fair', 'Needs Attention', 'Critical'] as const;
-  if (health && validValues.includes(health as typeof validValues[number])) {
-    return health as ScanResult['tank_health'];
-  }
-  return 'Good';
-}
+    return response.choices[0]?.message?.content || '';
+  };
+
+  const content = await complete(messages);
+
+  // Validate the output, re-prompting once if it does not match the schema
+  const outcome = await parseWithRepair(content, images.length, mode, async (issues) => {
+    try {
+      return await complete([
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(issues) },
+      ]);
+    } catch (repairError) {
+      logger.warn('Repair request failed', {
+        model,
+        error: repairError instanceof Error ? repairError.message : 'Unknown error',
+      });
+      return null;
+    }
+  });
 
-function normalizeIdentifications(identifications: Identification[]): Identification[] {
-  return identifications.map((id) => ({
-    name: id.name || 'Unknown',
-    category: id.category || 'other',
-    confidence: Math.min(1, Math.max(0, id.confidence || 0.5)),
-    is_problem: Boolean(id.is_problem),
-    severity: id.is_problem ? (id.severity || 'low') : null,
-    description: id.description || '',
-  }));
+  return { outcome, tokensUsed };
 }
 
 // -----------------------------------------------------------------------------
@@ -337,6 +331,40 @@ export async function getCurrentDailyCost(): Promise<number> {
   return getDailyCost();
 }
 
+// -----------------------------------------------------------------------------
+// Provider Definition
+// -----------------------------------------------------------------------------
+
+export const openaiProvider: AIProvider = {
+  name: 'openai',
+  // GPT-4o list pricing
+  pricing: { input: 2.5, output: 10 },
+
+  isConfigured: () => config.features.enableOpenAiFallback && Boolean(config.openai.apiKey),
+
+  isAvailable,
+
+  async analyze(images, mode, requestId, options) {
+    const result = await analyzeImageFallback(images, mode, options);
+
+    if (result.success) {
+      logger.info('OpenAI fallback succeeded', {
+        request_id: requestId,
+        cost: result.cost,
+      });
+    }
+
+    return result;
+  },
+
+  async getStatusDetails() {
+    return {
+      daily_cost: await getDailyCost(),
+      cost_limit: config.openai.maxCostPerDay,
+    };
+  },
+};
+
 // -----------------------------------------------------------------------------
 // Error Class
 // -----------------------------------------------------------------------------
@@ -0,0 +1,91 @@
+// ============================================================================
+// OpenAI-Compatible Provider Service
+// Vision analysis through self-hosted or third-party chat completion endpoints
+// ============================================================================
+
+import OpenAI from 'openai';
+import type { OpenAICompatibleProviderConfig } from '../config';
+import { analyzeWithClient, OpenAIError } from './openai.service';
+import type { AIProvider } from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Provider Factory
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a provider for an endpoint speaking the OpenAI chat completions API
+ * (vLLM, Ollama, LiteLLM, Azure OpenAI and similar)
+ */
+export function createOpenAICompatibleProvider(
+  settings: OpenAICompatibleProviderConfig
+): AIProvider {
+  let client: OpenAI | null = null;
+
+  const getClient = (): OpenAI => {
+    if (!client) {
+      client = new OpenAI({
+        baseURL: settings.baseUrl,
+        // Many self-hosted servers ignore the key, but the SDK requires one
+        apiKey: settings.apiKey || 'not-needed',
+      });
+    }
+    return client;
+  };
+
+  return {
+    name: settings.name,
+    pricing: settings.pricing || { input: 0, output: 0 },
+
+    isConfigured: () => Boolean(settings.baseUrl && settings.model),
+
+    isAvailable: () => Promise.resolve(true),
+
+    async analyze(images, mode, requestId, options) {
+      try {
+        const { outcome, tokensUsed } = await analyzeWithClient(
+          getClient(),
+          settings.model,
+          images,
+          mode,
+          options
+        );
+
+        if (!outcome.success) {
+          return {
+            success: false,
+            tokensUsed,
+            error: {
+              code: outcome.reason,
+              message: 'AI response did not match the expected schema',
+            },
+          };
+        }
+
+        return {
+          success: true,
+          result: outcome.result,
+          validationError: outcome.repairReason,
+          tokensUsed,
+        };
+      } catch (error) {
+        logger.error('OpenAI-compatible analysis failed', {
+          request_id: requestId,
+          provider: settings.name,
+          mode,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+
+        return {
+          success: false,
+          error: {
+            code: error instanceof OpenAIError ? error.code : 'PROVIDER_ERROR',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          },
+        };
+      }
+    },
+
+    getStatusDetails: () => Promise.resolve({ model: settings.model }),
+  };
+}
@@ -5,8 +5,23 @@
 
 import { sql } from '../db';
 import * as redis from './redis.service';
-import type { Prompt, AnalysisMode } from '../types';
+import type {
+  ActivePrompt,
+  AnalysisMode,
+  ComparisonContext,
+  ErrorCode,
+  Prompt,
+  PromptChange,
+  PromptChangeAction,
+  TankContext,
+  TankType,
+  WaterParameterSnapshot,
+} from '../types';
 import logger from '../utils/logger';
+import { isLocalized, SUPPORTED_LANGUAGES } from '../utils/language';
+import { MEDICATION_CLASSES } from '../utils/diagnosis';
+import { diffLines, DiffLine } from '../utils/textDiff';
+import { formatReading, WATER_PARAMETER_INFO, WATER_PARAMETERS } from '../utils/waterParameters';
 
 // -----------------------------------------------------------------------------
 // Redis Key Patterns
@@ -14,11 +29,28 @@ import logger from '../utils/logger';
 
 const KEYS = {
   promptCache: (name: string) => `prompt:${name}`,
+  // Stored versions never change, so they can be cached by number
+  promptVersionCache: (name: string, version: number) => `prompt:${name}:v${version}`,
 };
 
 // Cache TTL in seconds (5 minutes)
 const CACHE_TTL = 300;
 
+// Modes with a managed prompt
+export const PROMPT_MODES: AnalysisMode[] = [
+  'comprehensive',
+  'fish_id',
+  'coral_id',
+  'algae_id',
+  'pest_id',
+  'test_kit_read',
+  'disease_dx',
+  'scan_compare',
+];
+
+// Version number reported for the built-in default prompts
+export const DEFAULT_PROMPT_VERSION = 0;
+
 // -----------------------------------------------------------------------------
 // Default Prompts
 // -----------------------------------------------------------------------------
@@ -42,8 +74,400 @@ const DEFAULT_MODE_PROMPTS: Record<AnalysisMode, string> = {
   algae_id: `Focus on identifying any algae visible in this reef tank image. Determine if it's beneficial or problematic, identify the type, and suggest remediation if needed.`,
 
   pest_id: `Focus on identifying any pests or parasites visible in this reef tank image. Look for aiptasia, flatworms, bristleworms, red bugs, or any other common aquarium pests.`,
+
+  test_kit_read: `Read the water test results in this image. It may show a colorimetric test vial next to its color card (such as Salifert or Red Sea), a digital checker display (such as Hanna), or a test strip next to its printed key. For color tests, match the sample against the reference colors, allowing for the lighting in the photo, and report the value of the closest match.`,
+
+  disease_dx: `Examine the fish, corals and invertebrates in this image for signs of disease, such as marine ich (white spots), marine velvet (gold dust, rapid breathing), Brooklynella (thick mucus, peeling skin), flukes, rapid or slow tissue necrosis (RTN/STN), brown jelly disease or bleaching. Give a differential diagnosis: every condition the visible signs are consistent with, with how likely each one is, then a treatment plan for the most likely condition.`,
+
+  scan_compare: `Compare the earlier and later photos of this reef tank and describe what changed between them: organisms or problems that appeared or disappeared, and anything that improved or worsened, such as algae spreading or receding, corals paling, browning or coloring up, tissue recession, growth, and pests multiplying. Ignore differences that only come from camera angle, framing, lighting or white balance.`,
 };
 
+// Output contract validated by utils/modelResponse; not versioned with prompts
+export const RESPONSE_SCHEMA = `
+Respond with JSON in this exact format:
+{
+  "tank_health": "Excellent" | "Good" | "Fair" | "Needs Attention" | "Critical",
+  "summary": "Brief 1-2 sentence summary of the tank",
+  "identifications": [
+    {
+      "name": "Species or item name",
+      "category": "fish" | "coral" | "invertebrate" | "algae" | "pest" | "equipment" | "other",
+      "confidence": 0.0-1.0,
+      "is_problem": boolean,
+      "severity": "low" | "medium" | "high" | null,
+      "description": "Brief description and any concerns",
+      "regions": [
+        {
+          "image_index": 0,
+          "bounding_box": { "x": 0.0-1.0, "y": 0.0-1.0, "width": 0.0-1.0, "height": 0.0-1.0 },
+          "polygon": [{ "x": 0.0-1.0, "y": 0.0-1.0 }]
+        }
+      ]
+    }
+  ],
+  "recommendations": ["List of actionable recommendations"]
+}
+
+For "regions", give one entry per place the item is visible. Coordinates are fractions of the image size with (0, 0) at the top-left corner; "bounding_box" is required and "polygon" is an optional tighter outline of at least 3 points. Omit "regions" if you cannot locate the item.`;
+
+// Output contract for test_kit_read, parsed by TestKitResponseSchema
+export const TEST_KIT_RESPONSE_SCHEMA = `
+Respond with JSON in this exact format:
+{
+  "summary": "Brief 1-2 sentence summary of the tests that were read",
+  "readings": [
+    {
+      "parameter": ${WATER_PARAMETERS.map((parameter) => `"${parameter}"`).join(' | ')},
+      "value": number,
+      "unit": "Unit of the value",
+      "confidence": 0.0-1.0,
+      "kit": "Brand and test, e.g. Salifert KH/Alk, or null if unknown"
+    }
+  ]
+}
+
+Report values in these units when possible: ${WATER_PARAMETERS.map(
+  (parameter) => `${parameter} in ${WATER_PARAMETER_INFO[parameter].unit || 'pH units'}`
+).join(', ')}. If the kit uses another unit (for example ppb phosphate or ppt salinity), give the value and unit exactly as the kit shows them.
+
+Give one entry per parameter. Lower "confidence" when the colors fall between two reference values, the lighting distorts the colors or the display is hard to read. Leave out tests that are not in the list above (such as ammonia) and anything you cannot read. If no test result is visible, return an empty "readings" array and say so in "summary".`;
+
+// Output contract for disease_dx, parsed by DiagnosisResponseSchema
+export const DIAGNOSIS_RESPONSE_SCHEMA = `
+Respond with JSON in this exact format:
+{
+  "summary": "Brief 1-2 sentence summary of the most likely problem",
+  "urgency": "low" | "medium" | "high" | "critical",
+  "differential": [
+    {
+      "condition": "Common name (scientific name if applicable)",
+      "category": "fish" | "coral" | "invertebrate",
+      "likelihood": 0.0-1.0,
+      "evidence": "Visible signs that support this condition",
+      "regions": [
+        {
+          "image_index": 0,
+          "bounding_box": { "x": 0.0-1.0, "y": 0.0-1.0, "width": 0.0-1.0, "height": 0.0-1.0 }
+        }
+      ]
+    }
+  ],
+  "treatment_plan": [
+    {
+      "action": "One step of the plan",
+      "medication_class": ${MEDICATION_CLASSES.map((medication) => `"${medication}"`).join(' | ')} | null,
+      "dosage_notes": "Caveats about dosing, or null",
+      "reef_safe": boolean,
+      "requires_quarantine": boolean
+    }
+  ]
+}
+
+Order "differential" from most to least likely. "urgency" is "critical" when animals could die within days without treatment (for example velvet or fast tissue necrosis).
+
+For "treatment_plan":
+- Use "medication_class": null for husbandry steps such as quarantine, water changes or adjusting flow
+- Set "reef_safe": false for anything that could harm corals, invertebrates or the biological filter, and "requires_quarantine": true for steps that must happen outside the display
+- Do not give exact doses; point to the product label and explain what to watch out for in "dosage_notes"
+
+If no signs of disease are visible, return an empty "differential" and "treatment_plan", use "urgency": "low" and say so in "summary".`;
+
+// Output contract for scan_compare, parsed by VisualDiffResponseSchema
+export const VISUAL_DIFF_RESPONSE_SCHEMA = `
+Respond with JSON in this exact format:
+{
+  "summary": "Brief 1-2 sentence summary of how the tank changed",
+  "changes": [
+    {
+      "subject": "The organism or area that changed, e.g. Green hair algae on the back wall",
+      "kind": "appeared" | "disappeared" | "improved" | "worsened",
+      "description": "What changed and what it is likely to mean"
+    }
+  ]
+}
+
+Order "changes" from most to least important. Only list changes you can actually see in both sets of photos; something that is simply out of frame in one of them has not disappeared. If nothing meaningful changed, return an empty "changes" array and say so in "summary".`;
+
+// -----------------------------------------------------------------------------
+// Prompt Assembly
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the user instructions sent with the images
+ * Combines the mode prompt with the multi-image, tank, schema and language sections.
+ * Test kit photos are read on their own, so they get no tank section.
+ * Diagnoses use the tank section for water chemistry and treatment safety.
+ * Comparisons need the comparison context to tell the two scans apart.
+ */
+export function buildAnalysisInstructions(
+  mode: AnalysisMode,
+  prompt: ActivePrompt,
+  imageCount: number,
+  language?: string,
+  tank?: TankContext,
+  comparison?: ComparisonContext
+): string {
+  if (mode === 'scan_compare') {
+    return [
+      prompt.modePrompt,
+      buildComparisonImageInstructions(imageCount, comparison),
+      VISUAL_DIFF_RESPONSE_SCHEMA,
+      buildLanguageInstructions(language, mode),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  if (mode === 'test_kit_read') {
+    return [
+      prompt.modePrompt,
+      buildTestKitImageInstructions(imageCount),
+      TEST_KIT_RESPONSE_SCHEMA,
+      buildLanguageInstructions(language, mode),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  if (mode === 'disease_dx') {
+    return [
+      prompt.modePrompt,
+      buildDiagnosisImageInstructions(imageCount),
+      buildTankInstructions(tank, new Date(), mode),
+      DIAGNOSIS_RESPONSE_SCHEMA,
+      buildLanguageInstructions(language, mode),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  return [
+    prompt.modePrompt,
+    buildMultiImageInstructions(imageCount),
+    buildTankInstructions(tank),
+    RESPONSE_SCHEMA,
+    buildLanguageInstructions(language),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// -----------------------------------------------------------------------------
+// Multi-Image Instructions
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the extra instructions appended when several views of one tank are sent
+ * Returns an empty string for single-image requests
+ */
+export function buildMultiImageInstructions(imageCount: number): string {
+  if (imageCount <= 1) {
+    return '';
+  }
+
+  return `You are given ${imageCount} images of the SAME tank from different angles (for example front, side and top-down views). They are labeled "Image 0" to "Image ${imageCount - 1}" in order.
+
+Combine all views into ONE analysis:
+- List each organism or problem only once, even if it is visible in several images
+- For every identification add "image_indices": an array of the image numbers it is visible in (e.g. [0, 2])
+- Base tank_health and the summary on all images together`;
+}
+
+/**
+ * Build the extra instructions for several photos of sick animals
+ * Returns an empty string for single-image requests
+ */
+export function buildDiagnosisImageInstructions(imageCount: number): string {
+  if (imageCount <= 1) {
+    return '';
+  }
+
+  return `You are given ${imageCount} images of the SAME tank, labeled "Image 0" to "Image ${imageCount - 1}" in order. They may show different animals or close-ups of the same one. Combine them into ONE diagnosis, and for every condition add "image_indices": an array of the image numbers that show its signs (e.g. [0, 2]).`;
+}
+
+/**
+ * Build the extra instructions for several test kit photos
+ * Returns an empty string for single-image requests
+ */
+export function buildTestKitImageInstructions(imageCount: number): string {
+  if (imageCount <= 1) {
+    return '';
+  }
+
+  return `You are given ${imageCount} images labeled "Image 0" to "Image ${imageCount - 1}", each showing one or more water tests taken at the same time. Read every test across all images; if the same parameter appears more than once, report it once with the clearest reading.`;
+}
+
+/**
+ * Build the instructions that split the images into the earlier and later scan
+ * Without a context the first half of the images is taken as the earlier scan.
+ */
+export function buildComparisonImageInstructions(imageCount: number, comparison?: ComparisonContext): string {
+  const beforeCount = comparison?.beforeImageCount ?? Math.floor(imageCount / 2);
+  const label = (from: number, to: number) => (from === to ? `Image ${from}` : `Images ${from} to ${to}`);
+  const dated = (date: Date | undefined) => (date ? `, taken on ${date.toISOString().split('T')[0]}` : '');
+
+  const lines = [
+    `You are given ${imageCount} images of the SAME tank from two scans, labeled "Image 0" to "Image ${imageCount - 1}" in order:`,
+    `- ${label(0, beforeCount - 1)}: the EARLIER scan${dated(comparison?.beforeAt)}`,
+    `- ${label(beforeCount, imageCount - 1)}: the LATER scan${dated(comparison?.afterAt)}`,
+  ];
+
+  if (comparison) {
+    const days = Math.round((comparison.afterAt.getTime() - comparison.beforeAt.getTime()) / (24 * 60 * 60 * 1000));
+    lines.push('', `The scans are ${days} day${days === 1 ? '' : 's'} apart. Describe the changes from the earlier scan to the later one.`);
+  }
+
+  return lines.join('\n');
+}
+
+// -----------------------------------------------------------------------------
+// Tank Instructions
+// -----------------------------------------------------------------------------
+
+const TANK_TYPE_LABELS: Record<TankType, string> = {
+  mixed_reef: 'mixed reef',
+  sps: 'SPS-dominant reef',
+  lps: 'LPS-dominant reef',
+  soft_coral: 'soft coral reef',
+  fowlr: 'fish-only with live rock (FOWLR)',
+  nano: 'nano reef',
+  frag: 'frag (coral propagation)',
+  quarantine: 'quarantine',
+};
+
+const LITERS_PER_US_GALLON = 3.785;
+
+// How the model should use the tank section, per output schema
+const SCAN_TANK_GUIDANCE = {
+  profile: `Take these into account in "recommendations": scale dosing and water changes to the volume, suggest livestock and care that suit the tank type, and allow for the tank's age (new tanks commonly go through algae phases).`,
+  readings: `Where algae, bleaching, tissue recession or other findings could be explained by these readings, say so in the "description" and address the chemistry in "recommendations". Do not blame readings that are within target.`,
+};
+
+const DIAGNOSIS_TANK_GUIDANCE = {
+  profile: `Take these into account in "treatment_plan": relate dosing caveats to the volume, and remember that anything dosed into a reef display reaches all of its corals and invertebrates.`,
+  readings: `Where these readings could cause or worsen a condition (for example alkalinity swings and tissue necrosis, or high temperature and bleaching), say so in the "evidence" and include correcting the chemistry in "treatment_plan". Do not blame readings that are within target.`,
+};
+
+/**
+ * Build the tank profile section so recommendations fit the tank
+ * Recent water readings are listed so findings can be tied to chemistry.
+ * Returns an empty string when no profile details are known
+ */
+export function buildTankInstructions(
+  tank?: TankContext,
+  now: Date = new Date(),
+  mode: AnalysisMode = 'comprehensive'
+): string {
+  if (!tank) {
+    return '';
+  }
+
+  const facts: string[] = [];
+
+  if (tank.tank_type) {
+    facts.push(`- Type: ${TANK_TYPE_LABELS[tank.tank_type]} tank`);
+  }
+  if (tank.volume_liters) {
+    const gallons = Math.round(tank.volume_liters / LITERS_PER_US_GALLON);
+    facts.push(`- Water volume: ${tank.volume_liters} liters (about ${gallons} US gallons)`);
+  }
+  if (tank.setup_date) {
+    const months = Math.max(
+      0,
+      Math.floor((now.getTime() - new Date(tank.setup_date).getTime()) / (30.44 * 24 * 60 * 60 * 1000))
+    );
+    facts.push(`- Set up on ${tank.setup_date} (about ${months} months ago)`);
+  }
+
+  const readings = tank.water_parameters || [];
+  const sections: string[] = [];
+
+  const guidance = mode === 'disease_dx' ? DIAGNOSIS_TANK_GUIDANCE : SCAN_TANK_GUIDANCE;
+
+  if (facts.length > 0) {
+    sections.push(`About this tank:
+${facts.join('\n')}
+
+${guidance.profile}`);
+  }
+
+  if (readings.length > 0) {
+    sections.push(`Latest water test results:
+${readings.map((reading) => describeReading(reading, now)).join('\n')}
+
+${guidance.readings}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function describeReading(reading: WaterParameterSnapshot, now: Date): string {
+  const { label } = WATER_PARAMETER_INFO[reading.parameter];
+  const daysAgo = Math.max(0, Math.floor((now.getTime() - Date.parse(reading.measured_at)) / (24 * 60 * 60 * 1000)));
+  const when = daysAgo === 0 ? 'today' : `${daysAgo} day${daysAgo === 1 ? '' : 's'} ago`;
+  const status = reading.status === 'ok' ? 'within' : reading.status === 'low' ? 'BELOW' : 'ABOVE';
+
+  return `- ${label}: ${formatReading(reading.parameter, reading.value)} (${status} the target of ${reading.target.min}-${formatReading(reading.parameter, reading.target.max)}; tested ${when})`;
+}
+
+// -----------------------------------------------------------------------------
+// Language Instructions
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the instructions for localized output
+ * Returns an empty string for English or unsupported languages
+ */
+export function buildLanguageInstructions(language?: string, mode?: AnalysisMode): string {
+  if (!isLocalized(language)) {
+    return '';
+  }
+
+  const languageName = SUPPORTED_LANGUAGES[language];
+
+  if (mode === 'disease_dx') {
+    return `Write "summary" and every "evidence", "action" and "dosage_notes" in ${languageName}.
+
+Keep these in English exactly as specified in the schema, because clients rely on them:
+- All JSON field names
+- The values of "urgency", "category" and "medication_class"
+- Scientific (Latin) names in "condition"`;
+  }
+
+  if (mode === 'scan_compare') {
+    return `Write "summary" and every "subject" and "description" in ${languageName}.
+
+Keep all JSON field names and the values of "kind" in English exactly as specified in the schema, because clients rely on them.`;
+  }
+
+  if (mode === 'test_kit_read') {
+    return `Write "summary" in ${languageName}.
+
+Keep all JSON field names, the values of "parameter", the units and kit brand names exactly as specified, because clients rely on them.`;
+  }
+
+  return `Write "summary", every "description" and every entry in "recommendations" in ${languageName}.
+
+Keep these in English exactly as specified in the schema, because clients rely on them:
+- All JSON field names
+- The values of "tank_health", "category" and "severity"
+- "name": use the English common name, and never translate scientific (Latin) species names`;
+}
+
+// -----------------------------------------------------------------------------
+// Repair Instructions
+// -----------------------------------------------------------------------------
+
+/**
+ * Build the follow-up message asking the model to fix output that failed validation
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response could not be used because it did not match the required JSON schema:
+${issues.slice(0, 10).map((issue) => `- ${issue}`).join('\n')}
+
+Respond again with ONLY the corrected JSON object, using exactly the field names and allowed values from the schema. Do not include any other text.`;
+}
+
 // -----------------------------------------------------------------------------
 // Prompt Retrieval
 // -----------------------------------------------------------------------------
@@ -51,18 +475,10 @@ const DEFAULT_MODE_PROMPTS: Record<AnalysisMode, string> = {
 /**
  * Get active prompt for a mode
  */
-export async function getActivePrompt(mode: AnalysisMode): Promise<{
-  systemPrompt: string;
-  modePrompt: string;
-  version: number;
-}> {
+export async function getActivePrompt(mode: AnalysisMode): Promise<ActivePrompt> {
   // Check cache first
   const cacheKey = KEYS.promptCache(mode);
-  const cached = await redis.get<{
-    systemPrompt: string;
-    modePrompt: string;
-    version: number;
-  }>(cacheKey);
+  const cached = await redis.get<ActivePrompt>(cacheKey);
 
   if (cached) {
     return cached;
@@ -102,7 +518,7 @@ export async function getActivePrompt(mode: AnalysisMode): Promise<{
   const defaultPrompt = {
     systemPrompt: DEFAULT_SYSTEM_PROMPT,
     modePrompt: DEFAULT_MODE_PROMPTS[mode],
-    version: 0,
+    version: DEFAULT_PROMPT_VERSION,
   };
 
   // Cache the default
@@ -111,12 +527,50 @@ export async function getActivePrompt(mode: AnalysisMode): Promise<{
   return defaultPrompt;
 }
 
+/**
+ * Get a specific version as an ActivePrompt, e.g. for an experiment variant
+ * Returns null when the version does not exist.
+ */
+export async function getPromptByVersion(
+  mode: AnalysisMode,
+  version: number
+): Promise<ActivePrompt | null> {
+  if (version === DEFAULT_PROMPT_VERSION) {
+    return {
+      systemPrompt: DEFAULT_SYSTEM_PROMPT,
+      modePrompt: DEFAULT_MODE_PROMPTS[mode],
+      version,
+    };
+  }
+
+  const cacheKey = KEYS.promptVersionCache(mode, version);
+  const cached = await redis.get<ActivePrompt>(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const prompt = await getPromptVersion(mode, version);
+  if (!prompt) {
+    return null;
+  }
+
+  const resolved = {
+    systemPrompt: prompt.system_prompt,
+    modePrompt: prompt.mode_prompt,
+    version,
+  };
+
+  await redis.set(cacheKey, resolved, CACHE_TTL);
+
+  return resolved;
+}
+
 /**
  * Get all active prompts
  */
 export async function getAllActivePrompts(): Promise<Map<AnalysisMode, Prompt>> {
   const prompts = new Map<AnalysisMode, Prompt>();
-  const modes: AnalysisMode[] = ['comprehensive', 'fish_id', 'coral_id', 'algae_id', 'pest_id'];
 
   try {
     const result = await sql`
@@ -127,16 +581,7 @@ export async function getAllActivePrompts(): Promise<Map<AnalysisMode, Prompt>>
     `;
 
     for (const row of result.rows) {
-      prompts.set(row.name as AnalysisMode, {
-        id: row.id as number,
-        name: row.name as string,
-        version: row.version as number,
-        system_prompt: row.system_prompt as string,
-        mode_prompt: row.mode_prompt as string,
-        is_active: row.is_active as boolean,
-        created_at: new Date(row.created_at as string),
-        created_by: row.created_by as string | null,
-      });
+      prompts.set(row.name as AnalysisMode, toPrompt(row));
     }
   } catch (error) {
     logger.error('Failed to get prompts from database', {
@@ -145,18 +590,9 @@ export async function getAllActivePrompts(): Promise<Map<AnalysisMode, Prompt>>
   }
 
   // Fill in defaults for missing modes
-  for (const mode of modes) {
+  for (const mode of PROMPT_MODES) {
     if (!prompts.has(mode)) {
-      prompts.set(mode, {
-        id: 0,
-        name: mode,
-        version: 0,
-        system_prompt: DEFAULT_SYSTEM_PROMPT,
-        mode_prompt: DEFAULT_MODE_PROMPTS[mode],
-        is_active: true,
-        created_at: new Date(),
-        created_by: null,
-      });
+      prompts.set(mode, getDefaultPrompt(mode, true));
     }
   }
 
@@ -192,31 +628,33 @@ export async function createPromptVersion(
     RETURNING *
   `;
 
+  await recordPromptChange(name, 'create', newVersion, null, createdBy);
+
   logger.info('Prompt version created', {
     name,
     version: newVersion,
     created_by: createdBy,
   });
 
-  return {
-    id: result.rows[0].id as number,
-    name: result.rows[0].name as string,
-    version: result.rows[0].version as number,
-    system_prompt: result.rows[0].system_prompt as string,
-    mode_prompt: result.rows[0].mode_prompt as string,
-    is_active: result.rows[0].is_active as boolean,
-    created_at: new Date(result.rows[0].created_at as string),
-    created_by: result.rows[0].created_by as string | null,
-  };
+  return toPrompt(result.rows[0]);
 }
 
 /**
  * Activate a specific prompt version
+ * Version 0 deactivates every stored version so the built-in default is used.
  */
 export async function activatePromptVersion(
   name: AnalysisMode,
-  version: number
+  version: number,
+  changedBy: string,
+  action: Exclude<PromptChangeAction, 'create'> = 'activate'
 ): Promise<void> {
+  if (version !== DEFAULT_PROMPT_VERSION && !(await getPromptVersion(name, version))) {
+    throw new PromptError('INVALID_REQUEST', `Prompt version ${version} not found for ${name}`, 404);
+  }
+
+  const previousVersion = await getActiveVersion(name);
+
   // Deactivate all versions
   await sql`
     UPDATE prompts
@@ -225,21 +663,74 @@ export async function activatePromptVersion(
   `;
 
   // Activate the specified version
-  await sql`
-    UPDATE prompts
-    SET is_active = true
-    WHERE name = ${name} AND version = ${version}
-  `;
+  if (version !== DEFAULT_PROMPT_VERSION) {
+    await sql`
+      UPDATE prompts
+      SET is_active = true
+      WHERE name = ${name} AND version = ${version}
+    `;
+  }
 
   // Clear cache
   await redis.del(KEYS.promptCache(name));
 
+  await recordPromptChange(name, action, version, previousVersion, changedBy);
+
   logger.info('Prompt version activated', {
     name,
     version,
+    previous_version: previousVersion,
+    changed_by: changedBy,
   });
 }
 
+/**
+ * Roll back to the version that was live before the active one
+ * The change log is replayed: activations and promotions go live, rollbacks
+ * undo the last one, so repeated rollbacks keep walking back. With no earlier
+ * version in the log the built-in default is used.
+ */
+export async function rollbackPromptVersion(
+  name: AnalysisMode,
+  changedBy: string
+): Promise<number> {
+  const activeVersion = await getActiveVersion(name);
+
+  if (activeVersion === DEFAULT_PROMPT_VERSION) {
+    throw new PromptError('INVALID_REQUEST', `${name} is already using the default prompt`, 409);
+  }
+
+  const result = await sql`
+    SELECT action, version
+    FROM prompt_changes
+    WHERE name = ${name} AND action <> 'create'
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  // Versions in the order they went live, the current one last
+  const live: number[] = [DEFAULT_PROMPT_VERSION];
+  for (const row of result.rows) {
+    const version = Number(row.version);
+    if (row.action === 'rollback') {
+      live.pop();
+    }
+    if (live[live.length - 1] !== version) {
+      live.push(version);
+    }
+  }
+
+  // Activated outside the admin API
+  if (live[live.length - 1] !== activeVersion) {
+    live.push(activeVersion);
+  }
+
+  const targetVersion = live.length > 1 ? live[live.length - 2] : DEFAULT_PROMPT_VERSION;
+
+  await activatePromptVersion(name, targetVersion, changedBy, 'rollback');
+
+  return targetVersion;
+}
+
 /**
  * Get all versions of a prompt
  */
@@ -251,15 +742,104 @@ export async function getPromptVersions(name: AnalysisMode): Promise<Prompt[]> {
     ORDER BY version DESC
   `;
 
+  return result.rows.map(toPrompt);
+}
+
+/**
+ * Get one version of a prompt; version 0 is the built-in default
+ */
+export async function getPromptVersion(
+  name: AnalysisMode,
+  version: number
+): Promise<Prompt | null> {
+  if (version === DEFAULT_PROMPT_VERSION) {
+    return getDefaultPrompt(name, (await getActiveVersion(name)) === DEFAULT_PROMPT_VERSION);
+  }
+
+  const result = await sql`
+    SELECT *
+    FROM prompts
+    WHERE name = ${name} AND version = ${version}
+  `;
+
+  return result.rows.length > 0 ? toPrompt(result.rows[0]) : null;
+}
+
+/**
+ * Get the active stored version, or 0 when the default is in use
+ */
+export async function getActiveVersion(name: AnalysisMode): Promise<number> {
+  const result = await sql`
+    SELECT version
+    FROM prompts
+    WHERE name = ${name} AND is_active = true
+    LIMIT 1
+  `;
+
+  return result.rows.length > 0 ? (result.rows[0].version as number) : DEFAULT_PROMPT_VERSION;
+}
+
+/**
+ * Line diff of the system and mode prompts between two versions
+ */
+export async function diffPromptVersions(
+  name: AnalysisMode,
+  fromVersion: number,
+  toVersion: number
+): Promise<{ system_prompt: DiffLine[]; mode_prompt: DiffLine[] }> {
+  const [from, to] = await Promise.all([
+    getPromptVersion(name, fromVersion),
+    getPromptVersion(name, toVersion),
+  ]);
+
+  if (!from || !to) {
+    const missing = from ? toVersion : fromVersion;
+    throw new PromptError('INVALID_REQUEST', `Prompt version ${missing} not found for ${name}`, 404);
+  }
+
+  return {
+    system_prompt: diffLines(from.system_prompt, to.system_prompt),
+    mode_prompt: diffLines(from.mode_prompt, to.mode_prompt),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Change History
+// -----------------------------------------------------------------------------
+
+async function recordPromptChange(
+  name: AnalysisMode,
+  action: PromptChangeAction,
+  version: number,
+  previousVersion: number | null,
+  changedBy: string
+): Promise<void> {
+  await sql`
+    INSERT INTO prompt_changes (name, action, version, previous_version, changed_by)
+    VALUES (${name}, ${action}, ${version}, ${previousVersion}, ${changedBy})
+  `;
+}
+
+/**
+ * Get the most recent changes to a prompt, newest first
+ */
+export async function getPromptChanges(name: AnalysisMode, limit = 50): Promise<PromptChange[]> {
+  const result = await sql`
+    SELECT *
+    FROM prompt_changes
+    WHERE name = ${name}
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+
   return result.rows.map((row) => ({
     id: row.id as number,
     name: row.name as string,
+    action: row.action as PromptChangeAction,
     version: row.version as number,
-    system_prompt: row.system_prompt as string,
-    mode_prompt: row.mode_prompt as string,
-    is_active: row.is_active as boolean,
+    previous_version: row.previous_version as number | null,
+    changed_by: row.changed_by as string,
     created_at: new Date(row.created_at as string),
-    created_by: row.created_by as string | null,
   }));
 }
 
@@ -271,11 +851,55 @@ export async function getPromptVersions(name: AnalysisMode): Promise<Prompt[]> {
  * Clear all prompt caches
  */
 export async function clearPromptCache(): Promise<void> {
-  const modes: AnalysisMode[] = ['comprehensive', 'fish_id', 'coral_id', 'algae_id', 'pest_id'];
-
-  for (const mode of modes) {
+  for (const mode of PROMPT_MODES) {
     await redis.del(KEYS.promptCache(mode));
   }
 
   logger.info('Prompt cache cleared');
 }
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toPrompt(row: Record<string, unknown>): Prompt {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    version: row.version as number,
+    system_prompt: row.system_prompt as string,
+    mode_prompt: row.mode_prompt as string,
+    is_active: row.is_active as boolean,
+    created_at: new Date(row.created_at as string),
+    created_by: row.created_by as string | null,
+  };
+}
+
+function getDefaultPrompt(mode: AnalysisMode, isActive: boolean): Prompt {
+  return {
+    id: 0,
+    name: mode,
+    version: DEFAULT_PROMPT_VERSION,
+    system_prompt: DEFAULT_SYSTEM_PROMPT,
+    mode_prompt: DEFAULT_MODE_PROMPTS[mode],
+    is_active: isActive,
+    created_at: new Date(0),
+    created_by: null,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class PromptError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'PromptError';
+  }
+}
@@ -0,0 +1,105 @@
+// ============================================================================
+// AI Provider Registry
+// Registered vision backends and the configured fallback chain
+// ============================================================================
+
+import config from '../config';
+import { geminiProvider } from './gemini.service';
+import { openaiProvider } from './openai.service';
+import { createOpenAICompatibleProvider } from './openaiCompatible.service';
+import { createMockProvider, loadMockFixtures, parseMockBehavior } from './mockProvider.service';
+import type { AIProvider, ProviderName } from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Registry State
+// -----------------------------------------------------------------------------
+
+const providers = new Map<ProviderName, AIProvider>();
+
+// -----------------------------------------------------------------------------
+// Registration
+// -----------------------------------------------------------------------------
+
+/**
+ * Register a provider, replacing any existing provider with the same name
+ */
+export function registerProvider(provider: AIProvider): void {
+  if (providers.has(provider.name)) {
+    logger.warn('Replacing registered AI provider', { provider: provider.name });
+  }
+
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a provider from the registry
+ */
+export function unregisterProvider(name: ProviderName): void {
+  providers.delete(name);
+}
+
+/**
+ * Register the built-in providers and any configured OpenAI-compatible endpoints
+ * The mock provider is only registered when it is part of the fallback order.
+ */
+export function registerDefaultProviders(): void {
+  registerProvider(geminiProvider);
+  registerProvider(openaiProvider);
+
+  for (const endpoint of config.providers.openaiCompatible) {
+    registerProvider(createOpenAICompatibleProvider(endpoint));
+  }
+
+  if (config.providers.order.includes('mock')) {
+    registerProvider(
+      createMockProvider({
+        name: 'mock',
+        behavior: parseMockBehavior(config.mockProvider.behavior),
+        latencyMs: config.mockProvider.latencyMs,
+        timeoutMs: config.mockProvider.timeoutMs,
+        useKeyPool: config.mockProvider.useKeyPool,
+        fixtures: loadMockFixtures(config.mockProvider.fixturesPath),
+      })
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Lookup
+// -----------------------------------------------------------------------------
+
+/**
+ * Get a registered provider by name
+ */
+export function getProvider(name: ProviderName): AIProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Get every registered provider, whether or not it is in the fallback chain
+ */
+export function getRegisteredProviders(): AIProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Get the providers to try for a request, in configured fallback order
+ * Names in AI_PROVIDERS that are not registered are skipped.
+ */
+export function getProviderChain(
+  order: ProviderName[] = config.providers.order
+): AIProvider[] {
+  return order
+    .map((name) => providers.get(name))
+    .filter((provider): provider is AIProvider => provider !== undefined);
+}
+
+registerDefaultProviders();
+
+// Surface typos in AI_PROVIDERS at startup rather than on the first request
+for (const name of config.providers.order) {
+  if (!providers.has(name)) {
+    logger.warn('Unknown AI provider in fallback order', { provider: name });
+  }
+}
@@ -0,0 +1,285 @@
+// ============================================================================
+// Scan History Service
+// Past analysis results per device, stored on request_logs
+// ============================================================================
+
+import { sql } from '../db';
+import * as health from './health.service';
+import type {
+  AnalysisMode,
+  ErrorCode,
+  Identification,
+  ScanRecord,
+  ScanResult,
+  ScanSummary,
+  StoredScanResult,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ScanFilters {
+  limit: number;
+  cursor?: string;
+  mode?: AnalysisMode;
+  tank_health?: ScanResult['tank_health'];
+  from?: Date;
+  to?: Date;
+  tank_id?: string;
+}
+
+export interface ScanPage {
+  scans: ScanSummary[];
+  next_cursor: string | null;
+}
+
+// Position of the last row on a page; created_at keeps microsecond precision
+interface Cursor {
+  createdAt: string;
+  requestId: string;
+}
+
+// -----------------------------------------------------------------------------
+// Storage
+// -----------------------------------------------------------------------------
+
+/**
+ * Strip per-response fields before a result is stored in history
+ */
+export function toStoredResult(result: ScanResult): StoredScanResult {
+  return {
+    tank_health: result.tank_health,
+    summary: result.summary,
+    identifications: result.identifications,
+    recommendations: result.recommendations,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * List a device's scans, newest first
+ */
+export async function listScans(deviceId: string, filters: ScanFilters): Promise<ScanPage> {
+  const cursor = filters.cursor ? decodeCursor(filters.cursor) : null;
+
+  if (filters.cursor && !cursor) {
+    throw new ScanError('INVALID_REQUEST', 'cursor is invalid', 400);
+  }
+
+  const result = await sql<{
+    request_id: string;
+    mode: AnalysisMode;
+    tank_id: string | null;
+    tank_health: ScanResult['tank_health'];
+    summary: string;
+    identification_count: number;
+    created_at: string;
+    cursor_time: string;
+  }>`
+    SELECT
+      request_id,
+      mode,
+      tank_id,
+      result->>'tank_health' as tank_health,
+      result->>'summary' as summary,
+      jsonb_array_length(result->'identifications') as identification_count,
+      created_at,
+      to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') as cursor_time
+    FROM request_logs
+    WHERE device_id = ${deviceId}
+      AND result IS NOT NULL
+      AND (${filters.mode ?? null}::text IS NULL OR mode = ${filters.mode ?? null})
+      AND (${filters.tank_id ?? null}::uuid IS NULL OR tank_id = ${filters.tank_id ?? null})
+      AND (${filters.tank_health ?? null}::text IS NULL OR result->>'tank_health' = ${filters.tank_health ?? null})
+      AND (${filters.from?.toISOString() ?? null}::timestamptz IS NULL OR created_at >= ${filters.from?.toISOString() ?? null})
+      AND (${filters.to?.toISOString() ?? null}::timestamptz IS NULL OR created_at < ${filters.to?.toISOString() ?? null})
+      AND (
+        ${cursor?.createdAt ?? null}::timestamptz IS NULL
+        OR (created_at, request_id) < (${cursor?.createdAt ?? null}::timestamptz, ${cursor?.requestId ?? null})
+      )
+    ORDER BY created_at DESC, request_id DESC
+    LIMIT ${filters.limit + 1}
+  `;
+
+  // One extra row tells us whether another page exists
+  const rows = result.rows.slice(0, filters.limit);
+  const last = rows[rows.length - 1];
+
+  return {
+    scans: rows.map((row) => ({
+      request_id: row.request_id,
+      mode: row.mode,
+      tank_id: row.tank_id,
+      tank_health: row.tank_health,
+      summary: row.summary,
+      identification_count: Number(row.identification_count),
+      created_at: new Date(row.created_at),
+    })),
+    next_cursor:
+      result.rows.length > filters.limit && last
+        ? encodeCursor({ createdAt: last.cursor_time, requestId: last.request_id })
+        : null,
+  };
+}
+
+/**
+ * Identifications of a tank's scans since a date, newest scan first
+ */
+export async function getRecentIdentifications(tankId: string, since: Date): Promise<Identification[]> {
+  const result = await sql<{ identifications: Identification[] | null }>`
+    SELECT result->'identifications' as identifications
+    FROM request_logs
+    WHERE tank_id = ${tankId}
+      AND result IS NOT NULL
+      AND created_at >= ${since.toISOString()}
+    ORDER BY created_at DESC
+  `;
+
+  return result.rows.flatMap((row) => row.identifications || []);
+}
+
+/**
+ * Results of a tank's scans in a period, newest first
+ */
+export async function getTankResults(tankId: string, from: Date, to: Date): Promise<StoredScanResult[]> {
+  const result = await sql<{ result: StoredScanResult | string }>`
+    SELECT result
+    FROM request_logs
+    WHERE tank_id = ${tankId}
+      AND result IS NOT NULL
+      AND created_at >= ${from.toISOString()}
+      AND created_at < ${to.toISOString()}
+    ORDER BY created_at DESC
+  `;
+
+  return result.rows.map(
+    (row) => (typeof row.result === 'string' ? JSON.parse(row.result) : row.result) as StoredScanResult
+  );
+}
+
+/**
+ * Get one of the device's scans with the full result
+ */
+export async function getScan(deviceId: string, requestId: string): Promise<ScanRecord | null> {
+  const result = await sql<{
+    request_id: string;
+    mode: AnalysisMode;
+    tank_id: string | null;
+    result: StoredScanResult | string;
+    created_at: string;
+  }>`
+    SELECT request_id, mode, tank_id, result, created_at
+    FROM request_logs
+    WHERE request_id = ${requestId}
+      AND device_id = ${deviceId}
+      AND result IS NOT NULL
+  `;
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const stored = (typeof row.result === 'string' ? JSON.parse(row.result) : row.result) as StoredScanResult;
+
+  return {
+    request_id: row.request_id,
+    mode: row.mode,
+    tank_id: row.tank_id,
+    created_at: new Date(row.created_at),
+    ...stored,
+  };
+}
+
+/**
+ * Hash of the image set a scan was run on, as computed by the cache service
+ * Images are not stored, so this is how a client re-sending them is checked.
+ */
+export async function getScanImageHash(deviceId: string, requestId: string): Promise<string | null> {
+  const result = await sql<{ image_hash: string | null }>`
+    SELECT image_hash
+    FROM request_logs
+    WHERE request_id = ${requestId}
+      AND device_id = ${deviceId}
+      AND result IS NOT NULL
+  `;
+
+  return result.rows[0]?.image_hash ?? null;
+}
+
+/**
+ * Remove a scan from the device's history and its tank's health scores
+ * The request log row is kept, without its result, for usage and cost metrics.
+ */
+export async function deleteScan(deviceId: string, requestId: string): Promise<boolean> {
+  const result = await sql`
+    UPDATE request_logs
+    SET result = NULL
+    WHERE request_id = ${requestId}
+      AND device_id = ${deviceId}
+      AND result IS NOT NULL
+  `;
+
+  const deleted = (result.rowCount ?? 0) > 0;
+
+  if (deleted) {
+    // The scan no longer counts towards the tank's health trend
+    await health.removeScore(requestId);
+
+    logger.info('Scan deleted from history', {
+      request_id: requestId,
+      device_id: deviceId,
+    });
+  }
+
+  return deleted;
+}
+
+// -----------------------------------------------------------------------------
+// Cursor Encoding
+// -----------------------------------------------------------------------------
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.requestId])).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length !== 2 ||
+      typeof parsed[0] !== 'string' ||
+      typeof parsed[1] !== 'string' ||
+      Number.isNaN(Date.parse(parsed[0]))
+    ) {
+      return null;
+    }
+
+    return { createdAt: parsed[0], requestId: parsed[1] };
+  } catch {
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class ScanError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'ScanError';
+  }
+}
@@ -0,0 +1,362 @@
+// ============================================================================
+// Scan Comparison Service
+// What changed in a tank between two of its scans
+// ============================================================================
+
+import * as aiProvider from './aiProvider.service';
+import * as cache from './cache.service';
+import * as experiments from './experiment.service';
+import * as scans from './scan.service';
+import * as species from './species.service';
+import * as usage from './usage.service';
+import type {
+  AnalysisImage,
+  Device,
+  ErrorCode,
+  HealthDirection,
+  Identification,
+  IdentificationChange,
+  ScanComparison,
+  ScanComparisonSide,
+  ScanRecord,
+  ScanResult,
+  VisualDiff,
+} from '../types';
+import logger from '../utils/logger';
+import { isVisualDiffResult, TANK_HEALTH_VALUES } from '../utils/modelResponse';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface CompareScansInput {
+  request_ids: string[];
+  // Ask the model to describe the visual changes; needs the images of both scans
+  visual_diff?: boolean;
+  // Keyed by request id, as each scan was originally sent
+  images?: Record<string, AnalysisImage[]>;
+  language?: string;
+}
+
+interface MatchedPair {
+  before: Identification;
+  after: Identification;
+}
+
+// Not a problem ranks lowest; a problem without a severity counts as low
+const SEVERITY_RANK: Record<NonNullable<Identification['severity']>, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+// -----------------------------------------------------------------------------
+// Comparison
+// -----------------------------------------------------------------------------
+
+/**
+ * Compare two scans of the same tank, older one first whatever the order given
+ * Identifications are matched by catalog species, or by category and name when
+ * the catalog does not know them. The visual diff is a separate model call.
+ */
+export async function compareScans(
+  device: Device,
+  requestId: string,
+  input: CompareScansInput
+): Promise<ScanComparison> {
+  const records = await Promise.all(input.request_ids.map((id) => scans.getScan(device.id, id)));
+
+  const missing = input.request_ids.filter((_, index) => !records[index]);
+  if (missing.length > 0) {
+    throw new ScanComparisonError('INVALID_REQUEST', `Scan not found: ${missing.join(', ')}`, 404);
+  }
+
+  const [before, after] = (records as ScanRecord[]).sort(
+    (a, b) => a.created_at.getTime() - b.created_at.getTime()
+  );
+
+  if (!before.tank_id || before.tank_id !== after.tank_id) {
+    throw new ScanComparisonError('INVALID_REQUEST', 'Both scans must belong to the same tank', 400);
+  }
+
+  const changes = diffIdentifications(before.identifications, after.identifications);
+
+  const visualDiff = input.visual_diff
+    ? await getVisualDiff(device, requestId, before, after, input)
+    : null;
+
+  logger.debug('Scans compared', {
+    device_id: device.id,
+    tank_id: before.tank_id,
+    before: before.request_id,
+    after: after.request_id,
+    new_count: changes.new_identifications.length,
+    missing_count: changes.missing_identifications.length,
+    severity_changes: changes.severity_changes.length,
+  });
+
+  return {
+    tank_id: before.tank_id,
+    before: toSide(before),
+    after: toSide(after),
+    tank_health: compareHealth(before.tank_health, after.tank_health),
+    ...changes,
+    visual_diff: visualDiff,
+  };
+}
+
+/**
+ * Match the identifications of two scans and report what appeared, what is
+ * gone and what got worse or better
+ * Several sightings of the same organism are paired most severe first.
+ */
+export function diffIdentifications(
+  before: Identification[],
+  after: Identification[]
+): Pick<
+  ScanComparison,
+  'new_identifications' | 'missing_identifications' | 'severity_changes' | 'unchanged_count'
+> {
+  const beforeGroups = groupByMatchKey(before);
+  const afterGroups = groupByMatchKey(after);
+
+  const pairs: MatchedPair[] = [];
+  const newIdentifications: Identification[] = [];
+  const missingIdentifications: Identification[] = [];
+
+  for (const key of new Set([...beforeGroups.keys(), ...afterGroups.keys()])) {
+    const beforeGroup = beforeGroups.get(key) || [];
+    const afterGroup = afterGroups.get(key) || [];
+    const paired = Math.min(beforeGroup.length, afterGroup.length);
+
+    for (let index = 0; index < paired; index++) {
+      pairs.push({ before: beforeGroup[index], after: afterGroup[index] });
+    }
+    missingIdentifications.push(...beforeGroup.slice(paired));
+    newIdentifications.push(...afterGroup.slice(paired));
+  }
+
+  const severityChanges = pairs.flatMap((pair): IdentificationChange[] => {
+    const delta = getSeverityRank(pair.after) - getSeverityRank(pair.before);
+    if (delta === 0) {
+      return [];
+    }
+    return [
+      {
+        name: pair.after.name,
+        category: pair.after.category,
+        species_id: pair.after.species_id ?? null,
+        change: delta > 0 ? 'escalated' : 'improved',
+        before: pair.before,
+        after: pair.after,
+      },
+    ];
+  });
+
+  return {
+    new_identifications: newIdentifications,
+    missing_identifications: missingIdentifications,
+    // Escalations are what the user needs to act on
+    severity_changes: severityChanges.sort(
+      (a, b) => Number(b.change === 'escalated') - Number(a.change === 'escalated')
+    ),
+    unchanged_count: pairs.length - severityChanges.length,
+  };
+}
+
+/**
+ * Steps between two health ratings, positive when the tank got healthier
+ */
+export function compareHealth(
+  before: ScanResult['tank_health'],
+  after: ScanResult['tank_health']
+): ScanComparison['tank_health'] {
+  // The scale runs from Excellent to Critical
+  const delta = TANK_HEALTH_VALUES.indexOf(before) - TANK_HEALTH_VALUES.indexOf(after);
+  const direction: HealthDirection = delta > 0 ? 'improved' : delta < 0 ? 'declined' : 'unchanged';
+
+  return { before, after, delta, direction };
+}
+
+// -----------------------------------------------------------------------------
+// Visual Diff
+// -----------------------------------------------------------------------------
+
+/**
+ * Ask the model what changed between the images of both scans
+ * The images must be the ones each scan was run on.
+ */
+async function getVisualDiff(
+  device: Device,
+  requestId: string,
+  before: ScanRecord,
+  after: ScanRecord,
+  input: CompareScansInput
+): Promise<VisualDiff> {
+  const beforeImages = input.images?.[before.request_id];
+  const afterImages = input.images?.[after.request_id];
+  if (!beforeImages || !afterImages) {
+    throw new ScanComparisonError(
+      'INVALID_REQUEST',
+      'visual_diff requires the images of both scans, keyed by request id',
+      400
+    );
+  }
+
+  await Promise.all(
+    [
+      { scan: before, images: beforeImages },
+      { scan: after, images: afterImages },
+    ].map(async ({ scan, images }) => {
+      const storedHash = await scans.getScanImageHash(device.id, scan.request_id);
+      const hash = cache.calculateImageSetHash(images.map((image) => image.data));
+      if (storedHash && storedHash !== hash) {
+        throw new ScanComparisonError(
+          'INVALID_REQUEST',
+          `The images for ${scan.request_id} are not the ones that scan was run on`,
+          400
+        );
+      }
+    })
+  );
+
+  const providersAvailable = await aiProvider.isAnyProviderAvailable();
+  if (!providersAvailable) {
+    throw new ScanComparisonError(
+      'AI_UNAVAILABLE',
+      'AI analysis service is temporarily unavailable. Please try again later.',
+      503
+    );
+  }
+
+  const { prompt, experimentId } = await experiments.resolvePrompt('scan_compare', device.id);
+  const analysisResult = await aiProvider.analyzeImage(
+    [...beforeImages, ...afterImages],
+    'scan_compare',
+    requestId,
+    undefined,
+    {
+      language: input.language,
+      prompt,
+      comparison: {
+        beforeImageCount: beforeImages.length,
+        beforeAt: before.created_at,
+        afterAt: after.created_at,
+      },
+    }
+  );
+
+  const logDetails = {
+    requestId,
+    promptVersion: prompt.version,
+    experimentId,
+    tankId: before.tank_id ?? undefined,
+  };
+
+  if (!analysisResult.success || !analysisResult.result || !isVisualDiffResult(analysisResult.result)) {
+    logger.error('Visual diff failed', {
+      request_id: requestId,
+      provider: analysisResult.provider,
+      error: analysisResult.error?.code,
+      validation_error: analysisResult.validationError,
+    });
+
+    usage.recordError(
+      device.id,
+      'scan_compare',
+      analysisResult.provider,
+      analysisResult.apiKeyId || 'unknown',
+      analysisResult.validationError || analysisResult.error?.code || 'PROVIDER_ERROR',
+      analysisResult.latencyMs,
+      logDetails
+    ).catch((err) => {
+      logger.error('Failed to record error', {
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    });
+
+    throw new ScanComparisonError(
+      'AI_UNAVAILABLE',
+      analysisResult.error?.message || 'Visual diff failed',
+      503
+    );
+  }
+
+  // Logged without a result, so the comparison stays out of scan history
+  usage.recordUsage(
+    device.id,
+    'scan_compare',
+    analysisResult.provider,
+    analysisResult.apiKeyId || 'unknown',
+    analysisResult.latencyMs,
+    analysisResult.tokensUsed.input,
+    analysisResult.tokensUsed.output,
+    { ...logDetails, errorCode: analysisResult.validationError }
+  ).catch((err) => {
+    logger.error('Failed to record usage', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  });
+
+  return {
+    summary: analysisResult.result.summary,
+    changes: analysisResult.result.changes,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Group identifications by what they are, most severe first within a group
+ * Scans stored before the species catalog have no species_id, so livestock is
+ * matched again here.
+ */
+function groupByMatchKey(identifications: Identification[]): Map<string, Identification[]> {
+  const groups = new Map<string, Identification[]>();
+
+  for (const identification of species.enrichIdentifications(identifications)) {
+    const key = identification.species_id
+      ? `species:${identification.species_id}`
+      : `${identification.category}:${species.normalizeSpeciesName(identification.name)}`;
+    groups.set(key, [...(groups.get(key) || []), identification]);
+  }
+
+  for (const group of groups.values()) {
+    group.sort((a, b) => getSeverityRank(b) - getSeverityRank(a));
+  }
+
+  return groups;
+}
+
+function getSeverityRank(identification: Identification): number {
+  if (!identification.is_problem) {
+    return 0;
+  }
+  return identification.severity ? SEVERITY_RANK[identification.severity] : 1;
+}
+
+function toSide(scan: ScanRecord): ScanComparisonSide {
+  return {
+    request_id: scan.request_id,
+    tank_health: scan.tank_health,
+    created_at: scan.created_at,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class ScanComparisonError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'ScanComparisonError';
+  }
+}
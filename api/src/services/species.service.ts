@@ -0,0 +1,282 @@
+// ============================================================================
+// Species Service
+// Matches identification names to the species catalog and tracks misses
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import { SPECIES_CATALOG } from '../data/speciesCatalog';
+import type {
+  Identification,
+  LivestockCategory,
+  Species,
+  SpeciesDetails,
+  UnmatchedSpeciesName,
+} from '../types';
+import logger from '../utils/logger';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface SpeciesMatch {
+  species: Species;
+  similarity: number; // 1 for an exact name or alias
+}
+
+export interface SpeciesFilters {
+  category?: LivestockCategory;
+  q?: string;
+}
+
+// Only these identification categories are looked up in the catalog
+const CATALOG_CATEGORIES: readonly string[] = ['fish', 'coral', 'invertebrate'];
+
+interface CatalogName {
+  key: string; // normalized name without spaces
+  species: Species;
+}
+
+let catalogNames: CatalogName[] | null = null;
+let catalogByKey: Map<string, Species> | null = null;
+
+// -----------------------------------------------------------------------------
+// Catalog
+// -----------------------------------------------------------------------------
+
+/**
+ * List catalog entries by common name
+ * q matches part of the common name, scientific name or an alias.
+ */
+export function listSpecies(filters: SpeciesFilters = {}): Species[] {
+  const query = filters.q ? toKey(filters.q) : '';
+
+  return SPECIES_CATALOG.filter(
+    (species) =>
+      (!filters.category || species.category === filters.category) &&
+      (!query || getNames(species).some((name) => toKey(name).includes(query)))
+  ).sort((a, b) => a.common_name.localeCompare(b.common_name));
+}
+
+export function getSpecies(speciesId: string): Species | null {
+  return SPECIES_CATALOG.find((species) => species.id === speciesId) || null;
+}
+
+// -----------------------------------------------------------------------------
+// Matching
+// -----------------------------------------------------------------------------
+
+/**
+ * Find the catalog entry for a name returned by the model
+ * Exact names and aliases match in any category, as anemones are often
+ * returned as corals. Misspellings only match within the given category.
+ */
+export function matchSpecies(name: string, category?: string): SpeciesMatch | null {
+  const keys = getNameVariants(name).map(toKey).filter((key) => key.length > 0);
+  const byKey = getCatalogByKey();
+
+  for (const key of keys) {
+    const species = byKey.get(key);
+    if (species) {
+      return { species, similarity: 1 };
+    }
+  }
+
+  if (!category || !CATALOG_CATEGORIES.includes(category)) {
+    return null;
+  }
+
+  let best: SpeciesMatch | null = null;
+  for (const key of keys) {
+    for (const entry of getCatalogNames()) {
+      if (entry.species.category !== category) {
+        continue;
+      }
+
+      const similarity = getSimilarity(key, entry.key);
+      if (!best || similarity > best.similarity) {
+        best = { species: entry.species, similarity };
+      }
+    }
+  }
+
+  return best && best.similarity >= config.species.minMatchSimilarity ? best : null;
+}
+
+/**
+ * Add the catalog match and its care data to each identification
+ * Names outside the catalog, and algae, pests and other categories, get nulls.
+ */
+export function enrichIdentifications(identifications: Identification[]): Identification[] {
+  return identifications.map((identification) => {
+    const match = CATALOG_CATEGORIES.includes(identification.category)
+      ? matchSpecies(identification.name, identification.category)
+      : null;
+
+    return {
+      ...identification,
+      species_id: match?.species.id ?? null,
+      species: match ? toDetails(match.species) : null,
+    };
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Curation
+// -----------------------------------------------------------------------------
+
+/**
+ * Count the fish, coral and invert names of a scan that the catalog did not match
+ * Each name counts once per scan.
+ */
+export async function recordUnmatched(identifications: Identification[]): Promise<void> {
+  const unmatched = new Map<string, { name: string; category: string }>();
+  for (const identification of identifications) {
+    if (identification.species_id || !CATALOG_CATEGORIES.includes(identification.category)) {
+      continue;
+    }
+
+    const key = `${identification.category}:${normalizeSpeciesName(identification.name)}`;
+    unmatched.set(key, { name: identification.name.trim(), category: identification.category });
+  }
+
+  if (unmatched.size === 0) {
+    return;
+  }
+
+  const entries = Array.from(unmatched.values());
+
+  await sql`
+    INSERT INTO unmatched_species (name, normalized_name, category)
+    SELECT * FROM unnest(
+      ${entries.map((entry) => entry.name)}::text[],
+      ${entries.map((entry) => normalizeSpeciesName(entry.name))}::text[],
+      ${entries.map((entry) => entry.category)}::text[]
+    )
+    ON CONFLICT (normalized_name, category)
+    DO UPDATE SET
+      name = EXCLUDED.name,
+      count = unmatched_species.count + 1,
+      last_seen = NOW()
+  `;
+
+  logger.debug('Unmatched species names recorded', {
+    names: entries.map((entry) => entry.name),
+  });
+}
+
+/**
+ * Most frequent names missing from the catalog
+ * Names the catalog matches by now, e.g. after an alias was added, are left out.
+ */
+export async function listUnmatched(limit: number): Promise<UnmatchedSpeciesName[]> {
+  const result = await sql`
+    SELECT name, category, count, first_seen, last_seen
+    FROM unmatched_species
+    ORDER BY count DESC, last_seen DESC
+    LIMIT ${limit}
+  `;
+
+  return result.rows
+    .map(
+      (row): UnmatchedSpeciesName => ({
+        name: row.name as string,
+        category: row.category as LivestockCategory,
+        count: Number(row.count),
+        first_seen: new Date(row.first_seen as string),
+        last_seen: new Date(row.last_seen as string),
+      })
+    )
+    .filter((entry) => !matchSpecies(entry.name, entry.category));
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Lowercase words without accents or punctuation; a trailing "sp." is dropped
+ */
+export function normalizeSpeciesName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/\s+spp?$/, '');
+}
+
+// "Clown fish" and "Clownfish" are the same name
+function toKey(name: string): string {
+  return normalizeSpeciesName(name).replace(/ /g, '');
+}
+
+// Models often write "Common Name (Scientific name)"
+function getNameVariants(name: string): string[] {
+  const variants = [name, name.replace(/\([^)]*\)/g, ' ')];
+  for (const match of name.matchAll(/\(([^)]*)\)/g)) {
+    variants.push(match[1]);
+  }
+  return variants;
+}
+
+function getNames(species: Species): string[] {
+  return [species.common_name, species.scientific_name, ...species.aliases];
+}
+
+function getCatalogNames(): CatalogName[] {
+  if (!catalogNames) {
+    catalogNames = SPECIES_CATALOG.flatMap((species) =>
+      getNames(species).map((name) => ({ key: toKey(name), species }))
+    );
+  }
+  return catalogNames;
+}
+
+function getCatalogByKey(): Map<string, Species> {
+  if (!catalogByKey) {
+    catalogByKey = new Map(getCatalogNames().map((entry) => [entry.key, entry.species]));
+  }
+  return catalogByKey;
+}
+
+/**
+ * 1 - edit distance / length of the longer name
+ */
+function getSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
+
+function toDetails(species: Species): SpeciesDetails {
+  return {
+    common_name: species.common_name,
+    scientific_name: species.scientific_name,
+    category: species.category,
+    reef_safe: species.reef_safe,
+    care_level: species.care_level,
+    temperament: species.temperament,
+    preys_on: species.preys_on,
+    max_size_cm: species.max_size_cm,
+    min_tank_liters: species.min_tank_liters,
+  };
+}
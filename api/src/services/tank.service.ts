@@ -0,0 +1,246 @@
+// ============================================================================
+// Tank Service
+// Aquarium profiles owned by a device; scans can be grouped per tank
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import * as water from './waterParameter.service';
+import type { ErrorCode, Tank, TankContext, TankType } from '../types';
+import logger from '../utils/logger';
+import { isValidUuid } from '../utils/validation';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TankInput {
+  name: string;
+  volume_liters?: number | null;
+  tank_type?: TankType | null;
+  setup_date?: string | null;
+  photo_url?: string | null;
+}
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * List a device's tanks, oldest first, with scan counts
+ */
+export async function listTanks(deviceId: string): Promise<Tank[]> {
+  const result = await sql`
+    SELECT t.*, s.scan_count, s.last_scan_at
+    FROM tanks t
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) as scan_count, MAX(created_at) as last_scan_at
+      FROM request_logs
+      WHERE tank_id = t.id AND result IS NOT NULL
+    ) s ON true
+    WHERE t.device_id = ${deviceId}
+    ORDER BY t.created_at ASC
+  `;
+
+  return result.rows.map(toTank);
+}
+
+/**
+ * Get one of the device's tanks
+ * Returns null for unknown ids and tanks of other devices.
+ */
+export async function getTank(deviceId: string, tankId: string): Promise<Tank | null> {
+  if (!isValidUuid(tankId)) {
+    return null;
+  }
+
+  const result = await sql`
+    SELECT t.*, s.scan_count, s.last_scan_at
+    FROM tanks t
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) as scan_count, MAX(created_at) as last_scan_at
+      FROM request_logs
+      WHERE tank_id = t.id AND result IS NOT NULL
+    ) s ON true
+    WHERE t.id = ${tankId}
+      AND t.device_id = ${deviceId}
+  `;
+
+  return result.rows.length > 0 ? toTank(result.rows[0]) : null;
+}
+
+// -----------------------------------------------------------------------------
+// Management
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a tank for the device
+ */
+export async function createTank(deviceId: string, input: TankInput): Promise<Tank> {
+  const countResult = await sql`
+    SELECT COUNT(*) as count
+    FROM tanks
+    WHERE device_id = ${deviceId}
+  `;
+
+  if (Number(countResult.rows[0]?.count || 0) >= config.limits.maxTanksPerDevice) {
+    throw new TankError(
+      'INVALID_REQUEST',
+      `A device can have at most ${config.limits.maxTanksPerDevice} tanks`,
+      409
+    );
+  }
+
+  const result = await sql`
+    INSERT INTO tanks (device_id, name, volume_liters, tank_type, setup_date, photo_url)
+    VALUES (
+      ${deviceId},
+      ${input.name},
+      ${input.volume_liters ?? null},
+      ${input.tank_type ?? null},
+      ${input.setup_date ?? null},
+      ${input.photo_url ?? null}
+    )
+    RETURNING *
+  `;
+
+  const tank = toTank(result.rows[0]);
+
+  logger.info('Tank created', {
+    device_id: deviceId,
+    tank_id: tank.id,
+    tank_type: tank.tank_type,
+  });
+
+  return tank;
+}
+
+/**
+ * Update some fields of a tank; null clears an optional field
+ * Returns null when the tank does not belong to the device.
+ */
+export async function updateTank(
+  deviceId: string,
+  tankId: string,
+  input: Partial<TankInput>
+): Promise<Tank | null> {
+  const existing = await getTank(deviceId, tankId);
+  if (!existing) {
+    return null;
+  }
+
+  const next = { ...existing, ...input };
+
+  const result = await sql`
+    UPDATE tanks
+    SET name = ${next.name},
+        volume_liters = ${next.volume_liters},
+        tank_type = ${next.tank_type},
+        setup_date = ${next.setup_date},
+        photo_url = ${next.photo_url},
+        updated_at = NOW()
+    WHERE id = ${tankId}
+      AND device_id = ${deviceId}
+    RETURNING *
+  `;
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return {
+    ...toTank(result.rows[0]),
+    scan_count: existing.scan_count,
+    last_scan_at: existing.last_scan_at,
+  };
+}
+
+/**
+ * Delete a tank
+ * Its scans stay in the device's history without a tank.
+ */
+export async function deleteTank(deviceId: string, tankId: string): Promise<boolean> {
+  if (!isValidUuid(tankId)) {
+    return false;
+  }
+
+  const result = await sql`
+    DELETE FROM tanks
+    WHERE id = ${tankId}
+      AND device_id = ${deviceId}
+  `;
+
+  const deleted = (result.rowCount ?? 0) > 0;
+
+  if (deleted) {
+    logger.info('Tank deleted', {
+      device_id: deviceId,
+      tank_id: tankId,
+    });
+  }
+
+  return deleted;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Tank details that are sent to the AI provider, with recent water readings
+ */
+export async function getTankContext(tank: Tank): Promise<TankContext> {
+  const waterParameters = await water.getRecentSnapshots(tank.id, tank.tank_type);
+
+  return {
+    tank_type: tank.tank_type,
+    volume_liters: tank.volume_liters,
+    setup_date: tank.setup_date,
+    ...(waterParameters.length > 0 ? { water_parameters: waterParameters } : {}),
+  };
+}
+
+function toTank(row: Record<string, unknown>): Tank {
+  return {
+    id: row.id as string,
+    device_id: row.device_id as string,
+    name: row.name as string,
+    // NUMERIC columns come back as strings
+    volume_liters: row.volume_liters === null ? null : Number(row.volume_liters),
+    tank_type: row.tank_type as TankType | null,
+    setup_date: toDateOnly(row.setup_date),
+    photo_url: row.photo_url as string | null,
+    scan_count: Number(row.scan_count || 0),
+    last_scan_at: row.last_scan_at ? new Date(row.last_scan_at as string) : null,
+    created_at: new Date(row.created_at as string),
+    updated_at: new Date(row.updated_at as string),
+  };
+}
+
+// DATE columns may be parsed into a Date at local midnight by the driver
+function toDateOnly(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    const offset = value.getTimezoneOffset() * 60 * 1000;
+    return new Date(value.getTime() - offset).toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+}
+
+// -----------------------------------------------------------------------------
+// Error Class
+// -----------------------------------------------------------------------------
+
+export class TankError extends Error {
+  code: ErrorCode;
+  statusCode: number;
+
+  constructor(code: ErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+    this.name = 'TankError';
+  }
+}
@@ -4,9 +4,10 @@
 // ============================================================================
 
 import { sql } from '../db';
+import * as notifications from './notification.service';
 import * as redis from './redis.service';
 import config from '../config';
-import type { UsageResponse, UsageInfo } from '../types';
+import type { ProviderName, StoredScanResult, UsageResponse, UsageInfo } from '../types';
 import logger from '../utils/logger';
 
 // -----------------------------------------------------------------------------
@@ -76,37 +77,78 @@ export async function getUsageInfo(
 // Usage Recording
 // -----------------------------------------------------------------------------
 
+export interface RequestLogDetails {
+  // Client request id; feedback and history look requests up by it
+  requestId?: string;
+  imageHash?: string;
+  // Recovered problem, such as model output that needed repair
+  errorCode?: string;
+  promptVersion?: number;
+  // Prompt experiment the request was bucketed into
+  experimentId?: number;
+  identificationCount?: number;
+  // Kept for the device's scan history
+  result?: StoredScanResult;
+  tankId?: string;
+}
+
 /**
  * Record a successful API request
+ * A client retry reuses the request id, so the row replaces an earlier failed
+ * attempt of the same device.
  */
 export async function recordUsage(
   deviceId: string,
   mode: string,
-  provider: 'gemini' | 'openai',
+  provider: ProviderName,
   apiKeyId: string,
   latencyMs: number,
   tokensInput: number,
   tokensOutput: number,
-  imageHash?: string
+  details: RequestLogDetails = {}
 ): Promise<void> {
   try {
     // Persist to database
     await sql`
       INSERT INTO request_logs (
         device_id, request_id, mode, image_hash, provider_used,
-        api_key_id, status, latency_ms, tokens_input, tokens_output
+        api_key_id, status, latency_ms, tokens_input, tokens_output, error_code,
+        prompt_version, experiment_id, identification_count, result, tank_id
       ) VALUES (
         ${deviceId},
-        ${crypto.randomUUID()},
+        ${details.requestId || crypto.randomUUID()},
         ${mode},
-        ${imageHash || null},
+        ${details.imageHash || null},
         ${provider},
         ${apiKeyId},
         'success',
         ${latencyMs},
         ${tokensInput},
-        ${tokensOutput}
+        ${tokensOutput},
+        ${details.errorCode || null},
+        ${details.promptVersion ?? null},
+        ${details.experimentId ?? null},
+        ${details.identificationCount ?? null},
+        ${details.result ? JSON.stringify(details.result) : null},
+        ${details.tankId ?? null}
       )
+      ON CONFLICT (request_id) DO UPDATE SET
+        mode = EXCLUDED.mode,
+        image_hash = EXCLUDED.image_hash,
+        provider_used = EXCLUDED.provider_used,
+        api_key_id = EXCLUDED.api_key_id,
+        status = EXCLUDED.status,
+        latency_ms = EXCLUDED.latency_ms,
+        tokens_input = EXCLUDED.tokens_input,
+        tokens_output = EXCLUDED.tokens_output,
+        error_code = EXCLUDED.error_code,
+        prompt_version = EXCLUDED.prompt_version,
+        experiment_id = EXCLUDED.experiment_id,
+        identification_count = EXCLUDED.identification_count,
+        result = EXCLUDED.result,
+        tank_id = EXCLUDED.tank_id,
+        created_at = EXCLUDED.created_at
+      WHERE request_logs.status = 'error' AND request_logs.device_id = EXCLUDED.device_id
     `;
 
     // Update daily usage in Postgres
@@ -137,30 +179,36 @@ export async function recordUsage(
 
 /**
  * Record a failed API request
+ * Never overwrites an earlier attempt with the same request id.
  */
 export async function recordError(
   deviceId: string,
   mode: string,
-  provider: 'gemini' | 'openai',
+  provider: ProviderName,
   apiKeyId: string,
   errorCode: string,
-  latencyMs: number
+  latencyMs: number,
+  details: Pick<RequestLogDetails, 'requestId' | 'promptVersion' | 'experimentId' | 'tankId'> = {}
 ): Promise<void> {
   try {
     await sql`
       INSERT INTO request_logs (
         device_id, request_id, mode, provider_used,
-        api_key_id, status, latency_ms, error_code
+        api_key_id, status, latency_ms, error_code, prompt_version, experiment_id, tank_id
       ) VALUES (
         ${deviceId},
-        ${crypto.randomUUID()},
+        ${details.requestId || crypto.randomUUID()},
         ${mode},
         ${provider},
         ${apiKeyId},
         'error',
         ${latencyMs},
-        ${errorCode}
+        ${errorCode},
+        ${details.promptVersion ?? null},
+        ${details.experimentId ?? null},
+        ${details.tankId ?? null}
       )
+      ON CONFLICT (request_id) DO NOTHING
     `;
   } catch (error) {
     logger.error('Failed to record error', {
@@ -170,6 +218,59 @@ export async function recordError(
   }
 }
 
+/**
+ * Record a request answered from the image cache
+ * No provider, tokens or latency are stored, so cost and latency metrics
+ * only reflect real model calls.
+ */
+export async function recordCachedRequest(
+  deviceId: string,
+  mode: string,
+  details: RequestLogDetails = {}
+): Promise<void> {
+  try {
+    await sql`
+      INSERT INTO request_logs (
+        device_id, request_id, mode, image_hash, status,
+        prompt_version, experiment_id, identification_count, result, tank_id
+      ) VALUES (
+        ${deviceId},
+        ${details.requestId || crypto.randomUUID()},
+        ${mode},
+        ${details.imageHash || null},
+        'cached',
+        ${details.promptVersion ?? null},
+        ${details.experimentId ?? null},
+        ${details.identificationCount ?? null},
+        ${details.result ? JSON.stringify(details.result) : null},
+        ${details.tankId ?? null}
+      )
+      ON CONFLICT (request_id) DO UPDATE SET
+        mode = EXCLUDED.mode,
+        image_hash = EXCLUDED.image_hash,
+        provider_used = NULL,
+        api_key_id = NULL,
+        status = EXCLUDED.status,
+        latency_ms = NULL,
+        tokens_input = NULL,
+        tokens_output = NULL,
+        error_code = NULL,
+        prompt_version = EXCLUDED.prompt_version,
+        experiment_id = EXCLUDED.experiment_id,
+        identification_count = EXCLUDED.identification_count,
+        result = EXCLUDED.result,
+        tank_id = EXCLUDED.tank_id,
+        created_at = EXCLUDED.created_at
+      WHERE request_logs.status = 'error' AND request_logs.device_id = EXCLUDED.device_id
+    `;
+  } catch (error) {
+    logger.error('Failed to record cached request', {
+      device_id: deviceId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Usage Statistics
 // -----------------------------------------------------------------------------
@@ -296,28 +397,35 @@ export async function getAggregateStats(date: Date): Promise<{
 
 /**
  * Archive old usage data (run daily)
- * Keeps detailed logs for 30 days, aggregated data indefinitely
+ * Detailed logs, including scan history, are kept for the device tier's
+ * retention period; aggregated data is kept indefinitely
  */
 export async function archiveOldUsage(): Promise<void> {
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-  const cutoffDate = thirtyDaysAgo.toISOString();
-
-  try {
-    // Delete old request logs (keep 30 days)
-    const result = await sql`
-      DELETE FROM request_logs
-      WHERE created_at < ${cutoffDate}
-    `;
-
-    logger.info('Archived old usage data', {
-      deleted_logs: result.rowCount,
-      cutoff_date: cutoffDate,
-    });
-  } catch (error) {
-    logger.error('Failed to archive usage data', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+  for (const [tier, days] of Object.entries(config.retention.requestLogDays)) {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - days);
+    const cutoffDate = cutoff.toISOString();
+
+    try {
+      const result = await sql`
+        DELETE FROM request_logs
+        USING devices
+        WHERE request_logs.device_id = devices.id
+          AND devices.tier = ${tier}
+          AND request_logs.created_at < ${cutoffDate}
+      `;
+
+      logger.info('Archived old usage data', {
+        tier,
+        deleted_logs: result.rowCount,
+        cutoff_date: cutoffDate,
+      });
+    } catch (error) {
+      logger.error('Failed to archive usage data', {
+        tier,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
   }
 }
 
@@ -330,3 +438,67 @@ export async function syncDailyUsageToDB(): Promise<void> {
   // This function can be used for reconciliation if needed
   logger.info('Daily usage sync completed');
 }
+
+// -----------------------------------------------------------------------------
+// Quota Reset Notifications
+// -----------------------------------------------------------------------------
+
+export interface QuotaResetRunSummary {
+  devices: number;
+  sent: number;
+  // Quota reset notifications turned off
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Tell devices that used up yesterday's scans that they have scans again
+ * Run just after midnight UTC, when the daily quota resets. Devices without a
+ * push token are left out.
+ */
+export async function notifyQuotaResets(now: Date = new Date()): Promise<QuotaResetRunSummary> {
+  const yesterday = new Date(Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() - 1
+  )).toISOString().split('T')[0];
+
+  const result = await sql<{ id: string; tier: 'free' | 'premium' }>`
+    SELECT d.id, d.tier
+    FROM daily_usage u
+    JOIN devices d ON d.id = u.device_id
+    WHERE u.date = ${yesterday}
+      AND d.push_token IS NOT NULL
+      AND u.request_count >= CASE
+        WHEN d.tier = 'premium' THEN ${config.rateLimit.premium.daily}
+        ELSE ${config.rateLimit.free.daily}
+      END
+  `;
+
+  const summary: QuotaResetRunSummary = { devices: result.rows.length, sent: 0, skipped: 0, failed: 0 };
+
+  for (const device of result.rows) {
+    const limit = device.tier === 'premium' ? config.rateLimit.premium.daily : config.rateLimit.free.daily;
+
+    try {
+      const status = await notifications.notify({
+        device_id: device.id,
+        category: 'quota_reset',
+        title: 'Your daily scans are back',
+        body: `You have ${limit} scans to use today.`,
+        data: { daily_limit: limit },
+      });
+      summary[status === 'sent' ? 'sent' : 'skipped'] += 1;
+    } catch (error) {
+      summary.failed += 1;
+      logger.error('Failed to send quota reset notification', {
+        device_id: device.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  logger.info('Quota reset notifications sent', { ...summary });
+
+  return summary;
+}
@@ -0,0 +1,389 @@
+// ============================================================================
+// Water Parameter Service
+// Per-tank chemistry readings, trends and out-of-range alerts
+// ============================================================================
+
+import { sql } from '../db';
+import config from '../config';
+import * as notifications from './notification.service';
+import type {
+  Tank,
+  TankType,
+  WaterAlert,
+  WaterParameterSnapshot,
+  WaterParameterStatus,
+  WaterParameterSummary,
+  WaterParameterTrend,
+  WaterReading,
+  WaterReadingSource,
+  WaterTargetRange,
+} from '../types';
+import logger from '../utils/logger';
+import {
+  formatReading,
+  WATER_PARAMETER_INFO,
+  WATER_PARAMETERS,
+  WaterParameter,
+} from '../utils/waterParameters';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ReadingsInput {
+  readings: Partial<Record<WaterParameter, number>>;
+  measured_at?: Date;
+  note?: string;
+}
+
+export interface ReadingFilters {
+  parameter?: WaterParameter;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+interface ReadingPoint {
+  value: number;
+  measured_at: Date;
+}
+
+// A weekly change below this share of the target range counts as stable
+const STABLE_FRACTION_PER_WEEK = 0.1;
+
+// Trends need at least this many readings in the window
+const MIN_TREND_READINGS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -----------------------------------------------------------------------------
+// Readings
+// -----------------------------------------------------------------------------
+
+/**
+ * Log one test session: several parameters measured at the same time
+ */
+export async function logReadings(
+  tankId: string,
+  input: ReadingsInput,
+  source: WaterReadingSource = 'manual'
+): Promise<WaterReading[]> {
+  const entries = WATER_PARAMETERS.filter((parameter) => input.readings[parameter] !== undefined);
+  const measuredAt = (input.measured_at || new Date()).toISOString();
+
+  const result = await sql`
+    INSERT INTO water_readings (tank_id, parameter, value, measured_at, note, source)
+    SELECT ${tankId}, r.parameter, r.value, ${measuredAt}, ${input.note ?? null}, ${source}
+    FROM unnest(${entries}::text[], ${entries.map((parameter) => input.readings[parameter])}::numeric[])
+      AS r(parameter, value)
+    RETURNING *
+  `;
+
+  logger.info('Water readings logged', {
+    tank_id: tankId,
+    parameters: entries,
+    source,
+  });
+
+  return result.rows.map(toReading);
+}
+
+/**
+ * Get readings in time order, for charts
+ * When more readings match than the limit, the most recent ones are returned.
+ */
+export async function getReadings(tankId: string, filters: ReadingFilters): Promise<WaterReading[]> {
+  const result = await sql`
+    SELECT *
+    FROM (
+      SELECT *
+      FROM water_readings
+      WHERE tank_id = ${tankId}
+        AND (${filters.parameter ?? null}::text IS NULL OR parameter = ${filters.parameter ?? null})
+        AND (${filters.from?.toISOString() ?? null}::timestamptz IS NULL OR measured_at >= ${filters.from?.toISOString() ?? null})
+        AND (${filters.to?.toISOString() ?? null}::timestamptz IS NULL OR measured_at < ${filters.to?.toISOString() ?? null})
+      ORDER BY measured_at DESC, id DESC
+      LIMIT ${filters.limit}
+    ) recent
+    ORDER BY measured_at ASC, id ASC
+  `;
+
+  return result.rows.map(toReading);
+}
+
+/**
+ * Delete a reading, e.g. one logged with a typo
+ */
+export async function deleteReading(tankId: string, readingId: number): Promise<boolean> {
+  const result = await sql`
+    DELETE FROM water_readings
+    WHERE id = ${readingId} AND tank_id = ${tankId}
+  `;
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Targets
+// -----------------------------------------------------------------------------
+
+/**
+ * Target range of every parameter for a tank type
+ */
+export function getTargets(tankType: TankType | null): Record<WaterParameter, WaterTargetRange> {
+  const { defaults, byTankType } = config.water.targets;
+  return { ...defaults, ...(tankType ? byTankType[tankType] : {}) };
+}
+
+export function getStatus(value: number, target: WaterTargetRange): WaterParameterStatus {
+  if (value < target.min) return 'low';
+  if (value > target.max) return 'high';
+  return 'ok';
+}
+
+// -----------------------------------------------------------------------------
+// Trends and Alerts
+// -----------------------------------------------------------------------------
+
+/**
+ * Summarize every parameter of a tank and list the ones needing attention
+ */
+export async function getParameterSummary(
+  tankId: string,
+  tankType: TankType | null,
+  now: Date = new Date()
+): Promise<{ parameters: WaterParameterSummary[]; alerts: WaterAlert[] }> {
+  const windowStart = new Date(now.getTime() - config.water.trendWindowDays * DAY_MS).toISOString();
+
+  const [latestResult, windowResult] = await Promise.all([
+    sql`
+      SELECT DISTINCT ON (parameter) parameter, value, measured_at
+      FROM water_readings
+      WHERE tank_id = ${tankId}
+      ORDER BY parameter, measured_at DESC, id DESC
+    `,
+    sql`
+      SELECT parameter, value, measured_at
+      FROM water_readings
+      WHERE tank_id = ${tankId}
+        AND measured_at >= ${windowStart}
+      ORDER BY measured_at ASC
+    `,
+  ]);
+
+  const targets = getTargets(tankType);
+  const parameters: WaterParameterSummary[] = [];
+  const alerts: WaterAlert[] = [];
+
+  for (const parameter of WATER_PARAMETERS) {
+    const latestRow = latestResult.rows.find((row) => row.parameter === parameter);
+    const latest = latestRow ? toPoint(latestRow) : null;
+    const points = windowResult.rows.filter((row) => row.parameter === parameter).map(toPoint);
+    const evaluation = evaluateParameter(parameter, latest, points, targets[parameter]);
+
+    parameters.push(evaluation.summary);
+    if (evaluation.alert) {
+      alerts.push(evaluation.alert);
+    }
+  }
+
+  return { parameters, alerts };
+}
+
+/**
+ * Push the alerts of the parameters just logged to the tank's device
+ * Returns the alerts sent.
+ */
+export async function notifyAlerts(
+  tank: Pick<Tank, 'id' | 'device_id' | 'name' | 'tank_type'>,
+  parameters: WaterParameter[],
+  now: Date = new Date()
+): Promise<WaterAlert[]> {
+  const { alerts } = await getParameterSummary(tank.id, tank.tank_type, now);
+  const relevant = alerts.filter((alert) => parameters.includes(alert.parameter));
+  if (relevant.length === 0) {
+    return [];
+  }
+
+  const subject =
+    relevant.length === 1 ? `${WATER_PARAMETER_INFO[relevant[0].parameter].label} needs` : `${relevant.length} parameters need`;
+
+  await notifications.notify({
+    device_id: tank.device_id,
+    category: 'parameter_alert',
+    title: `${tank.name}: ${subject} attention`,
+    body: `${relevant.map((alert) => alert.message).join('. ')}.`,
+    data: { tank_id: tank.id, alerts: relevant },
+  });
+
+  return relevant;
+}
+
+/**
+ * Status, trend and alert of one parameter
+ */
+export function evaluateParameter(
+  parameter: WaterParameter,
+  latest: ReadingPoint | null,
+  points: ReadingPoint[],
+  target: WaterTargetRange
+): { summary: WaterParameterSummary; alert: WaterAlert | null } {
+  const status = latest ? getStatus(latest.value, target) : null;
+  const trend = computeTrend(points, target);
+
+  const summary: WaterParameterSummary = {
+    parameter,
+    unit: WATER_PARAMETER_INFO[parameter].unit,
+    target,
+    latest,
+    status,
+    trend,
+  };
+
+  if (!latest || !status) {
+    return { summary, alert: null };
+  }
+
+  const { label } = WATER_PARAMETER_INFO[parameter];
+  const range = `${target.min}-${formatReading(parameter, target.max)}`;
+
+  if (status !== 'ok') {
+    return {
+      summary,
+      alert: {
+        parameter,
+        kind: 'out_of_range',
+        status,
+        value: latest.value,
+        target,
+        message: `${label} is ${formatReading(parameter, latest.value)}, ${status === 'low' ? 'below' : 'above'} the ${range} target`,
+      },
+    };
+  }
+
+  if (trend && trend.direction !== 'stable') {
+    const projected = latest.value + trend.change_per_week;
+    const leaving = getStatus(projected, target);
+
+    if (leaving !== 'ok') {
+      return {
+        summary,
+        alert: {
+          parameter,
+          kind: 'trending_out_of_range',
+          status: leaving,
+          value: latest.value,
+          target,
+          message: `${label} is ${formatReading(parameter, latest.value)} and ${trend.direction} about ${formatReading(parameter, Math.abs(trend.change_per_week))} per week; it will leave the ${range} target within a week`,
+        },
+      };
+    }
+  }
+
+  return { summary, alert: null };
+}
+
+/**
+ * Least-squares slope of the readings, as change per week
+ * Returns null with too few readings or when they were all taken at once.
+ */
+export function computeTrend(points: ReadingPoint[], target: WaterTargetRange): WaterParameterTrend | null {
+  if (points.length < MIN_TREND_READINGS) {
+    return null;
+  }
+
+  const origin = points[0].measured_at.getTime();
+  const xs = points.map((point) => (point.measured_at.getTime() - origin) / DAY_MS);
+  const ys = points.map((point) => point.value);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+
+  if (variance === 0) {
+    return null;
+  }
+
+  const changePerWeek = (covariance / variance) * 7;
+  const stableBelow = (target.max - target.min) * STABLE_FRACTION_PER_WEEK;
+
+  let direction: WaterParameterTrend['direction'] = 'stable';
+  if (Math.abs(changePerWeek) >= stableBelow) {
+    direction = changePerWeek > 0 ? 'rising' : 'falling';
+  }
+
+  return {
+    direction,
+    change_per_week: Number(changePerWeek.toFixed(4)),
+    reading_count: points.length,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Prompt Context
+// -----------------------------------------------------------------------------
+
+/**
+ * Latest recent reading of each parameter, for the analyze prompt
+ */
+export async function getRecentSnapshots(
+  tankId: string,
+  tankType: TankType | null,
+  now: Date = new Date()
+): Promise<WaterParameterSnapshot[]> {
+  const since = new Date(now.getTime() - config.water.promptMaxAgeDays * DAY_MS).toISOString();
+
+  const result = await sql`
+    SELECT DISTINCT ON (parameter) parameter, value, measured_at
+    FROM water_readings
+    WHERE tank_id = ${tankId}
+      AND measured_at >= ${since}
+    ORDER BY parameter, measured_at DESC, id DESC
+  `;
+
+  const targets = getTargets(tankType);
+
+  return WATER_PARAMETERS.flatMap((parameter) => {
+    const row = result.rows.find((candidate) => candidate.parameter === parameter);
+    if (!row) {
+      return [];
+    }
+
+    const point = toPoint(row);
+    return [
+      {
+        parameter,
+        value: point.value,
+        measured_at: point.measured_at.toISOString(),
+        target: targets[parameter],
+        status: getStatus(point.value, targets[parameter]),
+      },
+    ];
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+// NUMERIC columns come back as strings
+function toPoint(row: Record<string, unknown>): ReadingPoint {
+  return {
+    value: Number(row.value),
+    measured_at: new Date(row.measured_at as string),
+  };
+}
+
+function toReading(row: Record<string, unknown>): WaterReading {
+  return {
+    id: Number(row.id),
+    tank_id: row.tank_id as string,
+    parameter: row.parameter as WaterParameter,
+    value: Number(row.value),
+    measured_at: new Date(row.measured_at as string),
+    note: row.note as string | null,
+    source: row.source as WaterReadingSource,
+    created_at: new Date(row.created_at as string),
+  };
+}
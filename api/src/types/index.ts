@@ -3,6 +3,9 @@
 // Based on PRD.md specifications
 // ============================================================================
 
+import type { MedicationClass } from '../utils/diagnosis';
+import type { WaterParameter } from '../utils/waterParameters';
+
 // -----------------------------------------------------------------------------
 // Authentication Types
 // -----------------------------------------------------------------------------
@@ -64,17 +67,25 @@ export type AnalysisMode =
   | 'fish_id'
   | 'coral_id'
   | 'algae_id'
-  | 'pest_id';
+  | 'pest_id'
+  | 'test_kit_read'
+  | 'disease_dx'
+  | 'scan_compare'; // used by POST /v1/scans/compare, not accepted by /v1/analyze
+
+export interface AnalysisImage {
+  data: string; // base64 encoded
+  mime_type: 'image/jpeg' | 'image/png';
+}
 
 export interface AnalyzeRequest {
-  image: {
-    data: string; // base64 encoded
-    mime_type: 'image/jpeg' | 'image/png';
-  };
+  images: AnalysisImage[]; // ordered views of the same tank
   mode: AnalysisMode;
+  tank_id?: string;
   options?: {
     include_recommendations?: boolean;
     language?: string;
+    // test_kit_read only: add confident readings to the tank's parameter log
+    save_readings?: boolean;
   };
 }
 
@@ -85,6 +96,30 @@ export interface Identification {
   is_problem: boolean;
   severity: 'low' | 'medium' | 'high' | null;
   description: string;
+  image_indices?: number[]; // zero-based positions in AnalyzeRequest.images
+  regions?: ImageRegion[];
+  // Catalog match for fish, corals and inverts; null when the name is not in the catalog
+  species_id?: string | null;
+  species?: SpeciesDetails | null;
+}
+
+// Coordinates are normalized to 0-1 with the origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+export interface ImageRegion {
+  image_index: number;
+  bounding_box: BoundingBox;
+  polygon?: RegionPoint[]; // optional tighter outline, at least 3 points
 }
 
 export interface ScanResult {
@@ -96,12 +131,179 @@ export interface ScanResult {
   usage: UsageInfo;
 }
 
+// Value read from a photo of a water test, converted to the parameter's stored unit
+export interface TestKitReading {
+  parameter: WaterParameter;
+  value: number;
+  unit: string;
+  confidence: number;
+  kit: string | null; // brand and test as recognized, e.g. "Salifert KH/Alk"
+}
+
+export interface TestKitResult {
+  request_id: string;
+  summary: string;
+  readings: TestKitReading[];
+  // Parameters added to the tank's log; empty unless save_readings was requested
+  saved_parameters: WaterParameter[];
+  usage: UsageInfo;
+}
+
+export type DiagnosisUrgency = 'low' | 'medium' | 'high' | 'critical';
+
+// One possible condition in a differential diagnosis
+export interface DiagnosisCandidate {
+  condition: string; // e.g. "Marine ich (Cryptocaryon irritans)"
+  category: 'fish' | 'coral' | 'invertebrate';
+  likelihood: number; // 0-1
+  evidence: string; // visible signs supporting it
+  image_indices?: number[];
+  regions?: ImageRegion[];
+}
+
+export interface TreatmentStep {
+  action: string;
+  medication_class: MedicationClass | null; // null for husbandry steps
+  dosage_notes: string | null; // caveats, not a prescription
+  reef_safe: boolean;
+  requires_quarantine: boolean;
+  warning: string | null; // set for every reef-unsafe step
+}
+
+export interface DiagnosisResult {
+  request_id: string;
+  summary: string;
+  urgency: DiagnosisUrgency;
+  differential: DiagnosisCandidate[]; // most likely first
+  treatment_plan: TreatmentStep[];
+  disclaimer: string;
+  usage: UsageInfo;
+}
+
+export type VisualChangeKind = 'appeared' | 'disappeared' | 'improved' | 'worsened';
+
+export interface VisualChange {
+  subject: string; // organism or area, e.g. "Green hair algae on the back wall"
+  kind: VisualChangeKind;
+  description: string;
+}
+
+// Model's account of what changed between the images of two scans
+export interface VisualDiff {
+  summary: string;
+  changes: VisualChange[]; // most important first
+}
+
+export interface VisualDiffResult extends VisualDiff {
+  request_id: string;
+  usage: UsageInfo;
+}
+
+// Result of POST /v1/analyze; test_kit_read and disease_dx return their own
+// result types instead of identifications, and scan_compare a visual diff
+export type AnalyzeResult = ScanResult | TestKitResult | DiagnosisResult | VisualDiffResult;
+
 export interface UsageInfo {
   requests_today: number;
   daily_limit: number;
   reset_at: string; // ISO date string
 }
 
+// -----------------------------------------------------------------------------
+// Streaming Types
+// -----------------------------------------------------------------------------
+
+export type AnalysisEvent =
+  | { event: 'accepted'; data: { request_id: string; mode: AnalysisMode } }
+  | { event: 'provider'; data: { provider: ProviderName } }
+  | { event: 'result'; data: AnalyzeResult }
+  | { event: 'error'; data: ApiError };
+
+// -----------------------------------------------------------------------------
+// Analysis Job Types
+// -----------------------------------------------------------------------------
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  request_id: string;
+  device_id: string;
+  mode: AnalysisMode;
+  status: JobStatus;
+  result: AnalyzeResult | null;
+  error: {
+    code: ErrorCode;
+    message: string;
+  } | null;
+  created_at: string; // ISO date string
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// -----------------------------------------------------------------------------
+// AI Provider Types
+// -----------------------------------------------------------------------------
+
+// Registered provider name, e.g. 'gemini', 'openai' or a configured endpoint
+export type ProviderName = string;
+
+export interface ProviderPricing {
+  input: number;  // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+export interface ProviderAnalysisResult {
+  success: boolean;
+  result?: AnalyzeResult;
+  apiKeyId?: string;
+  // Why the first output failed validation when a repair re-prompt fixed it
+  validationError?: string;
+  tokensUsed?: {
+    input: number;
+    output: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+    statusCode?: number;
+  };
+}
+
+export interface ProviderAnalysisOptions {
+  // Locale for free-text fields; enum values and species names stay English
+  language?: string;
+  // Prompt to use instead of looking up the active one for the mode
+  prompt?: ActivePrompt;
+  // Profile of the tank being analyzed, used to tailor recommendations
+  tank?: TankContext;
+  // For scan_compare: the first beforeImageCount images are the older scan
+  comparison?: ComparisonContext;
+}
+
+export interface ComparisonContext {
+  beforeImageCount: number;
+  beforeAt: Date;
+  afterAt: Date;
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  pricing: ProviderPricing;
+  // Static check used by /health: credentials present and feature enabled
+  isConfigured(): boolean;
+  // Runtime check before each attempt: keys, cost limits, etc.
+  isAvailable(): Promise<boolean>;
+  analyze(
+    images: AnalysisImage[],
+    mode: AnalysisMode,
+    requestId: string,
+    options?: ProviderAnalysisOptions
+  ): Promise<ProviderAnalysisResult>;
+  // Extra provider-specific fields for the status endpoint
+  getStatusDetails?(): Promise<Record<string, unknown>>;
+}
+
 // -----------------------------------------------------------------------------
 // Rate Limiting Types
 // -----------------------------------------------------------------------------
@@ -195,10 +397,7 @@ export interface ApiError {
 export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
   version: string;
-  providers: {
-    gemini: ProviderStatus;
-    openai: ProviderStatus;
-  };
+  providers: Record<ProviderName, ProviderStatus>;
   database: 'connected' | 'disconnected';
   redis: 'connected' | 'disconnected';
   latency_p95_ms?: number;
@@ -232,14 +431,439 @@ export interface RequestLog {
   request_id: string;
   mode: AnalysisMode;
   image_hash: string | null;
-  provider_used: 'gemini' | 'openai';
-  api_key_id: string;
-  status: 'success' | 'error';
+  provider_used: ProviderName | null;
+  api_key_id: string | null;
+  status: 'success' | 'error' | 'cached';
   latency_ms: number;
   tokens_input: number;
   tokens_output: number;
   error_code: string | null;
+  prompt_version: number | null;
+  experiment_id: number | null;
+  identification_count: number | null;
+  result: StoredScanResult | null;
+  tank_id: string | null;
+  created_at: Date;
+}
+
+// -----------------------------------------------------------------------------
+// Scan History Types
+// -----------------------------------------------------------------------------
+
+// Result as kept in request_logs.result; usage only applies to the original response
+export type StoredScanResult = Omit<ScanResult, 'request_id' | 'usage'>;
+
+export interface ScanSummary {
+  request_id: string;
+  mode: AnalysisMode;
+  tank_id: string | null;
+  tank_health: ScanResult['tank_health'];
+  summary: string;
+  identification_count: number;
+  created_at: Date;
+}
+
+export interface ScanRecord extends StoredScanResult {
+  request_id: string;
+  mode: AnalysisMode;
+  tank_id: string | null;
+  created_at: Date;
+}
+
+// Which scan an identification change or health delta goes from and to
+export interface ScanComparisonSide {
+  request_id: string;
+  tank_health: ScanResult['tank_health'];
+  created_at: Date;
+}
+
+export type HealthDirection = 'improved' | 'declined' | 'unchanged';
+
+// The same organism or problem in both scans, with a different severity
+export interface IdentificationChange {
+  name: string;
+  category: string;
+  species_id: string | null;
+  change: 'escalated' | 'improved';
+  before: Identification;
+  after: Identification;
+}
+
+export interface ScanComparison {
+  tank_id: string;
+  before: ScanComparisonSide; // the older scan
+  after: ScanComparisonSide;
+  tank_health: {
+    before: ScanResult['tank_health'];
+    after: ScanResult['tank_health'];
+    delta: number; // steps on the health scale, positive when better
+    direction: HealthDirection;
+  };
+  new_identifications: Identification[];
+  missing_identifications: Identification[];
+  severity_changes: IdentificationChange[];
+  unchanged_count: number;
+  visual_diff: VisualDiff | null; // only when requested
+}
+
+// -----------------------------------------------------------------------------
+// Tank Types
+// -----------------------------------------------------------------------------
+
+export type TankType =
+  | 'mixed_reef'
+  | 'sps'
+  | 'lps'
+  | 'soft_coral'
+  | 'fowlr'
+  | 'nano'
+  | 'frag'
+  | 'quarantine';
+
+export interface Tank {
+  id: string;
+  device_id: string;
+  name: string;
+  volume_liters: number | null;
+  tank_type: TankType | null;
+  setup_date: string | null; // YYYY-MM-DD
+  photo_url: string | null;
+  scan_count: number;
+  last_scan_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Tank details passed to the prompt; the name is left out as it says nothing about the tank
+export type TankContext = Pick<Tank, 'tank_type' | 'volume_liters' | 'setup_date'> & {
+  // Latest recent reading of each parameter
+  water_parameters?: WaterParameterSnapshot[];
+};
+
+// -----------------------------------------------------------------------------
+// Water Parameter Types
+// -----------------------------------------------------------------------------
+
+export interface WaterTargetRange {
+  min: number;
+  max: number;
+}
+
+export type WaterParameterStatus = 'low' | 'ok' | 'high';
+
+// manual: entered by the user; test_kit_scan: read from a test kit photo
+export type WaterReadingSource = 'manual' | 'test_kit_scan';
+
+export interface WaterReading {
+  id: number;
+  tank_id: string;
+  parameter: WaterParameter;
+  value: number;
+  measured_at: Date;
+  note: string | null;
+  source: WaterReadingSource;
+  created_at: Date;
+}
+
+export interface WaterParameterSnapshot {
+  parameter: WaterParameter;
+  value: number;
+  measured_at: string; // ISO date string
+  target: WaterTargetRange;
+  status: WaterParameterStatus;
+}
+
+export type WaterTrendDirection = 'rising' | 'falling' | 'stable';
+
+export interface WaterParameterTrend {
+  direction: WaterTrendDirection;
+  change_per_week: number;
+  reading_count: number;
+}
+
+export interface WaterAlert {
+  parameter: WaterParameter;
+  // trending_out_of_range: in range now, but the trend leaves it within a week
+  kind: 'out_of_range' | 'trending_out_of_range';
+  status: Exclude<WaterParameterStatus, 'ok'>;
+  value: number;
+  target: WaterTargetRange;
+  message: string;
+}
+
+export interface WaterParameterSummary {
+  parameter: WaterParameter;
+  unit: string;
+  target: WaterTargetRange;
+  latest: { value: number; measured_at: Date } | null;
+  status: WaterParameterStatus | null;
+  trend: WaterParameterTrend | null;
+}
+
+// -----------------------------------------------------------------------------
+// Livestock Types
+// -----------------------------------------------------------------------------
+
+export type LivestockCategory = 'fish' | 'coral' | 'invertebrate';
+
+// not_seen_recently can mean a loss or just a fish that is hiding
+export type LivestockStatus = 'present' | 'not_seen_recently';
+
+export interface LivestockItem {
+  id: number;
+  tank_id: string;
+  name: string;
+  category: LivestockCategory;
+  count: number;
+  notes: string | null;
+  source: 'scan' | 'user';
+  first_seen_at: Date | null;
+  last_seen_at: Date | null;
+  sighting_count: number;
+  missed_scans: number;
+  status: LivestockStatus;
   created_at: Date;
+  updated_at: Date;
+}
+
+// -----------------------------------------------------------------------------
+// Species Catalog Types
+// -----------------------------------------------------------------------------
+
+// with_caution = generally fine, but may nip corals or eat small invertebrates
+export type ReefSafety = 'yes' | 'with_caution' | 'no';
+
+export type CareLevel = 'beginner' | 'intermediate' | 'expert';
+
+export type Temperament = 'peaceful' | 'semi_aggressive' | 'aggressive';
+
+// small_fish = fish less than half the predator's size
+export type PreyGroup = 'small_fish' | 'invertebrates' | 'corals';
+
+export interface Species {
+  id: string; // stable slug, e.g. "ocellaris-clownfish"
+  common_name: string;
+  scientific_name: string;
+  aliases: string[];
+  category: LivestockCategory;
+  reef_safe: ReefSafety;
+  care_level: CareLevel;
+  temperament: Temperament;
+  preys_on: PreyGroup[]; // eats or picks at these tankmates
+  max_size_cm: number | null; // null for corals, which grow as colonies
+  min_tank_liters: number | null; // null when tank size does not matter
+}
+
+// Catalog fields added to an identification
+export type SpeciesDetails = Omit<Species, 'id' | 'aliases'>;
+
+// Identification name the catalog did not match, kept for curation
+export interface UnmatchedSpeciesName {
+  name: string; // as last returned by the model
+  category: LivestockCategory;
+  count: number; // scans it appeared in
+  first_seen: Date;
+  last_seen: Date;
+}
+
+// -----------------------------------------------------------------------------
+// Compatibility Types
+// -----------------------------------------------------------------------------
+
+export type CompatibilityConflictType = 'aggression' | 'reef_safety' | 'predation' | 'space';
+
+// caution = often works with planning; incompatible = do not combine
+export type CompatibilitySeverity = 'caution' | 'incompatible';
+
+export type CompatibilityVerdict = 'compatible' | CompatibilitySeverity;
+
+// Where a tank inhabitant was found
+export type ResidentSource = 'inventory' | 'scan' | 'request';
+
+export interface CompatibilityResident {
+  name: string;
+  species_id: string | null; // null when the catalog does not know the name
+  source: ResidentSource;
+}
+
+export interface CompatibilityConflict {
+  type: CompatibilityConflictType;
+  severity: CompatibilitySeverity;
+  species_id: string | null; // the tankmate involved; null for space
+  reason: string;
+}
+
+export interface CompatibilityResult {
+  candidate: Species;
+  verdict: CompatibilityVerdict;
+  conflicts: CompatibilityConflict[];
+  residents: CompatibilityResident[];
+  volume_liters: number | null;
+}
+
+// -----------------------------------------------------------------------------
+// Tank Health Score Types
+// -----------------------------------------------------------------------------
+
+// One scan of a tank on a 0-100 scale, higher is healthier
+export interface HealthScore {
+  request_id: string;
+  score: number;
+  tank_health: ScanResult['tank_health'];
+  problem_count: number;
+  scanned_at: Date;
+}
+
+export type HealthTrendDirection = 'improving' | 'declining' | 'stable';
+
+// A problem seen in more than one scan of the digest period
+export interface RecurringProblem {
+  name: string;
+  category: string;
+  occurrences: number; // scans it was seen in
+  max_severity: Identification['severity'];
+}
+
+export interface WeeklyDigest {
+  tank_id: string;
+  tank_name: string;
+  period_start: Date;
+  period_end: Date;
+  scan_count: number;
+  score: {
+    latest: number | null;
+    average: number | null;
+    previous_average: number | null; // the week before the period
+    change: number | null; // average minus previous_average
+  };
+  trend: HealthTrendDirection | null; // null without scans in both weeks
+  recurring_problems: RecurringProblem[];
+  top_recommendations: string[];
+}
+
+// -----------------------------------------------------------------------------
+// Maintenance Types
+// -----------------------------------------------------------------------------
+
+export type MaintenanceTaskKind =
+  | 'water_change'
+  | 'filter_sock'
+  | 'dosing_refill'
+  | 'water_test'
+  | 'equipment'
+  | 'other';
+
+// user: added by hand; recommendation: created from a scan's recommendation
+export type MaintenanceTaskSource = 'user' | 'recommendation';
+
+// due: due within maintenance.dueSoonHours; done: a one-off task that was completed
+export type MaintenanceTaskStatus = 'upcoming' | 'due' | 'overdue' | 'done';
+
+export interface MaintenanceTask {
+  id: number;
+  tank_id: string;
+  title: string;
+  kind: MaintenanceTaskKind;
+  interval_days: number | null; // null for one-off tasks
+  next_due_at: Date | null; // null once a one-off task is done
+  notes: string | null;
+  source: MaintenanceTaskSource;
+  source_request_id: string | null; // scan the recommendation came from
+  last_completed_at: Date | null;
+  last_reminded_at: Date | null;
+  status: MaintenanceTaskStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface MaintenanceCompletion {
+  id: number;
+  task_id: number;
+  completed_at: Date;
+  note: string | null;
+  created_at: Date;
+}
+
+// -----------------------------------------------------------------------------
+// Notification Types
+// -----------------------------------------------------------------------------
+
+export type NotificationCategory =
+  | 'job_complete'
+  | 'weekly_digest'
+  | 'maintenance_due'
+  | 'quota_reset'
+  | 'parameter_alert';
+
+export interface Notification {
+  device_id: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+// Whether the device wants each category; unset categories use the configured default
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+// What the transport is given for one device
+export interface PushMessage {
+  token: string;
+  platform: Device['platform'];
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+// invalid_token: the transport says the token is dead, so it is removed from the device
+export type PushSendStatus = 'sent' | 'invalid_token' | 'failed';
+
+export interface PushSendResult {
+  status: PushSendStatus;
+  error?: string;
+}
+
+// skipped: no push token, or the device turned the category off
+export type NotificationDeliveryStatus = PushSendStatus | 'skipped';
+
+export interface NotificationDelivery {
+  id: number;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  transport: string | null;
+  status: NotificationDeliveryStatus;
+  error: string | null;
+  created_at: Date;
+}
+
+// -----------------------------------------------------------------------------
+// Feedback Types
+// -----------------------------------------------------------------------------
+
+// renamed = right kind of organism, wrong species
+export type FeedbackVerdict = 'correct' | 'incorrect' | 'renamed';
+
+export interface IdentificationFeedback {
+  index: number; // position in ScanResult.identifications
+  name: string;  // name the user was shown
+  verdict: FeedbackVerdict;
+  corrected_name?: string;
+}
+
+export interface AnalysisFeedback {
+  id: number;
+  request_id: string;
+  device_id: string;
+  image_hash: string | null;
+  mode: AnalysisMode;
+  rating: number | null; // 1-5
+  identifications: IdentificationFeedback[];
+  comment: string | null;
+  created_at: Date;
+  updated_at: Date;
 }
 
 // -----------------------------------------------------------------------------
@@ -257,6 +881,49 @@ export interface Prompt {
   created_by: string | null;
 }
 
+// Prompt text resolved for a mode; version 0 is the built-in default
+export interface ActivePrompt {
+  systemPrompt: string;
+  modePrompt: string;
+  version: number;
+}
+
+export type PromptChangeAction = 'create' | 'activate' | 'rollback' | 'promote';
+
+// Audit entry for an admin change to a prompt
+export interface PromptChange {
+  id: number;
+  name: string;
+  action: PromptChangeAction;
+  version: number;
+  previous_version: number | null;
+  changed_by: string;
+  created_at: Date;
+}
+
+// -----------------------------------------------------------------------------
+// Prompt Experiment Types
+// -----------------------------------------------------------------------------
+
+export type ExperimentStatus = 'running' | 'stopped' | 'promoted';
+
+export interface ExperimentVariant {
+  version: number; // prompts.version; 0 = built-in default
+  weight: number;  // relative share of devices
+}
+
+export interface PromptExperiment {
+  id: number;
+  mode: AnalysisMode;
+  variants: ExperimentVariant[];
+  status: ExperimentStatus;
+  started_by: string;
+  started_at: Date;
+  stopped_by: string | null;
+  stopped_at: Date | null;
+  promoted_version: number | null;
+}
+
 // -----------------------------------------------------------------------------
 // Cache Types
 // -----------------------------------------------------------------------------
@@ -264,7 +931,7 @@ export interface Prompt {
 export interface CachedResult {
   image_hash: string;
   mode: AnalysisMode;
-  result: ScanResult;
+  result: AnalyzeResult;
   created_at: Date;
   expires_at: Date;
   hit_count: number;
@@ -280,6 +947,7 @@ declare global {
       device?: Device;
       jwt?: JWTPayload;
       requestId?: string;
+      admin?: string; // name of the admin key used
     }
   }
 }
@@ -0,0 +1,61 @@
+// ============================================================================
+// Diagnosis Helpers
+// Treatment classes, their reef safety and the disclaimer for disease_dx
+// ============================================================================
+
+export const MEDICATION_CLASSES = [
+  'copper',
+  'chloroquine',
+  'formalin',
+  'malachite_green',
+  'methylene_blue',
+  'antibiotic',
+  'antiparasitic',
+  'hyposalinity',
+  'freshwater_dip',
+  'coral_dip',
+  'other',
+] as const;
+
+export type MedicationClass = (typeof MEDICATION_CLASSES)[number];
+
+// Classes that must never be used in a display tank, with the reason shown to users
+export const REEF_UNSAFE_MEDICATIONS: Partial<Record<MedicationClass, string>> = {
+  copper: 'Copper is lethal to corals and invertebrates and binds to rock and sand.',
+  chloroquine: 'Chloroquine phosphate harms invertebrates and is hard to remove completely.',
+  formalin: 'Formalin is toxic to corals, invertebrates and the biological filter.',
+  malachite_green: 'Malachite green is toxic to invertebrates and stains the tank.',
+  methylene_blue: 'Methylene blue kills the bacteria of the biological filter.',
+  antibiotic: 'Antibiotics disrupt the biological filter and can cause an ammonia spike.',
+  antiparasitic: 'Antiparasitic drugs such as praziquantel or fenbendazole can kill snails, worms and other invertebrates.',
+  hyposalinity: 'Lowered salinity kills corals and invertebrates.',
+};
+
+// Shown when the model marks a treatment of another class as unsafe
+const GENERIC_UNSAFE_WARNING = 'Not reef safe.';
+
+const QUARANTINE_ONLY = 'Use only in a separate quarantine tank, never in the display.';
+
+export const DIAGNOSIS_DISCLAIMER =
+  'This is an automated assessment of photos, not a veterinary diagnosis. Many diseases look alike in pictures: confirm the signs in person, ideally with an experienced aquarist or aquatic veterinarian, before medicating. Follow the product label for dosing, never combine medications without checking compatibility, and measure medication levels with a test kit where one exists.';
+
+const REEF_UNSAFE_DISCLAIMER =
+  'This plan includes treatments that are NOT reef safe. They can kill corals, invertebrates and the beneficial bacteria of the biological filter; only use them on fish moved to a separate quarantine tank.';
+
+/**
+ * Warning for a treatment step, or null when it is reef safe
+ */
+export function getReefSafetyWarning(medicationClass: MedicationClass | null, reefSafe: boolean): string | null {
+  const reason = medicationClass ? REEF_UNSAFE_MEDICATIONS[medicationClass] : undefined;
+  if (!reason && reefSafe) {
+    return null;
+  }
+  return `${reason || GENERIC_UNSAFE_WARNING} ${QUARANTINE_ONLY}`;
+}
+
+/**
+ * Disclaimer for a diagnosis; stricter when any treatment is reef-unsafe
+ */
+export function buildDisclaimer(hasReefUnsafeTreatment: boolean): string {
+  return hasReefUnsafeTreatment ? `${REEF_UNSAFE_DISCLAIMER} ${DIAGNOSIS_DISCLAIMER}` : DIAGNOSIS_DISCLAIMER;
+}
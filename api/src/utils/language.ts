@@ -0,0 +1,41 @@
+// ============================================================================
+// Language Helpers
+// Supported locales for localized analysis results
+// ============================================================================
+
+// ISO 639-1 codes mapped to the name used in prompts
+export const SUPPORTED_LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese (Simplified)',
+} as const;
+
+export type SupportedLanguage = keyof typeof SUPPORTED_LANGUAGES;
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+/**
+ * Reduce a locale such as "pt-BR" or "ES" to its lowercase base language
+ */
+export function normalizeLanguageCode(value: string): string {
+  return value.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+export function isSupportedLanguage(value: string): value is SupportedLanguage {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, value);
+}
+
+/**
+ * Whether results in this language differ from the default English output
+ * Unsupported values are treated as the default.
+ */
+export function isLocalized(language: string | undefined): language is SupportedLanguage {
+  return language !== undefined && isSupportedLanguage(language) && language !== DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,618 @@
+// ============================================================================
+// Model Response Validation
+// Shared zod schema, coercion and repair flow for AI provider JSON output
+// ============================================================================
+
+import { z } from 'zod';
+import type {
+  AnalysisMode,
+  AnalyzeResult,
+  DiagnosisResult,
+  DiagnosisUrgency,
+  Identification,
+  ScanResult,
+  TestKitReading,
+  TestKitResult,
+  VisualChangeKind,
+  VisualDiffResult,
+} from '../types';
+import { buildDisclaimer, getReefSafetyWarning, MEDICATION_CLASSES, MedicationClass } from './diagnosis';
+import { normalizeRegions } from './regions';
+import {
+  convertToStoredUnit,
+  isWaterParameter,
+  WATER_PARAMETER_INFO,
+  WaterParameter,
+} from './waterParameters';
+
+// -----------------------------------------------------------------------------
+// Coercion Helpers
+// -----------------------------------------------------------------------------
+
+export const TANK_HEALTH_VALUES = ['Excellent', 'Good', 'Fair', 'Needs Attention', 'Critical'] as const;
+
+const CATEGORY_VALUES = ['fish', 'coral', 'invertebrate', 'algae', 'pest', 'equipment', 'other'];
+
+// Common synonyms models use instead of the requested severity labels
+const SEVERITY_ALIASES: Record<string, Identification['severity']> = {
+  low: 'low',
+  minor: 'low',
+  mild: 'low',
+  medium: 'medium',
+  moderate: 'medium',
+  high: 'high',
+  severe: 'high',
+  critical: 'high',
+};
+
+function normalizeLabel(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * "needs attention", "NEEDS_ATTENTION" -> "Needs Attention"
+ */
+function coerceTankHealth(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const match = TANK_HEALTH_VALUES.find((health) => normalizeLabel(health) === normalizeLabel(value));
+  return match || value;
+}
+
+/**
+ * Accept 0-1 fractions, 0-100 percentages and numeric strings such as "85%"
+ */
+function coerceConfidence(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return 0.5;
+  }
+
+  let numeric = value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    numeric = trimmed.endsWith('%')
+      ? parseFloat(trimmed.slice(0, -1)) / 100
+      : parseFloat(trimmed);
+  }
+
+  if (typeof numeric === 'number' && numeric > 1 && numeric <= 100) {
+    return numeric / 100;
+  }
+  return numeric;
+}
+
+function coerceBoolean(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === 'yes') return true;
+    if (normalized === 'false' || normalized === 'no') return false;
+  }
+  return value ?? false;
+}
+
+function coerceSeverity(value: unknown): unknown {
+  if (value === undefined || value === null || value === '' || value === 'null') {
+    return null;
+  }
+  if (typeof value === 'string') {
+    return SEVERITY_ALIASES[normalizeLabel(value)] ?? value;
+  }
+  return value;
+}
+
+function coerceCategory(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value ?? 'other';
+  }
+  const normalized = normalizeLabel(value);
+  // Accept plurals such as "fishes" or "corals"
+  const match = CATEGORY_VALUES.find(
+    (category) => normalized === category || normalized === `${category}s` || normalized === `${category}es`
+  );
+  return match || 'other';
+}
+
+// Abbreviations printed on test kits and used by models
+const PARAMETER_ALIASES: Record<string, WaterParameter> = {
+  alk: 'alkalinity',
+  kh: 'alkalinity',
+  dkh: 'alkalinity',
+  'carbonate hardness': 'alkalinity',
+  ca: 'calcium',
+  mg: 'magnesium',
+  no3: 'nitrate',
+  po4: 'phosphate',
+  sg: 'salinity',
+  'specific gravity': 'salinity',
+  salt: 'salinity',
+  temp: 'temperature',
+};
+
+/**
+ * "KH", "Alk" -> "alkalinity"; unknown parameters are left for the caller to drop
+ */
+function coerceParameter(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const normalized = normalizeLabel(value);
+  return PARAMETER_ALIASES[normalized] ?? normalized;
+}
+
+function coerceNumber(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value.trim());
+    return Number.isNaN(numeric) ? value : numeric;
+  }
+  return value;
+}
+
+const URGENCY_VALUES: DiagnosisUrgency[] = ['low', 'medium', 'high', 'critical'];
+
+function coerceUrgency(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const normalized = normalizeLabel(value);
+  if (normalized === 'emergency' || normalized === 'urgent') {
+    return 'critical';
+  }
+  return URGENCY_VALUES.find((urgency) => urgency === normalized) ?? SEVERITY_ALIASES[normalized] ?? value;
+}
+
+/**
+ * Diagnoses only cover animals; "fishes", "corals" and "inverts" are accepted
+ */
+function coerceAffectedCategory(value: unknown): unknown {
+  if (typeof value === 'string' && ['invert', 'inverts'].includes(normalizeLabel(value))) {
+    return 'invertebrate';
+  }
+  return coerceCategory(value);
+}
+
+// Product and drug names models use instead of the treatment class
+const MEDICATION_ALIASES: Record<string, MedicationClass> = {
+  cupramine: 'copper',
+  coppersafe: 'copper',
+  'copper power': 'copper',
+  'chloroquine phosphate': 'chloroquine',
+  cp: 'chloroquine',
+  'malachite green': 'malachite_green',
+  'methylene blue': 'methylene_blue',
+  antibiotics: 'antibiotic',
+  metronidazole: 'antibiotic',
+  kanamycin: 'antibiotic',
+  nitrofurazone: 'antibiotic',
+  praziquantel: 'antiparasitic',
+  prazipro: 'antiparasitic',
+  fenbendazole: 'antiparasitic',
+  'freshwater dip': 'freshwater_dip',
+  'fw dip': 'freshwater_dip',
+  'coral dip': 'coral_dip',
+  'iodine dip': 'coral_dip',
+  revive: 'coral_dip',
+  'coral rx': 'coral_dip',
+};
+
+/**
+ * Map a medication to its class; "none" or an empty value means no medication
+ */
+function coerceMedicationClass(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const normalized = normalizeLabel(value);
+  if (normalized === 'none' || normalized === 'null') {
+    return null;
+  }
+  const asClass = normalized.replace(/ /g, '_');
+  return MEDICATION_CLASSES.find((medication) => medication === asClass) ?? MEDICATION_ALIASES[normalized] ?? 'other';
+}
+
+const CHANGE_KIND_ALIASES: Record<string, VisualChangeKind> = {
+  appeared: 'appeared',
+  new: 'appeared',
+  added: 'appeared',
+  disappeared: 'disappeared',
+  gone: 'disappeared',
+  missing: 'disappeared',
+  removed: 'disappeared',
+  improved: 'improved',
+  better: 'improved',
+  recovered: 'improved',
+  worsened: 'worsened',
+  worse: 'worsened',
+  declined: 'worsened',
+  spreading: 'worsened',
+};
+
+function coerceChangeKind(value: unknown): unknown {
+  return typeof value === 'string' ? CHANGE_KIND_ALIASES[normalizeLabel(value)] ?? value : value;
+}
+
+function coerceStringList(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return typeof value === 'string' ? [value] : value;
+}
+
+// -----------------------------------------------------------------------------
+// Schema
+// -----------------------------------------------------------------------------
+
+const ModelIdentificationSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required'),
+    category: z.preprocess(coerceCategory, z.string()),
+    confidence: z.preprocess(
+      coerceConfidence,
+      z.number().min(0, 'confidence must be between 0 and 1').max(1, 'confidence must be between 0 and 1')
+    ),
+    is_problem: z.preprocess(coerceBoolean, z.boolean()),
+    severity: z.preprocess(coerceSeverity, z.enum(['low', 'medium', 'high']).nullable()),
+    description: z.preprocess((value) => value ?? '', z.string()),
+    image_indices: z.unknown().optional(),
+    regions: z.unknown().optional(),
+  })
+  // Problems always carry a severity; healthy items never do
+  .transform((identification) => ({
+    ...identification,
+    severity: identification.is_problem ? identification.severity || 'low' : null,
+  }));
+
+export const ModelResponseSchema = z.object({
+  tank_health: z.preprocess(coerceTankHealth, z.enum(TANK_HEALTH_VALUES)),
+  summary: z.string().trim().min(1, 'summary is required'),
+  identifications: z.preprocess((value) => value ?? [], z.array(ModelIdentificationSchema)),
+  recommendations: z.preprocess(coerceStringList, z.array(z.string())),
+});
+
+const ModelTestKitReadingSchema = z
+  .object({
+    parameter: z.preprocess(coerceParameter, z.string()),
+    value: z.preprocess(coerceNumber, z.number({ invalid_type_error: 'value must be a number' }).finite()),
+    unit: z.preprocess((value) => value ?? '', z.string()),
+    confidence: z.preprocess(
+      coerceConfidence,
+      z.number().min(0, 'confidence must be between 0 and 1').max(1, 'confidence must be between 0 and 1')
+    ),
+    kit: z.preprocess((value) => value || null, z.string().nullable()),
+  })
+  // Values the parameter log would reject are sent back for repair
+  .superRefine((reading, ctx) => {
+    if (!isWaterParameter(reading.parameter)) {
+      return;
+    }
+
+    const info = WATER_PARAMETER_INFO[reading.parameter];
+    const converted = convertToStoredUnit(reading.parameter, reading.value, reading.unit);
+
+    if (converted === null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['unit'],
+        message: `unit "${reading.unit}" is not valid for ${reading.parameter}; use "${info.unit}"`,
+      });
+    } else if (converted < info.min || converted > info.max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: `${reading.parameter} must be between ${info.min} and ${info.max}${info.unit ? ` ${info.unit}` : ''}`,
+      });
+    }
+  });
+
+export const TestKitResponseSchema = z.object({
+  summary: z.string().trim().min(1, 'summary is required'),
+  readings: z.preprocess((value) => value ?? [], z.array(ModelTestKitReadingSchema)),
+});
+
+const ModelDiagnosisCandidateSchema = z.object({
+  condition: z.string().trim().min(1, 'condition is required'),
+  category: z.preprocess(coerceAffectedCategory, z.enum(['fish', 'coral', 'invertebrate'])),
+  likelihood: z.preprocess(
+    coerceConfidence,
+    z.number().min(0, 'likelihood must be between 0 and 1').max(1, 'likelihood must be between 0 and 1')
+  ),
+  evidence: z.preprocess((value) => value ?? '', z.string()),
+  image_indices: z.unknown().optional(),
+  regions: z.unknown().optional(),
+});
+
+const ModelTreatmentStepSchema = z.object({
+  action: z.string().trim().min(1, 'action is required'),
+  medication_class: z.preprocess(coerceMedicationClass, z.enum(MEDICATION_CLASSES).nullable()),
+  dosage_notes: z.preprocess((value) => value || null, z.string().nullable()),
+  // A missing flag counts as unsafe
+  reef_safe: z.preprocess(coerceBoolean, z.boolean()),
+  requires_quarantine: z.preprocess(coerceBoolean, z.boolean()),
+});
+
+export const DiagnosisResponseSchema = z.object({
+  summary: z.string().trim().min(1, 'summary is required'),
+  urgency: z.preprocess(coerceUrgency, z.enum(['low', 'medium', 'high', 'critical'])),
+  differential: z.preprocess((value) => value ?? [], z.array(ModelDiagnosisCandidateSchema)),
+  treatment_plan: z.preprocess((value) => value ?? [], z.array(ModelTreatmentStepSchema)),
+});
+
+const ModelVisualChangeSchema = z.object({
+  subject: z.string().trim().min(1, 'subject is required'),
+  kind: z.preprocess(coerceChangeKind, z.enum(['appeared', 'disappeared', 'improved', 'worsened'])),
+  description: z.preprocess((value) => value ?? '', z.string()),
+});
+
+export const VisualDiffResponseSchema = z.object({
+  summary: z.string().trim().min(1, 'summary is required'),
+  changes: z.preprocess((value) => value ?? [], z.array(ModelVisualChangeSchema)),
+});
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+export type ModelParseOutcome =
+  | { success: true; result: AnalyzeResult }
+  | { success: false; reason: string; issues: string[] };
+
+// repairReason is set when the first output failed and the repair succeeded
+export type RepairedParseOutcome = ModelParseOutcome & { repairReason?: string };
+
+// request_logs.error_code is VARCHAR(50)
+const MAX_REASON_LENGTH = 50;
+
+/**
+ * Parse and validate raw model output into the result type of the mode
+ * On failure, reason is a short code suitable for request_logs.error_code
+ * and issues are human-readable messages for a repair prompt.
+ */
+export function parseModelResponse(text: string, imageCount: number, mode: AnalysisMode): ModelParseOutcome {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return {
+      success: false,
+      reason: 'INVALID_JSON',
+      issues: [`Output is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`],
+    };
+  }
+
+  if (mode === 'test_kit_read') {
+    const parsed = TestKitResponseSchema.safeParse(json);
+    return parsed.success
+      ? { success: true, result: toTestKitResult(parsed.data) }
+      : toFailure(parsed.error);
+  }
+
+  if (mode === 'disease_dx') {
+    const parsed = DiagnosisResponseSchema.safeParse(json);
+    return parsed.success
+      ? { success: true, result: toDiagnosisResult(parsed.data, imageCount) }
+      : toFailure(parsed.error);
+  }
+
+  if (mode === 'scan_compare') {
+    const parsed = VisualDiffResponseSchema.safeParse(json);
+    return parsed.success
+      ? { success: true, result: toVisualDiffResult(parsed.data) }
+      : toFailure(parsed.error);
+  }
+
+  const parsed = ModelResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return toFailure(parsed.error);
+  }
+
+  const { tank_health, summary, identifications, recommendations } = parsed.data;
+
+  return {
+    success: true,
+    result: {
+      request_id: '', // Will be set by caller
+      tank_health,
+      summary,
+      identifications: identifications.map((identification) => ({
+        name: identification.name,
+        category: identification.category,
+        confidence: identification.confidence,
+        is_problem: identification.is_problem,
+        severity: identification.severity,
+        description: identification.description,
+        image_indices: normalizeImageIndices(identification.image_indices, imageCount),
+        regions: normalizeRegions(identification.regions, imageCount),
+      })),
+      recommendations,
+      usage: {
+        requests_today: 0, // Will be set by caller
+        daily_limit: 0,
+        reset_at: '',
+      },
+    },
+  };
+}
+
+/**
+ * Parse model output, asking the provider for one corrected response if needed
+ * repair receives the validation issues and returns the model's new output,
+ * or null when the repair request itself failed.
+ */
+export async function parseWithRepair(
+  text: string,
+  imageCount: number,
+  mode: AnalysisMode,
+  repair: (issues: string[]) => Promise<string | null>
+): Promise<RepairedParseOutcome> {
+  const first = parseModelResponse(text, imageCount, mode);
+  if (first.success) {
+    return first;
+  }
+
+  const repairedText = await repair(first.issues);
+  if (repairedText === null) {
+    return first;
+  }
+
+  const second = parseModelResponse(repairedText, imageCount, mode);
+  // Keep the original reason so logs show why the repair was needed
+  return second.success
+    ? { ...second, repairReason: first.reason }
+    : { ...second, reason: first.reason };
+}
+
+/**
+ * Check whether a provider error code is a validation reason from this module
+ */
+export function isValidationReason(code: string | undefined): boolean {
+  return code === 'INVALID_JSON' || Boolean(code?.startsWith('SCHEMA:'));
+}
+
+export function isScanResult(result: AnalyzeResult): result is ScanResult {
+  return 'identifications' in result;
+}
+
+export function isTestKitResult(result: AnalyzeResult): result is TestKitResult {
+  return 'readings' in result;
+}
+
+export function isDiagnosisResult(result: AnalyzeResult): result is DiagnosisResult {
+  return 'differential' in result;
+}
+
+export function isVisualDiffResult(result: AnalyzeResult): result is VisualDiffResult {
+  return 'changes' in result;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toFailure(error: z.ZodError): ModelParseOutcome {
+  const [first] = error.errors;
+  return {
+    success: false,
+    reason: `SCHEMA:${first.path.join('.') || 'root'}`.substring(0, MAX_REASON_LENGTH),
+    issues: error.errors.map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Keep known parameters in their stored units, one reading each
+ * When a parameter was read twice, the more confident reading wins.
+ */
+function toTestKitResult(data: z.infer<typeof TestKitResponseSchema>): TestKitResult {
+  const readings = new Map<WaterParameter, TestKitReading>();
+
+  for (const reading of data.readings) {
+    if (!isWaterParameter(reading.parameter)) {
+      continue;
+    }
+
+    const value = convertToStoredUnit(reading.parameter, reading.value, reading.unit);
+    const existing = readings.get(reading.parameter);
+    if (value === null || (existing && existing.confidence >= reading.confidence)) {
+      continue;
+    }
+
+    readings.set(reading.parameter, {
+      parameter: reading.parameter,
+      value,
+      unit: WATER_PARAMETER_INFO[reading.parameter].unit,
+      confidence: reading.confidence,
+      kit: reading.kit,
+    });
+  }
+
+  return {
+    request_id: '', // Will be set by caller
+    summary: data.summary,
+    readings: Array.from(readings.values()),
+    saved_parameters: [],
+    usage: {
+      requests_today: 0, // Will be set by caller
+      daily_limit: 0,
+      reset_at: '',
+    },
+  };
+}
+
+/**
+ * Order the differential and enforce reef safety on the treatment plan
+ * Known reef-unsafe classes are flagged whatever the model said, and every
+ * unsafe step is limited to a quarantine tank.
+ */
+function toDiagnosisResult(data: z.infer<typeof DiagnosisResponseSchema>, imageCount: number): DiagnosisResult {
+  const treatmentPlan = data.treatment_plan.map((step) => {
+    const warning = getReefSafetyWarning(step.medication_class, step.reef_safe);
+    return {
+      ...step,
+      reef_safe: warning === null,
+      requires_quarantine: step.requires_quarantine || warning !== null,
+      warning,
+    };
+  });
+
+  return {
+    request_id: '', // Will be set by caller
+    summary: data.summary,
+    urgency: data.urgency,
+    differential: data.differential
+      .map((candidate) => ({
+        condition: candidate.condition,
+        category: candidate.category,
+        likelihood: candidate.likelihood,
+        evidence: candidate.evidence,
+        image_indices: normalizeImageIndices(candidate.image_indices, imageCount),
+        regions: normalizeRegions(candidate.regions, imageCount),
+      }))
+      .sort((a, b) => b.likelihood - a.likelihood),
+    treatment_plan: treatmentPlan,
+    disclaimer: buildDisclaimer(treatmentPlan.some((step) => !step.reef_safe)),
+    usage: {
+      requests_today: 0, // Will be set by caller
+      daily_limit: 0,
+      reset_at: '',
+    },
+  };
+}
+
+function toVisualDiffResult(data: z.infer<typeof VisualDiffResponseSchema>): VisualDiffResult {
+  return {
+    request_id: '', // Will be set by caller
+    summary: data.summary,
+    changes: data.changes,
+    usage: {
+      requests_today: 0, // Will be set by caller
+      daily_limit: 0,
+      reset_at: '',
+    },
+  };
+}
+
+/**
+ * Remove a ```json fence some models wrap around their output
+ */
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : text;
+}
+
+function normalizeImageIndices(indices: unknown, imageCount: number): number[] {
+  if (imageCount === 1) {
+    return [0];
+  }
+
+  if (!Array.isArray(indices)) {
+    return [];
+  }
+
+  const valid = indices.filter(
+    (index): index is number =>
+      Number.isInteger(index) && (index as number) >= 0 && (index as number) < imageCount
+  );
+  return Array.from(new Set(valid)).sort((a, b) => a - b);
+}
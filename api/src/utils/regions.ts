@@ -0,0 +1,133 @@
+// ============================================================================
+// Image Region Helpers
+// Validation and clamping of model-reported bounding boxes and polygons
+// ============================================================================
+
+import type { BoundingBox, ImageRegion, RegionPoint } from '../types';
+
+// Coordinates this far outside [0, 1] are treated as malformed (e.g. pixel
+// values) rather than slightly imprecise, and the region is dropped
+const COORDINATE_TOLERANCE = 0.1;
+
+// Polygons need at least a triangle to describe an area
+const MIN_POLYGON_POINTS = 3;
+
+// -----------------------------------------------------------------------------
+// Normalization
+// -----------------------------------------------------------------------------
+
+/**
+ * Normalize the regions reported for one identification
+ * Regions pointing at unknown images or with unusable boxes are dropped;
+ * slightly out-of-range coordinates are clamped to the image bounds.
+ */
+export function normalizeRegions(regions: unknown, imageCount: number): ImageRegion[] {
+  if (!Array.isArray(regions)) {
+    return [];
+  }
+
+  return regions
+    .map((region) => normalizeRegion(region, imageCount))
+    .filter((region): region is ImageRegion => region !== null);
+}
+
+function normalizeRegion(value: unknown, imageCount: number): ImageRegion | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  // Single-image requests may omit the index
+  const imageIndex = value.image_index ?? (imageCount === 1 ? 0 : undefined);
+  if (!Number.isInteger(imageIndex) || (imageIndex as number) < 0 || (imageIndex as number) >= imageCount) {
+    return null;
+  }
+
+  const boundingBox = normalizeBoundingBox(value.bounding_box);
+  if (!boundingBox) {
+    return null;
+  }
+
+  const region: ImageRegion = {
+    image_index: imageIndex as number,
+    bounding_box: boundingBox,
+  };
+
+  const polygon = normalizePolygon(value.polygon);
+  if (polygon) {
+    region.polygon = polygon;
+  }
+
+  return region;
+}
+
+/**
+ * Clamp a box to the image, rejecting it when it is malformed or empty
+ */
+export function normalizeBoundingBox(value: unknown): BoundingBox | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const { x, y, width, height } = value;
+  if (![x, y, width, height].every(isCoordinate)) {
+    return null;
+  }
+
+  const left = clamp(x as number);
+  const top = clamp(y as number);
+  const right = clamp((x as number) + (width as number));
+  const bottom = clamp((y as number) + (height as number));
+
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+
+  return {
+    x: round(left),
+    y: round(top),
+    width: round(right - left),
+    height: round(bottom - top),
+  };
+}
+
+function normalizePolygon(value: unknown): RegionPoint[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const points: RegionPoint[] = [];
+  for (const point of value) {
+    if (!isRecord(point) || !isCoordinate(point.x) || !isCoordinate(point.y)) {
+      // One bad vertex makes the outline meaningless
+      return null;
+    }
+    points.push({ x: round(clamp(point.x)), y: round(clamp(point.y)) });
+  }
+
+  return points.length >= MIN_POLYGON_POINTS ? points : null;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCoordinate(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= -COORDINATE_TOLERANCE &&
+    value <= 1 + COORDINATE_TOLERANCE
+  );
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
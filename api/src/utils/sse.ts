@@ -0,0 +1,59 @@
+// ============================================================================
+// Server-Sent Events Helpers
+// Minimal text/event-stream writer for Express responses
+// ============================================================================
+
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  isClosed(): boolean;
+}
+
+/**
+ * Switch a response into event-stream mode and flush the headers
+ */
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering so events reach the client immediately
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event: string, data: unknown): void {
+      if (closed) {
+        return;
+      }
+      res.write(formatEvent(event, data));
+    },
+
+    close(): void {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      res.end();
+    },
+
+    isClosed(): boolean {
+      return closed;
+    },
+  };
+}
+
+/**
+ * Format a single SSE frame
+ */
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
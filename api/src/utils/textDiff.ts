@@ -0,0 +1,60 @@
+// ============================================================================
+// Text Diff
+// Line-based diff for comparing prompt versions
+// ============================================================================
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/**
+ * Diff two texts line by line using the longest common subsequence
+ * Prompts are short, so the quadratic table is not a concern.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  for (; i < a.length; i++) {
+    lines.push({ type: 'removed', text: a[i] });
+  }
+  for (; j < b.length; j++) {
+    lines.push({ type: 'added', text: b[j] });
+  }
+
+  return lines;
+}
+
+/**
+ * Check whether a diff contains any changes
+ */
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some((line) => line.type !== 'unchanged');
+}
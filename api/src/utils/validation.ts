@@ -5,7 +5,11 @@
 
 import { z } from 'zod';
 import { Request, Response, NextFunction } from 'express';
+import config from '../config';
 import type { ApiError } from '../types';
+import { isSupportedLanguage, normalizeLanguageCode, SUPPORTED_LANGUAGES } from './language';
+import { TANK_HEALTH_VALUES } from './modelResponse';
+import { WATER_PARAMETER_INFO, WATER_PARAMETERS, WaterParameter } from './waterParameters';
 
 // -----------------------------------------------------------------------------
 // Auth Schemas
@@ -34,44 +38,513 @@ export const RefreshTokenRequestSchema = z.object({
 // Analysis Schemas
 // -----------------------------------------------------------------------------
 
-export const AnalyzeRequestSchema = z.object({
-  image: z.object({
-    data: z
-      .string()
-      .min(1, 'image.data is required')
-      .refine(
-        (val) => {
-          // Check if it's valid base64
-          try {
-            // Check base64 length (rough check for 5MB limit)
-            const estimatedBytes = (val.length * 3) / 4;
-            return estimatedBytes <= 5 * 1024 * 1024; // 5MB
-          } catch {
-            return false;
-          }
-        },
-        { message: 'image.data must be valid base64 and under 5MB' }
-      ),
-    mime_type: z.enum(['image/jpeg', 'image/png'], {
-      errorMap: () => ({
-        message: 'image.mime_type must be image/jpeg or image/png',
-      }),
+const AnalysisImageSchema = z.object({
+  data: z
+    .string()
+    .min(1, 'image data is required')
+    .refine(
+      (val) => estimateBase64Size(val) <= config.limits.maxImageSizeMB * 1024 * 1024,
+      { message: `image data must be valid base64 and under ${config.limits.maxImageSizeMB}MB` }
+    ),
+  mime_type: z.enum(['image/jpeg', 'image/png'], {
+    errorMap: () => ({
+      message: 'image mime_type must be image/jpeg or image/png',
     }),
   }),
-  mode: z.enum(['comprehensive', 'fish_id', 'coral_id', 'algae_id', 'pest_id'], {
-    errorMap: () => ({
-      message:
-        'mode must be one of: comprehensive, fish_id, coral_id, algae_id, pest_id',
+});
+
+const LanguageSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? normalizeLanguageCode(val) : val),
+  z.string().refine(isSupportedLanguage, {
+    message: `language must be one of: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}`,
+  })
+);
+
+// scan_compare is internal to POST /v1/scans/compare
+const ANALYSIS_MODES = [
+  'comprehensive',
+  'fish_id',
+  'coral_id',
+  'algae_id',
+  'pest_id',
+  'test_kit_read',
+  'disease_dx',
+] as const;
+
+export const AnalysisModeSchema = z.enum(ANALYSIS_MODES, {
+  errorMap: () => ({
+    message: `mode must be one of: ${ANALYSIS_MODES.join(', ')}`,
+  }),
+});
+
+/**
+ * Accepts either a single `image` (original contract) or an ordered `images`
+ * array, and normalizes both to `images`
+ */
+export const AnalyzeRequestSchema = z
+  .object({
+    image: AnalysisImageSchema.optional(),
+    images: z
+      .array(AnalysisImageSchema)
+      .min(1, 'images must contain at least one image')
+      .max(
+        config.limits.maxImagesPerRequest,
+        `images must contain at most ${config.limits.maxImagesPerRequest} images`
+      )
+      .optional(),
+    mode: AnalysisModeSchema,
+    tank_id: z.string().uuid('tank_id must be a valid UUID').optional(),
+    options: z
+      .object({
+        include_recommendations: z.boolean().optional(),
+        language: LanguageSchema.optional(),
+        save_readings: z.boolean().optional(),
+      })
+      .optional(),
+  })
+  .refine((val) => Boolean(val.image) !== Boolean(val.images), {
+    message: 'Provide either image or images, not both',
+    path: ['images'],
+  })
+  .refine(
+    (val) => {
+      const images = val.images || (val.image ? [val.image] : []);
+      const totalBytes = images.reduce((sum, img) => sum + estimateBase64Size(img.data), 0);
+      return totalBytes <= config.limits.maxTotalImageSizeMB * 1024 * 1024;
+    },
+    {
+      message: `images must total under ${config.limits.maxTotalImageSizeMB}MB`,
+      path: ['images'],
+    }
+  )
+  .refine((val) => !val.options?.save_readings || val.mode === 'test_kit_read', {
+    message: 'save_readings is only supported with mode test_kit_read',
+    path: ['options', 'save_readings'],
+  })
+  .refine((val) => !val.options?.save_readings || Boolean(val.tank_id), {
+    message: 'save_readings requires a tank_id',
+    path: ['tank_id'],
+  })
+  .transform(({ image, images, ...rest }) => ({
+    ...rest,
+    images: images || (image ? [image] : []),
+  }));
+
+export const AnalysisFeedbackSchema = z
+  .object({
+    rating: z.number().int().min(1, 'rating must be 1-5').max(5, 'rating must be 1-5').optional(),
+    identifications: z
+      .array(
+        z
+          .object({
+            index: z.number().int().min(0),
+            name: z.string().trim().min(1, 'name is required').max(255),
+            verdict: z.enum(['correct', 'incorrect', 'renamed'], {
+              errorMap: () => ({ message: 'verdict must be one of: correct, incorrect, renamed' }),
+            }),
+            corrected_name: z.string().trim().min(1).max(255).optional(),
+          })
+          .refine((item) => item.verdict !== 'renamed' || item.corrected_name !== undefined, {
+            message: 'corrected_name is required when verdict is renamed',
+            path: ['corrected_name'],
+          })
+      )
+      .max(50)
+      .refine((items) => new Set(items.map((item) => item.index)).size === items.length, {
+        message: 'each identification index can only appear once',
+      })
+      .default([]),
+    comment: z.string().trim().max(1000).optional(),
+  })
+  .refine((val) => val.rating !== undefined || val.identifications.length > 0, {
+    message: 'feedback needs a rating or at least one identification',
+    path: ['rating'],
+  });
+
+// -----------------------------------------------------------------------------
+// Scan History Schemas
+// -----------------------------------------------------------------------------
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * ISO date or datetime query parameter
+ * With endOfDay, a bare date such as 2024-05-01 covers that whole day.
+ */
+function dateParam(field: string, endOfDay = false) {
+  return z
+    .string()
+    .refine((val) => !Number.isNaN(Date.parse(val)), `${field} must be an ISO 8601 date`)
+    .transform((val) => {
+      const date = new Date(val);
+      if (endOfDay && DATE_ONLY.test(val)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+      }
+      return date;
+    });
+}
+
+export const ScanHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().max(200).optional(),
+  mode: AnalysisModeSchema.optional(),
+  tank_health: z
+    .enum(TANK_HEALTH_VALUES, {
+      errorMap: () => ({ message: `tank_health must be one of: ${TANK_HEALTH_VALUES.join(', ')}` }),
+    })
+    .optional(),
+  // from is inclusive, to is exclusive
+  from: dateParam('from').optional(),
+  to: dateParam('to', true).optional(),
+  tank_id: z.string().uuid('tank_id must be a valid UUID').optional(),
+});
+
+/**
+ * Two scans of one tank; the visual diff needs each scan's images re-sent,
+ * keyed by its request id
+ */
+export const CompareScansSchema = z
+  .object({
+    request_ids: z
+      .array(z.string().trim().min(1, 'request id is required').max(100))
+      .length(2, 'request_ids must contain exactly two request ids')
+      .refine((ids) => ids[0] !== ids[1], { message: 'request_ids must be two different scans' }),
+    visual_diff: z.boolean().optional(),
+    images: z
+      .record(
+        z
+          .array(AnalysisImageSchema)
+          .min(1, 'images must contain at least one image per scan')
+          .max(
+            config.limits.maxImagesPerRequest,
+            `images must contain at most ${config.limits.maxImagesPerRequest} images per scan`
+          )
+      )
+      .optional(),
+    language: LanguageSchema.optional(),
+  })
+  .refine(
+    (val) => !val.visual_diff || val.request_ids.every((id) => Boolean(val.images?.[id])),
+    { message: 'visual_diff requires the images of both scans, keyed by request id', path: ['images'] }
+  )
+  .refine(
+    (val) => {
+      const images = Object.values(val.images || {}).flat();
+      const totalBytes = images.reduce((sum, img) => sum + estimateBase64Size(img.data), 0);
+      return totalBytes <= config.limits.maxTotalImageSizeMB * 1024 * 1024;
+    },
+    {
+      message: `images must total under ${config.limits.maxTotalImageSizeMB}MB`,
+      path: ['images'],
+    }
+  );
+
+// -----------------------------------------------------------------------------
+// Tank Schemas
+// -----------------------------------------------------------------------------
+
+export const TANK_TYPES = [
+  'mixed_reef',
+  'sps',
+  'lps',
+  'soft_coral',
+  'fowlr',
+  'nano',
+  'frag',
+  'quarantine',
+] as const;
+
+const TankFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  volume_liters: z.number().positive('volume_liters must be positive').max(100000),
+  tank_type: z.enum(TANK_TYPES, {
+    errorMap: () => ({ message: `tank_type must be one of: ${TANK_TYPES.join(', ')}` }),
+  }),
+  setup_date: z
+    .string()
+    .regex(DATE_ONLY, 'setup_date must be a date (YYYY-MM-DD)')
+    .refine((val) => !Number.isNaN(Date.parse(val)), 'setup_date must be a valid date')
+    .refine((val) => new Date(val) <= new Date(), 'setup_date cannot be in the future'),
+  photo_url: z
+    .string()
+    .url('photo_url must be a URL')
+    .max(2048)
+    .refine((val) => val.startsWith('https://'), 'photo_url must use https'),
+});
+
+export const CreateTankSchema = TankFieldsSchema.partial().required({ name: true });
+
+/**
+ * Partial update; null clears an optional field
+ */
+export const UpdateTankSchema = z
+  .object({
+    name: TankFieldsSchema.shape.name.optional(),
+    volume_liters: TankFieldsSchema.shape.volume_liters.nullable().optional(),
+    tank_type: TankFieldsSchema.shape.tank_type.nullable().optional(),
+    setup_date: TankFieldsSchema.shape.setup_date.nullable().optional(),
+    photo_url: TankFieldsSchema.shape.photo_url.nullable().optional(),
+  })
+  .refine((val) => Object.keys(val).length > 0, {
+    message: 'at least one field is required',
+  });
+
+const LIVESTOCK_CATEGORIES = ['fish', 'coral', 'invertebrate'] as const;
+
+const LivestockCategorySchema = z.enum(LIVESTOCK_CATEGORIES, {
+  errorMap: () => ({ message: `category must be one of: ${LIVESTOCK_CATEGORIES.join(', ')}` }),
+});
+
+const LivestockFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(255),
+  category: LivestockCategorySchema,
+  count: z.number().int().min(1, 'count must be at least 1').max(10000),
+  notes: z.string().trim().max(1000),
+});
+
+export const CreateLivestockSchema = LivestockFieldsSchema.partial({ count: true, notes: true });
+
+/**
+ * Partial update; null clears the notes
+ */
+export const UpdateLivestockSchema = z
+  .object({
+    name: LivestockFieldsSchema.shape.name.optional(),
+    category: LivestockFieldsSchema.shape.category.optional(),
+    count: LivestockFieldsSchema.shape.count.optional(),
+    notes: LivestockFieldsSchema.shape.notes.nullable().optional(),
+  })
+  .refine((val) => Object.keys(val).length > 0, {
+    message: 'at least one field is required',
+  });
+
+// -----------------------------------------------------------------------------
+// Water Parameter Schemas
+// -----------------------------------------------------------------------------
+
+const WaterParameterSchema = z.enum(WATER_PARAMETERS, {
+  errorMap: () => ({ message: `parameter must be one of: ${WATER_PARAMETERS.join(', ')}` }),
+});
+
+// Bounds catch typos and readings in the wrong unit (e.g. salinity in ppt instead of SG)
+const readingShape = Object.fromEntries(
+  WATER_PARAMETERS.map((parameter) => {
+    const { min, max, unit } = WATER_PARAMETER_INFO[parameter];
+    const message = `${parameter} must be between ${min} and ${max}${unit ? ` ${unit}` : ''}`;
+    return [parameter, z.number().min(min, message).max(max, message).optional()];
+  })
+) as Record<WaterParameter, z.ZodOptional<z.ZodNumber>>;
+
+export const LogWaterReadingsSchema = z.object({
+  readings: z
+    .object(readingShape)
+    .strict()
+    .refine((val) => Object.values(val).some((value) => value !== undefined), {
+      message: 'readings must include at least one parameter',
     }),
+  // Defaults to now; allow a little clock skew between device and server
+  measured_at: dateParam('measured_at')
+    .refine((date) => date.getTime() <= Date.now() + 5 * 60 * 1000, 'measured_at cannot be in the future')
+    .optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const WaterReadingsQuerySchema = z.object({
+  parameter: WaterParameterSchema.optional(),
+  from: dateParam('from').optional(),
+  to: dateParam('to', true).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(500),
+});
+
+export const HealthScoresQuerySchema = z.object({
+  from: dateParam('from').optional(),
+  to: dateParam('to', true).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+// -----------------------------------------------------------------------------
+// Maintenance Schemas
+// -----------------------------------------------------------------------------
+
+const MAINTENANCE_TASK_KINDS = [
+  'water_change',
+  'filter_sock',
+  'dosing_refill',
+  'water_test',
+  'equipment',
+  'other',
+] as const;
+
+const MAINTENANCE_TASK_STATUSES = ['upcoming', 'due', 'overdue', 'done'] as const;
+
+const TaskFieldsSchema = z.object({
+  title: z.string().trim().min(1, 'title is required').max(255),
+  kind: z.enum(MAINTENANCE_TASK_KINDS, {
+    errorMap: () => ({ message: `kind must be one of: ${MAINTENANCE_TASK_KINDS.join(', ')}` }),
   }),
-  options: z
-    .object({
-      include_recommendations: z.boolean().optional(),
-      language: z.string().min(2).max(5).optional(),
+  interval_days: z.number().int().min(1, 'interval_days must be at least 1').max(365),
+  due_at: dateParam('due_at'),
+  notes: z.string().trim().max(1000),
+});
+
+/**
+ * A task without interval_days is one-off; without due_at it is due now
+ */
+export const CreateTaskSchema = TaskFieldsSchema.partial().required({ title: true });
+
+/**
+ * Partial update; null clears the notes or makes the task one-off
+ */
+export const UpdateTaskSchema = z
+  .object({
+    title: TaskFieldsSchema.shape.title.optional(),
+    kind: TaskFieldsSchema.shape.kind.optional(),
+    interval_days: TaskFieldsSchema.shape.interval_days.nullable().optional(),
+    due_at: TaskFieldsSchema.shape.due_at.optional(),
+    notes: TaskFieldsSchema.shape.notes.nullable().optional(),
+  })
+  .refine((val) => Object.keys(val).length > 0, {
+    message: 'at least one field is required',
+  });
+
+/**
+ * One entry of a scan's recommendations; interval_days overrides the one read
+ * from the text, null makes the task one-off
+ */
+export const TaskFromRecommendationSchema = z.object({
+  request_id: z.string().trim().min(1, 'request_id is required').max(100),
+  index: z.number().int().min(0, 'index must be a non-negative integer'),
+  interval_days: TaskFieldsSchema.shape.interval_days.nullable().optional(),
+  due_at: TaskFieldsSchema.shape.due_at.optional(),
+});
+
+export const CompleteTaskSchema = z.object({
+  // Defaults to now; allow a little clock skew between device and server
+  completed_at: dateParam('completed_at')
+    .refine((date) => date.getTime() <= Date.now() + 5 * 60 * 1000, 'completed_at cannot be in the future')
+    .optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const TasksQuerySchema = z.object({
+  status: z
+    .enum(MAINTENANCE_TASK_STATUSES, {
+      errorMap: () => ({ message: `status must be one of: ${MAINTENANCE_TASK_STATUSES.join(', ')}` }),
     })
     .optional(),
 });
 
+export const TaskCompletionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// -----------------------------------------------------------------------------
+// Notification Schemas
+// -----------------------------------------------------------------------------
+
+const NOTIFICATION_CATEGORIES = [
+  'job_complete',
+  'weekly_digest',
+  'maintenance_due',
+  'quota_reset',
+  'parameter_alert',
+] as const;
+
+export const RegisterPushTokenSchema = z.object({
+  token: z.string().trim().min(1, 'token is required').max(512),
+});
+
+/**
+ * Categories to turn on (true) or off (false); others keep their setting
+ */
+export const NotificationPreferencesSchema = z
+  .object(
+    Object.fromEntries(NOTIFICATION_CATEGORIES.map((category) => [category, z.boolean().optional()])) as Record<
+      (typeof NOTIFICATION_CATEGORIES)[number],
+      z.ZodOptional<z.ZodBoolean>
+    >
+  )
+  .strict()
+  .refine((val) => Object.keys(val).length > 0, {
+    message: `at least one of ${NOTIFICATION_CATEGORIES.join(', ')} is required`,
+  });
+
+export const NotificationDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(config.notifications.deliveryLogLimit).default(50),
+});
+
+// -----------------------------------------------------------------------------
+// Species Schemas
+// -----------------------------------------------------------------------------
+
+export const SpeciesQuerySchema = z.object({
+  category: LivestockCategorySchema.optional(),
+  q: z.string().trim().min(1, 'q must not be empty').max(100).optional(),
+});
+
+// -----------------------------------------------------------------------------
+// Compatibility Schemas
+// -----------------------------------------------------------------------------
+
+const SpeciesReferenceSchema = z
+  .object({
+    species_id: z.string().trim().min(1).max(100).optional(),
+    name: z.string().trim().min(1).max(255).optional(),
+    // Narrows fuzzy name matching
+    category: LivestockCategorySchema.optional(),
+  })
+  .refine((val) => val.species_id !== undefined || val.name !== undefined, {
+    message: 'species_id or name is required',
+  });
+
+export const CompatibilityCheckSchema = z
+  .object({
+    candidate: SpeciesReferenceSchema,
+    tank_id: z.string().uuid('tank_id must be a valid UUID').optional(),
+    // Checked together with the tank's inhabitants when both are given
+    livestock: z.array(SpeciesReferenceSchema).max(100, 'livestock can have at most 100 entries').optional(),
+    // Overrides the tank's volume
+    volume_liters: z.number().positive().max(100000).optional(),
+  })
+  .refine((val) => val.tank_id !== undefined || val.livestock !== undefined, {
+    message: 'tank_id or livestock is required',
+    path: ['tank_id'],
+  });
+
+// -----------------------------------------------------------------------------
+// Admin Schemas
+// -----------------------------------------------------------------------------
+
+export const CreatePromptVersionSchema = z.object({
+  system_prompt: z.string().trim().min(1, 'system_prompt is required').max(20000),
+  mode_prompt: z.string().trim().min(1, 'mode_prompt is required').max(20000),
+  // Activate the new version immediately
+  activate: z.boolean().optional(),
+});
+
+const PromptVersionNumberSchema = z.number().int().min(0, 'version must be a non-negative integer');
+
+export const StartExperimentSchema = z.object({
+  mode: AnalysisModeSchema,
+  variants: z
+    .array(
+      z.object({
+        version: PromptVersionNumberSchema,
+        weight: z.number().int().min(1).max(100).default(1),
+      })
+    )
+    .min(2, 'an experiment needs at least two variants')
+    .max(5, 'an experiment can have at most five variants'),
+});
+
+export const PromoteExperimentSchema = z.object({
+  version: PromptVersionNumberSchema,
+});
+
+export const UnmatchedSpeciesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 // -----------------------------------------------------------------------------
 // Type Exports
 // -----------------------------------------------------------------------------
@@ -79,6 +552,31 @@ export const AnalyzeRequestSchema = z.object({
 export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
 export type RefreshTokenRequest = z.infer<typeof RefreshTokenRequestSchema>;
 export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
+export type AnalysisFeedbackRequest = z.infer<typeof AnalysisFeedbackSchema>;
+export type ScanHistoryQuery = z.infer<typeof ScanHistoryQuerySchema>;
+export type CompareScansRequest = z.infer<typeof CompareScansSchema>;
+export type CreateTankRequest = z.infer<typeof CreateTankSchema>;
+export type UpdateTankRequest = z.infer<typeof UpdateTankSchema>;
+export type CreateLivestockRequest = z.infer<typeof CreateLivestockSchema>;
+export type UpdateLivestockRequest = z.infer<typeof UpdateLivestockSchema>;
+export type LogWaterReadingsRequest = z.infer<typeof LogWaterReadingsSchema>;
+export type WaterReadingsQuery = z.infer<typeof WaterReadingsQuerySchema>;
+export type HealthScoresQuery = z.infer<typeof HealthScoresQuerySchema>;
+export type CreateTaskRequest = z.infer<typeof CreateTaskSchema>;
+export type UpdateTaskRequest = z.infer<typeof UpdateTaskSchema>;
+export type TaskFromRecommendationRequest = z.infer<typeof TaskFromRecommendationSchema>;
+export type CompleteTaskRequest = z.infer<typeof CompleteTaskSchema>;
+export type TasksQuery = z.infer<typeof TasksQuerySchema>;
+export type TaskCompletionsQuery = z.infer<typeof TaskCompletionsQuerySchema>;
+export type RegisterPushTokenRequest = z.infer<typeof RegisterPushTokenSchema>;
+export type NotificationPreferencesRequest = z.infer<typeof NotificationPreferencesSchema>;
+export type NotificationDeliveriesQuery = z.infer<typeof NotificationDeliveriesQuerySchema>;
+export type SpeciesQuery = z.infer<typeof SpeciesQuerySchema>;
+export type CompatibilityCheckRequest = z.infer<typeof CompatibilityCheckSchema>;
+export type CreatePromptVersionRequest = z.infer<typeof CreatePromptVersionSchema>;
+export type StartExperimentRequest = z.infer<typeof StartExperimentSchema>;
+export type PromoteExperimentRequest = z.infer<typeof PromoteExperimentSchema>;
+export type UnmatchedSpeciesQuery = z.infer<typeof UnmatchedSpeciesQuerySchema>;
 
 // -----------------------------------------------------------------------------
 // Validation Middleware Factory
@@ -115,6 +613,37 @@ export function validate<T extends z.ZodSchema>(schema: T) {
   };
 }
 
+/**
+ * Create validation middleware for query parameters
+ * Parsed values replace req.query, so schemas may coerce and transform.
+ */
+export function validateQuery<T extends z.ZodSchema>(schema: T) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.query);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+
+      const error: ApiError = {
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Validation failed',
+          details: { errors },
+        },
+      };
+
+      res.status(400).json(error);
+      return;
+    }
+
+    req.query = result.data as Request['query'];
+    next();
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Common Validators
 // -----------------------------------------------------------------------------
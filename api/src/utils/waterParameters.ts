@@ -0,0 +1,107 @@
+// ============================================================================
+// Water Parameter Helpers
+// Parameters a tank's chemistry is logged in, with their units
+// ============================================================================
+
+export const WATER_PARAMETERS = [
+  'alkalinity',
+  'calcium',
+  'magnesium',
+  'nitrate',
+  'phosphate',
+  'salinity',
+  'temperature',
+  'ph',
+] as const;
+
+export type WaterParameter = (typeof WATER_PARAMETERS)[number];
+
+export interface WaterParameterInfo {
+  label: string;
+  unit: string;
+  // Plausible input bounds; values outside them are almost always typos or wrong units
+  min: number;
+  max: number;
+}
+
+// Readings are always stored in these units
+export const WATER_PARAMETER_INFO: Record<WaterParameter, WaterParameterInfo> = {
+  alkalinity: { label: 'Alkalinity', unit: 'dKH', min: 0, max: 30 },
+  calcium: { label: 'Calcium', unit: 'ppm', min: 0, max: 1000 },
+  magnesium: { label: 'Magnesium', unit: 'ppm', min: 0, max: 3000 },
+  nitrate: { label: 'Nitrate', unit: 'ppm', min: 0, max: 500 },
+  phosphate: { label: 'Phosphate', unit: 'ppm', min: 0, max: 10 },
+  salinity: { label: 'Salinity', unit: 'SG', min: 1.0, max: 1.04 },
+  temperature: { label: 'Temperature', unit: '°C', min: 0, max: 40 },
+  ph: { label: 'pH', unit: '', min: 6, max: 10 },
+};
+
+export function isWaterParameter(value: string): value is WaterParameter {
+  return (WATER_PARAMETERS as readonly string[]).includes(value);
+}
+
+/**
+ * Format a value with its unit, e.g. "8.2 dKH"
+ */
+export function formatReading(parameter: WaterParameter, value: number): string {
+  const { unit } = WATER_PARAMETER_INFO[parameter];
+  return unit ? `${value} ${unit}` : String(value);
+}
+
+// -----------------------------------------------------------------------------
+// Unit Conversion
+// -----------------------------------------------------------------------------
+
+const identity = (value: number): number => value;
+const fromFahrenheit = (value: number): number => ((value - 32) * 5) / 9;
+// Seawater at 25 °C: 35 ppt is about 1.0264 SG
+const fromPartsPerThousand = (value: number): number => 1 + value * 0.000754;
+
+// Units test kits commonly report in, keyed by lowercase unit without spaces
+const UNIT_CONVERSIONS: Record<WaterParameter, Record<string, (value: number) => number>> = {
+  alkalinity: {
+    dkh: identity,
+    'meq/l': (value) => value * 2.8,
+    ppm: (value) => value / 17.86, // as CaCO3
+    'mg/l': (value) => value / 17.86,
+  },
+  calcium: { ppm: identity, 'mg/l': identity },
+  magnesium: { ppm: identity, 'mg/l': identity },
+  nitrate: { ppm: identity, 'mg/l': identity },
+  phosphate: {
+    ppm: identity,
+    'mg/l': identity,
+    ppb: (value) => value / 1000,
+    'µg/l': (value) => value / 1000,
+  },
+  salinity: { sg: identity, ppt: fromPartsPerThousand, psu: fromPartsPerThousand, '‰': fromPartsPerThousand },
+  temperature: {
+    '°c': identity,
+    c: identity,
+    celsius: identity,
+    '°f': fromFahrenheit,
+    f: fromFahrenheit,
+    fahrenheit: fromFahrenheit,
+  },
+  ph: { ph: identity },
+};
+
+/**
+ * Convert a value to the parameter's stored unit
+ * A missing unit means the stored unit. Returns null for units that cannot be
+ * converted, e.g. ppm for salinity.
+ */
+export function convertToStoredUnit(
+  parameter: WaterParameter,
+  value: number,
+  unit: string | null | undefined
+): number | null {
+  const normalized = (unit || '').trim().toLowerCase().replace(/\s+/g, '');
+  const convert =
+    normalized === '' || normalized === WATER_PARAMETER_INFO[parameter].unit.toLowerCase()
+      ? identity
+      : UNIT_CONVERSIONS[parameter][normalized];
+
+  // NUMERIC(10,4) keeps four decimals
+  return convert ? Number(convert(value).toFixed(4)) : null;
+}